@@ -0,0 +1,56 @@
+/**
+ * validate-question-packs - Lint teacher question packs before they ship
+ *
+ * Usage: bun run validate-packs [directory ...]   (defaults to question-packs/)
+ *
+ * Reports every problem as "file:line: message" and exits non-zero if any
+ * pack has errors, so it can gate content changes in review.
+ */
+
+import { existsSync } from 'fs';
+import {
+  QuestionProviderRegistry,
+  registerBuiltInProviders,
+  loadQuestionPacks,
+  lintQuestionPacks,
+  formatPackIssue,
+  QUESTION_PACKS_DIR
+} from '../src/questions';
+import type { QuestionPack, QuestionPackIssue } from '../src/questions';
+
+// A missing default folder just means there are no packs yet, as it does for the server
+const explicit = process.argv.length > 2;
+const directories = explicit ? process.argv.slice(2) : [QUESTION_PACKS_DIR];
+
+// Built-in categories count as known, exactly as they do when the server loads packs
+const registry = QuestionProviderRegistry.getInstance();
+registerBuiltInProviders(registry);
+
+const packs: QuestionPack[] = [];
+const issues: QuestionPackIssue[] = [];
+
+for (const directory of directories) {
+  if (!existsSync(directory)) {
+    if (explicit) {
+      issues.push({ file: directory, message: 'Directory not found' });
+    }
+    continue;
+  }
+
+  const result = loadQuestionPacks(directory, registry);
+  packs.push(...result.packs);
+  issues.push(...result.errors);
+}
+
+// Lint across every directory at once so duplicates between them are caught too
+issues.push(...lintQuestionPacks(packs));
+
+issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+for (const issue of issues) {
+  console.error(formatPackIssue(issue));
+}
+
+const questionCount = packs.reduce((sum, pack) => sum + pack.questions.length, 0);
+console.log(`\n${packs.length} pack(s), ${questionCount} valid question(s), ${issues.length} problem(s)`);
+
+process.exit(issues.length > 0 ? 1 : 0);
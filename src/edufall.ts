@@ -2,7 +2,8 @@
  * EduFall - Multi-Subject Educational Falling Game
  *
  * Enhanced version of Free-Fall with:
- * - Multiple subjects (Math, Spelling, Geography, Science, History)
+ * - Multiple subjects (Math, Spelling, Geography, Science, History,
+ *   Vocabulary, Language, Typing)
  * - Enhanced scoring system with bonuses and multipliers
  * - Persistent leaderboards
  * - Player progress tracking
@@ -47,87 +48,17 @@ startServer((world: World) => {
 });
 
 /**
- * Create world decorations (tunnel, clouds, etc.)
+ * Create world decorations (clouds, etc.; each lane's tunnel is built by ArenaManager)
  */
 function createWorldDecorations(world: World): void {
   console.log('[EduFall] Creating world decorations...');
 
-  // Create falling tunnel
-  createTunnel(world);
-
   // Create clouds
   createClouds(world);
 
   console.log('[EduFall] World decorations created');
 }
 
-/**
- * Create the number tunnel - matches original math game
- * Tunnel goes from Y=100 down to Y=-100 with player spawning at Y=50
- */
-function createTunnel(world: World): void {
-  const TUNNEL_RADIUS = 10;
-  const TUNNEL_TOP = 100;     // Top of tunnel
-  const TUNNEL_BOTTOM = -100; // Bottom of tunnel
-  const RING_SPACING = 5;     // Space between rings vertically
-  const BLOCKS_PER_RING = 16;
-
-  // Custom Free-fall number blocks (0-15)
-  const numberTextures = [
-    'blocks/Free-fall/0.png',   // 0
-    'blocks/Free-fall/1.png',   // 1
-    'blocks/Free-fall/2.png',   // 2
-    'blocks/Free-fall/3.png',   // 3
-    'blocks/Free-fall/4.png',   // 4
-    'blocks/Free-fall/5.png',   // 5
-    'blocks/Free-fall/6.png',   // 6
-    'blocks/Free-fall/7.png',   // 7
-    'blocks/Free-fall/8.png',   // 8
-    'blocks/Free-fall/9.png',   // 9
-    'blocks/Free-fall/10.png',  // 10
-    'blocks/Free-fall/11.png',  // 11
-    'blocks/Free-fall/12.png',  // 12
-    'blocks/Free-fall/13.png',  // 13
-    'blocks/Free-fall/14.png',  // 14
-    'blocks/Free-fall/15.png'   // 15
-  ];
-
-  let blocksCreated = 0;
-  let ringIndex = 0;
-
-  // Create rings from top to bottom
-  for (let y = TUNNEL_TOP; y >= TUNNEL_BOTTOM; y -= RING_SPACING) {
-    for (let i = 0; i < BLOCKS_PER_RING; i++) {
-      const angle = (i / BLOCKS_PER_RING) * Math.PI * 2;
-      const x = Math.cos(angle) * TUNNEL_RADIUS;
-      const z = Math.sin(angle) * TUNNEL_RADIUS;
-
-      // Use number-based texture for visual variety
-      const textureIndex = (ringIndex + i) % numberTextures.length;
-      const texture = numberTextures[textureIndex];
-
-      const block = new Entity({
-        blockTextureUri: texture,
-        blockHalfExtents: { x: 0.5, y: 0.5, z: 0.5 },
-        rigidBodyOptions: {
-          type: RigidBodyType.FIXED,
-          colliders: [{
-            shape: ColliderShape.BLOCK,
-            halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
-            isSensor: true // Don't block player - they fall through
-          }]
-        }
-      });
-
-      block.spawn(world, { x, y, z });
-      blocksCreated++;
-    }
-    ringIndex++;
-  }
-
-  console.log(`[EduFall] Tunnel created with ${blocksCreated} blocks from Y=${TUNNEL_TOP} to Y=${TUNNEL_BOTTOM}`);
-}
-
 /**
  * Create cloud formations
  */
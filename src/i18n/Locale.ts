@@ -0,0 +1,83 @@
+/**
+ * Locale - Supported languages and per-locale number handling
+ *
+ * A player's locale decides the language of lobby labels, UI messages and
+ * question content. English is the source language: anything without a
+ * translation falls back to it.
+ *
+ * Numbers inside translated text follow the locale too, so Spanish shows a
+ * decimal comma ("0,5") and typed answers may use one.
+ */
+
+// ============ Types ============
+
+export type Locale = 'en' | 'es';
+
+// ============ Constants ============
+
+export const DEFAULT_LOCALE: Locale = 'en';
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es'];
+
+// Each language named in itself, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español'
+};
+
+// BCP 47 tags for Intl formatting
+const LOCALE_TAGS: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-ES'
+};
+
+// Locales that write decimals with a comma
+const DECIMAL_COMMA_LOCALES: Locale[] = ['es'];
+
+// ============ Parsing ============
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+/**
+ * Read a locale from untrusted input: "es", "es-MX" and "ES" all read as Spanish, anything unsupported is undefined
+ */
+export function parseLocale(value: unknown): Locale | undefined {
+  if (typeof value !== 'string') return undefined;
+  const language = value.trim().toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : undefined;
+}
+
+// ============ Numbers ============
+
+/**
+ * Format a number for display: 1,234.5 in English, 1234,5 in Spanish
+ */
+export function formatNumber(value: number, locale: Locale = DEFAULT_LOCALE): string {
+  return value.toLocaleString(LOCALE_TAGS[locale]);
+}
+
+/**
+ * Rewrite decimal points between digits for the locale ("0.5 + 0.25" -> "0,5 + 0,25")
+ */
+export function localizeNumbers(text: string, locale?: Locale): string {
+  if (!locale || !DECIMAL_COMMA_LOCALES.includes(locale)) return text;
+  return text.replace(/(\d)\.(\d)/g, '$1,$2');
+}
+
+/**
+ * Read a typed number back into source form ("0,75" -> "0.75") so it can be parsed
+ */
+export function normalizeNumberInput(text: string, locale?: Locale): string {
+  if (!locale || !DECIMAL_COMMA_LOCALES.includes(locale)) return text;
+  return text.replace(/(\d),(\d)/g, '$1.$2');
+}
+
+// ============ Text ============
+
+/**
+ * Strip accents so typed answers match without them ("Mexico" = "México")
+ */
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
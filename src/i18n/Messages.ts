@@ -0,0 +1,114 @@
+/**
+ * Messages - Server-side message catalogs for lobby labels and UI messages
+ *
+ * English is the source catalog; every other locale must translate each of
+ * its keys (the compiler checks this). Messages take {slot} parameters, and
+ * numeric parameters are formatted for the locale.
+ *
+ * The HTML UI keeps its own catalog for its static text (assets/ui/index.html).
+ */
+
+import type { Locale } from './Locale';
+import { DEFAULT_LOCALE, formatNumber } from './Locale';
+
+// ============ Catalogs ============
+
+const EN_MESSAGES = {
+  // Lobby blocks
+  'lobby.mode.solo': 'SOLO PLAY',
+  'lobby.mode.solo.description': 'Play alone and improve your skills',
+  'lobby.mode.tournament': 'TOURNAMENTS',
+  'lobby.mode.tournament.description': 'Compete against other players',
+  'lobby.mode.practice': 'PRACTICE',
+  'lobby.mode.practice.description': 'No score, just learn',
+  'lobby.mode.review': 'REVIEW',
+  'lobby.mode.review.description': 'Revisit questions you keep missing',
+  'lobby.mode.typed': 'TYPE IT',
+  'lobby.mode.typed.description': 'Type your answers while you fall',
+  'lobby.subject.math': 'MATH',
+  'lobby.subject.spelling': 'SPELLING',
+  'lobby.subject.geography': 'GEOGRAPHY',
+  'lobby.subject.science': 'SCIENCE',
+  'lobby.subject.history': 'HISTORY',
+  'lobby.subject.vocabulary': 'VOCAB',
+  'lobby.subject.language': 'LANGUAGE',
+  'lobby.subject.typing': 'TYPING',
+  'lobby.difficulty.beginner': 'BEGINNER',
+  'lobby.difficulty.intermediate': 'MODERATE',
+  'lobby.difficulty.advanced': 'HARD',
+  'lobby.category.all': 'ALL',
+  'lobby.category.back': '< BACK',
+  'lobby.category.more': 'MORE >',
+
+  // Tournaments and matches
+  'tournament.defaultName': '{name}\'s Tournament',
+  'tournament.createFailed': 'Failed to create tournament',
+  'tournament.joinFailed': 'Failed to join tournament',
+  'match.searching': 'Looking for opponents...',
+
+  // Game over
+  'gameOver.newHighScore': 'New High Score!',
+  'gameOver.newBestStreak': 'New Best Streak: {streak}'
+} as const;
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+const ES_MESSAGES: Record<MessageKey, string> = {
+  'lobby.mode.solo': 'UN JUGADOR',
+  'lobby.mode.solo.description': 'Juega solo y mejora tus habilidades',
+  'lobby.mode.tournament': 'TORNEOS',
+  'lobby.mode.tournament.description': 'Compite contra otros jugadores',
+  'lobby.mode.practice': 'PRÁCTICA',
+  'lobby.mode.practice.description': 'Sin puntos, solo aprender',
+  'lobby.mode.review': 'REPASO',
+  'lobby.mode.review.description': 'Repasa las preguntas que sueles fallar',
+  'lobby.mode.typed': 'ESCRÍBELO',
+  'lobby.mode.typed.description': 'Escribe tus respuestas mientras caes',
+  'lobby.subject.math': 'MATEMÁTICAS',
+  'lobby.subject.spelling': 'ORTOGRAFÍA',
+  'lobby.subject.geography': 'GEOGRAFÍA',
+  'lobby.subject.science': 'CIENCIAS',
+  'lobby.subject.history': 'HISTORIA',
+  'lobby.subject.vocabulary': 'VOCABULARIO',
+  'lobby.subject.language': 'LENGUA',
+  'lobby.subject.typing': 'MECANOGRAFÍA',
+  'lobby.difficulty.beginner': 'PRINCIPIANTE',
+  'lobby.difficulty.intermediate': 'MEDIO',
+  'lobby.difficulty.advanced': 'DIFÍCIL',
+  'lobby.category.all': 'TODAS',
+  'lobby.category.back': '< ATRÁS',
+  'lobby.category.more': 'MÁS >',
+
+  'tournament.defaultName': 'Torneo de {name}',
+  'tournament.createFailed': 'No se pudo crear el torneo',
+  'tournament.joinFailed': 'No se pudo unir al torneo',
+  'match.searching': 'Buscando rivales...',
+
+  'gameOver.newHighScore': '¡Nuevo récord!',
+  'gameOver.newBestStreak': 'Nueva mejor racha: {streak}'
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES
+};
+
+// ============ Translation ============
+
+/**
+ * Look up a message for a locale and fill its {slot} parameters (English when a locale lacks it)
+ */
+export function translate(
+  locale: Locale | undefined,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const resolved = locale ?? DEFAULT_LOCALE;
+  const template = MESSAGES[resolved]?.[key] ?? EN_MESSAGES[key];
+
+  return template.replace(/\{(\w+)\}/g, (match, slot: string) => {
+    const value = params[slot];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, resolved) : value;
+  });
+}
@@ -0,0 +1,18 @@
+/**
+ * i18n Module - Exports
+ */
+
+export {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  LOCALE_NAMES,
+  isLocale,
+  parseLocale,
+  formatNumber,
+  localizeNumbers,
+  normalizeNumberInput,
+  foldAccents
+} from './Locale';
+export type { Locale } from './Locale';
+export { translate } from './Messages';
+export type { MessageKey } from './Messages';
@@ -3,7 +3,8 @@
  *
  * This file re-exports the EduFall educational game as the main entry point.
  * The EduFall version includes:
- * - Multi-subject questions (Math, Spelling, Geography, Science, History)
+ * - Multi-subject questions (Math, Spelling, Geography, Science, History,
+ *   Vocabulary, Language, Typing)
  * - Fall-to-select lobby system
  * - Tournament support
  * - Enhanced scoring and leaderboards
@@ -4,7 +4,7 @@
  * The lobby is the starting point where players:
  * - Spawn and see their stats
  * - View leaderboards
- * - Choose to play solo, tournaments, or practice
+ * - Choose to play solo, tournaments, practice, review, or typed answers
  *
  * Uses the fall-to-select mechanic for menu navigation
  */
@@ -19,12 +19,16 @@ import {
   SceneUI
 } from 'hytopia';
 
-import type { SubjectType, QuestionDifficulty } from '../questions/QuestionProvider';
+import { QuestionProviderRegistry } from '../questions/QuestionProvider';
+import type { SubjectType, QuestionDifficulty, QuestionCategory } from '../questions/QuestionProvider';
+import type { ContentFilter } from '../questions/Standards';
+import type { Locale, MessageKey } from '../i18n';
+import { translate } from '../i18n';
 import { GAME_CONSTANTS } from '../types';
 
 // ============ Types ============
 
-export type GameMode = 'solo' | 'tournament' | 'practice';
+export type GameMode = 'solo' | 'tournament' | 'practice' | 'review' | 'typed';
 
 export interface LobbyState {
   playerId: string;
@@ -35,14 +39,17 @@ export interface LobbyState {
   selectedMode?: GameMode;
   selectedSubject?: SubjectType;
   selectedDifficulty?: QuestionDifficulty;
-  selectedCategory?: string;
+  selectedCategory?: string;  // Undefined plays every category of the subject
+
+  // Page of the category blocks being shown
+  categoryPage?: number;
 }
 
 export type SelectionPhase =
-  | 'mode'           // Choose: Solo, Tournament, Practice
+  | 'mode'           // Choose: Solo, Tournament, Practice, Review, Typed
   | 'subject'        // Choose: Math, Spelling, etc.
   | 'difficulty'     // Choose: Beginner, Moderate, Hard
-  | 'category'       // Choose: Subject-specific categories
+  | 'category'       // Choose: All, or one of the subject's categories
   | 'ready';         // Ready to start
 
 // ============ Constants ============
@@ -58,7 +65,9 @@ const BLOCK_HALF_EXTENTS = { x: 0.5, y: 0.5, z: 0.5 };  // Single block size
 const MODE_TEXTURES: Record<GameMode, string> = {
   'solo': 'blocks/emerald-block.png',
   'tournament': 'blocks/gold-ore.png',
-  'practice': 'blocks/diamond-block.png'
+  'practice': 'blocks/diamond-block.png',
+  'review': 'blocks/swirl-rune.png',
+  'typed': 'blocks/oak-planks.png'
 };
 
 const SUBJECT_TEXTURES: Record<SubjectType, string> = {
@@ -72,6 +81,11 @@ const SUBJECT_TEXTURES: Record<SubjectType, string> = {
   'typing': 'blocks/stone-bricks.png'
 };
 
+// Blocks offered at each step, left to right (labels come from the message catalogs)
+const LOBBY_MODES: GameMode[] = ['solo', 'tournament', 'practice', 'review', 'typed'];
+const LOBBY_SUBJECTS: SubjectType[] = ['math', 'spelling', 'geography', 'science', 'history', 'vocabulary', 'language', 'typing'];
+const LOBBY_DIFFICULTIES: Exclude<QuestionDifficulty, 'expert'>[] = ['beginner', 'intermediate', 'advanced'];
+
 const DIFFICULTY_TEXTURES: Record<QuestionDifficulty, string> = {
   'beginner': 'blocks/emerald-block.png',
   'intermediate': 'blocks/gold-ore.png',
@@ -79,6 +93,18 @@ const DIFFICULTY_TEXTURES: Record<QuestionDifficulty, string> = {
   'expert': 'blocks/diamond-ore.png'
 };
 
+const ALL_CATEGORIES_TEXTURE = 'blocks/gold-ore.png';
+const CATEGORY_PAGE_TEXTURE = 'blocks/stone-bricks.png';
+const CATEGORIES_PER_PAGE = 4;  // Besides the All and paging blocks
+
+/** One block of the category step: a category, All (no category) or a page turn */
+interface CategoryChoice {
+  label: string;
+  textureUri: string;
+  category?: string;
+  page?: number;
+}
+
 // ============ LobbyManager ============
 
 export class LobbyManager {
@@ -97,6 +123,12 @@ export class LobbyManager {
   // Text labels per player
   private _textLabels: Map<string, SceneUI[]> = new Map();
 
+  // Grade band / standard per player, kept across visits to the lobby
+  private _contentFilters: Map<string, ContentFilter> = new Map();
+
+  // Language of each player's block labels
+  private _locales: Map<string, Locale> = new Map();
+
   // Callbacks
   private _onSelectionComplete: ((playerId: string, state: LobbyState) => void)[] = [];
   private _onTournamentSelected: ((playerId: string) => void)[] = [];
@@ -170,6 +202,7 @@ export class LobbyManager {
       state.selectedSubject = undefined;
       state.selectedDifficulty = undefined;
       state.selectedCategory = undefined;
+      state.categoryPage = undefined;
     }
 
     // Respawn in lobby
@@ -190,12 +223,66 @@ export class LobbyManager {
     return this._playerStates.get(playerId)?.isInLobby ?? false;
   }
 
+  /**
+   * Take a player out of the lobby (e.g. when a match pulls them into play)
+   */
+  public leaveLobby(playerId: string): void {
+    this._clearSelectionBlocks(playerId);
+
+    const state = this._playerStates.get(playerId);
+    if (state) {
+      state.isInLobby = false;
+      state.selectionPhase = 'ready';
+    }
+  }
+
   /**
    * Handle player leaving
    */
   public handlePlayerLeave(playerId: string): void {
     this._clearSelectionBlocks(playerId);
     this._playerStates.delete(playerId);
+    this._contentFilters.delete(playerId);
+    this._locales.delete(playerId);
+  }
+
+  /**
+   * Limit the categories offered to a player to a grade band and/or standard
+   */
+  public setContentFilter(playerId: string, filter: ContentFilter): void {
+    this._contentFilters.set(playerId, filter);
+  }
+
+  /**
+   * Show a player's block labels and category names in a language
+   */
+  public setLocale(playerId: string, locale: Locale): void {
+    this._locales.set(playerId, locale);
+  }
+
+  /**
+   * Show the player's current selection step again, e.g. after their language changed
+   */
+  public refreshSelection(player: Player, playerEntity: PlayerEntity): void {
+    const state = this._playerStates.get(player.id);
+    if (!state?.isInLobby) return;
+
+    switch (state.selectionPhase) {
+      case 'mode':
+        this._showModeSelection(player, playerEntity);
+        break;
+      case 'subject':
+        this._showSubjectSelection(player, playerEntity);
+        break;
+      case 'difficulty':
+        this._showDifficultySelection(player, playerEntity);
+        break;
+      case 'category':
+        this._showCategorySelection(player, playerEntity);
+        break;
+      default:
+        break;
+    }
   }
 
   /**
@@ -235,11 +322,11 @@ export class LobbyManager {
 
     this._clearSelectionBlocks(player.id);
 
-    const modes: { mode: GameMode; label: string; description: string }[] = [
-      { mode: 'solo', label: 'SOLO PLAY', description: 'Play alone and improve your skills' },
-      { mode: 'tournament', label: 'TOURNAMENTS', description: 'Compete against other players' },
-      { mode: 'practice', label: 'PRACTICE', description: 'No score, just learn' }
-    ];
+    const modes: { mode: GameMode; label: string; description: string }[] = LOBBY_MODES.map(mode => ({
+      mode,
+      label: this._translate(player.id, `lobby.mode.${mode}`),
+      description: this._translate(player.id, `lobby.mode.${mode}.description`)
+    }));
 
     const blocks: Entity[] = [];
     const labels: Entity[] = [];
@@ -315,7 +402,7 @@ export class LobbyManager {
         type: 'show-tournament-lobby'
       });
     } else {
-      // Show subject selection for solo/practice
+      // Show subject selection for solo/practice/review/typed
       state.selectionPhase = 'subject';
 
       setTimeout(() => {
@@ -329,13 +416,10 @@ export class LobbyManager {
 
     this._clearSelectionBlocks(player.id);
 
-    const subjects: { subject: SubjectType; label: string }[] = [
-      { subject: 'math', label: 'MATH' },
-      { subject: 'spelling', label: 'SPELLING' },
-      { subject: 'geography', label: 'GEOGRAPHY' },
-      { subject: 'science', label: 'SCIENCE' },
-      { subject: 'history', label: 'HISTORY' }
-    ];
+    const subjects: { subject: SubjectType; label: string }[] = LOBBY_SUBJECTS.map(subject => ({
+      subject,
+      label: this._translate(player.id, `lobby.subject.${subject}`)
+    }));
 
     const blocks: Entity[] = [];
     const labels: Entity[] = [];
@@ -406,11 +490,10 @@ export class LobbyManager {
 
     this._clearSelectionBlocks(player.id);
 
-    const difficulties: { difficulty: QuestionDifficulty; label: string }[] = [
-      { difficulty: 'beginner', label: 'BEGINNER' },
-      { difficulty: 'intermediate', label: 'MODERATE' },
-      { difficulty: 'advanced', label: 'HARD' }
-    ];
+    const difficulties: { difficulty: QuestionDifficulty; label: string }[] = LOBBY_DIFFICULTIES.map(difficulty => ({
+      difficulty,
+      label: this._translate(player.id, `lobby.difficulty.${difficulty}`)
+    }));
 
     const blocks: Entity[] = [];
     const labels: Entity[] = [];
@@ -469,11 +552,139 @@ export class LobbyManager {
     if (!state || state.selectionPhase !== 'difficulty') return;
 
     state.selectedDifficulty = difficulty;
-    state.selectionPhase = 'ready';
-    state.isInLobby = false;
 
     console.log(`[LobbyManager] ${player.username} selected difficulty: ${difficulty}`);
 
+    // Nothing to choose between - play the whole subject
+    if (this._getCategories(player.id, state.selectedSubject).length <= 1) {
+      this._completeSelection(player, state);
+      return;
+    }
+
+    state.selectionPhase = 'category';
+    state.categoryPage = 0;
+
+    playerEntity.setPosition({ x: 0, y: LOBBY_SPAWN_Y, z: 0 });
+
+    setTimeout(() => {
+      this._showCategorySelection(player, playerEntity);
+    }, 500);
+  }
+
+  private _showCategorySelection(player: Player, playerEntity: PlayerEntity): void {
+    if (!this._world) return;
+
+    const state = this._playerStates.get(player.id);
+    if (!state || state.selectionPhase !== 'category') return;
+
+    this._clearSelectionBlocks(player.id);
+
+    const categories = this._getCategories(player.id, state.selectedSubject);
+    const pageCount = Math.ceil(categories.length / CATEGORIES_PER_PAGE);
+    const page = Math.min(state.categoryPage ?? 0, pageCount - 1);
+    const categoryTexture = state.selectedSubject
+      ? SUBJECT_TEXTURES[state.selectedSubject]
+      : 'blocks/diamond-block.png';
+
+    const choices: CategoryChoice[] = [{ label: this._translate(player.id, 'lobby.category.all'), textureUri: ALL_CATEGORIES_TEXTURE }];
+    if (page > 0) {
+      choices.push({ label: this._translate(player.id, 'lobby.category.back'), textureUri: CATEGORY_PAGE_TEXTURE, page: page - 1 });
+    }
+    categories
+      .slice(page * CATEGORIES_PER_PAGE, (page + 1) * CATEGORIES_PER_PAGE)
+      .forEach(category => choices.push({
+        label: category.name.toUpperCase(),
+        textureUri: categoryTexture,
+        category: category.id
+      }));
+    if (page < pageCount - 1) {
+      choices.push({ label: this._translate(player.id, 'lobby.category.more'), textureUri: CATEGORY_PAGE_TEXTURE, page: page + 1 });
+    }
+
+    const blocks: Entity[] = [];
+    const labels: Entity[] = [];
+
+    const startX = -((choices.length - 1) * SELECTION_BLOCK_SPACING) / 2;
+
+    choices.forEach((choice, index) => {
+      const x = startX + (index * SELECTION_BLOCK_SPACING);
+
+      const block = new Entity({
+        blockTextureUri: choice.textureUri,
+        blockHalfExtents: BLOCK_HALF_EXTENTS,
+        name: choice.page !== undefined ? `category_page_${choice.page}` : `category_${choice.category ?? 'all'}`,
+        rigidBodyOptions: {
+          type: RigidBodyType.FIXED,
+          colliders: [{
+            shape: ColliderShape.BLOCK,
+            halfExtents: BLOCK_HALF_EXTENTS,
+            isSensor: true, // Player falls through but collision is still detected
+            onCollision: (other, started) => {
+              if (started && other instanceof PlayerEntity && other.player?.id === player.id) {
+                if (choice.page !== undefined) {
+                  this._handleCategoryPage(player, playerEntity, choice.page);
+                } else {
+                  this._handleCategorySelection(player, choice.category);
+                }
+              }
+            }
+          }]
+        }
+      });
+
+      block.spawn(this._world!, { x, y: SELECTION_BLOCK_Y, z: 0 });
+      blocks.push(block);
+
+      // Create text label using SceneUI attached to the block
+      const textLabel = new SceneUI({
+        templateId: 'selection-label',
+        attachedToEntity: block,
+        offset: { x: 0, y: 10, z: 0 },
+        state: {
+          text: choice.label
+        }
+      });
+
+      textLabel.load(this._world!);
+      labels.push(textLabel);
+    });
+
+    this._selectionBlocks.set(player.id, blocks);
+    this._textLabels.set(player.id, labels);
+  }
+
+  private _handleCategoryPage(player: Player, playerEntity: PlayerEntity, page: number): void {
+    const state = this._playerStates.get(player.id);
+    if (!state || state.selectionPhase !== 'category' || state.categoryPage === page) return;
+
+    state.categoryPage = page;
+
+    console.log(`[LobbyManager] ${player.username} turned to category page ${page + 1}`);
+
+    // Clear now so the blocks can't be hit again while the player is moved back up
+    this._clearSelectionBlocks(player.id);
+    playerEntity.setPosition({ x: 0, y: LOBBY_SPAWN_Y, z: 0 });
+
+    setTimeout(() => {
+      this._showCategorySelection(player, playerEntity);
+    }, 500);
+  }
+
+  private _handleCategorySelection(player: Player, category: string | undefined): void {
+    const state = this._playerStates.get(player.id);
+    if (!state || state.selectionPhase !== 'category') return;
+
+    state.selectedCategory = category;
+
+    console.log(`[LobbyManager] ${player.username} selected category: ${category ?? 'all'}`);
+
+    this._completeSelection(player, state);
+  }
+
+  private _completeSelection(player: Player, state: LobbyState): void {
+    state.selectionPhase = 'ready';
+    state.isInLobby = false;
+
     this._clearSelectionBlocks(player.id);
 
     // Notify that selection is complete
@@ -483,10 +694,35 @@ export class LobbyManager {
       type: 'selection-complete',
       mode: state.selectedMode,
       subject: state.selectedSubject,
-      difficulty: state.selectedDifficulty
+      difficulty: state.selectedDifficulty,
+      category: state.selectedCategory
     });
   }
 
+  /**
+   * A lobby message in the player's language
+   */
+  private _translate(playerId: string, key: MessageKey): string {
+    return translate(this._locales.get(playerId), key);
+  }
+
+  /**
+   * Categories offered for a subject: those in the player's grade band / standard,
+   * skipping any with no questions (e.g. listen-and-spell without recordings), named in their language
+   */
+  private _getCategories(playerId: string, subject: SubjectType | undefined): QuestionCategory[] {
+    if (!subject) return [];
+
+    const registry = QuestionProviderRegistry.getInstance();
+    const provider = registry.getProvider(subject);
+    if (!provider) return [];
+
+    const { questionsPerCategory } = provider.getStats();
+    return registry
+      .getCategories(subject, this._contentFilters.get(playerId), this._locales.get(playerId))
+      .filter(category => questionsPerCategory[category.id] !== 0);
+  }
+
   // ============ Lobby Platform ============
 
   private _createLobbyPlatform(): void {
@@ -0,0 +1,207 @@
+/**
+ * ArenaManager - Allocates a private play lane to each active player
+ *
+ * Every solo game uses the same layout (spawn point, answer row, landing
+ * platform, power-ups). To let several players play at once without their
+ * blocks overlapping, each active game is given its own lane: a column of
+ * world space offset along the X axis. Lane 0 sits in the tunnel at the
+ * world origin; further lanes are placed side by side, each getting its own
+ * tunnel the first time it is used (tunnels are kept for reuse).
+ *
+ * Lanes are handed out lowest-index-first and returned to the pool when the
+ * player's game ends or the player disconnects.
+ */
+
+import { Entity, RigidBodyType, ColliderShape } from 'hytopia';
+import type { Vector3Like, World } from 'hytopia';
+
+// ============ Types ============
+
+export interface ArenaLane {
+  index: number;
+  playerId: string;
+  offset: Vector3Like;
+}
+
+// ============ Constants ============
+
+const LANE_SPACING = 60; // Wide enough for the 14-block landing platform plus margin
+const MAX_LANES = 16;
+
+// Number tunnel around each lane - matches original math game
+// Tunnel goes from Y=100 down to Y=-100 with player spawning at Y=50
+const TUNNEL_RADIUS = 10;
+const TUNNEL_TOP = 100;     // Top of tunnel
+const TUNNEL_BOTTOM = -100; // Bottom of tunnel
+const RING_SPACING = 5;     // Space between rings vertically
+const BLOCKS_PER_RING = 16;
+const TUNNEL_TEXTURE_COUNT = 16; // Custom Free-fall number blocks (0-15)
+
+// ============ ArenaManager ============
+
+export class ArenaManager {
+  private static _instance: ArenaManager;
+
+  private _world: World | null = null;
+
+  // Player -> allocated lane
+  private _lanes: Map<string, ArenaLane> = new Map();
+
+  // Lane indexes whose tunnel has been built
+  private _builtTunnels: Set<number> = new Set();
+
+  private constructor() {
+    console.log('[ArenaManager] Initialized');
+  }
+
+  public static getInstance(): ArenaManager {
+    if (!ArenaManager._instance) {
+      ArenaManager._instance = new ArenaManager();
+    }
+    return ArenaManager._instance;
+  }
+
+  /**
+   * Set the world and build lane 0's tunnel, which the lobby also falls through
+   */
+  public setWorld(world: World): void {
+    this._world = world;
+    this._buildTunnel(0);
+  }
+
+  // ============ Public API ============
+
+  /**
+   * Allocate a lane for a player (returns the existing lane if already allocated)
+   */
+  public allocateLane(playerId: string): ArenaLane {
+    const existing = this._lanes.get(playerId);
+    if (existing) return existing;
+
+    const index = this._findFreeIndex();
+    const lane: ArenaLane = {
+      index,
+      playerId,
+      offset: this._getLaneOffset(index)
+    };
+
+    this._lanes.set(playerId, lane);
+    this._buildTunnel(index);
+    console.log(`[ArenaManager] Allocated lane ${index} to player ${playerId} (x=${lane.offset.x})`);
+
+    return lane;
+  }
+
+  /**
+   * Release a player's lane back to the pool
+   */
+  public releaseLane(playerId: string): void {
+    const lane = this._lanes.get(playerId);
+    if (!lane) return;
+
+    this._lanes.delete(playerId);
+    console.log(`[ArenaManager] Released lane ${lane.index} from player ${playerId}`);
+  }
+
+  /**
+   * Get a player's current lane
+   */
+  public getLane(playerId: string): ArenaLane | undefined {
+    return this._lanes.get(playerId);
+  }
+
+  /**
+   * Get the world offset for a player's lane (origin if no lane allocated)
+   */
+  public getOffset(playerId: string): Vector3Like {
+    return this._lanes.get(playerId)?.offset ?? { x: 0, y: 0, z: 0 };
+  }
+
+  /**
+   * Translate a lane-local position into world space for a player
+   */
+  public toWorldPosition(playerId: string, position: Vector3Like): Vector3Like {
+    const offset = this.getOffset(playerId);
+    return {
+      x: position.x + offset.x,
+      y: position.y + offset.y,
+      z: position.z + offset.z
+    };
+  }
+
+  /**
+   * Number of lanes currently in use
+   */
+  public getActiveLaneCount(): number {
+    return this._lanes.size;
+  }
+
+  // ============ Private Methods ============
+
+  private _findFreeIndex(): number {
+    const used = new Set(Array.from(this._lanes.values()).map(l => l.index));
+    for (let i = 0; i < MAX_LANES; i++) {
+      if (!used.has(i)) return i;
+    }
+
+    // All lanes busy - keep extending rather than overlapping another player
+    console.warn(`[ArenaManager] All ${MAX_LANES} lanes in use, allocating overflow lane`);
+    let index = MAX_LANES;
+    while (used.has(index)) index++;
+    return index;
+  }
+
+  /**
+   * Build the ring of number blocks around a lane, once per lane
+   */
+  private _buildTunnel(index: number): void {
+    if (!this._world || this._builtTunnels.has(index)) return;
+    this._builtTunnels.add(index);
+
+    const offset = this._getLaneOffset(index);
+    let blocksCreated = 0;
+    let ringIndex = 0;
+
+    // Create rings from top to bottom
+    for (let y = TUNNEL_TOP; y >= TUNNEL_BOTTOM; y -= RING_SPACING) {
+      for (let i = 0; i < BLOCKS_PER_RING; i++) {
+        const angle = (i / BLOCKS_PER_RING) * Math.PI * 2;
+
+        // Use number-based texture for visual variety
+        const block = new Entity({
+          blockTextureUri: `blocks/Free-fall/${(ringIndex + i) % TUNNEL_TEXTURE_COUNT}.png`,
+          blockHalfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+          rigidBodyOptions: {
+            type: RigidBodyType.FIXED,
+            colliders: [{
+              shape: ColliderShape.BLOCK,
+              halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+              isSensor: true // Don't block player - they fall through
+            }]
+          }
+        });
+
+        block.spawn(this._world, {
+          x: offset.x + Math.cos(angle) * TUNNEL_RADIUS,
+          y: offset.y + y,
+          z: offset.z + Math.sin(angle) * TUNNEL_RADIUS
+        });
+        blocksCreated++;
+      }
+      ringIndex++;
+    }
+
+    console.log(`[ArenaManager] Tunnel for lane ${index} created with ${blocksCreated} blocks at x=${offset.x}`);
+  }
+
+  private _getLaneOffset(index: number): Vector3Like {
+    // Alternate sides of the tunnel: 0, +1, -1, +2, -2, ...
+    const step = Math.ceil(index / 2);
+    const side = index % 2 === 1 ? 1 : -1;
+    return {
+      x: index === 0 ? 0 : side * step * LANE_SPACING,
+      y: 0,
+      z: 0
+    };
+  }
+}
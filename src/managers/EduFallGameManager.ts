@@ -2,13 +2,15 @@
  * EduFallGameManager - Enhanced game manager with multi-subject support
  *
  * This is the new game manager that integrates:
- * - Multiple educational subjects (Math, Spelling, Geography, Science, History)
+ * - Multiple educational subjects (Math, Spelling, Geography, Science, History,
+ *   Vocabulary, Language, Typing)
  * - Enhanced scoring system with bonuses and multipliers
  * - Native persistence for player progress
  * - Persistent leaderboards
  * - Modular question providers
  * - Fall-to-select lobby system
  * - Tournament system
+ * - Per-player arena lanes so concurrent games don't overlap
  */
 
 import {
@@ -24,6 +26,7 @@ import {
   PlayerCameraMode,
   SceneUI
 } from 'hytopia';
+import type { Vector3Like } from 'hytopia';
 
 import { FallingPlayerController } from '../controllers/FallingPlayerController';
 import type { Difficulty } from '../types';
@@ -36,20 +39,57 @@ import {
   Question,
   QuestionDifficulty,
   SubjectType,
-  initializeQuestionProviders
+  initializeQuestionProviders,
+  createSeededRandom,
+  createRandomSeed,
+  getQuestionFormat,
+  getCorrectChoices,
+  getAnswerChoices,
+  joinSelection,
+  splitSelection,
+  parseGradeLevel
 } from '../questions';
-import { PersistenceManager } from '../persistence/PersistenceManager';
+import type { RandomSource, QuestionExposure, ContentFilter } from '../questions';
+import { PersistenceManager, getReviewKey } from '../persistence/PersistenceManager';
 import { LeaderboardManager } from '../persistence/LeaderboardManager';
+import type { ReviewItem } from '../persistence/PersistenceManager';
+
+// Localization
+import { SUPPORTED_LOCALES, LOCALE_NAMES, parseLocale, foldAccents, translate } from '../i18n';
+import type { Locale } from '../i18n';
 
 // Lobby and Tournament systems
 import { LobbyManager, GameMode, LobbyState } from '../lobby';
 import { TournamentManager } from '../tournament';
+import type { MatchQuestionEvent, MatchEndEvent } from '../tournament';
 
 // Power-up system
 import { PowerUpManager } from './PowerUpManager';
 
+// Per-player play areas
+import { ArenaManager } from './ArenaManager';
+
 // ============ Types ============
 
+/** A question asked during a session, with the player's answer and timing */
+export interface AnsweredQuestion {
+  question: Question;
+  answer: string;  // Empty when the player fell past every block
+  correct: boolean;
+  responseTimeMs: number;
+}
+
+/** A missed question as shown in the game-over "review your mistakes" list */
+export interface MistakeSummary {
+  questionText: string;
+  questionSubtext?: string;
+  imageUri?: string;
+  answer: string;
+  correctAnswer: string;
+  explanation?: string;
+  misconception?: string;  // Label of the error that leads to the chosen wrong answer
+}
+
 export interface EduFallPlayerState {
   // Game state
   gameActive: boolean;
@@ -62,14 +102,52 @@ export interface EduFallPlayerState {
   // Settings
   difficulty: QuestionDifficulty;
   subject: SubjectType;
+  category?: string;  // Chosen in the lobby; undefined mixes every category
+  contentFilter?: ContentFilter;  // The player's grade band / standard setting
+  locale?: Locale;  // Language questions are shown in
   isPractice?: boolean;
 
+  // Free-response mode: no answer blocks, the player types the answer while falling
+  isFreeResponse?: boolean;
+
+  // Review mode serves due spaced-repetition items before new questions
+  isReview?: boolean;
+  reviewedKeys?: string[];
+
+  // Every question asked this session, used for the mistake list and replay
+  answerHistory?: AnsweredQuestion[];
+
+  // Mistake replay round: one fall per missed question, unscored
+  isReplay?: boolean;
+  replayQueue?: Question[];
+  showingGameOver?: boolean;  // Game-over screen is up, so a replay may still start
+
+  // Seeded randomness so a session's questions and answer order can be replayed
+  seed?: string;
+  random?: RandomSource;
+  hasFixedSeed?: boolean;  // Seed was supplied, so skip the per-player cross-session preference
+
+  // Fact keys asked this game, so questions don't repeat
+  askedKeys?: string[];
+
+  // Multi-select and sequence: blocks already passed through during this fall, in order
+  selectedAnswers?: string[];
+
+  // Hints revealed for the current question (each one lowers its points)
+  hintsUsed?: number;
+
   // Physics
   currentGravityScale: number;
   isFinalFall: boolean;
 
   // Session tracking
   sessionStartTime: number;
+
+  // Competitive match (quick match / tournament) the player is currently playing
+  matchId?: string;
+
+  // Translated match choices -> the shared (English) answers the match is scored on
+  matchAnswers?: Record<string, string>;
 }
 
 export interface EduFallPlayerData {
@@ -85,6 +163,20 @@ const DIFFICULTY_MAP: Record<Difficulty, QuestionDifficulty> = {
   hard: 'advanced'
 };
 
+// How long the results screen stays up before returning to the lobby
+const RESULTS_DISPLAY_MS = 8000;
+const MISTAKES_DISPLAY_MS = 20000;  // Longer so there is time to read explanations or start a replay
+
+const MAX_TYPED_ANSWER_LENGTH = 64;
+const MAX_TYPED_QUESTION_REROLLS = 5;  // Image-choice questions can't be typed, so draw again
+const QUESTION_AUDIO_REFERENCE_DISTANCE = 8;
+
+// Answer block layout by question format
+const TRUE_FALSE_BLOCK_HALF_EXTENT = 1.5;
+const TRUE_FALSE_BLOCK_SPACING = 8;
+const MULTI_SELECT_STEP_HEIGHT = 5;
+const SEQUENCE_ROW_HEIGHT = 12;  // Clears the labels floating above the row below
+
 // ============ Game Manager ============
 
 export class EduFallGameManager {
@@ -102,6 +194,7 @@ export class EduFallGameManager {
   private _lobbyManager: LobbyManager;
   private _tournamentManager: TournamentManager;
   private _powerUpManager: PowerUpManager;
+  private _arenaManager: ArenaManager;
 
   // Audio
   private _backgroundMusic: Audio | null = null;
@@ -109,8 +202,8 @@ export class EduFallGameManager {
   private _lobbyMusic: Audio | null = null;
   private _isLobbyMusicPlaying: boolean = false;
 
-  // Landing platform entities
-  private _platformEntities: Entity[] = [];
+  // Landing platform entities (per player)
+  private _platformEntities: Map<string, Entity[]> = new Map();
 
   // Answer block entities (per player)
   private _answerBlocks: Map<string, Entity[]> = new Map();
@@ -132,10 +225,17 @@ export class EduFallGameManager {
     this._lobbyManager = LobbyManager.getInstance();
     this._tournamentManager = TournamentManager.getInstance();
     this._powerUpManager = PowerUpManager.getInstance(world);
+    this._arenaManager = ArenaManager.getInstance();
 
     // Set world references
     this._lobbyManager.setWorld(world);
     this._tournamentManager.setWorld(world);
+    this._arenaManager.setWorld(world);
+
+    // Resume leagues (and other ongoing tournaments) from the previous server session;
+    // tournament saves are held back until this finishes
+    this._tournamentManager.restorePersistedTournaments()
+      .catch(error => console.error('[EduFallGameManager] Failed to restore tournaments:', error));
 
     // Create background music (game music)
     this._backgroundMusic = new Audio({
@@ -183,13 +283,18 @@ export class EduFallGameManager {
   }
 
   /**
-   * Start a new game for a player
+   * Start a new game for a player (pass a seed to replay an earlier session's questions,
+   * and a category to ask only from that part of the subject)
    */
   public async startGame(
     player: Player,
     difficulty: Difficulty,
     subject: SubjectType = 'math',
-    isPractice: boolean = false
+    isPractice: boolean = false,
+    isReview: boolean = false,
+    isFreeResponse: boolean = false,
+    seed?: string,
+    category?: string
   ): Promise<void> {
     const playerData = this._players.get(player.id);
     if (!playerData) {
@@ -197,7 +302,9 @@ export class EduFallGameManager {
       return;
     }
 
-    console.log(`[EduFallGameManager] Starting ${subject} ${isPractice ? 'practice' : 'game'} for ${player.username} (${difficulty})`);
+    const modeName = isReview ? 'review' : isPractice ? 'practice' : 'game';
+    const sessionSeed = seed || createRandomSeed();
+    console.log(`[EduFallGameManager] Starting ${subject}${category ? `/${category}` : ''} ${modeName} for ${player.username} (${difficulty}, seed ${sessionSeed})`);
 
     // Initialize state
     const questionDifficulty = DIFFICULTY_MAP[difficulty];
@@ -210,14 +317,28 @@ export class EduFallGameManager {
       questionStartTime: Date.now(),
       difficulty: questionDifficulty,
       subject,
+      category,
+      contentFilter: this._persistenceManager.getContentFilter(player.id),
+      locale: this._persistenceManager.getLocale(player.id),
       currentGravityScale: GAME_CONSTANTS.PLAYER_GRAVITY_SCALE,
       isFinalFall: false,
       sessionStartTime: Date.now(),
-      isPractice: isPractice
+      isPractice: isPractice,
+      isReview: isReview,
+      isFreeResponse: isFreeResponse,
+      reviewedKeys: [],
+      answerHistory: [],
+      askedKeys: [],
+      seed: sessionSeed,
+      random: createSeededRandom(sessionSeed),
+      hasFixedSeed: !!seed
     };
 
+    // Give the player their own lane so concurrent games don't overlap
+    this._arenaManager.allocateLane(player.id);
+
     // Reset player position and controller
-    playerData.entity.setPosition(GAME_CONSTANTS.PLAYER_SPAWN_POSITION);
+    playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_SPAWN_POSITION));
     playerData.entity.setGravityScale(GAME_CONSTANTS.PLAYER_GRAVITY_SCALE);
     (playerData.entity.controller as FallingPlayerController).resetFallState();
 
@@ -227,7 +348,7 @@ export class EduFallGameManager {
     }
 
     // Clear any existing platform
-    this._clearPlatform();
+    this._clearPlatform(player.id);
     this._clearAnswerBlocks(player.id);
 
     // Generate first question
@@ -240,8 +361,13 @@ export class EduFallGameManager {
     player.ui.sendData({
       type: 'game-started',
       subject,
+      category,
       difficulty,
-      isPractice
+      isPractice,
+      isReview,
+      isFreeResponse,
+      seed: sessionSeed,
+      reviewsDue: isReview ? this._persistenceManager.getDueReviewCount(player.id, subject, category, playerData.state.contentFilter) : undefined
     });
   }
 
@@ -310,10 +436,23 @@ export class EduFallGameManager {
 
       const difficulty = difficultyMap[lobbyState.selectedDifficulty || 'intermediate'];
       const subject = lobbyState.selectedSubject || 'math';
-      const isPractice = lobbyState.selectedMode === 'practice';
+      // Review sessions are unscored, like practice
+      const isReview = lobbyState.selectedMode === 'review';
+      const isPractice = lobbyState.selectedMode === 'practice' || isReview;
+
+      const isFreeResponse = lobbyState.selectedMode === 'typed';
 
       // Start the game
-      this.startGame(playerData.player, difficulty, subject, isPractice);
+      this.startGame(
+        playerData.player,
+        difficulty,
+        subject,
+        isPractice,
+        isReview,
+        isFreeResponse,
+        undefined,
+        lobbyState.selectedCategory
+      );
     });
 
     // When player selects tournament mode
@@ -346,7 +485,10 @@ export class EduFallGameManager {
               name: tournament.config.name,
               status: tournament.status,
               participantCount: tournament.participants.size,
-              currentRound: tournament.currentRound
+              currentRound: tournament.currentRound,
+              standings: tournament.config.type === 'league' || tournament.config.type === 'swiss'
+                ? this._tournamentManager.getStandings(tournament.id)
+                : undefined
             }
           });
         }
@@ -376,6 +518,25 @@ export class EduFallGameManager {
         }
       }
     });
+
+    // Match questions drop every participant into their lane with the same question
+    this._tournamentManager.onMatchQuestion((event) => {
+      for (const playerId of event.playerIds) {
+        const playerData = this._players.get(playerId);
+        if (playerData) {
+          this._presentMatchQuestion(playerData, event);
+        }
+      }
+    });
+
+    this._tournamentManager.onMatchEnd((event) => {
+      for (const playerId of event.playerIds) {
+        const playerData = this._players.get(playerId);
+        if (playerData && playerData.state.matchId === event.matchId) {
+          this._endMatchGame(playerData, event);
+        }
+      }
+    });
   }
 
   private async _handlePlayerJoin(player: Player): Promise<void> {
@@ -384,6 +545,9 @@ export class EduFallGameManager {
     // Load persisted data
     await this._persistenceManager.loadPlayerData(player);
 
+    // Rejoin any ongoing tournament (e.g. a league from an earlier session)
+    this._tournamentManager.handlePlayerReconnect(player);
+
     // Create player entity with custom controller
     const controller = new FallingPlayerController(this._world);
     const playerEntity = new PlayerEntity({
@@ -429,6 +593,7 @@ export class EduFallGameManager {
       questionStartTime: 0,
       difficulty: 'intermediate',
       subject: 'math',
+      locale: this._persistenceManager.getLocale(player.id),
       currentGravityScale: GAME_CONSTANTS.PLAYER_GRAVITY_SCALE,
       isFinalFall: false,
       sessionStartTime: Date.now()
@@ -469,6 +634,14 @@ export class EduFallGameManager {
     // Always update lobby stats display (shows lobby screen)
     this._lobbyManager.updateStatsDisplay(player, stats);
 
+    // Restore the player's grade band / standard setting
+    this._lobbyManager.setContentFilter(player.id, this._persistenceManager.getContentFilter(player.id));
+    this._sendContentFilter(player);
+
+    // Restore the player's language (the UI offers the browser's if they haven't picked one)
+    this._lobbyManager.setLocale(player.id, state.locale!);
+    this._sendLocale(player);
+
     // Spawn player in lobby instead of directly in game
     this._lobbyManager.spawnInLobby(player, playerEntity);
 
@@ -498,7 +671,11 @@ export class EduFallGameManager {
           player,
           data.difficulty || 'moderate',
           data.subject || 'math',
-          data.isPractice || false
+          data.isPractice || false,
+          false,
+          false,
+          data.seed ? String(data.seed) : undefined,
+          data.category ? String(data.category) : undefined
         );
         break;
 
@@ -506,6 +683,22 @@ export class EduFallGameManager {
         this._restartGame(player);
         break;
 
+      case 'submit-typed-answer':
+        this._handleTypedAnswer(player, data);
+        break;
+
+      case 'replay-question-audio':
+        this._playQuestionAudio(player);
+        break;
+
+      case 'request-hint':
+        this._handleHintRequest(player);
+        break;
+
+      case 'replay-mistakes':
+        this._startMistakeReplay(player);
+        break;
+
       case 'return-to-lobby':
         this._returnToLobby(player);
         break;
@@ -519,6 +712,22 @@ export class EduFallGameManager {
         });
         break;
 
+      case 'set-content-filter':
+        this._handleSetContentFilter(player, data);
+        break;
+
+      case 'set-locale':
+        this._handleSetLocale(player, data);
+        break;
+
+      case 'get-standards-report':
+        player.ui.sendData({
+          type: 'standards-report',
+          standard: data.standard || null,
+          report: this._persistenceManager.getStandardsReport(player.id, data.standard || undefined)
+        });
+        break;
+
       case 'get-stats':
         const stats = this._persistenceManager.getPlayerStatsSummary(player.id);
         player.ui.sendData({
@@ -560,11 +769,77 @@ export class EduFallGameManager {
         this._handleUseRewind(player);
         break;
 
+      case 'submit-match-answer':
+        this._handleSubmitMatchAnswer(player, data);
+        break;
+
       default:
         break;
     }
   }
 
+  /**
+   * Save a player's grade (0-12, or none) and standard focus; applies from the next game
+   */
+  private _handleSetContentFilter(player: Player, data: any): void {
+    const filter: ContentFilter = {
+      gradeLevel: parseGradeLevel(data.gradeLevel),
+      standard: typeof data.standard === 'string' && data.standard.trim() ? data.standard.trim() : undefined
+    };
+
+    this._persistenceManager.setContentFilter(player.id, filter);
+    this._lobbyManager.setContentFilter(player.id, filter);
+
+    console.log(`[EduFallGameManager] ${player.username} content filter: grade ${filter.gradeLevel ?? 'any'}, standard ${filter.standard ?? 'any'}`);
+
+    this._sendContentFilter(player);
+  }
+
+  /**
+   * Send the player's grade/standard setting, with the standards that fit their grade to choose from
+   */
+  private _sendContentFilter(player: Player): void {
+    const filter = this._persistenceManager.getContentFilter(player.id);
+    player.ui.sendData({
+      type: 'content-filter',
+      gradeLevel: filter.gradeLevel ?? null,
+      standard: filter.standard ?? null,
+      standards: this._questionRegistry.getStandards(undefined, { gradeLevel: filter.gradeLevel })
+    });
+  }
+
+  /**
+   * Save a player's language; the lobby relabels at once, questions follow from the next one
+   */
+  private _handleSetLocale(player: Player, data: any): void {
+    const locale = parseLocale(data.locale);
+    const playerData = this._players.get(player.id);
+    if (!locale || !playerData) return;
+
+    this._persistenceManager.setLocale(player.id, locale);
+    this._lobbyManager.setLocale(player.id, locale);
+    playerData.state.locale = locale;
+
+    console.log(`[EduFallGameManager] ${player.username} locale: ${locale}`);
+
+    if (this._lobbyManager.isInLobby(player.id)) {
+      this._lobbyManager.refreshSelection(player, playerData.entity);
+    }
+    this._sendLocale(player);
+  }
+
+  /**
+   * Send the player's language and the ones they can switch to
+   */
+  private _sendLocale(player: Player): void {
+    player.ui.sendData({
+      type: 'locale',
+      locale: this._persistenceManager.getLocale(player.id),
+      chosen: this._persistenceManager.hasChosenLocale(player.id),
+      locales: SUPPORTED_LOCALES.map(id => ({ id, name: LOCALE_NAMES[id] }))
+    });
+  }
+
   private _handleUseRewind(player: Player): void {
     const playerData = this._players.get(player.id);
     if (!playerData || !playerData.state.gameActive) return;
@@ -598,7 +873,7 @@ export class EduFallGameManager {
 
   private _handleCreateTournament(player: Player, data: any): void {
     const tournament = this._tournamentManager.createTournament(player, {
-      name: data.name || `${player.username}'s Tournament`,
+      name: data.name || translate(this._persistenceManager.getLocale(player.id), 'tournament.defaultName', { name: player.username }),
       type: data.tournamentType || 'quick-match',
       visibility: data.visibility || 'public',
       subject: data.subject || 'math',
@@ -606,6 +881,9 @@ export class EduFallGameManager {
       questionsPerMatch: data.questionsPerMatch || 10,
       minParticipants: data.minParticipants || 2,
       maxParticipants: data.maxParticipants || 4,
+      seeding: data.seeding,
+      gradeLevel: parseGradeLevel(data.gradeLevel),
+      standard: typeof data.standard === 'string' && data.standard.trim() ? data.standard.trim() : undefined,
       isOfficial: false // Only Hytopia/Ownership can create official tournaments
     });
 
@@ -618,7 +896,7 @@ export class EduFallGameManager {
     } else {
       player.ui.sendData({
         type: 'tournament-error',
-        message: 'Failed to create tournament'
+        message: translate(this._persistenceManager.getLocale(player.id), 'tournament.createFailed')
       });
     }
   }
@@ -633,7 +911,7 @@ export class EduFallGameManager {
     if (!success) {
       player.ui.sendData({
         type: 'tournament-error',
-        message: 'Failed to join tournament'
+        message: translate(this._persistenceManager.getLocale(player.id), 'tournament.joinFailed')
       });
     }
   }
@@ -648,7 +926,7 @@ export class EduFallGameManager {
 
     player.ui.sendData({
       type: 'quick-match-queued',
-      message: 'Looking for opponents...'
+      message: translate(this._persistenceManager.getLocale(player.id), 'match.searching')
     });
   }
 
@@ -661,12 +939,16 @@ export class EduFallGameManager {
     // End game if active
     if (playerData.state.gameActive) {
       playerData.state.gameActive = false;
-      this._scoringSystem.endSession(player.id, this._getGameDifficulty(playerData.state.difficulty));
+      if (!playerData.state.matchId) {
+        this._scoringSystem.endSession(player.id, this._getGameDifficulty(playerData.state.difficulty));
+      }
     }
+    playerData.state.matchId = undefined;
+    playerData.state.showingGameOver = false;
 
-    // Clear game blocks
+    // Clear game blocks and free the player's lane
     this._clearAnswerBlocks(player.id);
-    this._clearPlatform();
+    this._releaseArena(player.id);
 
     // Stop game music and start lobby music
     this._stopBackgroundMusic();
@@ -681,8 +963,8 @@ export class EduFallGameManager {
 
     const playerData = this._players.get(player.id);
     if (playerData) {
-      // End game if active
-      if (playerData.state.gameActive) {
+      // End game if active (matches are scored by the TournamentManager)
+      if (playerData.state.gameActive && !playerData.state.matchId) {
         await this._endGame(player, true);
       }
 
@@ -694,6 +976,7 @@ export class EduFallGameManager {
       }
 
       this._clearAnswerBlocks(player.id);
+      this._releaseArena(player.id);
 
       // Clean up lobby state
       this._lobbyManager.handlePlayerLeave(player.id);
@@ -707,7 +990,6 @@ export class EduFallGameManager {
 
     // Cleanup if last player
     if (this._players.size === 0) {
-      this._clearPlatform();
       this._stopBackgroundMusic();
       this._stopLobbyMusic();
     } else {
@@ -723,64 +1005,115 @@ export class EduFallGameManager {
 
     const { difficulty, subject } = playerData.state;
 
-    // Generate question from provider
-    const question = this._questionRegistry.generateQuestion(subject, difficulty);
+    // Review mode serves due items first, then falls back to new questions from the provider
+    const question = playerData.state.isReplay
+      ? playerData.state.replayQueue?.shift()
+      : this._getNextReviewQuestion(player.id, playerData.state)
+        || this._generateUnseenQuestion(player.id, playerData.state);
     if (!question) {
       console.error(`[EduFallGameManager] Failed to generate question for ${subject}`);
       return;
     }
 
+    playerData.state.askedKeys?.push(getReviewKey(question));
+    this._persistenceManager.recordQuestionExposure(player.id, question);
+
     playerData.state.currentQuestion = question;
     playerData.state.questionStartTime = Date.now();
+    playerData.state.selectedAnswers = [];
+    playerData.state.hintsUsed = 0;
 
     // Mark question start for scoring
     this._scoringSystem.startQuestion(player.id);
 
-    // Spawn answer blocks
-    this._spawnAnswerBlocks(player, question);
+    if (playerData.state.isFreeResponse) {
+      // Nothing to land on - resume falling after hovering for the last answer
+      this._clearAnswerBlocks(player.id);
+      playerData.entity.setGravityScale(playerData.state.currentGravityScale);
+    } else {
+      this._spawnAnswerBlocks(player, question);
+    }
 
     // Send question to UI
     player.ui.sendData({
       type: 'question',
       questionText: question.questionText,
       questionSubtext: question.questionSubtext,
+      imageUri: question.imageUri,
+      hasAudio: !!question.audioUri,
+      format: getQuestionFormat(question),
+      selectCount: getCorrectChoices(question).length,
+      // Typed sequences have no blocks to read the steps from, so list them shuffled
+      steps: playerData.state.isFreeResponse && getQuestionFormat(question) === 'sequence'
+        ? this._shuffleArray(getAnswerChoices(question), playerData.state.random)
+        : undefined,
+      hasHints: this._questionRegistry.getHint(question, 0) !== null,
       subject: question.subject,
-      category: question.category
+      category: question.category,
+      freeResponse: playerData.state.isFreeResponse || false
     });
+    this._playQuestionAudio(player);
 
     console.log(`[EduFallGameManager] Generated ${subject} question for ${player.username}: ${question.questionText}`);
   }
 
-  private _spawnAnswerBlocks(player: Player, question: Question): void {
+  /**
+   * Spawn the answer row; matches pass the order every player in the match sees
+   */
+  private _spawnAnswerBlocks(player: Player, question: Question, answerOrder?: string[]): void {
     // Clear existing blocks and labels
     this._clearAnswerBlocks(player.id);
 
     const blocks: Entity[] = [];
     const labels: SceneUI[] = [];
-    const allAnswers = this._shuffleArray([question.correctAnswer, ...question.wrongAnswers]);
-
-    // Position blocks in a row
-    const blockY = GAME_CONSTANTS.ANSWER_BLOCK_Y;
-    const spacing = 4; // Increased spacing for better label visibility
-    const startX = -((allAnswers.length - 1) * spacing) / 2;
-
-    allAnswers.forEach((answer, index) => {
-      const isCorrect = answer === question.correctAnswer;
-      const x = startX + (index * spacing);
+    const allAnswers = answerOrder || this._shuffleArray(
+      getAnswerChoices(question),
+      this._players.get(player.id)?.state.random
+    );
+    const format = getQuestionFormat(question);
+    const correctChoices = getCorrectChoices(question);
+
+    // Position blocks in a row within the player's lane; true/false gets two big blocks
+    const laneOffset = this._arenaManager.getOffset(player.id);
+    const blockY = GAME_CONSTANTS.ANSWER_BLOCK_Y + laneOffset.y;
+    const blockZ = laneOffset.z;
+    const halfExtent = format === 'true-false' ? TRUE_FALSE_BLOCK_HALF_EXTENT : 0.5;
+    const spacing = format === 'true-false' ? TRUE_FALSE_BLOCK_SPACING : 4; // Increased spacing for better label visibility
+    const startX = laneOffset.x - ((allAnswers.length - 1) * spacing) / 2;
+
+    // Sequences stack one full row per step, first step on top; every other format is a single row
+    const rowCount = format === 'sequence' ? correctChoices.length : 1;
+    const slots = Array.from({ length: rowCount }, (_, row) =>
+      allAnswers.map((answer, column) => ({ answer, row, column }))
+    ).flat();
+
+    slots.forEach(({ answer, row, column }, index) => {
+      const isCorrect = format === 'sequence' ? answer === correctChoices[row] : correctChoices.includes(answer);
+      const x = startX + (column * spacing);
+      // Multi-select steps down left to right, so one fall can pass through several blocks
+      const y = format === 'multi-select'
+        ? blockY + (allAnswers.length - 1 - column) * MULTI_SELECT_STEP_HEIGHT
+        : blockY + (rowCount - 1 - row) * SEQUENCE_ROW_HEIGHT;
+      const halfExtents = { x: halfExtent, y: halfExtent, z: halfExtent };
 
       // Create answer block with Hytopia gradient texture
       const block = new Entity({
         blockTextureUri: 'blocks/Free-fall/hytopia-answer.png',
-        blockHalfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+        blockHalfExtents: halfExtents,
         name: `answer_block_${index}`,
         rigidBodyOptions: {
           type: RigidBodyType.FIXED,
           colliders: [{
             shape: ColliderShape.BLOCK,
-            halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
+            halfExtents,
             isSensor: true,
             onCollision: (other, started) => {
-              if (started && other instanceof PlayerEntity && other.player?.id === player.id) {
+              if (!started || !(other instanceof PlayerEntity) || other.player?.id !== player.id) return;
+              if (format === 'multi-select') {
+                this._handleSelectionCollision(player, answer, isCorrect, index);
+              } else if (format === 'sequence') {
+                this._handleSequenceCollision(player, answer, row, index);
+              } else {
                 this._handleAnswerCollision(player, answer, isCorrect);
               }
             }
@@ -789,8 +1122,8 @@ export class EduFallGameManager {
       });
 
       try {
-        block.spawn(this._world, { x, y: blockY, z: 0 });
-        console.log(`[EduFallGameManager] Block ${index} spawned at (${x}, ${blockY}, 0), isSpawned: ${block.isSpawned}`);
+        block.spawn(this._world, { x, y, z: blockZ });
+        console.log(`[EduFallGameManager] Block ${index} spawned at (${x}, ${y}, ${blockZ}), isSpawned: ${block.isSpawned}`);
       } catch (error) {
         console.error(`[EduFallGameManager] Failed to spawn block ${index}:`, error);
       }
@@ -802,7 +1135,8 @@ export class EduFallGameManager {
         attachedToEntity: block,
         offset: { x: 0, y: 10, z: 0 },
         state: {
-          text: answer
+          text: answer,
+          imageUri: question.answerImages?.[answer]
         }
       });
 
@@ -819,17 +1153,216 @@ export class EduFallGameManager {
       answers: allAnswers
     });
 
-    // Try to spawn power-ups above answer blocks (30% chance each)
-    const blockPositions = blocks.map(block => block.position);
-    this._powerUpManager.trySpawnPowerUps(blockPositions);
+    // Try to spawn power-ups above answer blocks (30% chance each, top row only) - not in competitive matches
+    if (!this._players.get(player.id)?.state.matchId) {
+      const blockPositions = blocks.slice(0, allAnswers.length).map(block => block.position);
+      this._powerUpManager.trySpawnPowerUps(player.id, blockPositions);
+    }
 
     console.log(`[EduFallGameManager] Spawned ${blocks.length} answer blocks with labels`);
   }
 
+  private _getNextReviewQuestion(playerId: string, state: EduFallPlayerState): Question | null {
+    if (!state.isReview) return null;
+
+    const [item] = this._persistenceManager.getDueReviewItems(
+      playerId,
+      state.subject,
+      1,
+      state.reviewedKeys,
+      state.category,
+      state.contentFilter
+    );
+    if (!item) return null;
+
+    state.reviewedKeys?.push(item.key);
+    return this._buildReviewQuestion(item);
+  }
+
+  /**
+   * New question from the subject's provider, avoiding this game's questions
+   * and preferring the ones the player has seen least recently
+   */
+  private _generateUnseenQuestion(playerId: string, state: EduFallPlayerState): Question | null {
+    const exposure: QuestionExposure = {
+      isSeenThisSession: question => !!state.askedKeys?.includes(getReviewKey(question)),
+      // Everyone given the same seed must get the same questions, whatever they have seen before
+      getLastSeenAt: question => state.hasFixedSeed
+        ? 0
+        : this._persistenceManager.getQuestionLastSeenAt(playerId, question)
+    };
+
+    const draw = () => this._questionRegistry.generateUnseenQuestion(state.subject, state.difficulty, exposure, {
+      category: state.category,
+      random: state.random,
+      filter: state.contentFilter,
+      locale: state.locale
+    });
+
+    let question = draw();
+    for (let i = 0; state.isFreeResponse && question?.answerImages && i < MAX_TYPED_QUESTION_REROLLS; i++) {
+      question = draw();
+    }
+    return question;
+  }
+
+  private _buildReviewQuestion(item: ReviewItem): Question {
+    return {
+      id: `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      subject: item.subject,
+      category: item.category,
+      difficulty: item.difficulty,
+      questionText: item.questionText,
+      questionSubtext: item.questionSubtext,
+      imageUri: item.imageUri,
+      audioUri: item.audioUri,
+      format: item.format,
+      correctAnswer: item.correctAnswer,
+      correctAnswers: item.correctAnswers,
+      wrongAnswers: [...item.wrongAnswers],
+      answerImages: item.answerImages,
+      explanation: item.explanation,
+      hints: item.hints,
+      locale: item.locale,
+      factKey: item.key,
+      gradeLevel: item.gradeLevel,
+      tags: [item.subject, item.category, 'review', ...(item.standards || [])]
+    };
+  }
+
+  /**
+   * Free-response mode: validate typed text through the subject's provider
+   */
+  private _handleTypedAnswer(player: Player, data: any): void {
+    const playerData = this._players.get(player.id);
+    const question = playerData?.state.currentQuestion;
+    if (!playerData || !question || !playerData.state.isFreeResponse) return;
+    if (!playerData.state.gameActive || playerData.state.isFinalFall) return;
+
+    // Already answered, or fell past the floor before submitting
+    const history = playerData.state.answerHistory || [];
+    if (history[history.length - 1]?.question === question) return;
+
+    const answer = String(data.answer ?? '').trim().slice(0, MAX_TYPED_ANSWER_LENGTH);
+    if (!answer) return;
+
+    const isCorrect = this._questionRegistry.validateAnswer(question, answer);
+    this._handleAnswerCollision(player, answer, isCorrect);
+
+    // Hover at the top of the lane until the next question opens
+    playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_RESET_POSITION));
+    playerData.entity.setLinearVelocity({ x: 0, y: 0, z: 0 });
+    playerData.entity.setGravityScale(0);
+
+    player.ui.sendData({
+      type: 'typed-answer-result',
+      isCorrect,
+      answer,
+      correctAnswer: question.correctAnswer
+    });
+  }
+
+  /**
+   * Multi-select: correct blocks are collected during the fall; the question is answered
+   * once every correct block is hit, or on the first wrong one
+   */
+  private _handleSelectionCollision(player: Player, answer: string, isCorrect: boolean, blockIndex: number): void {
+    const playerData = this._players.get(player.id);
+    const question = playerData?.state.currentQuestion;
+    if (!playerData || !question || !playerData.state.gameActive || playerData.state.isFinalFall) return;
+
+    // Already answered - still falling past the lower steps
+    const history = playerData.state.answerHistory || [];
+    if (history[history.length - 1]?.question === question) return;
+
+    const selected = playerData.state.selectedAnswers || (playerData.state.selectedAnswers = []);
+    if (selected.includes(answer)) return;
+    selected.push(answer);
+
+    const total = getCorrectChoices(question).length;
+    if (!isCorrect || selected.length === total) {
+      this._handleAnswerCollision(player, joinSelection(selected), isCorrect);
+      return;
+    }
+
+    this._answerLabels.get(player.id)?.[blockIndex]?.setState({ status: 'correct' });
+    this._playSound(GAME_CONSTANTS.AUDIO_CORRECT, playerData.entity);
+    player.ui.sendData({ type: 'selection-progress', format: 'multi-select', found: selected.length, total });
+  }
+
+  /**
+   * Sequence: one pick per row, top to bottom. The question is answered at the
+   * bottom row, or as soon as a pick is out of order or a row is skipped
+   */
+  private _handleSequenceCollision(player: Player, answer: string, row: number, blockIndex: number): void {
+    const playerData = this._players.get(player.id);
+    const question = playerData?.state.currentQuestion;
+    if (!playerData || !question || !playerData.state.gameActive || playerData.state.isFinalFall) return;
+
+    const history = playerData.state.answerHistory || [];
+    if (history[history.length - 1]?.question === question) return;
+
+    // Brushing a second block in a row that already has a pick
+    const selected = playerData.state.selectedAnswers || (playerData.state.selectedAnswers = []);
+    if (row < selected.length) return;
+
+    const order = getCorrectChoices(question);
+    const inOrder = row === selected.length && answer === order[row];
+    if (row === selected.length) selected.push(answer);
+
+    if (!inOrder || selected.length === order.length) {
+      this._handleAnswerCollision(player, joinSelection(selected), inOrder);
+      return;
+    }
+
+    this._answerLabels.get(player.id)?.[blockIndex]?.setState({ status: 'correct' });
+    this._playSound(GAME_CONSTANTS.AUDIO_CORRECT, playerData.entity);
+    player.ui.sendData({ type: 'selection-progress', format: 'sequence', found: selected.length, total: order.length });
+  }
+
+  /**
+   * Reveal the current question's next hint. Each one lowers the points for answering it;
+   * competitive matches don't offer hints
+   */
+  private _handleHintRequest(player: Player): void {
+    const playerData = this._players.get(player.id);
+    const question = playerData?.state.currentQuestion;
+    if (!playerData || !question || !playerData.state.gameActive || playerData.state.isFinalFall) return;
+    if (playerData.state.matchId) return;
+
+    // Already answered
+    const history = playerData.state.answerHistory || [];
+    if (history[history.length - 1]?.question === question) return;
+
+    const level = playerData.state.hintsUsed || 0;
+    const hint = this._questionRegistry.getHint(question, level);
+    if (!hint) {
+      player.ui.sendData({ type: 'hint', hint: null, hintsUsed: level });
+      return;
+    }
+
+    playerData.state.hintsUsed = level + 1;
+    player.ui.sendData({
+      type: 'hint',
+      hint,
+      hintsUsed: level + 1,
+      hasMore: this._questionRegistry.getHint(question, level + 1) !== null,
+      pointsPercent: Math.round(this._scoringSystem.getHintMultiplier(level + 1) * 100)
+    });
+  }
+
   private _handleAnswerCollision(player: Player, answer: string, isCorrect: boolean): void {
     const playerData = this._players.get(player.id);
     if (!playerData || !playerData.state.gameActive || playerData.state.isFinalFall) return;
 
+    // Competitive matches are resolved by the TournamentManager
+    if (playerData.state.matchId) {
+      this._handleMatchAnswer(player, playerData, answer);
+      return;
+    }
+
+    this._recordAnswer(playerData.state, answer, isCorrect);
+
     // Store rewind data before processing answer (for undo functionality)
     const currentScore = this._scoringSystem.getSessionStats(player.id)?.score || 0;
     this._powerUpManager.storeRewindData(
@@ -842,10 +1375,19 @@ export class EduFallGameManager {
     if (isCorrect) {
       this._handleCorrectAnswer(player, playerData);
     } else {
-      this._handleWrongAnswer(player, playerData);
+      this._handleWrongAnswer(player, playerData, this._getPartialCredit(playerData.state, answer));
     }
   }
 
+  /**
+   * Share of a wrong answer that still earns points (sequences with the right start)
+   */
+  private _getPartialCredit(state: EduFallPlayerState, answer: string): number {
+    const question = state.currentQuestion;
+    if (!question || getQuestionFormat(question) !== 'sequence') return 0;
+    return this._questionRegistry.gradeAnswer(question, answer);
+  }
+
   private _handleCorrectAnswer(player: Player, playerData: EduFallPlayerData): void {
     console.log(`[EduFallGameManager] Correct answer from ${player.username}`);
 
@@ -858,7 +1400,8 @@ export class EduFallGameManager {
 
     // Record in scoring system
     const gameDifficulty = this._getGameDifficulty(playerData.state.difficulty);
-    const breakdown = this._scoringSystem.recordCorrectAnswer(player.id, gameDifficulty);
+    const format = playerData.state.currentQuestion ? getQuestionFormat(playerData.state.currentQuestion) : undefined;
+    const breakdown = this._scoringSystem.recordCorrectAnswer(player.id, gameDifficulty, format, playerData.state.hintsUsed);
 
     // Apply points multiplier from power-up
     if (pointsMultiplier > 1) {
@@ -870,14 +1413,20 @@ export class EduFallGameManager {
     playerData.state.questionsAnswered++;
     playerData.state.correctAnswers++;
 
-    // Update category progress
-    if (playerData.state.currentQuestion) {
+    // Update category progress (the mistake replay is unscored: its answers were just shown)
+    if (playerData.state.currentQuestion && !playerData.state.isReplay) {
       this._persistenceManager.updateCategoryProgress(
         player.id,
         playerData.state.subject,
         playerData.state.currentQuestion.category,
         true
       );
+      this._persistenceManager.recordQuestionResult(
+        player.id,
+        playerData.state.currentQuestion,
+        true,
+        Date.now() - playerData.state.questionStartTime
+      );
     }
 
     // Increase gravity (for non-beginner)
@@ -908,7 +1457,7 @@ export class EduFallGameManager {
     this._scheduleNextQuestion(player, playerData);
   }
 
-  private _handleWrongAnswer(player: Player, playerData: EduFallPlayerData): void {
+  private _handleWrongAnswer(player: Player, playerData: EduFallPlayerData, credit: number = 0): void {
     console.log(`[EduFallGameManager] Wrong answer from ${player.username}`);
 
     // Check for shield power-up (blocks wrong answer)
@@ -921,21 +1470,36 @@ export class EduFallGameManager {
       return;
     }
 
-    // Record in scoring system
-    this._scoringSystem.recordWrongAnswer(player.id);
+    // Record in scoring system (a partly right sequence still earns its share)
+    const breakdown = credit > 0
+      ? this._scoringSystem.recordPartialAnswer(
+        player.id,
+        this._getGameDifficulty(playerData.state.difficulty),
+        credit,
+        playerData.state.currentQuestion ? getQuestionFormat(playerData.state.currentQuestion) : undefined,
+        playerData.state.hintsUsed
+      )
+      : undefined;
+    if (!breakdown) this._scoringSystem.recordWrongAnswer(player.id);
 
     // Update state
     playerData.state.questionsAnswered++;
     playerData.state.wrongAnswers++;
 
-    // Update category progress
-    if (playerData.state.currentQuestion) {
+    // Update category progress (the mistake replay is unscored: its answers were just shown)
+    if (playerData.state.currentQuestion && !playerData.state.isReplay) {
       this._persistenceManager.updateCategoryProgress(
         player.id,
         playerData.state.subject,
         playerData.state.currentQuestion.category,
         false
       );
+      this._persistenceManager.recordQuestionResult(
+        player.id,
+        playerData.state.currentQuestion,
+        false,
+        Date.now() - playerData.state.questionStartTime
+      );
     }
 
     // Reset gravity
@@ -949,6 +1513,7 @@ export class EduFallGameManager {
     const stats = this._scoringSystem.getSessionStats(player.id);
     player.ui.sendData({
       type: 'wrong-answer',
+      breakdown,
       stats
     });
 
@@ -968,19 +1533,29 @@ export class EduFallGameManager {
 
     console.log(`[EduFallGameManager] Player ${player.username} fell past threshold`);
 
-    // Treat as wrong answer
-    this._handleWrongAnswer(player, playerData);
+    // Treat as wrong answer (multi-select and sequence keep whatever was picked, for the mistake list and partial credit)
+    const answer = joinSelection(playerData.state.selectedAnswers || []);
+    if (playerData.state.matchId) {
+      this._handleMatchAnswer(player, playerData, answer);
+    } else {
+      this._recordAnswer(playerData.state, answer, false);
+      this._handleWrongAnswer(player, playerData, this._getPartialCredit(playerData.state, answer));
+    }
   }
 
   private _scheduleNextQuestion(player: Player, playerData: EduFallPlayerData): void {
     setTimeout(() => {
       if (!playerData.state.gameActive) return;
 
-      if (playerData.state.questionsAnswered >= GAME_CONSTANTS.MAX_QUESTIONS) {
+      const roundOver = playerData.state.isReplay
+        ? !playerData.state.replayQueue?.length
+        : playerData.state.questionsAnswered >= GAME_CONSTANTS.MAX_QUESTIONS;
+
+      if (roundOver) {
         this._startFinalFall(player);
       } else {
         // Reset position and generate next question
-        playerData.entity.setPosition(GAME_CONSTANTS.PLAYER_RESET_POSITION);
+        playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_RESET_POSITION));
         (playerData.entity.controller as FallingPlayerController).resetFallState();
         this._generateNewQuestion(player);
       }
@@ -1005,20 +1580,23 @@ export class EduFallGameManager {
     const controller = playerData.entity.controller as FallingPlayerController;
     controller.resetFallState();
 
-    playerData.entity.setPosition({
+    playerData.entity.setPosition(this._toArenaPosition(player.id, {
       x: 0,
       y: GAME_CONSTANTS.ANSWER_BLOCK_Y + 100,
       z: 0
-    });
+    }));
     playerData.entity.setLinearVelocity({ x: 0, y: -20, z: 0 });
+    playerData.entity.setGravityScale(playerData.state.currentGravityScale);
   }
 
   private _createLandingPlatform(player: Player): void {
-    this._clearPlatform();
+    this._clearPlatform(player.id);
 
-    const platformY = GAME_CONSTANTS.LANDING_PLATFORM_Y;
+    const laneOffset = this._arenaManager.getOffset(player.id);
+    const platformY = GAME_CONSTANTS.LANDING_PLATFORM_Y + laneOffset.y;
     const platformSize = 14;
     const halfSize = Math.floor(platformSize / 2);
+    const platformBlocks: Entity[] = [];
 
     const textures = ['blocks/grass', 'blocks/sand.png', 'blocks/water-still.png', 'blocks/dirt.png'];
 
@@ -1043,7 +1621,7 @@ export class EduFallGameManager {
               shape: ColliderShape.BLOCK,
               halfExtents: { x: 0.5, y: 0.5, z: 0.5 },
               onCollision: (other, started) => {
-                if (started && other instanceof PlayerEntity) {
+                if (started && other instanceof PlayerEntity && other.player?.id === player.id) {
                   this._handlePlayerLanded(other);
                 }
               }
@@ -1051,10 +1629,12 @@ export class EduFallGameManager {
           }
         });
 
-        block.spawn(this._world, { x, y: platformY, z });
-        this._platformEntities.push(block);
+        block.spawn(this._world, { x: x + laneOffset.x, y: platformY, z: z + laneOffset.z });
+        platformBlocks.push(block);
       }
     }
+
+    this._platformEntities.set(player.id, platformBlocks);
   }
 
   private async _handlePlayerLanded(playerEntity: PlayerEntity): Promise<void> {
@@ -1085,7 +1665,14 @@ export class EduFallGameManager {
     const playerData = this._players.get(player.id);
     if (!playerData) return;
 
+    if (playerData.state.isReplay) {
+      this._endMistakeReplay(player, playerData, disconnected);
+      return;
+    }
+
     const isPractice = playerData.state.isPractice || false;
+    const mistakes = this._getMistakes(playerData.state);
+    this._recordMisconceptions(player.id, playerData.state);
 
     // End scoring session and get summary (only for non-practice)
     const gameDifficulty = this._getGameDifficulty(playerData.state.difficulty);
@@ -1095,7 +1682,12 @@ export class EduFallGameManager {
       summary = this._scoringSystem.endSession(player.id, gameDifficulty);
 
       // Record in persistence
-      await this._persistenceManager.recordGameResult(player, summary, playerData.state.subject);
+      await this._persistenceManager.recordGameResult(
+        player,
+        summary,
+        playerData.state.subject,
+        playerData.state.category
+      );
 
       // Submit to leaderboards
       const leaderboardResult = this._leaderboardManager.submitScore(
@@ -1126,11 +1718,12 @@ export class EduFallGameManager {
 
         // Build improvements list
         const improvements = [];
+        const { locale } = playerData.state;
         if (leaderboardResult.improvements?.highScore) {
-          improvements.push({ text: 'New High Score!', isNewRecord: true });
+          improvements.push({ text: translate(locale, 'gameOver.newHighScore'), isNewRecord: true });
         }
         if (leaderboardResult.improvements?.bestStreak) {
-          improvements.push({ text: `New Best Streak: ${summary.bestStreak}`, isNewRecord: true });
+          improvements.push({ text: translate(locale, 'gameOver.newBestStreak', { streak: summary.bestStreak }), isNewRecord: true });
         }
 
         player.ui.sendData({
@@ -1138,7 +1731,8 @@ export class EduFallGameManager {
           summary,
           leaderboardRanks: leaderboardResult.newRanks,
           improvements,
-          playerStats
+          playerStats,
+          mistakes
         });
       }
     } else {
@@ -1165,25 +1759,161 @@ export class EduFallGameManager {
         player.ui.sendData({
           type: 'game-over',
           summary,
-          isPractice: true
+          isPractice: true,
+          mistakes,
+          isReview: playerData.state.isReview || false,
+          reviewsDue: playerData.state.isReview
+            ? this._persistenceManager.getDueReviewCount(player.id, playerData.state.subject, playerData.state.category, playerData.state.contentFilter)
+            : undefined
         });
       }
     }
 
     playerData.state.gameActive = false;
+    playerData.state.showingGameOver = !disconnected;
 
     // Clear power-ups
     this._powerUpManager.clearPlayerPowerUps(player.id);
-    this._powerUpManager.clearPowerUps();
+    this._powerUpManager.clearPowerUps(player.id);
 
-    // Schedule return to lobby after showing results
+    // Schedule return to lobby after showing results (unless a mistake replay started)
     if (!disconnected) {
       setTimeout(() => {
-        this._returnToLobby(player);
-      }, 8000); // 8 seconds to view results
+        if (!playerData.state.gameActive) {
+          this._returnToLobby(player);
+        }
+      }, mistakes.length > 0 ? MISTAKES_DISPLAY_MS : RESULTS_DISPLAY_MS);
     }
   }
 
+  // ============ Mistake Replay ============
+
+  private _recordAnswer(state: EduFallPlayerState, answer: string, correct: boolean): void {
+    if (!state.currentQuestion || !state.answerHistory) return;
+
+    state.answerHistory.push({
+      question: state.currentQuestion,
+      answer,
+      correct,
+      responseTimeMs: Date.now() - state.questionStartTime
+    });
+  }
+
+  /**
+   * Missed questions from the session, once each, in the order they were asked
+   */
+  private _getMistakes(state: EduFallPlayerState): MistakeSummary[] {
+    const seen = new Set<string>();
+    const mistakes: MistakeSummary[] = [];
+
+    for (const entry of state.answerHistory || []) {
+      if (entry.correct || seen.has(entry.question.id)) continue;
+      seen.add(entry.question.id);
+
+      mistakes.push({
+        questionText: entry.question.questionText,
+        questionSubtext: entry.question.questionSubtext,
+        imageUri: entry.question.imageUri,
+        answer: entry.answer,
+        correctAnswer: entry.question.correctAnswer,
+        explanation: entry.question.explanation,
+        misconception: entry.question.misconceptions?.[entry.answer]?.label
+      });
+    }
+    return mistakes;
+  }
+
+  /**
+   * Count every wrong answer this game that matches a known misconception
+   */
+  private _recordMisconceptions(playerId: string, state: EduFallPlayerState): void {
+    for (const entry of state.answerHistory || []) {
+      const misconception = entry.correct ? undefined : entry.question.misconceptions?.[entry.answer];
+      if (misconception) {
+        this._persistenceManager.recordMisconception(playerId, misconception.id);
+      }
+    }
+  }
+
+  /**
+   * Replay just the missed questions from the game that just ended, one fall each
+   */
+  private _startMistakeReplay(player: Player): void {
+    const playerData = this._players.get(player.id);
+    if (!playerData || !playerData.state.showingGameOver || playerData.state.gameActive || playerData.state.isReplay || playerData.state.matchId) return;
+
+    const missed: Question[] = [];
+    for (const entry of playerData.state.answerHistory || []) {
+      if (!entry.correct && !missed.includes(entry.question)) {
+        missed.push(entry.question);
+      }
+    }
+    if (missed.length === 0) return;
+
+    console.log(`[EduFallGameManager] Starting mistake replay (${missed.length} questions) for ${player.username}`);
+
+    // Keep subject and difficulty, reset the rest for an unscored round
+    playerData.state = {
+      ...playerData.state,
+      gameActive: true,
+      currentQuestion: null,
+      questionsAnswered: 0,
+      correctAnswers: 0,
+      wrongAnswers: 0,
+      questionStartTime: Date.now(),
+      currentGravityScale: GAME_CONSTANTS.PLAYER_GRAVITY_SCALE,
+      isFinalFall: false,
+      isPractice: true,
+      isReplay: true,
+      replayQueue: missed,
+      showingGameOver: false,
+      answerHistory: []
+    };
+
+    // The lane is normally still held, but never drop the player into an unbuilt one
+    this._arenaManager.allocateLane(player.id);
+
+    playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_SPAWN_POSITION));
+    playerData.entity.setGravityScale(GAME_CONSTANTS.PLAYER_GRAVITY_SCALE);
+    (playerData.entity.controller as FallingPlayerController).resetFallState();
+
+    this._clearPlatform(player.id);
+    this._clearAnswerBlocks(player.id);
+
+    this._generateNewQuestion(player);
+
+    player.ui.sendData({
+      type: 'replay-started',
+      questionCount: missed.length
+    });
+  }
+
+  private _endMistakeReplay(player: Player, playerData: EduFallPlayerData, disconnected: boolean): void {
+    const { correctAnswers, questionsAnswered } = playerData.state;
+
+    console.log(`[EduFallGameManager] Mistake replay ended for ${player.username}: ${correctAnswers}/${questionsAnswered}`);
+
+    playerData.state.gameActive = false;
+    playerData.state.isReplay = false;
+    this._powerUpManager.clearPlayerPowerUps(player.id);
+    this._powerUpManager.clearPowerUps(player.id);
+
+    if (disconnected) return;
+
+    player.ui.sendData({
+      type: 'replay-complete',
+      correctAnswers,
+      totalQuestions: questionsAnswered,
+      mistakes: this._getMistakes(playerData.state)
+    });
+
+    setTimeout(() => {
+      if (!playerData.state.gameActive) {
+        this._returnToLobby(player);
+      }
+    }, RESULTS_DISPLAY_MS);
+  }
+
   private _restartGame(player: Player): void {
     const playerData = this._players.get(player.id);
     if (!playerData) return;
@@ -1196,17 +1926,17 @@ export class EduFallGameManager {
     playerData.state.currentGravityScale = GAME_CONSTANTS.PLAYER_GRAVITY_SCALE;
 
     // Reset player
-    playerData.entity.setPosition(GAME_CONSTANTS.PLAYER_SPAWN_POSITION);
+    playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_SPAWN_POSITION));
     playerData.entity.setGravityScale(GAME_CONSTANTS.PLAYER_GRAVITY_SCALE);
     (playerData.entity.controller as FallingPlayerController).resetFallState();
 
-    // Clear blocks and platform
+    // Clear blocks, platform and lane
     this._clearAnswerBlocks(player.id);
-    this._clearPlatform();
+    this._releaseArena(player.id);
 
     // Clear player's power-ups
     this._powerUpManager.clearPlayerPowerUps(player.id);
-    this._powerUpManager.clearPowerUps();
+    this._powerUpManager.clearPowerUps(player.id);
 
     // Stop game music and start lobby music
     this._stopBackgroundMusic();
@@ -1216,6 +1946,182 @@ export class EduFallGameManager {
     player.ui.sendData({ type: 'show-start' });
   }
 
+  // ============ Competitive Matches ============
+
+  private _presentMatchQuestion(playerData: EduFallPlayerData, event: MatchQuestionEvent): void {
+    const { player } = playerData;
+
+    // First question of this match: pull the player out of the lobby into their own lane
+    if (playerData.state.matchId !== event.matchId) {
+      this._startMatchGame(playerData, event);
+    }
+
+    // Everyone gets the same question and block order, each in their own language
+    const question = this._questionRegistry.localizeQuestion(event.question, playerData.state.locale);
+    const sharedChoices = getAnswerChoices(event.question);
+    const localizedChoices = getAnswerChoices(question);
+    const answerOrder = event.answerOrder.map(answer => localizedChoices[sharedChoices.indexOf(answer)] ?? answer);
+    playerData.state.matchAnswers = Object.fromEntries(
+      localizedChoices.map((answer, i) => [this._matchAnswerKey(answer), sharedChoices[i]])
+    );
+
+    playerData.state.currentQuestion = question;
+    playerData.state.questionStartTime = Date.now();
+    playerData.state.selectedAnswers = [];
+    playerData.state.hintsUsed = 0;
+
+    // Drop the player from the top of their lane
+    playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_RESET_POSITION));
+    playerData.entity.setGravityScale(playerData.state.currentGravityScale);
+    (playerData.entity.controller as FallingPlayerController).resetFallState();
+
+    this._spawnAnswerBlocks(player, question, answerOrder);
+
+    player.ui.sendData({
+      type: 'question',
+      questionText: question.questionText,
+      questionSubtext: question.questionSubtext,
+      imageUri: question.imageUri,
+      hasAudio: !!question.audioUri,
+      format: getQuestionFormat(question),
+      selectCount: getCorrectChoices(question).length,
+      subject: question.subject,
+      category: question.category,
+      matchId: event.matchId,
+      questionNumber: event.questionNumber,
+      totalQuestions: event.totalQuestions,
+      timeLimitMs: event.timeLimitMs,
+      isSuddenDeath: event.isSuddenDeath
+    });
+    this._playQuestionAudio(player);
+  }
+
+  private _startMatchGame(playerData: EduFallPlayerData, event: MatchQuestionEvent): void {
+    const { player } = playerData;
+
+    console.log(`[EduFallGameManager] ${player.username} entering match ${event.matchId}`);
+
+    // Abandon any solo session in progress
+    if (playerData.state.gameActive && !playerData.state.matchId && !playerData.state.isPractice) {
+      this._scoringSystem.endSession(player.id, this._getGameDifficulty(playerData.state.difficulty));
+    }
+    this._clearAnswerBlocks(player.id);
+    this._clearPlatform(player.id);
+    this._lobbyManager.leaveLobby(player.id);
+
+    playerData.state = {
+      gameActive: true,
+      currentQuestion: null,
+      questionsAnswered: 0,
+      correctAnswers: 0,
+      wrongAnswers: 0,
+      questionStartTime: Date.now(),
+      difficulty: event.question.difficulty,
+      subject: event.question.subject,
+      locale: this._persistenceManager.getLocale(player.id),
+      currentGravityScale: GAME_CONSTANTS.PLAYER_GRAVITY_SCALE,
+      isFinalFall: false,
+      sessionStartTime: Date.now(),
+      matchId: event.matchId
+    };
+
+    this._arenaManager.allocateLane(player.id);
+    this._playBackgroundMusic();
+
+    player.ui.sendData({
+      type: 'match-started',
+      matchId: event.matchId,
+      tournamentId: event.tournamentId,
+      totalQuestions: event.totalQuestions
+    });
+  }
+
+  private _handleSubmitMatchAnswer(player: Player, data: any): void {
+    const playerData = this._players.get(player.id);
+    if (!playerData || !playerData.state.gameActive || !playerData.state.matchId) return;
+
+    this._handleMatchAnswer(player, playerData, String(data.answer ?? ''));
+  }
+
+  private _handleMatchAnswer(player: Player, playerData: EduFallPlayerData, answer: string): void {
+    const result = this._tournamentManager.submitAnswer(player, this._toMatchAnswer(playerData.state, answer));
+    if (!result) return; // Already answered or question closed
+
+    playerData.state.questionsAnswered++;
+    if (result.isCorrect) {
+      playerData.state.correctAnswers++;
+    } else {
+      playerData.state.wrongAnswers++;
+    }
+
+    this._clearAnswerBlocks(player.id);
+    this._playSound(result.isCorrect ? GAME_CONSTANTS.AUDIO_CORRECT : GAME_CONSTANTS.AUDIO_WRONG, playerData.entity);
+
+    // Hover at the top of the lane until the next question opens
+    playerData.entity.setPosition(this._toArenaPosition(player.id, GAME_CONSTANTS.PLAYER_RESET_POSITION));
+    playerData.entity.setLinearVelocity({ x: 0, y: 0, z: 0 });
+    playerData.entity.setGravityScale(0);
+
+    player.ui.sendData({
+      type: 'match-answer-result',
+      ...result,
+      questionsAnswered: playerData.state.questionsAnswered,
+      correctAnswers: playerData.state.correctAnswers
+    });
+  }
+
+  /**
+   * Turn a translated pick (or picks) back into the match's shared answers, which it is scored on
+   */
+  private _toMatchAnswer(state: EduFallPlayerState, answer: string): string {
+    const answers = state.matchAnswers;
+    if (!answers) return answer;
+
+    const whole = answers[this._matchAnswerKey(answer)];
+    if (whole !== undefined) return whole;
+    return joinSelection(splitSelection(answer).map(pick => answers[this._matchAnswerKey(pick)] ?? pick));
+  }
+
+  /**
+   * Typed match answers may differ from the choice in case and accents
+   */
+  private _matchAnswerKey(answer: string): string {
+    return foldAccents(answer.trim().toLowerCase());
+  }
+
+  private _endMatchGame(playerData: EduFallPlayerData, event: MatchEndEvent): void {
+    const { player } = playerData;
+
+    console.log(`[EduFallGameManager] Match ${event.matchId} over for ${player.username}`);
+
+    playerData.state.gameActive = false;
+    playerData.state.matchId = undefined;
+    playerData.state.matchAnswers = undefined;
+    playerData.entity.setGravityScale(GAME_CONSTANTS.PLAYER_GRAVITY_SCALE);
+
+    this._clearAnswerBlocks(player.id);
+    this._releaseArena(player.id);
+
+    player.ui.sendData({
+      type: 'match-results',
+      matchId: event.matchId,
+      tournamentId: event.tournamentId,
+      isWinner: event.winnerId === player.id,
+      results: event.results.map(r => ({
+        username: r.username,
+        score: r.score,
+        isYou: r.playerId === player.id
+      }))
+    });
+
+    // Return to lobby after showing results (unless the next match already started)
+    setTimeout(() => {
+      if (!playerData.state.matchId && !playerData.state.gameActive) {
+        this._returnToLobby(player);
+      }
+    }, 8000); // 8 seconds to view results
+  }
+
   // ============ Helpers ============
 
   private _getGameDifficulty(questionDifficulty: QuestionDifficulty): Difficulty {
@@ -1228,10 +2134,10 @@ export class EduFallGameManager {
     }
   }
 
-  private _shuffleArray<T>(array: T[]): T[] {
+  private _shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
     const result = [...array];
     for (let i = result.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [result[i], result[j]] = [result[j], result[i]];
     }
     return result;
@@ -1259,13 +2165,29 @@ export class EduFallGameManager {
     }
   }
 
-  private _clearPlatform(): void {
-    this._platformEntities.forEach(entity => {
+  private _clearPlatform(playerId: string): void {
+    const platform = this._platformEntities.get(playerId);
+    if (!platform) return;
+
+    platform.forEach(entity => {
       if (entity.isSpawned) {
         entity.despawn();
       }
     });
-    this._platformEntities = [];
+    this._platformEntities.delete(playerId);
+  }
+
+  /**
+   * Tear down a player's lane-bound entities and return the lane to the pool
+   */
+  private _releaseArena(playerId: string): void {
+    this._clearPlatform(playerId);
+    this._powerUpManager.clearPowerUps(playerId);
+    this._arenaManager.releaseLane(playerId);
+  }
+
+  private _toArenaPosition(playerId: string, position: Vector3Like): Vector3Like {
+    return this._arenaManager.toWorldPosition(playerId, position);
   }
 
   private _playSound(uri: string, attachedEntity?: Entity): void {
@@ -1283,6 +2205,29 @@ export class EduFallGameManager {
     }
   }
 
+  /**
+   * Speak the current question's clip (e.g. the word to spell) to this player only
+   */
+  private _playQuestionAudio(player: Player): void {
+    const playerData = this._players.get(player.id);
+    const uri = playerData?.state.currentQuestion?.audioUri;
+    if (!playerData || !uri) return;
+
+    try {
+      // Attached to the player rather than global: lanes are far enough apart that neighbours can't hear it
+      const audio = new Audio({
+        uri,
+        loop: false,
+        volume: 1.0,
+        attachedToEntity: playerData.entity,
+        referenceDistance: QUESTION_AUDIO_REFERENCE_DISTANCE
+      });
+      audio.play(this._world);
+    } catch (error) {
+      console.error(`[EduFallGameManager] Error playing question audio ${uri}:`, error);
+    }
+  }
+
   private _playBackgroundMusic(): void {
     if (this._isMusicPlaying || !this._backgroundMusic) return;
 
@@ -27,8 +27,8 @@ export class PowerUpManager {
   // Active power-ups per player
   private _activePowerUps: Map<string, ActivePowerUp[]> = new Map();
 
-  // Spawned power-up entities
-  private _spawnedPowerUps: Entity[] = [];
+  // Spawned power-up entities (per player lane)
+  private _spawnedPowerUps: Map<string, Entity[]> = new Map();
 
   // Rewind data per player (for undo functionality)
   private _rewindData: Map<string, { position: Vector3Like; score: number; question: number }> = new Map();
@@ -95,16 +95,16 @@ export class PowerUpManager {
   }
 
   /**
-   * Attempt to spawn power-ups above answer block positions
+   * Attempt to spawn power-ups above a player's answer block positions
    */
-  public trySpawnPowerUps(blockPositions: Vector3Like[]): void {
-    // Clear any existing power-ups
-    this.clearPowerUps();
+  public trySpawnPowerUps(playerId: string, blockPositions: Vector3Like[]): void {
+    // Clear any existing power-ups for this player
+    this.clearPowerUps(playerId);
 
     blockPositions.forEach(pos => {
       // 30% chance to spawn
       if (Math.random() < GAME_CONSTANTS.POWERUP_SPAWN_CHANCE) {
-        this._spawnPowerUp(pos);
+        this._spawnPowerUp(playerId, pos);
       }
     });
   }
@@ -112,7 +112,7 @@ export class PowerUpManager {
   /**
    * Spawn a random power-up at position
    */
-  private _spawnPowerUp(blockPosition: Vector3Like): void {
+  private _spawnPowerUp(playerId: string, blockPosition: Vector3Like): void {
     // Random power-up type
     const types: PowerUpType[] = ['slowmotion', 'shield', 'magnet', 'doublepoints', 'rewind'];
     const type = types[Math.floor(Math.random() * types.length)];
@@ -136,7 +136,7 @@ export class PowerUpManager {
           radius: 0.5,
           isSensor: true,
           onCollision: (other, started) => {
-            if (started && other instanceof PlayerEntity) {
+            if (started && other instanceof PlayerEntity && other.player?.id === playerId) {
               this._collectPowerUp(other, type, powerUp);
             }
           }
@@ -145,7 +145,9 @@ export class PowerUpManager {
     });
 
     powerUp.spawn(this._world, position);
-    this._spawnedPowerUps.push(powerUp);
+    const playerPowerUps = this._spawnedPowerUps.get(playerId) || [];
+    playerPowerUps.push(powerUp);
+    this._spawnedPowerUps.set(playerId, playerPowerUps);
 
     // Add floating animation
     this._animatePowerUp(powerUp, position);
@@ -194,8 +196,9 @@ export class PowerUpManager {
     // Despawn the power-up entity
     if (entity.isSpawned) {
       entity.despawn();
-      const index = this._spawnedPowerUps.indexOf(entity);
-      if (index > -1) this._spawnedPowerUps.splice(index, 1);
+      const spawned = this._spawnedPowerUps.get(player.id);
+      const index = spawned ? spawned.indexOf(entity) : -1;
+      if (index > -1) spawned!.splice(index, 1);
     }
 
     // Play collection sound
@@ -393,15 +396,22 @@ export class PowerUpManager {
   }
 
   /**
-   * Clear all spawned power-ups
+   * Clear spawned power-ups for a player (or all players if no ID given)
    */
-  public clearPowerUps(): void {
-    this._spawnedPowerUps.forEach(entity => {
-      if (entity.isSpawned) {
-        entity.despawn();
-      }
-    });
-    this._spawnedPowerUps = [];
+  public clearPowerUps(playerId?: string): void {
+    const playerIds = playerId ? [playerId] : Array.from(this._spawnedPowerUps.keys());
+
+    for (const id of playerIds) {
+      const spawned = this._spawnedPowerUps.get(id);
+      if (!spawned) continue;
+
+      spawned.forEach(entity => {
+        if (entity.isSpawned) {
+          entity.despawn();
+        }
+      });
+      this._spawnedPowerUps.delete(id);
+    }
   }
 
   /**
@@ -7,6 +7,7 @@
  * - All-Time Score
  * - Best Streak
  * - Speed Run (fastest perfect game)
+ * - Skill Rating (best competitive rating across subjects)
  * - Per-Subject high scores
  */
 
@@ -19,11 +20,15 @@ export type LeaderboardType =
   | 'all-time'
   | 'streak'
   | 'speed-run'
+  | 'rating'
   | 'math'
   | 'spelling'
   | 'geography'
   | 'science'
-  | 'history';
+  | 'history'
+  | 'vocabulary'
+  | 'language'
+  | 'typing';
 
 export interface LeaderboardEntry {
   rank: number;
@@ -36,6 +41,7 @@ export interface LeaderboardEntry {
     accuracy?: number;
     grade?: string;
     time?: number; // for speed runs
+    subject?: SubjectType; // for skill ratings
   };
 }
 
@@ -149,6 +155,14 @@ export class LeaderboardManager {
     return result;
   }
 
+  /**
+   * Set a player's skill rating entry (ratings can fall, so the entry is always replaced)
+   */
+  public submitRating(playerId: string, username: string, rating: number, subject: SubjectType): number | null {
+    this._submitToBoard('rating', playerId, username, rating, Date.now(), { subject }, true);
+    return this._getPlayerRank('rating', playerId);
+  }
+
   /**
    * Get leaderboard entries
    */
@@ -251,11 +265,15 @@ export class LeaderboardManager {
       'all-time',
       'streak',
       'speed-run',
+      'rating',
       'math',
       'spelling',
       'geography',
       'science',
-      'history'
+      'history',
+      'vocabulary',
+      'language',
+      'typing'
     ];
 
     for (const type of types) {
@@ -279,7 +297,8 @@ export class LeaderboardManager {
     username: string,
     score: number,
     achievedAt: number,
-    additionalData?: any
+    additionalData?: any,
+    replaceExisting: boolean = false
   ): boolean {
     const board = this._leaderboards.get(type);
     if (!board) return false;
@@ -290,7 +309,7 @@ export class LeaderboardManager {
     if (existingIdx !== -1) {
       // Player already on board - only update if new score is better
       const existing = board.entries[existingIdx];
-      if (score <= existing.score) {
+      if (!replaceExisting && score <= existing.score) {
         return false; // No improvement
       }
 
@@ -3,11 +3,18 @@
  *
  * Uses player.getPersistedData() and player.setPersistedData() for cross-session storage.
  * Data persists across game sessions, server restarts, and different lobbies.
+ * Server-wide data (e.g. ongoing leagues) uses Hytopia's global persisted data.
  */
 
+import { PersistenceManager as HytopiaPersistenceManager } from 'hytopia';
 import type { Player } from 'hytopia';
 import type { Difficulty } from '../types';
-import type { SubjectType, QuestionDifficulty } from '../questions/QuestionProvider';
+import type { Locale } from '../i18n/Locale';
+import { DEFAULT_LOCALE } from '../i18n/Locale';
+import type { SubjectType, QuestionDifficulty, QuestionFormat, Question } from '../questions/QuestionProvider';
+import { getQuestionFactKey } from '../questions/QuestionProvider';
+import type { ContentFilter } from '../questions/Standards';
+import { getStandardTags, hasContentFilter, matchesStandard, questionMatchesFilter } from '../questions/Standards';
 import type { GameScoreSummary } from '../scoring/ScoringSystem';
 
 // ============ Persisted Data Types ============
@@ -46,6 +53,9 @@ export interface PersistedPlayerData {
   // Preferences
   preferredDifficulty: Difficulty;
   preferredSubject: SubjectType;
+  gradeLevel: number | null;      // K=0, 1-12; null plays every grade
+  standardFilter: string | null;  // Standard code (or prefix) to practice; null plays them all
+  locale: Locale | null;          // Language for questions and UI; null until the player picks one
 
   // Leaderboard
   dailyHighScore: number;
@@ -57,6 +67,18 @@ export interface PersistedPlayerData {
   currentDailyStreak: number;
   longestDailyStreak: number;
   lastDailyPlayDate: string | null; // YYYY-MM-DD
+
+  // Per-question history for spaced-repetition review, keyed by fact key
+  reviewItems: Record<string, ReviewItem>;
+
+  // When each question was last shown (fact key -> timestamp), used to avoid repeats
+  questionExposure: Record<string, number>;
+
+  // How often each misconception showed up in a wrong answer (misconception ID -> count)
+  misconceptionCounts: Record<string, number>;
+
+  // Answers per curriculum standard code the questions were tagged with
+  standardProgress: Record<string, StandardProgress>;
 }
 
 export interface SubjectStats {
@@ -69,6 +91,10 @@ export interface SubjectStats {
   totalScore: number;
   averageResponseTime: number;
   categoryProgress: Record<string, CategoryProgress>;
+
+  // Competitive skill rating (Elo), updated after rated matches
+  rating: number;
+  ratedMatches: number;
 }
 
 export interface CategoryProgress {
@@ -76,6 +102,58 @@ export interface CategoryProgress {
   correctAnswers: number;
   accuracy: number;
   mastered: boolean;
+
+  // Games played with this category chosen in the lobby
+  gamesPlayed?: number;
+  highScore?: number;
+}
+
+/**
+ * History and SM-2 schedule for a single fact. A snapshot of the question is
+ * kept so the item can be served again in review mode.
+ */
+export interface ReviewItem {
+  key: string;
+  subject: SubjectType;
+  category: string;
+  difficulty: QuestionDifficulty;
+  questionText: string;
+  questionSubtext?: string;
+  imageUri?: string;
+  audioUri?: string;
+  format?: QuestionFormat;
+  correctAnswer: string;
+  correctAnswers?: string[];
+  wrongAnswers: string[];
+  answerImages?: Record<string, string>;
+  explanation?: string;
+  hints?: string[];
+  locale?: Locale;  // The language the snapshot was shown in (unset for English)
+  gradeLevel?: number;
+  standards?: string[];  // Standard codes the question is tagged with
+
+  // History
+  timesSeen: number;
+  timesCorrect: number;
+  lastSeenAt: number;
+
+  // Schedule
+  repetitions: number;  // Consecutive successful reviews
+  easeFactor: number;
+  intervalDays: number;
+  dueAt: number;
+}
+
+export interface StandardProgress {
+  questionsAnswered: number;
+  correctAnswers: number;
+  accuracy: number;
+  lastAnsweredAt: number;
+}
+
+/** One row of a standards report */
+export interface StandardReport extends StandardProgress {
+  code: string;
 }
 
 export interface DifficultyStats {
@@ -89,6 +167,33 @@ export interface DifficultyStats {
 
 // ============ Default Data ============
 
+export const DEFAULT_RATING = 1200;
+
+// Spaced repetition (SM-2)
+const REVIEW_DEFAULT_EASE = 2.5;
+const REVIEW_MIN_EASE = 1.3;
+const REVIEW_FIRST_INTERVAL_DAYS = 1;
+const REVIEW_SECOND_INTERVAL_DAYS = 6;
+const REVIEW_FAST_ANSWER_MS = 5000;  // Correct answers faster than this count as "easy"
+const REVIEW_RETRY_DELAY_MS = 10 * 60 * 1000;  // Missed items come back after 10 minutes
+const MAX_REVIEW_ITEMS = 300;  // Keeps persisted player data bounded
+const MAX_EXPOSURE_ITEMS = 500;  // Oldest exposures are forgotten first
+const DAY_MS = 86400000;
+
+/**
+ * Key for review items and exposure history: the question's locale-independent fact key
+ */
+export function getReviewKey(question: Question): string {
+  return getQuestionFactKey(question);
+}
+
+/**
+ * Whether a review item passes the player's grade band / standard filter
+ */
+function reviewItemMatchesFilter(item: ReviewItem, filter: ContentFilter | undefined): boolean {
+  return !hasContentFilter(filter) || questionMatchesFilter({ gradeLevel: item.gradeLevel, tags: item.standards }, filter);
+}
+
 function createDefaultSubjectStats(): SubjectStats {
   return {
     gamesPlayed: 0,
@@ -99,7 +204,9 @@ function createDefaultSubjectStats(): SubjectStats {
     bestStreak: 0,
     totalScore: 0,
     averageResponseTime: 0,
-    categoryProgress: {}
+    categoryProgress: {},
+    rating: DEFAULT_RATING,
+    ratedMatches: 0
   };
 }
 
@@ -155,6 +262,9 @@ function createDefaultPlayerData(username: string): PersistedPlayerData {
 
     preferredDifficulty: 'moderate',
     preferredSubject: 'math',
+    gradeLevel: null,
+    standardFilter: null,
+    locale: null,
 
     dailyHighScore: 0,
     dailyHighScoreDate: '',
@@ -163,7 +273,12 @@ function createDefaultPlayerData(username: string): PersistedPlayerData {
 
     currentDailyStreak: 0,
     longestDailyStreak: 0,
-    lastDailyPlayDate: null
+    lastDailyPlayDate: null,
+
+    reviewItems: {},
+    questionExposure: {},
+    misconceptionCounts: {},
+    standardProgress: {}
   };
 }
 
@@ -274,12 +389,13 @@ export class PersistenceManager {
   }
 
   /**
-   * Record a completed game
+   * Record a completed game (category is the one chosen in the lobby, if any)
    */
   public async recordGameResult(
     player: Player,
     summary: GameScoreSummary,
-    subject: SubjectType
+    subject: SubjectType,
+    category?: string
   ): Promise<void> {
     const data = this._playerDataCache.get(player.id);
     if (!data) return;
@@ -334,6 +450,21 @@ export class PersistenceManager {
     subjectStats.averageResponseTime =
       ((prevAvg * (totalResponses - newResponses)) + (summary.averageResponseTime * newResponses)) / totalResponses;
 
+    // Update stats for a single-category game
+    if (category) {
+      const categoryProgress = subjectStats.categoryProgress[category] || {
+        questionsAnswered: 0,
+        correctAnswers: 0,
+        accuracy: 0,
+        mastered: false
+      };
+      categoryProgress.gamesPlayed = (categoryProgress.gamesPlayed ?? 0) + 1;
+      if (summary.totalScore > (categoryProgress.highScore ?? 0)) {
+        categoryProgress.highScore = summary.totalScore;
+      }
+      subjectStats.categoryProgress[category] = categoryProgress;
+    }
+
     // Update difficulty stats
     const diffStats = data.difficultyStats[summary.difficulty];
     diffStats.gamesPlayed++;
@@ -405,6 +536,293 @@ export class PersistenceManager {
     data.subjectStats[subject].categoryProgress[category] = categoryProgress;
   }
 
+  /**
+   * Record an answer in the player's per-question history and reschedule the item (SM-2)
+   */
+  public recordQuestionResult(
+    playerId: string,
+    question: Question,
+    correct: boolean,
+    responseTimeMs: number
+  ): void {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return;
+
+    const key = getReviewKey(question);
+    const now = Date.now();
+    const item: ReviewItem = data.reviewItems[key] || {
+      key,
+      subject: question.subject,
+      category: question.category,
+      difficulty: question.difficulty,
+      questionText: question.questionText,
+      questionSubtext: question.questionSubtext,
+      imageUri: question.imageUri,
+      audioUri: question.audioUri,
+      format: question.format,
+      correctAnswer: question.correctAnswer,
+      correctAnswers: question.correctAnswers,
+      wrongAnswers: [...question.wrongAnswers],
+      answerImages: question.answerImages,
+      explanation: question.explanation,
+      hints: question.hints,
+      locale: question.locale,
+      gradeLevel: question.gradeLevel,
+      standards: getStandardTags(question),
+      timesSeen: 0,
+      timesCorrect: 0,
+      lastSeenAt: now,
+      repetitions: 0,
+      easeFactor: REVIEW_DEFAULT_EASE,
+      intervalDays: 0,
+      dueAt: now
+    };
+
+    // Items saved before grades and standards were tracked pick them up on their next answer
+    if (item.standards === undefined) {
+      item.gradeLevel = question.gradeLevel;
+      item.standards = getStandardTags(question);
+    }
+
+    item.timesSeen++;
+    item.lastSeenAt = now;
+
+    // SM-2 quality: 5 = fast and correct, 4 = correct, 1 = missed
+    const quality = correct ? (responseTimeMs <= REVIEW_FAST_ANSWER_MS ? 5 : 4) : 1;
+
+    if (correct) {
+      item.timesCorrect++;
+      item.repetitions++;
+      if (item.repetitions === 1) {
+        item.intervalDays = REVIEW_FIRST_INTERVAL_DAYS;
+      } else if (item.repetitions === 2) {
+        item.intervalDays = REVIEW_SECOND_INTERVAL_DAYS;
+      } else {
+        item.intervalDays = Math.round(item.intervalDays * item.easeFactor);
+      }
+      item.dueAt = now + item.intervalDays * DAY_MS;
+    } else {
+      // Start the item over and bring it back soon
+      item.repetitions = 0;
+      item.intervalDays = 0;
+      item.dueAt = now + REVIEW_RETRY_DELAY_MS;
+    }
+
+    item.easeFactor = Math.max(
+      REVIEW_MIN_EASE,
+      item.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    );
+
+    data.reviewItems[key] = item;
+    this._pruneReviewItems(data);
+
+    // Count the answer toward each standard the question practices
+    for (const code of getStandardTags(question)) {
+      const progress = data.standardProgress[code] || {
+        questionsAnswered: 0,
+        correctAnswers: 0,
+        accuracy: 0,
+        lastAnsweredAt: now
+      };
+      progress.questionsAnswered++;
+      if (correct) {
+        progress.correctAnswers++;
+      }
+      progress.accuracy = (progress.correctAnswers / progress.questionsAnswered) * 100;
+      progress.lastAnsweredAt = now;
+      data.standardProgress[code] = progress;
+    }
+  }
+
+  /**
+   * Get review items that are due for a subject (optionally one category and content filter), most overdue first
+   */
+  public getDueReviewItems(
+    playerId: string,
+    subject: SubjectType,
+    limit: number = 10,
+    excludeKeys: string[] = [],
+    category?: string,
+    filter?: ContentFilter
+  ): ReviewItem[] {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return [];
+
+    const now = Date.now();
+    return Object.values(data.reviewItems)
+      .filter(item => item.subject === subject && item.dueAt <= now && !excludeKeys.includes(item.key))
+      .filter(item => !category || item.category === category)
+      .filter(item => reviewItemMatchesFilter(item, filter))
+      .sort((a, b) => a.dueAt - b.dueAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * Count review items due for a subject (optionally one category and content filter)
+   */
+  public getDueReviewCount(playerId: string, subject: SubjectType, category?: string, filter?: ContentFilter): number {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return 0;
+
+    const now = Date.now();
+    return Object.values(data.reviewItems)
+      .filter(item => item.subject === subject && item.dueAt <= now)
+      .filter(item => !category || item.category === category)
+      .filter(item => reviewItemMatchesFilter(item, filter))
+      .length;
+  }
+
+  /**
+   * Remember that a question was shown to the player
+   */
+  public recordQuestionExposure(playerId: string, question: Question): void {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return;
+
+    const key = getReviewKey(question);
+
+    // Re-insert so object order stays oldest-first for pruning
+    delete data.questionExposure[key];
+    data.questionExposure[key] = Date.now();
+
+    const keys = Object.keys(data.questionExposure);
+    if (keys.length > MAX_EXPOSURE_ITEMS) {
+      keys.slice(0, keys.length - MAX_EXPOSURE_ITEMS).forEach(k => delete data.questionExposure[k]);
+    }
+  }
+
+  /**
+   * When the player last saw a question (0 if never)
+   */
+  public getQuestionLastSeenAt(playerId: string, question: Question): number {
+    return this._playerDataCache.get(playerId)?.questionExposure[getReviewKey(question)] ?? 0;
+  }
+
+  /**
+   * Count a wrong answer explained by a known misconception
+   */
+  public recordMisconception(playerId: string, misconceptionId: string): void {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return;
+
+    data.misconceptionCounts[misconceptionId] = (data.misconceptionCounts[misconceptionId] || 0) + 1;
+  }
+
+  /**
+   * A player's most frequent misconceptions, most frequent first
+   */
+  public getTopMisconceptions(playerId: string, limit: number = 5): { id: string; count: number }[] {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return [];
+
+    return Object.entries(data.misconceptionCounts)
+      .map(([id, count]) => ({ id, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, limit);
+  }
+
+  /**
+   * A player's answers per curriculum standard, optionally only codes under one standard, sorted by code
+   */
+  public getStandardsReport(playerId: string, standard?: string): StandardReport[] {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return [];
+
+    return Object.entries(data.standardProgress)
+      .filter(([code]) => !standard || matchesStandard(code, standard))
+      .map(([code, progress]) => ({ code, ...progress }))
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  /**
+   * Get the grade band and standard a player's questions are kept to
+   */
+  public getContentFilter(playerId: string): ContentFilter {
+    const data = this._playerDataCache.get(playerId);
+    return {
+      gradeLevel: data?.gradeLevel ?? undefined,
+      standard: data?.standardFilter ?? undefined
+    };
+  }
+
+  /**
+   * Save the grade band and standard a player's questions are kept to
+   */
+  public setContentFilter(playerId: string, filter: ContentFilter): void {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return;
+
+    data.gradeLevel = filter.gradeLevel ?? null;
+    data.standardFilter = filter.standard || null;
+  }
+
+  /**
+   * Get the language a player's questions and UI are shown in
+   */
+  public getLocale(playerId: string): Locale {
+    return this._playerDataCache.get(playerId)?.locale ?? DEFAULT_LOCALE;
+  }
+
+  /**
+   * Whether the player has picked a language yet (otherwise the client's may be used)
+   */
+  public hasChosenLocale(playerId: string): boolean {
+    return !!this._playerDataCache.get(playerId)?.locale;
+  }
+
+  /**
+   * Save the language a player's questions and UI are shown in
+   */
+  public setLocale(playerId: string, locale: Locale): void {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return;
+
+    data.locale = locale;
+  }
+
+  /**
+   * Get a player's skill rating in a subject (default rating if unknown)
+   */
+  public getRating(playerId: string, subject: SubjectType): number {
+    return this._playerDataCache.get(playerId)?.subjectStats[subject]?.rating ?? DEFAULT_RATING;
+  }
+
+  /**
+   * Get the number of rated matches a player has played in a subject
+   */
+  public getRatedMatches(playerId: string, subject: SubjectType): number {
+    return this._playerDataCache.get(playerId)?.subjectStats[subject]?.ratedMatches ?? 0;
+  }
+
+  /**
+   * Get a player's highest rating across all subjects
+   */
+  public getBestRating(playerId: string): { subject: SubjectType; rating: number } | null {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return null;
+
+    let best: { subject: SubjectType; rating: number } | null = null;
+    for (const [subject, stats] of Object.entries(data.subjectStats)) {
+      if (stats.ratedMatches === 0) continue;
+      if (!best || stats.rating > best.rating) {
+        best = { subject: subject as SubjectType, rating: stats.rating };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Store a player's new rating after a rated match (saved with the player's next save)
+   */
+  public updateRating(playerId: string, subject: SubjectType, rating: number): void {
+    const data = this._playerDataCache.get(playerId);
+    if (!data) return;
+
+    const subjectStats = data.subjectStats[subject];
+    subjectStats.rating = rating;
+    subjectStats.ratedMatches++;
+  }
+
   /**
    * Unlock an achievement
    */
@@ -469,6 +887,36 @@ export class PersistenceManager {
     console.log(`[Persistence] Player ${player.username} disconnected, data saved`);
   }
 
+  // ============ Global Data ============
+
+  /**
+   * Load server-wide data stored under a key
+   */
+  public async loadGlobalData<T extends object>(key: string): Promise<T | undefined> {
+    try {
+      const data = await HytopiaPersistenceManager.instance.getGlobalData(key);
+      if (data && typeof data === 'object') {
+        return data as T;
+      }
+    } catch (error) {
+      console.warn(`[Persistence] Error loading global data "${key}":`, error);
+    }
+    return undefined;
+  }
+
+  /**
+   * Save server-wide data under a key
+   */
+  public async saveGlobalData(key: string, data: object): Promise<boolean> {
+    try {
+      await HytopiaPersistenceManager.instance.setGlobalData(key, data as Record<string, unknown>);
+      return true;
+    } catch (error) {
+      console.error(`[Persistence] Error saving global data "${key}":`, error);
+      return false;
+    }
+  }
+
   // ============ Private Helpers ============
 
   private _mergeWithDefaults(partial: Partial<PersistedPlayerData>, username: string): PersistedPlayerData {
@@ -502,6 +950,17 @@ export class PersistenceManager {
     return merged;
   }
 
+  private _pruneReviewItems(data: PersistedPlayerData): void {
+    const items = Object.values(data.reviewItems);
+    if (items.length <= MAX_REVIEW_ITEMS) return;
+
+    // Drop the best-known facts first (longest interval), then the least recently seen
+    items
+      .sort((a, b) => b.intervalDays - a.intervalDays || a.lastSeenAt - b.lastSeenAt)
+      .slice(0, items.length - MAX_REVIEW_ITEMS)
+      .forEach(item => delete data.reviewItems[item.key]);
+  }
+
   private _updateDailyStreak(data: PersistedPlayerData): void {
     const today = this._getDateString();
     const yesterday = this._getDateString(new Date(Date.now() - 86400000));
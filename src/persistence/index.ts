@@ -2,5 +2,6 @@
  * Persistence Module - Export persistence and leaderboard managers
  */
 
-export { PersistenceManager, PersistedPlayerData, SubjectStats, DifficultyStats, CategoryProgress } from './PersistenceManager';
+export { PersistenceManager, PersistedPlayerData, SubjectStats, DifficultyStats, CategoryProgress, DEFAULT_RATING, getReviewKey } from './PersistenceManager';
+export type { ReviewItem, StandardProgress, StandardReport } from './PersistenceManager';
 export { LeaderboardManager, LeaderboardType, LeaderboardEntry, LeaderboardData } from './LeaderboardManager';
@@ -7,11 +7,17 @@
  * - US States & Capitals
  * - Landmarks & Wonders
  * - Oceans & Rivers
- * - Flags (coming soon - would need visual support)
+ * - Flags (images in assets/ui/images/flags)
+ *
+ * Some capital questions are true/false statements, and some continent
+ * questions ask the player to select every country on a continent.
  */
 
 import {
   BaseQuestionProvider,
+  CHOICE_COUNTS,
+  TRUE_FALSE_CHOICES,
+  joinSelection,
   Question,
   QuestionCategory,
   QuestionDifficulty,
@@ -42,6 +48,12 @@ interface LandmarkData {
   type: string;
 }
 
+interface FlagData {
+  country: string;
+  code: string;         // File name under FLAG_IMAGE_PATH
+  description: string;  // The design in words, used in explanations
+}
+
 interface GeographyFactData {
   question: string;
   answer: string;
@@ -56,6 +68,7 @@ const GEOGRAPHY_CATEGORIES: QuestionCategory[] = [
     description: 'Name the capital cities of countries',
     subject: 'geography',
     gradeLevel: 4,
+    standards: ['C3.D2.Geo.2.3-5', 'C3.D2.Geo.2.6-8'],
     icon: '🏛️'
   },
   {
@@ -64,6 +77,7 @@ const GEOGRAPHY_CATEGORIES: QuestionCategory[] = [
     description: 'Match countries to their continents',
     subject: 'geography',
     gradeLevel: 3,
+    standards: ['C3.D2.Geo.2.K-2', 'C3.D2.Geo.2.3-5'],
     icon: '🌍'
   },
   {
@@ -72,6 +86,7 @@ const GEOGRAPHY_CATEGORIES: QuestionCategory[] = [
     description: 'US states and their capitals',
     subject: 'geography',
     gradeLevel: 4,
+    standards: ['C3.D2.Geo.2.3-5'],
     icon: '🇺🇸'
   },
   {
@@ -80,6 +95,7 @@ const GEOGRAPHY_CATEGORIES: QuestionCategory[] = [
     description: 'World-famous landmarks and wonders',
     subject: 'geography',
     gradeLevel: 5,
+    standards: ['C3.D2.Geo.4.3-5', 'C3.D2.Geo.6.6-8'],
     icon: '🗽'
   },
   {
@@ -88,7 +104,17 @@ const GEOGRAPHY_CATEGORIES: QuestionCategory[] = [
     description: 'Bodies of water around the world',
     subject: 'geography',
     gradeLevel: 3,
+    standards: ['C3.D2.Geo.2.3-5', 'C3.D2.Geo.5.3-5'],
     icon: '🌊'
+  },
+  {
+    id: 'flags',
+    name: 'Flags',
+    description: 'Recognize the flags of the world',
+    subject: 'geography',
+    gradeLevel: 3,
+    standards: ['C3.D2.Geo.6.K-2', 'C3.D2.Geo.6.3-5'],
+    icon: '🏳️'
   }
 ];
 
@@ -234,6 +260,51 @@ const LANDMARKS: LandmarkData[] = [
   { name: 'Acropolis', location: 'Athens', country: 'Greece', type: 'Citadel' },
 ];
 
+const FLAG_IMAGE_PATH = 'ui/images/flags';
+
+const TRUE_FALSE_CHANCE = 0.2;    // "True or false: Paris is the capital of France."
+const MULTI_SELECT_CHANCE = 0.3;  // "Select all the countries in Europe"
+
+
+// Flags organized by difficulty; look-alikes share a tier so they appear as each other's wrong answers
+const FLAGS: Record<QuestionDifficulty, FlagData[]> = {
+  beginner: [
+    { country: 'France', code: 'fr', description: 'blue, white and red vertical stripes' },
+    { country: 'Italy', code: 'it', description: 'green, white and red vertical stripes' },
+    { country: 'Germany', code: 'de', description: 'black, red and gold horizontal stripes' },
+    { country: 'Japan', code: 'jp', description: 'a red circle on white' },
+    { country: 'Ireland', code: 'ie', description: 'green, white and orange vertical stripes' },
+    { country: 'Netherlands', code: 'nl', description: 'red, white and blue horizontal stripes' },
+  ],
+  intermediate: [
+    { country: 'Russia', code: 'ru', description: 'white, blue and red horizontal stripes' },
+    { country: 'Belgium', code: 'be', description: 'black, yellow and red vertical stripes' },
+    { country: 'Poland', code: 'pl', description: 'white over red' },
+    { country: 'Indonesia', code: 'id', description: 'red over white' },
+    { country: 'Sweden', code: 'se', description: 'a yellow cross on blue' },
+    { country: 'Switzerland', code: 'ch', description: 'a white cross on a red square' },
+    { country: 'Ukraine', code: 'ua', description: 'blue over yellow' },
+  ],
+  advanced: [
+    { country: 'Austria', code: 'at', description: 'red, white and red horizontal stripes' },
+    { country: 'Hungary', code: 'hu', description: 'red, white and green horizontal stripes' },
+    { country: 'Nigeria', code: 'ng', description: 'green, white and green vertical stripes' },
+    { country: 'Colombia', code: 'co', description: 'a wide yellow stripe over blue and red' },
+    { country: 'Denmark', code: 'dk', description: 'a white cross on red' },
+    { country: 'Finland', code: 'fi', description: 'a blue cross on white' },
+    { country: 'Bangladesh', code: 'bd', description: 'a red circle on green' },
+  ],
+  expert: [
+    { country: 'Romania', code: 'ro', description: 'blue, yellow and red vertical stripes' },
+    { country: 'Estonia', code: 'ee', description: 'blue, black and white horizontal stripes' },
+    { country: 'Lithuania', code: 'lt', description: 'yellow, green and red horizontal stripes' },
+    { country: 'Mali', code: 'ml', description: 'green, yellow and red vertical stripes' },
+    { country: 'Bulgaria', code: 'bg', description: 'white, green and red horizontal stripes' },
+    { country: 'Sierra Leone', code: 'sl', description: 'green, white and blue horizontal stripes' },
+    { country: 'Gabon', code: 'ga', description: 'green, yellow and blue horizontal stripes' },
+  ]
+};
+
 // Oceans and major rivers/lakes
 const WATER_BODIES: GeographyFactData[] = [
   { question: 'Which is the largest ocean?', answer: 'Pacific Ocean', wrongAnswers: ['Atlantic Ocean', 'Indian Ocean', 'Arctic Ocean'], category: 'oceans-rivers' },
@@ -248,6 +319,13 @@ const WATER_BODIES: GeographyFactData[] = [
   { question: 'Which is the largest lake in Africa?', answer: 'Lake Victoria', wrongAnswers: ['Lake Tanganyika', 'Lake Malawi', 'Lake Chad'], category: 'oceans-rivers' },
 ];
 
+/**
+ * Continent of a country in COUNTRIES, for hints (undefined if it isn't listed)
+ */
+function findContinent(country: string): string | undefined {
+  return Object.values(COUNTRIES).flat().find(c => c.country === country)?.continent;
+}
+
 export class GeographyQuestionProvider extends BaseQuestionProvider {
   readonly subject: SubjectType = 'geography';
   readonly config: QuestionProviderConfig = {
@@ -263,7 +341,8 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
       'continents',
       'us-states',
       'landmarks',
-      'oceans-rivers'
+      'oceans-rivers',
+      'flags'
     ]);
 
     switch (questionType) {
@@ -277,6 +356,8 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
         return this._createLandmarkQuestion(difficulty);
       case 'oceans-rivers':
         return this._createWaterBodyQuestion(difficulty);
+      case 'flags':
+        return this._createFlagQuestion(difficulty);
       default:
         return this._createCapitalQuestion(difficulty);
     }
@@ -288,21 +369,23 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
     questionsPerDifficulty: Record<QuestionDifficulty, number>;
   } {
     const countriesTotal = Object.values(COUNTRIES).reduce((sum, arr) => sum + arr.length, 0);
+    const flagsTotal = Object.values(FLAGS).reduce((sum, arr) => sum + arr.length, 0);
 
     return {
-      totalQuestions: countriesTotal * 2 + US_STATES.length * 2 + LANDMARKS.length + WATER_BODIES.length,
+      totalQuestions: countriesTotal * 2 + US_STATES.length * 2 + LANDMARKS.length + WATER_BODIES.length + flagsTotal * 2,
       questionsPerCategory: {
         'world-capitals': countriesTotal,
         'continents': countriesTotal,
         'us-states': US_STATES.length * 2,
         'landmarks': LANDMARKS.length,
-        'oceans-rivers': WATER_BODIES.length
+        'oceans-rivers': WATER_BODIES.length,
+        'flags': flagsTotal * 2
       },
       questionsPerDifficulty: {
-        beginner: COUNTRIES.beginner.length * 2 + 20,
-        intermediate: COUNTRIES.intermediate.length * 2 + 20,
-        advanced: COUNTRIES.advanced.length * 2 + 20,
-        expert: COUNTRIES.expert.length * 2 + 20
+        beginner: COUNTRIES.beginner.length * 2 + FLAGS.beginner.length * 2 + 20,
+        intermediate: COUNTRIES.intermediate.length * 2 + FLAGS.intermediate.length * 2 + 20,
+        advanced: COUNTRIES.advanced.length * 2 + FLAGS.advanced.length * 2 + 20,
+        expert: COUNTRIES.expert.length * 2 + FLAGS.expert.length * 2 + 20
       }
     };
   }
@@ -315,7 +398,25 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
     const otherCapitals = countries
       .filter(c => c.capital !== country.capital)
       .map(c => c.capital);
-    const wrongAnswers = this.randomPickN(otherCapitals, 3);
+    const wrongAnswers = this.randomPickN(otherCapitals, this.getWrongAnswerCount(difficulty));
+
+    if (this.random() < TRUE_FALSE_CHANCE) {
+      const isTrue = this.random() < 0.5;
+      const [trueChoice, falseChoice] = TRUE_FALSE_CHOICES;
+
+      return {
+        id: this.generateId(),
+        subject: this.subject,
+        category: 'world-capitals',
+        difficulty,
+        format: 'true-false',
+        questionText: `True or false: ${isTrue ? country.capital : wrongAnswers[0]} is the capital of ${country.country}`,
+        correctAnswer: isTrue ? trueChoice : falseChoice,
+        wrongAnswers: [isTrue ? falseChoice : trueChoice],
+        explanation: `${country.capital} is the capital of ${country.country}`,
+        tags: ['capitals', country.continent.toLowerCase(), 'true-false']
+      };
+    }
 
     return {
       id: this.generateId(),
@@ -326,6 +427,7 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
       correctAnswer: country.capital,
       wrongAnswers,
       explanation: `${country.capital} is the capital of ${country.country}`,
+      hints: [`${country.country} is in ${country.continent}`, this.firstLetterHint(country.capital)],
       tags: ['capitals', country.continent.toLowerCase()]
     };
   }
@@ -334,6 +436,11 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
     const countries = COUNTRIES[difficulty];
     const country = this.randomPick(countries);
 
+    if (this.random() < MULTI_SELECT_CHANCE) {
+      const question = this._createSelectCountriesQuestion(difficulty);
+      if (question) return question;
+    }
+
     const allContinents = ['North America', 'South America', 'Europe', 'Asia', 'Africa', 'Oceania', 'Antarctica'];
     const wrongContinents = allContinents
       .filter(c => c !== country.continent && !country.continent.includes(c))
@@ -348,21 +455,55 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
       correctAnswer: country.continent,
       wrongAnswers: this.shuffle(wrongContinents).slice(0, 3),
       explanation: `${country.country} is located in ${country.continent}`,
+      hints: [`Its capital is ${country.capital}`, this.firstLetterHint(country.continent)],
       tags: ['continents', country.continent.toLowerCase()]
     };
   }
 
+  /**
+   * "Select all the countries in Europe" - null if no continent has two countries at this difficulty
+   */
+  private _createSelectCountriesQuestion(difficulty: QuestionDifficulty): Question | null {
+    // Countries spanning two continents ("Europe/Asia") are left out, either answer would be arguable
+    const countries = COUNTRIES[difficulty].filter(c => !c.continent.includes('/'));
+    const continents = [...new Set(countries.map(c => c.continent))]
+      .filter(continent => countries.filter(c => c.continent === continent).length >= 2);
+    if (continents.length === 0) return null;
+
+    const continent = this.randomPick(continents);
+    const correctCount = Math.ceil(CHOICE_COUNTS[difficulty] / 2);
+    const correct = this.randomPickN(countries.filter(c => c.continent === continent), correctCount)
+      .map(c => c.country);
+    const wrong = this.randomPickN(countries.filter(c => c.continent !== continent), CHOICE_COUNTS[difficulty] - correct.length)
+      .map(c => c.country);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'continents',
+      difficulty,
+      format: 'multi-select',
+      questionText: `Select all the countries in ${continent}`,
+      correctAnswer: joinSelection(correct),
+      correctAnswers: correct,
+      wrongAnswers: wrong,
+      explanation: `${joinSelection(correct)} are in ${continent}`,
+      hints: [`${correct.length} of them are in ${continent}`, `${correct[0]} is one of them`],
+      tags: ['continents', continent.toLowerCase(), 'multi-select']
+    };
+  }
+
   private _createUSStateQuestion(difficulty: QuestionDifficulty): Question {
     const state = this.randomPick(US_STATES);
 
     // Randomly choose between asking capital or state
-    const askCapital = Math.random() > 0.5;
+    const askCapital = this.random() > 0.5;
 
     if (askCapital) {
       const otherCapitals = US_STATES
         .filter(s => s.capital !== state.capital)
         .map(s => s.capital);
-      const wrongAnswers = this.randomPickN(otherCapitals, 3);
+      const wrongAnswers = this.randomPickN(otherCapitals, this.getWrongAnswerCount(difficulty));
 
       return {
         id: this.generateId(),
@@ -374,13 +515,14 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
         correctAnswer: state.capital,
         wrongAnswers,
         explanation: `${state.capital} is the capital of ${state.state}`,
+        hints: [`${state.state} is in the ${state.region}`, this.firstLetterHint(state.capital)],
         tags: ['us-states', 'capitals', state.region.toLowerCase()]
       };
     } else {
       const otherStates = US_STATES
         .filter(s => s.state !== state.state)
         .map(s => s.state);
-      const wrongAnswers = this.randomPickN(otherStates, 3);
+      const wrongAnswers = this.randomPickN(otherStates, this.getWrongAnswerCount(difficulty));
 
       return {
         id: this.generateId(),
@@ -391,6 +533,7 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
         correctAnswer: state.state,
         wrongAnswers,
         explanation: `${state.capital} is the capital of ${state.state}`,
+        hints: [`It's in the ${state.region}`, this.firstLetterHint(state.state)],
         tags: ['us-states', state.region.toLowerCase()]
       };
     }
@@ -423,6 +566,7 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
       correctAnswer: landmark.country,
       wrongAnswers: wrongAnswers.slice(0, 3),
       explanation: `The ${landmark.name} is located in ${landmark.location}, ${landmark.country}`,
+      hints: this._getCountryHints(landmark.country),
       tags: ['landmarks', landmark.type.toLowerCase()]
     };
   }
@@ -442,4 +586,56 @@ export class GeographyQuestionProvider extends BaseQuestionProvider {
       tags: ['water', 'oceans', 'rivers']
     };
   }
+
+  /**
+   * The continent when we know it, then the first letter
+   */
+  private _getCountryHints(country: string): string[] {
+    const continent = findContinent(country);
+    const firstLetter = this.firstLetterHint(country);
+    return continent ? [`It's a country in ${continent}`, firstLetter] : [firstLetter];
+  }
+
+  private _createFlagQuestion(difficulty: QuestionDifficulty): Question {
+    const flags = FLAGS[difficulty];
+    const flag = this.randomPick(flags);
+    const wrongFlags = this.randomPickN(flags.filter(f => f.code !== flag.code), this.getWrongAnswerCount(difficulty));
+    const flagUri = (f: FlagData) => `${FLAG_IMAGE_PATH}/${f.code}.svg`;
+
+    // Either show one flag and name the country, or name the country and show flags on the blocks
+    if (this.random() > 0.5) {
+      return {
+        id: this.generateId(),
+        subject: this.subject,
+        category: 'flags',
+        difficulty,
+        questionText: 'Which country does this flag belong to?',
+        imageUri: flagUri(flag),
+        correctAnswer: flag.country,
+        wrongAnswers: wrongFlags.map(f => f.country),
+        explanation: `The flag of ${flag.country} has ${flag.description}`,
+        hints: this._getCountryHints(flag.country),
+        tags: ['flags', flag.code]
+      };
+    }
+
+    const answerImages: Record<string, string> = {};
+    for (const f of [flag, ...wrongFlags]) {
+      answerImages[f.country] = flagUri(f);
+    }
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'flags',
+      difficulty,
+      questionText: `Which is the flag of ${flag.country}?`,
+      correctAnswer: flag.country,
+      wrongAnswers: wrongFlags.map(f => f.country),
+      answerImages,
+      explanation: `The flag of ${flag.country} has ${flag.description}`,
+      hints: [`Look for ${flag.description}`],
+      tags: ['flags', flag.code]
+    };
+  }
 }
@@ -8,10 +8,12 @@
  * - World History
  * - Famous People
  * - Inventions & Discoveries
+ * - Timelines (put events in chronological order)
  */
 
 import {
   BaseQuestionProvider,
+  joinSelection,
   Question,
   QuestionCategory,
   QuestionDifficulty,
@@ -26,9 +28,23 @@ interface HistoryQuestion {
   category: string;
   explanation?: string;
   difficulty: QuestionDifficulty;
-  year?: number;
+  year?: number;  // When it happened (negative for BC), used for era hints
 }
 
+interface HistoryEvent {
+  label: string;  // Shown on a block, so keep it short and comma-free
+  year: number;   // Negative for BC
+}
+
+interface HistoryTimeline {
+  topic: string;
+  difficulty: QuestionDifficulty;
+  events: HistoryEvent[];  // Earliest first
+}
+
+// Share of uncategorized questions that are timelines
+const TIMELINE_CHANCE = 0.2;
+
 const HISTORY_CATEGORIES: QuestionCategory[] = [
   {
     id: 'ancient',
@@ -36,6 +52,7 @@ const HISTORY_CATEGORIES: QuestionCategory[] = [
     description: 'Egypt, Rome, Greece, and early civilizations',
     subject: 'history',
     gradeLevel: 5,
+    standards: ['C3.D2.His.2.3-5', 'C3.D2.His.2.6-8'],
     icon: '🏛️'
   },
   {
@@ -44,6 +61,7 @@ const HISTORY_CATEGORIES: QuestionCategory[] = [
     description: 'The Middle Ages and Renaissance',
     subject: 'history',
     gradeLevel: 6,
+    standards: ['C3.D2.His.2.6-8', 'C3.D2.His.14.6-8'],
     icon: '⚔️'
   },
   {
@@ -52,6 +70,7 @@ const HISTORY_CATEGORIES: QuestionCategory[] = [
     description: 'US history from founding to present',
     subject: 'history',
     gradeLevel: 4,
+    standards: ['C3.D2.His.3.3-5', 'C3.D2.His.14.3-5'],
     icon: '🇺🇸'
   },
   {
@@ -60,6 +79,7 @@ const HISTORY_CATEGORIES: QuestionCategory[] = [
     description: 'Major world events and eras',
     subject: 'history',
     gradeLevel: 5,
+    standards: ['C3.D2.His.2.6-8', 'C3.D2.His.14.6-8'],
     icon: '🌍'
   },
   {
@@ -68,6 +88,7 @@ const HISTORY_CATEGORIES: QuestionCategory[] = [
     description: 'Important historical figures',
     subject: 'history',
     gradeLevel: 4,
+    standards: ['C3.D2.His.3.3-5', 'C3.D2.His.3.6-8'],
     icon: '👤'
   },
   {
@@ -76,7 +97,17 @@ const HISTORY_CATEGORIES: QuestionCategory[] = [
     description: 'Important inventions throughout history',
     subject: 'history',
     gradeLevel: 4,
+    standards: ['C3.D2.His.14.3-5', 'C3.D2.His.14.6-8'],
     icon: '💡'
+  },
+  {
+    id: 'timelines',
+    name: 'Timelines',
+    description: 'Put historical events in order',
+    subject: 'history',
+    gradeLevel: 5,
+    standards: ['C3.D2.His.1.3-5', 'C3.D2.His.1.6-8'],
+    icon: '📜'
   }
 ];
 
@@ -90,11 +121,11 @@ const HISTORY_QUESTIONS: HistoryQuestion[] = [
   { question: 'What river was ancient Egypt built around?', answer: 'Nile River', wrongAnswers: ['Amazon River', 'Tigris River', 'Ganges River'], category: 'ancient', difficulty: 'beginner' },
 
   // ANCIENT HISTORY - Intermediate
-  { question: 'Who was the famous queen of Egypt?', answer: 'Cleopatra', wrongAnswers: ['Nefertiti', 'Hatshepsut', 'Isis'], category: 'ancient', difficulty: 'intermediate' },
-  { question: 'What Greek philosopher taught Alexander the Great?', answer: 'Aristotle', wrongAnswers: ['Plato', 'Socrates', 'Homer'], category: 'ancient', difficulty: 'intermediate' },
-  { question: 'What empire did Julius Caesar rule?', answer: 'Roman Empire', wrongAnswers: ['Greek Empire', 'Persian Empire', 'Egyptian Empire'], category: 'ancient', difficulty: 'intermediate' },
+  { question: 'Who was the famous queen of Egypt?', answer: 'Cleopatra', wrongAnswers: ['Nefertiti', 'Hatshepsut', 'Isis'], category: 'ancient', difficulty: 'intermediate', year: -51 },
+  { question: 'What Greek philosopher taught Alexander the Great?', answer: 'Aristotle', wrongAnswers: ['Plato', 'Socrates', 'Homer'], category: 'ancient', difficulty: 'intermediate', year: -343 },
+  { question: 'What empire did Julius Caesar rule?', answer: 'Roman Empire', wrongAnswers: ['Greek Empire', 'Persian Empire', 'Egyptian Empire'], category: 'ancient', difficulty: 'intermediate', year: -49 },
   { question: 'What was the Greek city-state famous for its warriors?', answer: 'Sparta', wrongAnswers: ['Athens', 'Corinth', 'Thebes'], category: 'ancient', difficulty: 'intermediate' },
-  { question: 'What did the ancient Greeks invent for government?', answer: 'Democracy', wrongAnswers: ['Monarchy', 'Dictatorship', 'Communism'], category: 'ancient', difficulty: 'intermediate' },
+  { question: 'What did the ancient Greeks invent for government?', answer: 'Democracy', wrongAnswers: ['Monarchy', 'Dictatorship', 'Communism'], category: 'ancient', difficulty: 'intermediate', year: -508 },
 
   // ANCIENT HISTORY - Advanced
   { question: 'What year did Rome fall?', answer: '476 AD', wrongAnswers: ['300 AD', '100 AD', '600 AD'], category: 'ancient', difficulty: 'advanced', year: 476 },
@@ -105,87 +136,198 @@ const HISTORY_QUESTIONS: HistoryQuestion[] = [
   { question: 'What were medieval soldiers in armor called?', answer: 'Knights', wrongAnswers: ['Soldiers', 'Guards', 'Warriors'], category: 'medieval', difficulty: 'beginner' },
   { question: 'Where did kings and queens live in medieval times?', answer: 'Castles', wrongAnswers: ['Houses', 'Tents', 'Caves'], category: 'medieval', difficulty: 'beginner' },
   { question: 'What weapon did archers use?', answer: 'Bow and arrow', wrongAnswers: ['Sword', 'Spear', 'Axe'], category: 'medieval', difficulty: 'beginner' },
-  { question: 'What was the Black Death?', answer: 'A deadly plague', wrongAnswers: ['A war', 'A famine', 'An earthquake'], category: 'medieval', difficulty: 'beginner' },
+  { question: 'What was the Black Death?', answer: 'A deadly plague', wrongAnswers: ['A war', 'A famine', 'An earthquake'], category: 'medieval', difficulty: 'beginner', year: 1347 },
 
   // MEDIEVAL HISTORY - Intermediate
-  { question: 'What were the Crusades?', answer: 'Religious wars', wrongAnswers: ['Trade expeditions', 'Explorations', 'Tournaments'], category: 'medieval', difficulty: 'intermediate' },
+  { question: 'What were the Crusades?', answer: 'Religious wars', wrongAnswers: ['Trade expeditions', 'Explorations', 'Tournaments'], category: 'medieval', difficulty: 'intermediate', year: 1096 },
   { question: 'What document limited the king\'s power in England (1215)?', answer: 'Magna Carta', wrongAnswers: ['Constitution', 'Declaration', 'Charter of Rights'], category: 'medieval', difficulty: 'intermediate', year: 1215 },
-  { question: 'Who invented the printing press?', answer: 'Johannes Gutenberg', wrongAnswers: ['Leonardo da Vinci', 'Galileo Galilei', 'Isaac Newton'], category: 'medieval', difficulty: 'intermediate' },
+  { question: 'Who invented the printing press?', answer: 'Johannes Gutenberg', wrongAnswers: ['Leonardo da Vinci', 'Galileo Galilei', 'Isaac Newton'], category: 'medieval', difficulty: 'intermediate', year: 1440 },
   { question: 'What was the Renaissance?', answer: 'A period of art and learning', wrongAnswers: ['A war', 'A plague', 'A famine'], category: 'medieval', difficulty: 'intermediate' },
 
   // MEDIEVAL HISTORY - Advanced
   { question: 'What year did the Black Death reach Europe?', answer: '1347', wrongAnswers: ['1215', '1492', '1066'], category: 'medieval', difficulty: 'advanced', year: 1347 },
-  { question: 'Who painted the Mona Lisa?', answer: 'Leonardo da Vinci', wrongAnswers: ['Michelangelo', 'Raphael', 'Botticelli'], category: 'medieval', difficulty: 'advanced' },
+  { question: 'Who painted the Mona Lisa?', answer: 'Leonardo da Vinci', wrongAnswers: ['Michelangelo', 'Raphael', 'Botticelli'], category: 'medieval', difficulty: 'advanced', year: 1503 },
   { question: 'What battle did William the Conqueror win in 1066?', answer: 'Battle of Hastings', wrongAnswers: ['Battle of Waterloo', 'Battle of Agincourt', 'Battle of Crecy'], category: 'medieval', difficulty: 'advanced', year: 1066 },
 
   // AMERICAN HISTORY - Beginner
-  { question: 'Who was the first President of the United States?', answer: 'George Washington', wrongAnswers: ['Abraham Lincoln', 'Thomas Jefferson', 'John Adams'], category: 'american', difficulty: 'beginner' },
+  { question: 'Who was the first President of the United States?', answer: 'George Washington', wrongAnswers: ['Abraham Lincoln', 'Thomas Jefferson', 'John Adams'], category: 'american', difficulty: 'beginner', year: 1789 },
   { question: 'What country did America declare independence from?', answer: 'Great Britain', wrongAnswers: ['France', 'Spain', 'Germany'], category: 'american', difficulty: 'beginner' },
   { question: 'What year did America declare independence?', answer: '1776', wrongAnswers: ['1492', ' 1865', '1620'], category: 'american', difficulty: 'beginner', year: 1776 },
-  { question: 'Who wrote the Declaration of Independence?', answer: 'Thomas Jefferson', wrongAnswers: ['George Washington', 'Benjamin Franklin', 'John Adams'], category: 'american', difficulty: 'beginner' },
-  { question: 'What ship brought the Pilgrims to America?', answer: 'Mayflower', wrongAnswers: ['Santa Maria', 'Titanic', 'Constitution'], category: 'american', difficulty: 'beginner' },
-  { question: 'Who freed the slaves in America?', answer: 'Abraham Lincoln', wrongAnswers: ['George Washington', 'Thomas Jefferson', 'Theodore Roosevelt'], category: 'american', difficulty: 'beginner' },
+  { question: 'Who wrote the Declaration of Independence?', answer: 'Thomas Jefferson', wrongAnswers: ['George Washington', 'Benjamin Franklin', 'John Adams'], category: 'american', difficulty: 'beginner', year: 1776 },
+  { question: 'What ship brought the Pilgrims to America?', answer: 'Mayflower', wrongAnswers: ['Santa Maria', 'Titanic', 'Constitution'], category: 'american', difficulty: 'beginner', year: 1620 },
+  { question: 'Who freed the slaves in America?', answer: 'Abraham Lincoln', wrongAnswers: ['George Washington', 'Thomas Jefferson', 'Theodore Roosevelt'], category: 'american', difficulty: 'beginner', year: 1863 },
 
   // AMERICAN HISTORY - Intermediate
-  { question: 'What was the American Civil War fought over?', answer: 'Slavery and states\' rights', wrongAnswers: ['Territory', 'Taxes', 'Religion'], category: 'american', difficulty: 'intermediate' },
-  { question: 'Who gave the "I Have a Dream" speech?', answer: 'Martin Luther King Jr.', wrongAnswers: ['Malcolm X', 'Rosa Parks', 'John F. Kennedy'], category: 'american', difficulty: 'intermediate' },
+  { question: 'What was the American Civil War fought over?', answer: 'Slavery and states\' rights', wrongAnswers: ['Territory', 'Taxes', 'Religion'], category: 'american', difficulty: 'intermediate', year: 1861 },
+  { question: 'Who gave the "I Have a Dream" speech?', answer: 'Martin Luther King Jr.', wrongAnswers: ['Malcolm X', 'Rosa Parks', 'John F. Kennedy'], category: 'american', difficulty: 'intermediate', year: 1963 },
   { question: 'What event started the Great Depression?', answer: 'Stock Market Crash of 1929', wrongAnswers: ['World War I', 'Civil War', 'Gold Rush'], category: 'american', difficulty: 'intermediate', year: 1929 },
-  { question: 'Who was president during World War II?', answer: 'Franklin D. Roosevelt', wrongAnswers: ['Harry Truman', 'Dwight Eisenhower', 'Herbert Hoover'], category: 'american', difficulty: 'intermediate' },
-  { question: 'What did the 19th Amendment give women?', answer: 'The right to vote', wrongAnswers: ['The right to work', 'The right to own property', 'The right to education'], category: 'american', difficulty: 'intermediate' },
+  { question: 'Who was president during World War II?', answer: 'Franklin D. Roosevelt', wrongAnswers: ['Harry Truman', 'Dwight Eisenhower', 'Herbert Hoover'], category: 'american', difficulty: 'intermediate', year: 1941 },
+  { question: 'What did the 19th Amendment give women?', answer: 'The right to vote', wrongAnswers: ['The right to work', 'The right to own property', 'The right to education'], category: 'american', difficulty: 'intermediate', year: 1920 },
 
   // AMERICAN HISTORY - Advanced
   { question: 'What year did the Civil War end?', answer: '1865', wrongAnswers: ['1861', '1870', '1850'], category: 'american', difficulty: 'advanced', year: 1865 },
-  { question: 'Who was the first person to walk on the moon?', answer: 'Neil Armstrong', wrongAnswers: ['Buzz Aldrin', 'John Glenn', 'Alan Shepard'], category: 'american', difficulty: 'advanced' },
-  { question: 'What Supreme Court case ended school segregation?', answer: 'Brown v. Board of Education', wrongAnswers: ['Roe v. Wade', 'Marbury v. Madison', 'Plessy v. Ferguson'], category: 'american', difficulty: 'advanced' },
+  { question: 'Who was the first person to walk on the moon?', answer: 'Neil Armstrong', wrongAnswers: ['Buzz Aldrin', 'John Glenn', 'Alan Shepard'], category: 'american', difficulty: 'advanced', year: 1969 },
+  { question: 'What Supreme Court case ended school segregation?', answer: 'Brown v. Board of Education', wrongAnswers: ['Roe v. Wade', 'Marbury v. Madison', 'Plessy v. Ferguson'], category: 'american', difficulty: 'advanced', year: 1954 },
 
   // WORLD HISTORY - Beginner
-  { question: 'What wall divided East and West Berlin?', answer: 'Berlin Wall', wrongAnswers: ['Great Wall', 'Hadrian\'s Wall', 'Western Wall'], category: 'world', difficulty: 'beginner' },
-  { question: 'What continent was World War I mainly fought on?', answer: 'Europe', wrongAnswers: ['Asia', 'Africa', 'North America'], category: 'world', difficulty: 'beginner' },
-  { question: 'Who was the leader of Nazi Germany?', answer: 'Adolf Hitler', wrongAnswers: ['Benito Mussolini', 'Joseph Stalin', 'Winston Churchill'], category: 'world', difficulty: 'beginner' },
+  { question: 'What wall divided East and West Berlin?', answer: 'Berlin Wall', wrongAnswers: ['Great Wall', 'Hadrian\'s Wall', 'Western Wall'], category: 'world', difficulty: 'beginner', year: 1961 },
+  { question: 'What continent was World War I mainly fought on?', answer: 'Europe', wrongAnswers: ['Asia', 'Africa', 'North America'], category: 'world', difficulty: 'beginner', year: 1914 },
+  { question: 'Who was the leader of Nazi Germany?', answer: 'Adolf Hitler', wrongAnswers: ['Benito Mussolini', 'Joseph Stalin', 'Winston Churchill'], category: 'world', difficulty: 'beginner', year: 1933 },
   { question: 'What country built the Great Wall?', answer: 'China', wrongAnswers: ['Japan', 'India', 'Mongolia'], category: 'world', difficulty: 'beginner' },
 
   // WORLD HISTORY - Intermediate
   { question: 'What year did World War I begin?', answer: '1914', wrongAnswers: ['1918', '1939', '1941'], category: 'world', difficulty: 'intermediate', year: 1914 },
   { question: 'What year did World War II end?', answer: '1945', wrongAnswers: ['1939', '1941', '1950'], category: 'world', difficulty: 'intermediate', year: 1945 },
-  { question: 'What event started World War I?', answer: 'Assassination of Archduke Franz Ferdinand', wrongAnswers: ['Invasion of Poland', 'Bombing of Pearl Harbor', 'Treaty of Versailles'], category: 'world', difficulty: 'intermediate' },
-  { question: 'What was the Cold War?', answer: 'Tension between USA and USSR', wrongAnswers: ['A war in Antarctica', 'A nuclear war', 'A winter war'], category: 'world', difficulty: 'intermediate' },
+  { question: 'What event started World War I?', answer: 'Assassination of Archduke Franz Ferdinand', wrongAnswers: ['Invasion of Poland', 'Bombing of Pearl Harbor', 'Treaty of Versailles'], category: 'world', difficulty: 'intermediate', year: 1914 },
+  { question: 'What was the Cold War?', answer: 'Tension between USA and USSR', wrongAnswers: ['A war in Antarctica', 'A nuclear war', 'A winter war'], category: 'world', difficulty: 'intermediate', year: 1947 },
   { question: 'When did the Berlin Wall fall?', answer: '1989', wrongAnswers: ['1991', '1985', '1979'], category: 'world', difficulty: 'intermediate', year: 1989 },
 
   // WORLD HISTORY - Advanced
-  { question: 'What treaty ended World War I?', answer: 'Treaty of Versailles', wrongAnswers: ['Treaty of Paris', 'Treaty of Ghent', 'Treaty of Vienna'], category: 'world', difficulty: 'advanced' },
+  { question: 'What treaty ended World War I?', answer: 'Treaty of Versailles', wrongAnswers: ['Treaty of Paris', 'Treaty of Ghent', 'Treaty of Vienna'], category: 'world', difficulty: 'advanced', year: 1919 },
   { question: 'What year did the French Revolution begin?', answer: '1789', wrongAnswers: ['1776', '1815', '1848'], category: 'world', difficulty: 'advanced', year: 1789 },
-  { question: 'Who led India to independence from Britain?', answer: 'Mahatma Gandhi', wrongAnswers: ['Jawaharlal Nehru', 'Subhas Chandra Bose', 'Muhammad Ali Jinnah'], category: 'world', difficulty: 'advanced' },
+  { question: 'Who led India to independence from Britain?', answer: 'Mahatma Gandhi', wrongAnswers: ['Jawaharlal Nehru', 'Subhas Chandra Bose', 'Muhammad Ali Jinnah'], category: 'world', difficulty: 'advanced', year: 1947 },
 
   // FAMOUS PEOPLE - Beginner
   { question: 'Who discovered America in 1492?', answer: 'Christopher Columbus', wrongAnswers: ['Amerigo Vespucci', 'Ferdinand Magellan', 'Leif Erikson'], category: 'famous-people', difficulty: 'beginner', year: 1492 },
-  { question: 'Who was the famous nurse during the Crimean War?', answer: 'Florence Nightingale', wrongAnswers: ['Clara Barton', 'Mary Seacole', 'Edith Cavell'], category: 'famous-people', difficulty: 'beginner' },
-  { question: 'Who invented the light bulb?', answer: 'Thomas Edison', wrongAnswers: ['Nikola Tesla', 'Benjamin Franklin', 'Alexander Graham Bell'], category: 'famous-people', difficulty: 'beginner' },
-  { question: 'Who was the first woman to fly solo across the Atlantic?', answer: 'Amelia Earhart', wrongAnswers: ['Harriet Quimby', 'Bessie Coleman', 'Jacqueline Cochran'], category: 'famous-people', difficulty: 'beginner' },
+  { question: 'Who was the famous nurse during the Crimean War?', answer: 'Florence Nightingale', wrongAnswers: ['Clara Barton', 'Mary Seacole', 'Edith Cavell'], category: 'famous-people', difficulty: 'beginner', year: 1854 },
+  { question: 'Who invented the light bulb?', answer: 'Thomas Edison', wrongAnswers: ['Nikola Tesla', 'Benjamin Franklin', 'Alexander Graham Bell'], category: 'famous-people', difficulty: 'beginner', year: 1879 },
+  { question: 'Who was the first woman to fly solo across the Atlantic?', answer: 'Amelia Earhart', wrongAnswers: ['Harriet Quimby', 'Bessie Coleman', 'Jacqueline Cochran'], category: 'famous-people', difficulty: 'beginner', year: 1932 },
 
   // FAMOUS PEOPLE - Intermediate
-  { question: 'Who developed the theory of relativity?', answer: 'Albert Einstein', wrongAnswers: ['Isaac Newton', 'Niels Bohr', 'Stephen Hawking'], category: 'famous-people', difficulty: 'intermediate' },
+  { question: 'Who developed the theory of relativity?', answer: 'Albert Einstein', wrongAnswers: ['Isaac Newton', 'Niels Bohr', 'Stephen Hawking'], category: 'famous-people', difficulty: 'intermediate', year: 1905 },
   { question: 'Who wrote Romeo and Juliet?', answer: 'William Shakespeare', wrongAnswers: ['Charles Dickens', 'Jane Austen', 'Mark Twain'], category: 'famous-people', difficulty: 'intermediate' },
-  { question: 'Who was the first female Prime Minister of the UK?', answer: 'Margaret Thatcher', wrongAnswers: ['Queen Elizabeth II', 'Theresa May', 'Queen Victoria'], category: 'famous-people', difficulty: 'intermediate' },
-  { question: 'Who led the French army to victory before being burned at the stake?', answer: 'Joan of Arc', wrongAnswers: ['Marie Antoinette', 'Catherine de Medici', 'Eleanor of Aquitaine'], category: 'famous-people', difficulty: 'intermediate' },
+  { question: 'Who was the first female Prime Minister of the UK?', answer: 'Margaret Thatcher', wrongAnswers: ['Queen Elizabeth II', 'Theresa May', 'Queen Victoria'], category: 'famous-people', difficulty: 'intermediate', year: 1979 },
+  { question: 'Who led the French army to victory before being burned at the stake?', answer: 'Joan of Arc', wrongAnswers: ['Marie Antoinette', 'Catherine de Medici', 'Eleanor of Aquitaine'], category: 'famous-people', difficulty: 'intermediate', year: 1429 },
 
   // INVENTIONS - Beginner
-  { question: 'Who invented the telephone?', answer: 'Alexander Graham Bell', wrongAnswers: ['Thomas Edison', 'Nikola Tesla', 'Guglielmo Marconi'], category: 'inventions', difficulty: 'beginner' },
-  { question: 'What did the Wright Brothers invent?', answer: 'Airplane', wrongAnswers: ['Car', 'Train', 'Bicycle'], category: 'inventions', difficulty: 'beginner' },
-  { question: 'Who invented the World Wide Web?', answer: 'Tim Berners-Lee', wrongAnswers: ['Bill Gates', 'Steve Jobs', 'Mark Zuckerberg'], category: 'inventions', difficulty: 'beginner' },
-  { question: 'What did Henry Ford mass produce?', answer: 'Automobiles', wrongAnswers: ['Airplanes', 'Televisions', 'Computers'], category: 'inventions', difficulty: 'beginner' },
+  { question: 'Who invented the telephone?', answer: 'Alexander Graham Bell', wrongAnswers: ['Thomas Edison', 'Nikola Tesla', 'Guglielmo Marconi'], category: 'inventions', difficulty: 'beginner', year: 1876 },
+  { question: 'What did the Wright Brothers invent?', answer: 'Airplane', wrongAnswers: ['Car', 'Train', 'Bicycle'], category: 'inventions', difficulty: 'beginner', year: 1903 },
+  { question: 'Who invented the World Wide Web?', answer: 'Tim Berners-Lee', wrongAnswers: ['Bill Gates', 'Steve Jobs', 'Mark Zuckerberg'], category: 'inventions', difficulty: 'beginner', year: 1989 },
+  { question: 'What did Henry Ford mass produce?', answer: 'Automobiles', wrongAnswers: ['Airplanes', 'Televisions', 'Computers'], category: 'inventions', difficulty: 'beginner', year: 1908 },
 
   // INVENTIONS - Intermediate
-  { question: 'Who discovered penicillin?', answer: 'Alexander Fleming', wrongAnswers: ['Louis Pasteur', 'Jonas Salk', 'Edward Jenner'], category: 'inventions', difficulty: 'intermediate' },
+  { question: 'Who discovered penicillin?', answer: 'Alexander Fleming', wrongAnswers: ['Louis Pasteur', 'Jonas Salk', 'Edward Jenner'], category: 'inventions', difficulty: 'intermediate', year: 1928 },
   { question: 'What year was the first iPhone released?', answer: '2007', wrongAnswers: ['2005', '2010', '2003'], category: 'inventions', difficulty: 'intermediate', year: 2007 },
-  { question: 'Who invented the steam engine?', answer: 'James Watt', wrongAnswers: ['Thomas Newcomen', 'George Stephenson', 'Richard Trevithick'], category: 'inventions', difficulty: 'intermediate' },
-  { question: 'What did Marie Curie discover?', answer: 'Radioactivity (Radium and Polonium)', wrongAnswers: ['X-rays', 'Electricity', 'Penicillin'], category: 'inventions', difficulty: 'intermediate' },
+  { question: 'Who invented the steam engine?', answer: 'James Watt', wrongAnswers: ['Thomas Newcomen', 'George Stephenson', 'Richard Trevithick'], category: 'inventions', difficulty: 'intermediate', year: 1776 },
+  { question: 'What did Marie Curie discover?', answer: 'Radioactivity (Radium and Polonium)', wrongAnswers: ['X-rays', 'Electricity', 'Penicillin'], category: 'inventions', difficulty: 'intermediate', year: 1898 },
 
   // INVENTIONS - Advanced
-  { question: 'Who is credited with inventing the Internet?', answer: 'Vint Cerf and Bob Kahn', wrongAnswers: ['Tim Berners-Lee', 'Bill Gates', 'Steve Jobs'], category: 'inventions', difficulty: 'advanced' },
+  { question: 'Who is credited with inventing the Internet?', answer: 'Vint Cerf and Bob Kahn', wrongAnswers: ['Tim Berners-Lee', 'Bill Gates', 'Steve Jobs'], category: 'inventions', difficulty: 'advanced', year: 1974 },
   { question: 'What year was the first computer invented?', answer: '1945 (ENIAC)', wrongAnswers: ['1960', '1975', '1930'], category: 'inventions', difficulty: 'advanced', year: 1945 },
-  { question: 'Who invented the polio vaccine?', answer: 'Jonas Salk', wrongAnswers: ['Louis Pasteur', 'Alexander Fleming', 'Edward Jenner'], category: 'inventions', difficulty: 'advanced' },
+  { question: 'Who invented the polio vaccine?', answer: 'Jonas Salk', wrongAnswers: ['Louis Pasteur', 'Alexander Fleming', 'Edward Jenner'], category: 'inventions', difficulty: 'advanced', year: 1955 },
+];
+
+const HISTORY_TIMELINES: HistoryTimeline[] = [
+  {
+    topic: 'American history',
+    difficulty: 'beginner',
+    events: [
+      { label: 'Pilgrims land at Plymouth', year: 1620 },
+      { label: 'Declaration of Independence', year: 1776 },
+      { label: 'Civil War ends', year: 1865 },
+      { label: 'Wright brothers fly', year: 1903 },
+      { label: 'Moon landing', year: 1969 }
+    ]
+  },
+  {
+    topic: 'inventions',
+    difficulty: 'beginner',
+    events: [
+      { label: 'Printing press', year: 1440 },
+      { label: 'Telephone', year: 1876 },
+      { label: 'Airplane', year: 1903 },
+      { label: 'Television', year: 1927 },
+      { label: 'World Wide Web', year: 1989 }
+    ]
+  },
+  {
+    topic: 'the ancient world',
+    difficulty: 'intermediate',
+    events: [
+      { label: 'Great Pyramid built', year: -2560 },
+      { label: 'First Olympic Games', year: -776 },
+      { label: 'Death of Alexander the Great', year: -323 },
+      { label: 'Julius Caesar assassinated', year: -44 },
+      { label: 'Fall of Rome', year: 476 }
+    ]
+  },
+  {
+    topic: 'the 20th century',
+    difficulty: 'intermediate',
+    events: [
+      { label: 'World War I begins', year: 1914 },
+      { label: 'Stock market crash', year: 1929 },
+      { label: 'World War II ends', year: 1945 },
+      { label: 'Moon landing', year: 1969 },
+      { label: 'Berlin Wall falls', year: 1989 }
+    ]
+  },
+  {
+    topic: 'US presidents',
+    difficulty: 'intermediate',
+    events: [
+      { label: 'George Washington', year: 1789 },
+      { label: 'Abraham Lincoln', year: 1861 },
+      { label: 'Theodore Roosevelt', year: 1901 },
+      { label: 'Franklin D. Roosevelt', year: 1933 },
+      { label: 'John F. Kennedy', year: 1961 }
+    ]
+  },
+  {
+    topic: 'the Middle Ages',
+    difficulty: 'advanced',
+    events: [
+      { label: 'Battle of Hastings', year: 1066 },
+      { label: 'Magna Carta signed', year: 1215 },
+      { label: 'Black Death reaches Europe', year: 1347 },
+      { label: 'Gutenberg printing press', year: 1440 },
+      { label: 'Columbus reaches America', year: 1492 }
+    ]
+  },
+  {
+    topic: 'revolutions',
+    difficulty: 'advanced',
+    events: [
+      { label: 'American Revolution begins', year: 1775 },
+      { label: 'French Revolution begins', year: 1789 },
+      { label: 'Haitian independence', year: 1804 },
+      { label: 'Russian Revolution', year: 1917 },
+      { label: 'Indian independence', year: 1947 }
+    ]
+  },
+  {
+    topic: 'medicine and science',
+    difficulty: 'expert',
+    events: [
+      { label: 'First smallpox vaccine', year: 1796 },
+      { label: 'Darwin publishes evolution', year: 1859 },
+      { label: 'Curie discovers radium', year: 1898 },
+      { label: 'Penicillin discovered', year: 1928 },
+      { label: 'DNA double helix described', year: 1953 },
+      { label: 'Polio vaccine', year: 1955 }
+    ]
+  }
 ];
 
+// Eras for questions without a year
+const CATEGORY_ERAS: Record<string, string> = {
+  ancient: 'ancient times',
+  medieval: 'the Middle Ages'
+};
+
+function formatYear(year: number): string {
+  return year < 0 ? `${-year} BC` : `${year}`;
+}
+
+/**
+ * "ancient times", "the Middle Ages", then centuries: "the 1800s"
+ */
+function describeEra(year: number): string {
+  if (year < 500) return 'ancient times';
+  if (year < 1500) return 'the Middle Ages';
+  return `the ${Math.floor(year / 100) * 100}s`;
+}
+
 export class HistoryQuestionProvider extends BaseQuestionProvider {
   readonly subject: SubjectType = 'history';
   readonly config: QuestionProviderConfig = {
@@ -196,6 +338,10 @@ export class HistoryQuestionProvider extends BaseQuestionProvider {
   };
 
   generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    if (category === 'timelines' || (!category && this.random() < TIMELINE_CHANCE)) {
+      return this._createTimelineQuestion(difficulty);
+    }
+
     // Filter questions by difficulty and optionally by category
     let filtered = HISTORY_QUESTIONS.filter(q => q.difficulty === difficulty);
 
@@ -203,7 +349,10 @@ export class HistoryQuestionProvider extends BaseQuestionProvider {
       filtered = filtered.filter(q => q.category === category);
     }
 
-    // If no questions match, fall back to all questions of that difficulty
+    // If no questions match, keep the chosen category at any difficulty, then drop it
+    if (filtered.length === 0 && category) {
+      filtered = HISTORY_QUESTIONS.filter(q => q.category === category);
+    }
     if (filtered.length === 0) {
       filtered = HISTORY_QUESTIONS.filter(q => q.difficulty === difficulty);
     }
@@ -224,10 +373,45 @@ export class HistoryQuestionProvider extends BaseQuestionProvider {
       correctAnswer: historyQ.answer,
       wrongAnswers: [...historyQ.wrongAnswers],
       explanation: historyQ.explanation || `The answer is ${historyQ.answer}`,
+      hints: this._getEraHints(historyQ),
       tags: ['history', historyQ.category, historyQ.year?.toString() || ''].filter(Boolean)
     };
   }
 
+  /**
+   * The era when we know it, then the first letter of the answer
+   */
+  private _getEraHints(historyQ: HistoryQuestion): string[] {
+    const era = historyQ.year !== undefined ? describeEra(historyQ.year) : CATEGORY_ERAS[historyQ.category];
+    const firstLetter = this.firstLetterHint(historyQ.answer);
+    return era ? [`This is from ${era}`, firstLetter] : [firstLetter];
+  }
+
+  /**
+   * Sequence question: a few events from one timeline, to be passed through earliest first
+   */
+  private _createTimelineQuestion(difficulty: QuestionDifficulty): Question {
+    const matching = HISTORY_TIMELINES.filter(t => t.difficulty === difficulty);
+    const timeline = this.randomPick(matching.length > 0 ? matching : HISTORY_TIMELINES);
+    const events = this.randomPickInOrder(timeline.events, this.getSequenceLength(difficulty));
+    const order = events.map(event => event.label);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'timelines',
+      difficulty,
+      questionText: `Put these in order, earliest first: ${timeline.topic}`,
+      format: 'sequence',
+      correctAnswer: joinSelection(order),
+      correctAnswers: order,
+      wrongAnswers: [],
+      explanation: events.map(event => `${event.label} (${formatYear(event.year)})`).join(', then '),
+      hints: [`The earliest one happened in ${formatYear(events[0].year)}`, `${order[0]} came first`],
+      tags: ['history', 'timelines']
+    };
+  }
+
   getStats(): {
     totalQuestions: number;
     questionsPerCategory: Record<string, number>;
@@ -245,9 +429,13 @@ export class HistoryQuestionProvider extends BaseQuestionProvider {
       perCategory[q.category] = (perCategory[q.category] || 0) + 1;
       perDifficulty[q.difficulty]++;
     }
+    for (const t of HISTORY_TIMELINES) {
+      perCategory.timelines = (perCategory.timelines || 0) + 1;
+      perDifficulty[t.difficulty]++;
+    }
 
     return {
-      totalQuestions: HISTORY_QUESTIONS.length,
+      totalQuestions: HISTORY_QUESTIONS.length + HISTORY_TIMELINES.length,
       questionsPerCategory: perCategory,
       questionsPerDifficulty: perDifficulty
     };
@@ -0,0 +1,265 @@
+/**
+ * LanguageQuestionProvider - Grammar and language arts questions
+ *
+ * Categories:
+ * - Parts of Speech (nouns, verbs, adjectives, adverbs)
+ * - Punctuation (end marks, commas, apostrophes)
+ * - Grammar (agreement, verb tense, pronouns)
+ * - Plurals (regular and irregular)
+ * - Homophones (their/there/they're and friends)
+ */
+
+import { BaseQuestionProvider } from './QuestionProvider';
+import type {
+  Question,
+  QuestionCategory,
+  QuestionDifficulty,
+  QuestionProviderConfig,
+  SubjectType
+} from './QuestionProvider';
+
+interface LanguageQuestion {
+  question: string;
+  subtext?: string;
+  answer: string;
+  wrongAnswers: string[];
+  category: string;
+  explanation?: string;
+  difficulty: QuestionDifficulty;
+}
+
+const LANGUAGE_CATEGORIES: QuestionCategory[] = [
+  {
+    id: 'parts-of-speech',
+    name: 'Parts of Speech',
+    description: 'Nouns, verbs, adjectives, and more',
+    subject: 'language',
+    gradeLevel: 2,
+    standards: ['CCSS.ELA-LITERACY.L.2.1.E', 'CCSS.ELA-LITERACY.L.3.1.A', 'CCSS.ELA-LITERACY.L.5.1.A'],
+    icon: '🏷️'
+  },
+  {
+    id: 'punctuation',
+    name: 'Punctuation',
+    description: 'End marks, commas, and apostrophes',
+    subject: 'language',
+    gradeLevel: 2,
+    standards: [
+      'CCSS.ELA-LITERACY.L.1.2.B',
+      'CCSS.ELA-LITERACY.L.2.2.C',
+      'CCSS.ELA-LITERACY.L.3.2.C',
+      'CCSS.ELA-LITERACY.L.5.2.A'
+    ],
+    icon: '❗'
+  },
+  {
+    id: 'grammar',
+    name: 'Grammar',
+    description: 'Agreement, verb tense, and pronouns',
+    subject: 'language',
+    gradeLevel: 3,
+    standards: ['CCSS.ELA-LITERACY.L.2.1.D', 'CCSS.ELA-LITERACY.L.3.1.F', 'CCSS.ELA-LITERACY.L.4.1.F'],
+    icon: '✏️'
+  },
+  {
+    id: 'plurals',
+    name: 'Plurals',
+    description: 'Regular and irregular plural forms',
+    subject: 'language',
+    gradeLevel: 2,
+    standards: ['CCSS.ELA-LITERACY.L.1.1.C', 'CCSS.ELA-LITERACY.L.2.1.B', 'CCSS.ELA-LITERACY.L.3.1.B'],
+    icon: '👥'
+  },
+  {
+    id: 'homophones',
+    name: 'Homophones',
+    description: 'Words that sound alike but mean different things',
+    subject: 'language',
+    gradeLevel: 3,
+    standards: ['CCSS.ELA-LITERACY.L.4.1.G'],
+    icon: '👂'
+  }
+];
+
+const LANGUAGE_QUESTIONS: LanguageQuestion[] = [
+  // PARTS OF SPEECH - Beginner
+  { question: 'Which word is a noun?', answer: 'apple', wrongAnswers: ['run', 'happy', 'quickly'], category: 'parts-of-speech', difficulty: 'beginner', explanation: 'A noun names a person, place, or thing' },
+  { question: 'Which word is a verb?', answer: 'jump', wrongAnswers: ['table', 'blue', 'soft'], category: 'parts-of-speech', difficulty: 'beginner', explanation: 'A verb is an action word' },
+  { question: 'Which word is an adjective?', answer: 'tall', wrongAnswers: ['swim', 'house', 'slowly'], category: 'parts-of-speech', difficulty: 'beginner', explanation: 'An adjective describes a noun' },
+  { question: 'What part of speech is "dog"?', subtext: 'The dog barked.', answer: 'Noun', wrongAnswers: ['Verb', 'Adjective', 'Adverb'], category: 'parts-of-speech', difficulty: 'beginner' },
+
+  // PARTS OF SPEECH - Intermediate
+  { question: 'What part of speech is "quickly"?', subtext: 'She ran quickly to school.', answer: 'Adverb', wrongAnswers: ['Adjective', 'Verb', 'Noun'], category: 'parts-of-speech', difficulty: 'intermediate', explanation: 'An adverb describes how an action is done' },
+  { question: 'What part of speech is "under"?', subtext: 'The cat hid under the bed.', answer: 'Preposition', wrongAnswers: ['Adverb', 'Conjunction', 'Noun'], category: 'parts-of-speech', difficulty: 'intermediate', explanation: 'A preposition shows where something is' },
+  { question: 'What part of speech is "they"?', subtext: 'They went to the park.', answer: 'Pronoun', wrongAnswers: ['Noun', 'Verb', 'Article'], category: 'parts-of-speech', difficulty: 'intermediate', explanation: 'A pronoun takes the place of a noun' },
+  { question: 'What part of speech is "but"?', subtext: 'I was tired, but I kept going.', answer: 'Conjunction', wrongAnswers: ['Preposition', 'Adverb', 'Pronoun'], category: 'parts-of-speech', difficulty: 'intermediate', explanation: 'A conjunction joins words or ideas' },
+
+  // PARTS OF SPEECH - Advanced
+  { question: 'What part of speech is "swimming"?', subtext: 'Swimming is great exercise.', answer: 'Gerund', wrongAnswers: ['Verb', 'Adjective', 'Adverb'], category: 'parts-of-speech', difficulty: 'advanced', explanation: 'A gerund is an -ing verb used as a noun' },
+  { question: 'What part of speech is "Wow"?', subtext: 'Wow, that was amazing!', answer: 'Interjection', wrongAnswers: ['Adjective', 'Conjunction', 'Pronoun'], category: 'parts-of-speech', difficulty: 'advanced', explanation: 'An interjection shows strong feeling' },
+  { question: 'What part of speech is "broken"?', subtext: 'The broken vase lay on the floor.', answer: 'Participle', wrongAnswers: ['Gerund', 'Adverb', 'Noun'], category: 'parts-of-speech', difficulty: 'advanced', explanation: 'A participle is a verb form used as an adjective' },
+
+  // PARTS OF SPEECH - Expert
+  { question: 'What does "to win" act as here?', subtext: 'Her goal was to win.', answer: 'Noun (infinitive)', wrongAnswers: ['Adverb', 'Adjective', 'Main verb'], category: 'parts-of-speech', difficulty: 'expert', explanation: 'This infinitive names the goal, so it works as a noun' },
+  { question: 'What kind of clause is in brackets?', subtext: 'The book [that I borrowed] was great.', answer: 'Adjective clause', wrongAnswers: ['Adverb clause', 'Noun clause', 'Independent clause'], category: 'parts-of-speech', difficulty: 'expert', explanation: 'It describes the noun "book"' },
+
+  // PUNCTUATION - Beginner
+  { question: 'Which mark ends a question?', answer: '?', wrongAnswers: ['.', '!', ','], category: 'punctuation', difficulty: 'beginner' },
+  { question: 'Which mark ends a telling sentence?', answer: '.', wrongAnswers: ['?', ',', ':'], category: 'punctuation', difficulty: 'beginner' },
+  { question: 'Which mark shows strong feeling?', subtext: 'Watch out___', answer: '!', wrongAnswers: ['.', ',', ';'], category: 'punctuation', difficulty: 'beginner' },
+  { question: 'Which state name is written correctly?', answer: 'Texas', wrongAnswers: ['texas', 'tEXAS', 'texaS'], category: 'punctuation', difficulty: 'beginner', explanation: 'Names of places start with a capital letter' },
+
+  // PUNCTUATION - Intermediate
+  { question: 'Which is correct?', subtext: 'The toy belongs to the dog.', answer: "the dog's toy", wrongAnswers: ['the dogs toy', "the dogs' toy", 'the dog,s toy'], category: 'punctuation', difficulty: 'intermediate', explanation: "One dog owns the toy, so use 's" },
+  { question: 'What is the contraction of "do not"?', answer: "don't", wrongAnswers: ["do'nt", 'dont', "don't'"], category: 'punctuation', difficulty: 'intermediate', explanation: 'The apostrophe replaces the missing "o"' },
+  { question: 'Which list is punctuated correctly?', answer: 'red, blue, and green', wrongAnswers: ['red blue, and green', 'red, blue and, green', 'red; blue; and, green'], category: 'punctuation', difficulty: 'intermediate', explanation: 'Commas separate items in a list' },
+  { question: 'Which date is written correctly?', answer: 'July 4, 1776', wrongAnswers: ['July, 4 1776', 'July 4 1776,', 'July, 4, 1776'], category: 'punctuation', difficulty: 'intermediate', explanation: 'A comma goes between the day and the year' },
+
+  // PUNCTUATION - Advanced
+  { question: 'Which mark joins two related sentences?', subtext: 'I studied hard___ I passed the test.', answer: ';', wrongAnswers: [',', ':', '"'], category: 'punctuation', difficulty: 'advanced', explanation: 'A semicolon joins two complete, related sentences' },
+  { question: 'Which mark introduces a list?', subtext: 'Bring three things___ a pen, paper, and a ruler.', answer: ':', wrongAnswers: [';', ',', '-'], category: 'punctuation', difficulty: 'advanced', explanation: 'A colon introduces a list after a complete sentence' },
+  { question: 'Which is correct for several girls?', subtext: 'The bikes belong to the girls.', answer: "the girls' bikes", wrongAnswers: ["the girl's bikes", 'the girls bikes', "the girls's bikes"], category: 'punctuation', difficulty: 'advanced', explanation: "Plural nouns ending in s take only an apostrophe" },
+
+  // PUNCTUATION - Expert
+  { question: 'Which uses "its" correctly?', answer: 'The dog wagged its tail', wrongAnswers: ["The dog wagged it's tail", "The dog wagged its' tail", 'The dog wagged it tail'], category: 'punctuation', difficulty: 'expert', explanation: '"Its" is possessive; "it\'s" means "it is"' },
+  { question: 'What punctuation fixes this comma splice?', subtext: 'It was late, we went home.', answer: 'Semicolon', wrongAnswers: ['Another comma', 'Apostrophe', 'Quotation marks'], category: 'punctuation', difficulty: 'expert', explanation: 'Two complete sentences need a semicolon or a period, not a comma' },
+
+  // GRAMMAR - Beginner
+  { question: 'Choose the right word:', subtext: 'She ___ to school every day.', answer: 'walks', wrongAnswers: ['walk', 'walking', 'walken'], category: 'grammar', difficulty: 'beginner', explanation: 'A singular subject takes a verb ending in s' },
+  { question: 'Choose the right word:', subtext: 'The cats ___ sleeping.', answer: 'are', wrongAnswers: ['is', 'am', 'be'], category: 'grammar', difficulty: 'beginner', explanation: 'Plural subjects use "are"' },
+  { question: 'Choose the right word:', subtext: 'I have ___ apple.', answer: 'an', wrongAnswers: ['a', 'the an', 'some an'], category: 'grammar', difficulty: 'beginner', explanation: 'Use "an" before a vowel sound' },
+
+  // GRAMMAR - Intermediate
+  { question: 'What is the past tense of "run"?', answer: 'ran', wrongAnswers: ['runned', 'runs', 'running'], category: 'grammar', difficulty: 'intermediate', explanation: '"Run" is irregular: run, ran, run' },
+  { question: 'What is the past tense of "teach"?', answer: 'taught', wrongAnswers: ['teached', 'tought', 'teaches'], category: 'grammar', difficulty: 'intermediate', explanation: '"Teach" is irregular: teach, taught, taught' },
+  { question: 'Choose the right word:', subtext: 'Mom gave the cookies to Sam and ___.', answer: 'me', wrongAnswers: ['I', 'myself', 'mine'], category: 'grammar', difficulty: 'intermediate', explanation: 'Use "me" after a preposition like "to"' },
+  { question: 'Choose the right word:', subtext: 'This is the ___ day of the year.', answer: 'hottest', wrongAnswers: ['hotter', 'most hot', 'hotest'], category: 'grammar', difficulty: 'intermediate', explanation: 'Compare three or more with -est' },
+
+  // GRAMMAR - Advanced
+  { question: 'Choose the right word:', subtext: 'Neither the teacher nor the students ___ ready.', answer: 'were', wrongAnswers: ['was', 'is', 'be'], category: 'grammar', difficulty: 'advanced', explanation: 'With "neither...nor", the verb agrees with the closer subject' },
+  { question: 'Choose the right word:', subtext: 'Each of the players ___ a uniform.', answer: 'has', wrongAnswers: ['have', 'having', 'are having'], category: 'grammar', difficulty: 'advanced', explanation: '"Each" is singular' },
+  { question: 'Choose the right word:', subtext: '___ did you invite to the party?', answer: 'Whom', wrongAnswers: ['Who', 'Whose', "Who's"], category: 'grammar', difficulty: 'advanced', explanation: '"Whom" is the object of "invite"' },
+
+  // GRAMMAR - Expert
+  { question: 'Choose the right word:', subtext: 'If I ___ you, I would apologize.', answer: 'were', wrongAnswers: ['was', 'am', 'be'], category: 'grammar', difficulty: 'expert', explanation: 'Hypothetical wishes use the subjunctive "were"' },
+  { question: 'Choose the right word:', subtext: 'By next June, she ___ here ten years.', answer: 'will have worked', wrongAnswers: ['will work', 'has worked', 'worked'], category: 'grammar', difficulty: 'expert', explanation: 'Future perfect tense shows an action finished by a future time' },
+  { question: 'Which sentence is in passive voice?', answer: 'The ball was thrown', wrongAnswers: ['Sam threw the ball', 'Sam is throwing', 'Sam will throw it'], category: 'grammar', difficulty: 'expert', explanation: 'In passive voice the subject receives the action' },
+
+  // PLURALS - Beginner
+  { question: 'What is the plural of "box"?', answer: 'boxes', wrongAnswers: ['boxs', 'boxen', "box's"], category: 'plurals', difficulty: 'beginner', explanation: 'Words ending in x add -es' },
+  { question: 'What is the plural of "cat"?', answer: 'cats', wrongAnswers: ['cates', 'caties', "cat's"], category: 'plurals', difficulty: 'beginner' },
+  { question: 'What is the plural of "bus"?', answer: 'buses', wrongAnswers: ['buss', 'busies', 'bus'], category: 'plurals', difficulty: 'beginner', explanation: 'Words ending in s add -es' },
+
+  // PLURALS - Intermediate
+  { question: 'What is the plural of "child"?', answer: 'children', wrongAnswers: ['childs', 'childes', 'childrens'], category: 'plurals', difficulty: 'intermediate', explanation: '"Child" has an irregular plural' },
+  { question: 'What is the plural of "baby"?', answer: 'babies', wrongAnswers: ['babys', 'babyes', 'babyies'], category: 'plurals', difficulty: 'intermediate', explanation: 'Change y to i and add -es after a consonant' },
+  { question: 'What is the plural of "mouse"?', answer: 'mice', wrongAnswers: ['mouses', 'mousen', 'meese'], category: 'plurals', difficulty: 'intermediate', explanation: '"Mouse" has an irregular plural' },
+  { question: 'What is the plural of "leaf"?', answer: 'leaves', wrongAnswers: ['leafs', 'leafes', 'leavs'], category: 'plurals', difficulty: 'intermediate', explanation: 'Many words ending in f change to -ves' },
+
+  // PLURALS - Advanced
+  { question: 'What is the Latin plural of "cactus"?', answer: 'cacti', wrongAnswers: ["cactus's", 'cactae', 'cactis'], category: 'plurals', difficulty: 'advanced', explanation: 'Latin -us words often become -i (the English plural "cactuses" is also correct)' },
+  { question: 'What is the plural of "sheep"?', answer: 'sheep', wrongAnswers: ['sheeps', 'sheepes', 'shoop'], category: 'plurals', difficulty: 'advanced', explanation: '"Sheep" is the same in singular and plural' },
+  { question: 'What is the plural of "potato"?', answer: 'potatoes', wrongAnswers: ['potatos', 'potatoe', 'potatose'], category: 'plurals', difficulty: 'advanced', explanation: 'Some words ending in o add -es' },
+
+  // PLURALS - Expert
+  { question: 'What is the plural of "crisis"?', answer: 'crises', wrongAnswers: ['crisises', 'crisis', 'crisii'], category: 'plurals', difficulty: 'expert', explanation: 'Greek -is words become -es' },
+  { question: 'What is the plural of "phenomenon"?', answer: 'phenomena', wrongAnswers: ['phenomenons', 'phenomenae', 'phenomeni'], category: 'plurals', difficulty: 'expert', explanation: 'Greek -on words become -a' },
+  { question: 'What is the plural of "mother-in-law"?', answer: 'mothers-in-law', wrongAnswers: ['mother-in-laws', 'mothers-in-laws', 'mother-ins-law'], category: 'plurals', difficulty: 'expert', explanation: 'Pluralize the main word of a compound' },
+
+  // HOMOPHONES - Beginner
+  { question: 'Choose the right word:', subtext: 'I have ___ pets.', answer: 'two', wrongAnswers: ['to', 'too', 'tow'], category: 'homophones', difficulty: 'beginner', explanation: '"Two" is the number 2' },
+  { question: 'Choose the right word:', subtext: 'The ___ is shining.', answer: 'sun', wrongAnswers: ['son', 'sum', 'sunn'], category: 'homophones', difficulty: 'beginner' },
+  { question: 'Choose the right word:', subtext: 'I can ___ the birds sing.', answer: 'hear', wrongAnswers: ['here', 'hair', 'heer'], category: 'homophones', difficulty: 'beginner', explanation: 'You hear with your ear' },
+
+  // HOMOPHONES - Intermediate
+  { question: 'Choose the right word:', subtext: '___ going to the park.', answer: "They're", wrongAnswers: ['Their', 'There', 'Thier'], category: 'homophones', difficulty: 'intermediate', explanation: '"They\'re" means "they are"' },
+  { question: 'Choose the right word:', subtext: 'Put the box over ___.', answer: 'there', wrongAnswers: ['their', "they're", 'thare'], category: 'homophones', difficulty: 'intermediate', explanation: '"There" refers to a place' },
+  { question: 'Choose the right word:', subtext: 'Is this ___ jacket?', answer: 'your', wrongAnswers: ["you're", 'yore', 'youre'], category: 'homophones', difficulty: 'intermediate', explanation: '"Your" shows ownership' },
+
+  // HOMOPHONES - Advanced
+  { question: 'Choose the right word:', subtext: 'The rain will ___ our picnic plans.', answer: 'affect', wrongAnswers: ['effect', 'afect', 'affekt'], category: 'homophones', difficulty: 'advanced', explanation: '"Affect" is usually a verb; "effect" is usually a noun' },
+  { question: 'Choose the right word:', subtext: 'The school ___ gave a speech.', answer: 'principal', wrongAnswers: ['principle', 'principel', 'principall'], category: 'homophones', difficulty: 'advanced', explanation: 'The principal is your "pal"; a principle is a rule' },
+  { question: 'Choose the right word:', subtext: 'Write on the office ___.', answer: 'stationery', wrongAnswers: ['stationary', 'stationairy', 'stationury'], category: 'homophones', difficulty: 'advanced', explanation: 'Stationery is paper; stationary means not moving' },
+
+  // HOMOPHONES - Expert
+  { question: 'Choose the right word:', subtext: 'The lawyer will ___ the witness.', answer: 'counsel', wrongAnswers: ['council', 'consul', 'councel'], category: 'homophones', difficulty: 'expert', explanation: 'To counsel is to advise; a council is a group' },
+  { question: 'Choose the right word:', subtext: 'Her praise was a nice ___.', answer: 'compliment', wrongAnswers: ['complement', 'complament', 'compliement'], category: 'homophones', difficulty: 'expert', explanation: 'A compliment is praise; a complement completes something' },
+  { question: 'Choose the right word:', subtext: 'The storm did not ___ the game.', answer: 'faze', wrongAnswers: ['phase', 'fase', 'phaze'], category: 'homophones', difficulty: 'expert', explanation: 'To faze is to disturb; a phase is a stage' }
+];
+
+export class LanguageQuestionProvider extends BaseQuestionProvider {
+  readonly subject: SubjectType = 'language';
+  readonly config: QuestionProviderConfig = {
+    subject: 'language',
+    categories: LANGUAGE_CATEGORIES,
+    supportedDifficulties: ['beginner', 'intermediate', 'advanced', 'expert'],
+    defaultDifficulty: 'intermediate'
+  };
+
+  generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    // Filter questions by difficulty and optionally by category
+    let filtered = LANGUAGE_QUESTIONS.filter(q => q.difficulty === difficulty);
+
+    if (category) {
+      filtered = filtered.filter(q => q.category === category);
+    }
+
+    // If no questions match, keep the chosen category at any difficulty, then drop it
+    if (filtered.length === 0 && category) {
+      filtered = LANGUAGE_QUESTIONS.filter(q => q.category === category);
+    }
+    if (filtered.length === 0) {
+      filtered = LANGUAGE_QUESTIONS.filter(q => q.difficulty === difficulty);
+    }
+
+    // If still no questions, use all questions
+    if (filtered.length === 0) {
+      filtered = LANGUAGE_QUESTIONS;
+    }
+
+    const languageQ = this.randomPick(filtered);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: languageQ.category,
+      difficulty: languageQ.difficulty,
+      questionText: languageQ.question,
+      questionSubtext: languageQ.subtext,
+      correctAnswer: languageQ.answer,
+      wrongAnswers: [...languageQ.wrongAnswers],
+      explanation: languageQ.explanation || `The answer is ${languageQ.answer}`,
+      tags: ['language', languageQ.category]
+    };
+  }
+
+  validateAnswer(question: Question, answer: string): boolean {
+    // Punctuation and capitalization are the point of some questions, so match exactly
+    return answer.trim() === question.correctAnswer.trim();
+  }
+
+  getStats(): {
+    totalQuestions: number;
+    questionsPerCategory: Record<string, number>;
+    questionsPerDifficulty: Record<QuestionDifficulty, number>;
+  } {
+    const perCategory: Record<string, number> = {};
+    const perDifficulty: Record<QuestionDifficulty, number> = {
+      beginner: 0,
+      intermediate: 0,
+      advanced: 0,
+      expert: 0
+    };
+
+    for (const q of LANGUAGE_QUESTIONS) {
+      perCategory[q.category] = (perCategory[q.category] || 0) + 1;
+      perDifficulty[q.difficulty]++;
+    }
+
+    return {
+      totalQuestions: LANGUAGE_QUESTIONS.length,
+      questionsPerCategory: perCategory,
+      questionsPerDifficulty: perDifficulty
+    };
+  }
+}
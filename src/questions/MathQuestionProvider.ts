@@ -5,27 +5,73 @@
  * - Addition/Subtraction
  * - Multiplication/Division
  * - Mixed Operations
- * - Fractions
  * - Percentages
+ * - Fractions (answers simplified, shown as a/b)
+ * - Decimals
+ * - Algebra (one- and two-step linear equations)
+ * - Geometry (area and perimeter)
+ * - Word Problems (templated stories, see WordProblemTemplates)
+ *
+ * Wrong answers come from common error models (carrying, borrowing, place
+ * value...) and each one is tagged with the misconception that produces it.
+ * Some arithmetic questions are asked as true/false statements instead.
+ * Hints walk through the first step of working the answer out.
  */
 
 import {
   BaseQuestionProvider,
+  CHOICE_COUNTS,
+  TRUE_FALSE_CHOICES,
   Question,
   QuestionCategory,
   QuestionDifficulty,
   QuestionProviderConfig,
   SubjectType
 } from './QuestionProvider';
+import type { Misconception } from './QuestionProvider';
+import {
+  WORD_PROBLEM_TEMPLATES,
+  WORD_PROBLEM_NAMES,
+  WORD_PROBLEM_ITEMS,
+  renderWordProblem,
+  formatQuantity
+} from './WordProblemTemplates';
+import { normalizeNumberInput } from '../i18n/Locale';
 
 type MathOperation = '+' | '-' | '*' | '/' | '%';
 
+type ShapeProblem =
+  | 'rectangle-area'
+  | 'rectangle-perimeter'
+  | 'square-area'
+  | 'square-perimeter'
+  | 'triangle-area'
+  | 'triangle-perimeter'
+  | 'missing-side';
+
 interface MathDifficultySettings {
   operations: MathOperation[];
   maxValue: number;
   allowNegatives: boolean;
   allowDecimals: boolean;
   wrongAnswerRange: number;
+
+  // Fractions
+  fractionOperations: MathOperation[];
+  maxDenominator: number;
+  likeDenominators: boolean;
+
+  // Decimals
+  decimalOperations: MathOperation[];
+  decimalPlaces: number;
+
+  // Algebra: x + a = b (one step) or ax + b = c (two steps)
+  equationOperations: MathOperation[];
+  equationSteps: 1 | 2;
+
+  // Geometry
+  shapeProblems: ShapeProblem[];
+  maxSide: number;
 }
 
 const DIFFICULTY_SETTINGS: Record<QuestionDifficulty, MathDifficultySettings> = {
@@ -34,31 +80,140 @@ const DIFFICULTY_SETTINGS: Record<QuestionDifficulty, MathDifficultySettings> =
     maxValue: 10,
     allowNegatives: false,
     allowDecimals: false,
-    wrongAnswerRange: 3
+    wrongAnswerRange: 3,
+    fractionOperations: ['+', '-'],
+    maxDenominator: 6,
+    likeDenominators: true,
+    decimalOperations: ['+', '-'],
+    decimalPlaces: 1,
+    equationOperations: ['+', '-'],
+    equationSteps: 1,
+    shapeProblems: ['rectangle-area', 'rectangle-perimeter'],
+    maxSide: 10
   },
   intermediate: {
     operations: ['+', '-', '*'],
     maxValue: 20,
     allowNegatives: false,
     allowDecimals: false,
-    wrongAnswerRange: 5
+    wrongAnswerRange: 5,
+    fractionOperations: ['+', '-'],
+    maxDenominator: 8,
+    likeDenominators: false,
+    decimalOperations: ['+', '-'],
+    decimalPlaces: 2,
+    equationOperations: ['+', '-', '*', '/'],
+    equationSteps: 1,
+    shapeProblems: ['rectangle-area', 'rectangle-perimeter', 'square-area', 'square-perimeter'],
+    maxSide: 15
   },
   advanced: {
     operations: ['+', '-', '*', '/'],
     maxValue: 50,
     allowNegatives: false,
     allowDecimals: false,
-    wrongAnswerRange: 10
+    wrongAnswerRange: 10,
+    fractionOperations: ['+', '-', '*'],
+    maxDenominator: 10,
+    likeDenominators: false,
+    decimalOperations: ['+', '-', '*'],
+    decimalPlaces: 2,
+    equationOperations: ['+', '-'],
+    equationSteps: 2,
+    shapeProblems: ['rectangle-area', 'rectangle-perimeter', 'triangle-area', 'triangle-perimeter'],
+    maxSide: 20
   },
   expert: {
     operations: ['+', '-', '*', '/', '%'],
     maxValue: 100,
     allowNegatives: true,
     allowDecimals: true,
-    wrongAnswerRange: 15
+    wrongAnswerRange: 15,
+    fractionOperations: ['+', '-', '*', '/'],
+    maxDenominator: 12,
+    likeDenominators: false,
+    decimalOperations: ['+', '-', '*', '/'],
+    decimalPlaces: 2,
+    equationOperations: ['+', '-'],
+    equationSteps: 2,
+    shapeProblems: ['rectangle-area', 'triangle-area', 'triangle-perimeter', 'missing-side'],
+    maxSide: 25
   }
 };
 
+export type MathMisconception =
+  | 'operation-swap'
+  | 'off-by-one'
+  | 'digit-reversal'
+  | 'carry-error'
+  | 'borrow-error'
+  | 'place-value'
+  | 'denominator-error'
+  | 'forgot-to-invert'
+  | 'inverse-operation'
+  | 'missed-step'
+  | 'area-perimeter-mix'
+  | 'missed-sides'
+  | 'forgot-half'
+  | 'near-miss';
+
+export const MATH_MISCONCEPTIONS: Record<MathMisconception, string> = {
+  'operation-swap': 'Used the wrong operation',
+  'off-by-one': 'Counted one too many or too few',
+  'digit-reversal': 'Swapped the digits around',
+  'carry-error': 'Forgot to carry',
+  'borrow-error': 'Took the smaller digit from the bigger one instead of borrowing',
+  'place-value': 'Put a digit in the wrong place value',
+  'denominator-error': 'Mixed up what to do with the denominators',
+  'forgot-to-invert': 'Flipped the wrong fraction, or forgot to flip',
+  'inverse-operation': 'Undid the equation with the wrong operation',
+  'missed-step': 'Stopped after the first step',
+  'area-perimeter-mix': 'Mixed up area and perimeter',
+  'missed-sides': 'Left out some of the sides',
+  'forgot-half': 'Forgot to halve',
+  'near-miss': 'Guessed a nearby number'
+};
+
+interface MathDistractor {
+  value: number;
+  misconception: MathMisconception;
+}
+
+// A generated fraction/decimal/algebra/geometry problem before it becomes a Question
+interface MathTopicProblem {
+  questionText: string;
+  answer: string;
+  distractors: { text: string; misconception: MathMisconception }[];
+  nearMiss: (step: number) => string;  // Fills remaining choices; must differ for each step
+  explanation: string;
+  hints: string[];  // First step first
+  operation?: MathOperation;
+}
+
+// Enough for any difficulty, best first; the registry keeps as many as the difficulty shows
+const WRONG_ANSWER_COUNT = CHOICE_COUNTS.expert - 1;
+
+// Share of arithmetic questions asked as "True or false: 7 + 6 = 12"
+const TRUE_FALSE_CHANCE = 0.2;
+
+// The percentages _generateNumbers uses, as fractions: [numerator, denominator]
+const PERCENT_FRACTIONS: Record<number, [number, number]> = {
+  10: [1, 10],
+  20: [1, 5],
+  25: [1, 4],
+  50: [1, 2],
+  75: [3, 4],
+  100: [1, 1]
+};
+
+const OPERATION_NAMES: Record<MathOperation, string> = {
+  '+': 'an addition',
+  '-': 'a subtraction',
+  '*': 'a multiplication',
+  '/': 'a division',
+  '%': 'a percentage'
+};
+
 const MATH_CATEGORIES: QuestionCategory[] = [
   {
     id: 'addition',
@@ -66,6 +221,12 @@ const MATH_CATEGORIES: QuestionCategory[] = [
     description: 'Practice adding numbers',
     subject: 'math',
     gradeLevel: 1,
+    standards: [
+      'CCSS.MATH.CONTENT.K.OA.A.5',
+      'CCSS.MATH.CONTENT.1.OA.C.6',
+      'CCSS.MATH.CONTENT.2.NBT.B.5',
+      'CCSS.MATH.CONTENT.3.NBT.A.2'
+    ],
     icon: '➕'
   },
   {
@@ -74,6 +235,12 @@ const MATH_CATEGORIES: QuestionCategory[] = [
     description: 'Practice subtracting numbers',
     subject: 'math',
     gradeLevel: 1,
+    standards: [
+      'CCSS.MATH.CONTENT.K.OA.A.5',
+      'CCSS.MATH.CONTENT.1.OA.C.6',
+      'CCSS.MATH.CONTENT.2.NBT.B.5',
+      'CCSS.MATH.CONTENT.3.NBT.A.2'
+    ],
     icon: '➖'
   },
   {
@@ -82,6 +249,7 @@ const MATH_CATEGORIES: QuestionCategory[] = [
     description: 'Practice multiplying numbers',
     subject: 'math',
     gradeLevel: 3,
+    standards: ['CCSS.MATH.CONTENT.3.OA.C.7', 'CCSS.MATH.CONTENT.4.NBT.B.5', 'CCSS.MATH.CONTENT.5.NBT.B.5'],
     icon: '✖️'
   },
   {
@@ -90,6 +258,12 @@ const MATH_CATEGORIES: QuestionCategory[] = [
     description: 'Practice dividing numbers',
     subject: 'math',
     gradeLevel: 3,
+    standards: [
+      'CCSS.MATH.CONTENT.3.OA.C.7',
+      'CCSS.MATH.CONTENT.4.NBT.B.6',
+      'CCSS.MATH.CONTENT.5.NBT.B.6',
+      'CCSS.MATH.CONTENT.6.NS.B.2'
+    ],
     icon: '➗'
   },
   {
@@ -98,6 +272,7 @@ const MATH_CATEGORIES: QuestionCategory[] = [
     description: 'All math operations combined',
     subject: 'math',
     gradeLevel: 4,
+    standards: ['CCSS.MATH.CONTENT.3.OA.C.7', 'CCSS.MATH.CONTENT.3.NBT.A.2', 'CCSS.MATH.CONTENT.4.NBT.B.4'],
     icon: '🔢'
   },
   {
@@ -106,10 +281,74 @@ const MATH_CATEGORIES: QuestionCategory[] = [
     description: 'Calculate percentages',
     subject: 'math',
     gradeLevel: 6,
+    standards: ['CCSS.MATH.CONTENT.6.RP.A.3.C', 'CCSS.MATH.CONTENT.7.RP.A.3'],
     icon: '%'
+  },
+  {
+    id: 'fractions',
+    name: 'Fractions',
+    description: 'Add, subtract, multiply and divide fractions',
+    subject: 'math',
+    gradeLevel: 5,
+    standards: [
+      'CCSS.MATH.CONTENT.4.NF.B.3.A',
+      'CCSS.MATH.CONTENT.5.NF.A.1',
+      'CCSS.MATH.CONTENT.5.NF.B.4',
+      'CCSS.MATH.CONTENT.6.NS.A.1'
+    ],
+    icon: '½'
+  },
+  {
+    id: 'decimals',
+    name: 'Decimals',
+    description: 'Work with decimal numbers',
+    subject: 'math',
+    gradeLevel: 5,
+    standards: ['CCSS.MATH.CONTENT.5.NBT.B.7', 'CCSS.MATH.CONTENT.6.NS.B.3'],
+    icon: '🔟'
+  },
+  {
+    id: 'algebra',
+    name: 'Algebra',
+    description: 'Solve one- and two-step equations',
+    subject: 'math',
+    gradeLevel: 7,
+    standards: ['CCSS.MATH.CONTENT.6.EE.B.7', 'CCSS.MATH.CONTENT.7.EE.B.4.A', 'CCSS.MATH.CONTENT.8.EE.C.7'],
+    icon: '𝑥'
+  },
+  {
+    id: 'geometry',
+    name: 'Area & Perimeter',
+    description: 'Measure rectangles, squares and triangles',
+    subject: 'math',
+    gradeLevel: 4,
+    standards: [
+      'CCSS.MATH.CONTENT.3.MD.C.7',
+      'CCSS.MATH.CONTENT.3.MD.D.8',
+      'CCSS.MATH.CONTENT.4.MD.A.3',
+      'CCSS.MATH.CONTENT.6.G.A.1'
+    ],
+    icon: '📐'
+  },
+  {
+    id: 'word-problems',
+    name: 'Word Problems',
+    description: 'Everyday stories that need the four operations',
+    subject: 'math',
+    gradeLevel: 2,
+    standards: [
+      'CCSS.MATH.CONTENT.2.OA.A.1',
+      'CCSS.MATH.CONTENT.3.OA.A.3',
+      'CCSS.MATH.CONTENT.4.OA.A.2',
+      'CCSS.MATH.CONTENT.4.OA.A.3'
+    ],
+    icon: '📖'
   }
 ];
 
+// Typed answers within this distance count as correct (e.g. 0.33 for 1/3, but not 0.34 for 0.35)
+const NUMERIC_ANSWER_TOLERANCE = 0.005;
+
 export class MathQuestionProvider extends BaseQuestionProvider {
   readonly subject: SubjectType = 'math';
   readonly config: QuestionProviderConfig = {
@@ -122,6 +361,19 @@ export class MathQuestionProvider extends BaseQuestionProvider {
   generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
     const settings = DIFFICULTY_SETTINGS[difficulty];
 
+    switch (category) {
+      case 'fractions':
+        return this._buildTopicQuestion(difficulty, category, this._generateFractionProblem(settings));
+      case 'decimals':
+        return this._buildTopicQuestion(difficulty, category, this._generateDecimalProblem(settings));
+      case 'algebra':
+        return this._buildTopicQuestion(difficulty, category, this._generateEquationProblem(settings));
+      case 'geometry':
+        return this._buildTopicQuestion(difficulty, category, this._generateShapeProblem(settings));
+      case 'word-problems':
+        return this._generateWordProblem(difficulty, settings);
+    }
+
     // Determine operation based on category or random
     let operation: MathOperation;
     if (category) {
@@ -133,13 +385,22 @@ export class MathQuestionProvider extends BaseQuestionProvider {
     // Generate the problem
     const { num1, num2, answer } = this._generateNumbers(operation, settings);
 
-    // Generate wrong answers
-    const wrongAnswers = this._generateWrongAnswers(answer, settings.wrongAnswerRange);
+    // Generate wrong answers from error models
+    const distractors = this._generateWrongAnswers(operation, num1, num2, answer, settings);
+    const misconceptions: Record<string, Misconception> = {};
+    for (const { value, misconception } of distractors) {
+      misconceptions[value.toString()] = { id: misconception, label: MATH_MISCONCEPTIONS[misconception] };
+    }
 
     // Format question text
     const operationSymbol = this._getOperationSymbol(operation);
     const questionText = `${num1} ${operationSymbol} ${num2} = ?`;
 
+    if (this.random() < TRUE_FALSE_CHANCE) {
+      return this._createTrueFalseQuestion(difficulty, category || this._getCategoryForOperation(operation), operation,
+        `${num1} ${operationSymbol} ${num2}`, answer, distractors[0], this._getArithmeticHints(operation, num1, num2));
+    }
+
     return {
       id: this.generateId(),
       subject: this.subject,
@@ -147,12 +408,62 @@ export class MathQuestionProvider extends BaseQuestionProvider {
       difficulty,
       questionText,
       correctAnswer: answer.toString(),
-      wrongAnswers: wrongAnswers.map(a => a.toString()),
+      wrongAnswers: distractors.map(d => d.value.toString()),
+      misconceptions,
       explanation: `${num1} ${operationSymbol} ${num2} = ${answer}`,
+      hints: this._getArithmeticHints(operation, num1, num2),
       tags: ['arithmetic', operation]
     };
   }
 
+  /**
+   * State the equation with either the right answer or the most likely wrong one
+   */
+  private _createTrueFalseQuestion(
+    difficulty: QuestionDifficulty,
+    category: string,
+    operation: MathOperation,
+    expression: string,
+    answer: number,
+    distractor: MathDistractor,
+    hints: string[]
+  ): Question {
+    const isTrue = this.random() < 0.5;
+    const [trueChoice, falseChoice] = TRUE_FALSE_CHOICES;
+    const shown = isTrue ? answer : distractor.value;
+
+    // Accepting a wrong statement is the same slip as picking that wrong answer
+    const misconceptions: Record<string, Misconception> = isTrue ? {} : {
+      [trueChoice]: { id: distractor.misconception, label: MATH_MISCONCEPTIONS[distractor.misconception] }
+    };
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category,
+      difficulty,
+      format: 'true-false',
+      questionText: `True or false: ${expression} = ${shown}`,
+      correctAnswer: isTrue ? trueChoice : falseChoice,
+      wrongAnswers: [isTrue ? falseChoice : trueChoice],
+      misconceptions,
+      explanation: `${expression} = ${answer}`,
+      hints,
+      tags: ['arithmetic', operation, 'true-false']
+    };
+  }
+
+  validateAnswer(question: Question, answer: string): boolean {
+    // Compare numerically so equivalent forms match: 0.5 = 1/2 = .50, 1 1/2 = 1.5, 1,000 = 1000
+    // (in decimal-comma locales a comma between digits is the decimal point: 0,5 = 0.5)
+    const expected = this._parseNumericAnswer(normalizeNumberInput(question.correctAnswer, question.locale));
+    const given = this._parseNumericAnswer(normalizeNumberInput(answer, question.locale));
+    if (expected === null || given === null) {
+      return super.validateAnswer(question, answer);
+    }
+    return Math.abs(expected - given) < NUMERIC_ANSWER_TOLERANCE;
+  }
+
   getStats(): {
     totalQuestions: number;
     questionsPerCategory: Record<string, number>;
@@ -167,7 +478,12 @@ export class MathQuestionProvider extends BaseQuestionProvider {
         multiplication: Infinity,
         division: Infinity,
         mixed: Infinity,
-        percentages: Infinity
+        percentages: Infinity,
+        fractions: Infinity,
+        decimals: Infinity,
+        algebra: Infinity,
+        geometry: Infinity,
+        'word-problems': Infinity
       },
       questionsPerDifficulty: {
         beginner: Infinity,
@@ -213,6 +529,41 @@ export class MathQuestionProvider extends BaseQuestionProvider {
     }
   }
 
+  /**
+   * The first step of working it out, then the next one
+   */
+  private _getArithmeticHints(operation: MathOperation, num1: number, num2: number): string[] {
+    const ones = num2 % 10;
+    const tens = num2 - ones;
+
+    switch (operation) {
+      case '+':
+        return tens > 0 && ones > 0
+          ? [`First add the tens: ${num1} + ${tens} = ${num1 + tens}`, `Then add the ones: ${num1 + tens} + ${ones}`]
+          : [`Start at ${num1} and count on ${num2}`];
+      case '-':
+        return tens > 0 && ones > 0
+          ? [`First take away the tens: ${num1} - ${tens} = ${num1 - tens}`, `Then take away the ones: ${num1 - tens} - ${ones}`]
+          : [`Start at ${num1} and count back ${num2}`];
+      case '*':
+        return num2 > 1
+          ? [`Think of it as ${num2} groups of ${num1}`, `${num1} × ${num2 - 1} = ${num1 * (num2 - 1)}, then add one more ${num1}`]
+          : [`Think of it as ${num2} group of ${num1}`];
+      case '/':
+        return [`What number times ${num2} makes ${num1}?`, `Count by ${num2}s until you reach ${num1}`];
+      case '%': {
+        const [top, bottom] = PERCENT_FRACTIONS[num1] || [num1, 100];
+        if (top === bottom) return [`${num1}% is all of it`];
+        return [
+          `${num1}% is the same as ${top}/${bottom}`,
+          top === 1 ? `Divide ${num2} by ${bottom}` : `Divide ${num2} by ${bottom}, then multiply by ${top}`
+        ];
+      }
+      default:
+        return [];
+    }
+  }
+
   private _generateNumbers(
     operation: MathOperation,
     settings: MathDifficultySettings
@@ -221,14 +572,14 @@ export class MathQuestionProvider extends BaseQuestionProvider {
 
     switch (operation) {
       case '+':
-        num1 = Math.floor(Math.random() * settings.maxValue) + 1;
-        num2 = Math.floor(Math.random() * settings.maxValue) + 1;
+        num1 = Math.floor(this.random() * settings.maxValue) + 1;
+        num2 = Math.floor(this.random() * settings.maxValue) + 1;
         answer = num1 + num2;
         break;
 
       case '-':
-        num1 = Math.floor(Math.random() * settings.maxValue) + 1;
-        num2 = Math.floor(Math.random() * num1) + 1; // Ensure positive result
+        num1 = Math.floor(this.random() * settings.maxValue) + 1;
+        num2 = Math.floor(this.random() * num1) + 1; // Ensure positive result
         if (!settings.allowNegatives && num2 > num1) {
           [num1, num2] = [num2, num1];
         }
@@ -238,15 +589,15 @@ export class MathQuestionProvider extends BaseQuestionProvider {
       case '*':
         // Keep factors smaller for reasonable products
         const maxFactor = Math.min(settings.maxValue, 12);
-        num1 = Math.floor(Math.random() * maxFactor) + 1;
-        num2 = Math.floor(Math.random() * maxFactor) + 1;
+        num1 = Math.floor(this.random() * maxFactor) + 1;
+        num2 = Math.floor(this.random() * maxFactor) + 1;
         answer = num1 * num2;
         break;
 
       case '/':
         // Generate clean division (no remainders)
-        answer = Math.floor(Math.random() * Math.min(settings.maxValue, 12)) + 1;
-        num2 = Math.floor(Math.random() * 10) + 1;
+        answer = Math.floor(this.random() * Math.min(settings.maxValue, 12)) + 1;
+        num2 = Math.floor(this.random() * 10) + 1;
         num1 = answer * num2;
         break;
 
@@ -256,7 +607,7 @@ export class MathQuestionProvider extends BaseQuestionProvider {
         num1 = this.randomPick(percentages);
         // Generate a number that gives a clean result
         const multiplier = num1 === 25 ? 4 : num1 === 75 ? 4 : 100 / num1;
-        num2 = Math.floor(Math.random() * 10 + 1) * multiplier;
+        num2 = Math.floor(this.random() * 10 + 1) * multiplier;
         answer = (num1 / 100) * num2;
         break;
 
@@ -269,41 +620,667 @@ export class MathQuestionProvider extends BaseQuestionProvider {
     return { num1, num2, answer };
   }
 
-  private _generateWrongAnswers(correctAnswer: number, range: number): number[] {
-    const wrongAnswers: number[] = [];
-    const used = new Set<number>([correctAnswer]);
+  /**
+   * Turn a fraction/decimal/algebra/geometry problem into a Question with three tagged wrong answers
+   */
+  private _buildTopicQuestion(difficulty: QuestionDifficulty, category: string, problem: MathTopicProblem): Question {
+    const settings = DIFFICULTY_SETTINGS[difficulty];
+    const takenValues = [this._parseNumericAnswer(problem.answer)];
+    const wrongAnswers: string[] = [];
+    const misconceptions: Record<string, Misconception> = {};
 
-    // Generate 3 wrong answers
-    let attempts = 0;
-    while (wrongAnswers.length < 3 && attempts < 50) {
-      attempts++;
+    const add = (text: string, misconception: MathMisconception): void => {
+      const value = this._parseNumericAnswer(text);
+      if (wrongAnswers.length >= WRONG_ANSWER_COUNT || value === null || !Number.isFinite(value)) return;
+      if (value < 0 && !settings.allowNegatives) return;
+      // Equivalent values (1/2 and 2/4) would both count as correct
+      if (takenValues.some(taken => taken !== null && Math.abs(taken - value) < NUMERIC_ANSWER_TOLERANCE)) return;
+
+      takenValues.push(value);
+      wrongAnswers.push(text);
+      misconceptions[text] = { id: misconception, label: MATH_MISCONCEPTIONS[misconception] };
+    };
+
+    // Error-model answers first; off-by-one only fills in behind them
+    const offByOne = problem.distractors.filter(d => d.misconception === 'off-by-one');
+    const specific = problem.distractors.filter(d => d.misconception !== 'off-by-one');
+    this.shuffle(specific).forEach(d => add(d.text, d.misconception));
+    this.shuffle(offByOne).forEach(d => add(d.text, d.misconception));
+    for (let step = 1; wrongAnswers.length < WRONG_ANSWER_COUNT && step <= 50; step++) {
+      add(problem.nearMiss(step), 'near-miss');
+    }
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category,
+      difficulty,
+      questionText: problem.questionText,
+      correctAnswer: problem.answer,
+      wrongAnswers,
+      misconceptions,
+      explanation: problem.explanation,
+      hints: problem.hints,
+      tags: problem.operation ? [category, problem.operation] : [category]
+    };
+  }
+
+  private _generateFractionProblem(settings: MathDifficultySettings): MathTopicProblem {
+    let operation = this.randomPick(settings.fractionOperations);
+    let d1 = this._randomInt(2, settings.maxDenominator);
+    let d2 = settings.likeDenominators ? d1 : this._randomInt(2, settings.maxDenominator);
+    let n1 = this._randomInt(1, d1 - 1);
+    let n2 = this._randomInt(1, d2 - 1);
+
+    if (operation === '-') {
+      // Keep the result positive; equal fractions would give zero, so add them instead
+      if (n1 * d2 < n2 * d1) {
+        [n1, d1, n2, d2] = [n2, d2, n1, d1];
+      } else if (n1 * d2 === n2 * d1) {
+        operation = '+';
+      }
+    }
+
+    const symbol = this._getOperationSymbol(operation);
+    const first = `${n1}/${d1}`;
+    const second = `${n2}/${d2}`;
+    const distractors: MathTopicProblem['distractors'] = [];
+    let num: number, den: number, explanation: string;
+
+    switch (operation) {
+      case '*':
+        num = n1 * n2;
+        den = d1 * d2;
+        explanation = `Multiply the tops and the bottoms: ${this._showSimplifying(num, den)}`;
+        distractors.push({ text: this._formatFraction(n1 * n2, d1), misconception: 'denominator-error' });
+        distractors.push({ text: this._formatFraction(n1 * d2 + n2 * d1, d1 * d2), misconception: 'operation-swap' });
+        break;
+
+      case '/':
+        num = n1 * d2;
+        den = d1 * n2;
+        explanation = `Flip the second fraction and multiply: ${first} × ${d2}/${n2} = ${this._showSimplifying(num, den)}`;
+        distractors.push({ text: this._formatFraction(n1 * n2, d1 * d2), misconception: 'forgot-to-invert' });
+        distractors.push({ text: this._formatFraction(d1 * n2, n1 * d2), misconception: 'forgot-to-invert' });
+        break;
+
+      default: {
+        // Add or subtract over the lowest common denominator
+        const common = (d1 * d2) / this._gcd(d1, d2);
+        const scaled1 = n1 * (common / d1);
+        const scaled2 = n2 * (common / d2);
+        num = operation === '-' ? scaled1 - scaled2 : scaled1 + scaled2;
+        den = common;
+        explanation = d1 === d2
+          ? `${first} ${symbol} ${second} = ${this._showSimplifying(num, den)}`
+          : `${first} ${symbol} ${second} = ${scaled1}/${common} ${symbol} ${scaled2}/${common} = ${this._showSimplifying(num, den)}`;
+
+        if (operation === '+') {
+          distractors.push({ text: this._formatFraction(n1 + n2, d1 + d2), misconception: 'denominator-error' });
+          distractors.push({ text: this._formatFraction(Math.abs(scaled1 - scaled2), common), misconception: 'operation-swap' });
+        } else {
+          if (d1 !== d2 && n1 !== n2) {
+            distractors.push({ text: this._formatFraction(Math.abs(n1 - n2), Math.abs(d1 - d2)), misconception: 'denominator-error' });
+          }
+          distractors.push({ text: this._formatFraction(scaled1 + scaled2, common), misconception: 'operation-swap' });
+        }
+      }
+    }
+
+    const firstStep = operation === '*'
+      ? 'Multiply the tops together, then the bottoms'
+      : operation === '/'
+        ? `Flip the second fraction and multiply: ${first} × ${d2}/${n2}`
+        : d1 === d2
+          ? `The bottoms match, so ${operation === '-' ? 'subtract' : 'add'} the tops`
+          : `Rewrite both over ${(d1 * d2) / this._gcd(d1, d2)} first`;
+
+    const divisor = this._gcd(num, den);
+    const [top, bottom] = [num / divisor, den / divisor];
+    distractors.push({ text: this._formatFraction(top + 1, bottom), misconception: 'off-by-one' });
+    distractors.push({ text: this._formatFraction(top - 1, bottom), misconception: 'off-by-one' });
 
-      // Generate wrong answer within range
-      const offset = Math.floor(Math.random() * range * 2) - range;
-      if (offset === 0) continue;
+    return {
+      questionText: `${first} ${symbol} ${second} = ?`,
+      answer: this._formatFraction(num, den),
+      distractors,
+      nearMiss: step => this._formatFraction(top + this._nearMissOffset(step), bottom),
+      explanation,
+      hints: divisor > 1 ? [firstStep, `Simplify: divide the top and bottom by ${divisor}`] : [firstStep],
+      operation
+    };
+  }
+
+  private _generateDecimalProblem(settings: MathDifficultySettings): MathTopicProblem {
+    const operation = this.randomPick(settings.decimalOperations);
+    const scale = Math.pow(10, settings.decimalPlaces);
+    let a: number, b: number, answer: number, unit: number;
+
+    switch (operation) {
+      case '*':
+        // One-decimal number times a whole number (or a decimal on expert)
+        a = this._randomInt(11, 99) / 10;
+        b = settings.allowDecimals ? this._randomInt(1, 9) / 10 : this._randomInt(2, 9);
+        answer = this._roundTo(a * b, 2);
+        unit = 0.1;
+        break;
+
+      case '/':
+        // Clean division: pick the answer first
+        b = this._randomInt(2, 9);
+        answer = this._randomInt(11, 99) / 10;
+        a = this._roundTo(answer * b, 1);
+        unit = 0.1;
+        break;
+
+      default:
+        a = this._randomInt(1, settings.maxValue * scale) / scale;
+        b = this._randomInt(1, settings.maxValue * scale) / scale;
+        if (operation === '-' && b > a) {
+          [a, b] = [b, a];
+        }
+        answer = this._roundTo(operation === '-' ? a - b : a + b, settings.decimalPlaces);
+        unit = 1 / scale;
+    }
+
+    const symbol = this._getOperationSymbol(operation);
+    const distractors: MathTopicProblem['distractors'] = [
+      { text: String(this._roundTo(answer * 10, 4)), misconception: 'place-value' },
+      { text: String(this._roundTo(answer / 10, 4)), misconception: 'place-value' },
+      { text: String(this._roundTo(answer + unit, 4)), misconception: 'off-by-one' },
+      { text: String(this._roundTo(answer - unit, 4)), misconception: 'off-by-one' }
+    ];
+
+    switch (operation) {
+      case '+': distractors.push({ text: String(this._roundTo(Math.abs(a - b), 4)), misconception: 'operation-swap' }); break;
+      case '-': distractors.push({ text: String(this._roundTo(a + b, 4)), misconception: 'operation-swap' }); break;
+      case '*': distractors.push({ text: String(this._roundTo(a + b, 4)), misconception: 'operation-swap' }); break;
+      case '/': distractors.push({ text: String(this._roundTo(a - b, 4)), misconception: 'operation-swap' }); break;
+    }
+
+    const hint = operation === '*'
+      ? ' (the answer has as many decimal places as both numbers together)'
+      : operation === '/' ? '' : ' (line up the decimal points)';
+    const hints = operation === '*'
+      ? ['Multiply as if there were no decimal points', 'Count the decimal places in both numbers - the answer has that many']
+      : operation === '/'
+        ? [`Work out ${this._roundTo(a * 10, 0)} ÷ ${b} first`, 'Then move the decimal point back one place']
+        : ['Line up the decimal points', `Then ${operation === '-' ? 'subtract' : 'add'} column by column, starting from the right`];
+
+    return {
+      questionText: `${a} ${symbol} ${b} = ?`,
+      answer: String(answer),
+      distractors,
+      nearMiss: step => String(this._roundTo(answer + this._nearMissOffset(step) * unit, 4)),
+      explanation: `${a} ${symbol} ${b} = ${answer}${hint}`,
+      hints,
+      operation
+    };
+  }
 
-      let wrong = correctAnswer + offset;
+  private _generateEquationProblem(settings: MathDifficultySettings): MathTopicProblem {
+    const operation = this.randomPick(settings.equationOperations);
+    const x = settings.allowNegatives
+      ? this.randomPick([-1, 1]) * this._randomInt(1, 10)
+      : this._randomInt(1, 12);
+    const distractors: MathTopicProblem['distractors'] = [
+      { text: String(x + 1), misconception: 'off-by-one' },
+      { text: String(x - 1), misconception: 'off-by-one' }
+    ];
+    let equation: string, explanation: string, hints: string[];
 
-      // Keep positive for beginner-friendly
-      if (wrong < 0) wrong = Math.abs(wrong);
+    if (settings.equationSteps === 2) {
+      const a = this._randomInt(2, 9);
+      const b = this._randomInt(1, 20);
 
-      if (!used.has(wrong)) {
-        used.add(wrong);
-        wrongAnswers.push(wrong);
+      if (operation === '-') {
+        const c = a * x - b;
+        equation = `${a}x - ${b} = ${c}`;
+        explanation = `Add ${b} to both sides: ${a}x = ${c + b}, then divide by ${a}: x = ${x}`;
+        hints = [`First add ${b} to both sides`, `${a}x = ${c + b}, so divide both sides by ${a}`];
+        if ((c - b) % a === 0) distractors.push({ text: String((c - b) / a), misconception: 'inverse-operation' });
+        distractors.push({ text: String(c + b), misconception: 'missed-step' });
+      } else {
+        const c = a * x + b;
+        equation = `${a}x + ${b} = ${c}`;
+        explanation = `Subtract ${b} from both sides: ${a}x = ${c - b}, then divide by ${a}: x = ${x}`;
+        hints = [`First subtract ${b} from both sides`, `${a}x = ${c - b}, so divide both sides by ${a}`];
+        if ((c + b) % a === 0) distractors.push({ text: String((c + b) / a), misconception: 'inverse-operation' });
+        distractors.push({ text: String(c - b), misconception: 'missed-step' });
+      }
+    } else {
+      switch (operation) {
+        case '-': {
+          const a = this._randomInt(1, x);
+          equation = `x - ${a} = ${x - a}`;
+          explanation = `Add ${a} to both sides: x = ${x - a} + ${a} = ${x}`;
+          hints = [`Add ${a} to both sides`];
+          distractors.push({ text: String(x - 2 * a), misconception: 'inverse-operation' });
+          break;
+        }
+        case '*': {
+          const a = this._randomInt(2, 9);
+          equation = `${a}x = ${a * x}`;
+          explanation = `Divide both sides by ${a}: x = ${a * x} ÷ ${a} = ${x}`;
+          hints = [`Divide both sides by ${a}`];
+          distractors.push({ text: String(a * x - a), misconception: 'inverse-operation' });
+          break;
+        }
+        case '/': {
+          // The random value is the quotient here, so x divides evenly
+          const a = this._randomInt(2, 5);
+          const quotient = x;
+          const answer = a * quotient;
+          equation = `x ÷ ${a} = ${quotient}`;
+          explanation = `Multiply both sides by ${a}: x = ${quotient} × ${a} = ${answer}`;
+          return {
+            questionText: `Solve for x: ${equation}`,
+            answer: String(answer),
+            distractors: [
+              { text: String(quotient + a), misconception: 'inverse-operation' },
+              { text: String(answer + a), misconception: 'off-by-one' },
+              { text: String(answer - a), misconception: 'off-by-one' }
+            ],
+            nearMiss: step => String(answer + this._nearMissOffset(step)),
+            explanation,
+            hints: [`Multiply both sides by ${a}`],
+            operation
+          };
+        }
+        default: {
+          const a = this._randomInt(1, settings.maxValue);
+          equation = `x + ${a} = ${x + a}`;
+          explanation = `Subtract ${a} from both sides: x = ${x + a} - ${a} = ${x}`;
+          hints = [`Subtract ${a} from both sides`];
+          distractors.push({ text: String(x + 2 * a), misconception: 'inverse-operation' });
+        }
       }
     }
 
-    // Fill remaining if needed
-    let fill = 1;
-    while (wrongAnswers.length < 3) {
-      const fallback = correctAnswer + fill;
-      if (!used.has(fallback)) {
-        wrongAnswers.push(fallback);
-        used.add(fallback);
+    return {
+      questionText: `Solve for x: ${equation}`,
+      answer: String(x),
+      distractors,
+      nearMiss: step => String(x + this._nearMissOffset(step)),
+      explanation,
+      hints,
+      operation
+    };
+  }
+
+  private _generateShapeProblem(settings: MathDifficultySettings): MathTopicProblem {
+    const problem = this.randomPick(settings.shapeProblems);
+    const length = this._randomInt(3, settings.maxSide);
+    const width = this._randomInt(2, length - 1);
+    const distractors: MathTopicProblem['distractors'] = [];
+    let questionText: string, answer: number, explanation: string, formula: string;
+
+    switch (problem) {
+      case 'rectangle-perimeter':
+        answer = 2 * (length + width);
+        questionText = `Perimeter of a ${length} × ${width} rectangle = ?`;
+        explanation = `Perimeter = 2 × (${length} + ${width}) = ${answer}`;
+        formula = 'Perimeter = 2 × (length + width)';
+        distractors.push({ text: String(length * width), misconception: 'area-perimeter-mix' });
+        distractors.push({ text: String(length + width), misconception: 'missed-sides' });
+        break;
+
+      case 'square-area':
+        answer = length * length;
+        questionText = `Area of a square with side ${length} = ?`;
+        explanation = `Area = side × side = ${length} × ${length} = ${answer}`;
+        formula = 'Area of a square = side × side';
+        distractors.push({ text: String(4 * length), misconception: 'area-perimeter-mix' });
+        distractors.push({ text: String(2 * length), misconception: 'operation-swap' });
+        break;
+
+      case 'square-perimeter':
+        answer = 4 * length;
+        questionText = `Perimeter of a square with side ${length} = ?`;
+        explanation = `Perimeter = 4 × side = 4 × ${length} = ${answer}`;
+        formula = 'A square has 4 equal sides';
+        distractors.push({ text: String(length * length), misconception: 'area-perimeter-mix' });
+        distractors.push({ text: String(2 * length), misconception: 'missed-sides' });
+        break;
+
+      case 'triangle-area': {
+        // Keep base × height even so the area is whole
+        const height = width + ((length * width) % 2);
+        answer = (length * height) / 2;
+        questionText = `Area of a triangle with base ${length} and height ${height} = ?`;
+        explanation = `Area = ½ × base × height = ½ × ${length} × ${height} = ${answer}`;
+        formula = 'Area of a triangle = ½ × base × height';
+        distractors.push({ text: String(length * height), misconception: 'forgot-half' });
+        distractors.push({ text: String(length + height), misconception: 'area-perimeter-mix' });
+        break;
+      }
+
+      case 'triangle-perimeter': {
+        const third = this._randomInt(length - width + 1, length + width - 1);
+        answer = length + width + third;
+        questionText = `Perimeter of a triangle with sides ${length}, ${width} and ${third} = ?`;
+        explanation = `Perimeter = ${length} + ${width} + ${third} = ${answer}`;
+        formula = 'Add up all three sides';
+        distractors.push({ text: String(length + width), misconception: 'missed-sides' });
+        distractors.push({ text: String(length * width), misconception: 'area-perimeter-mix' });
+        break;
       }
+
+      case 'missing-side':
+        answer = length;
+        if (this.random() < 0.5) {
+          const area = length * width;
+          questionText = `A rectangle has area ${area} and width ${width}. Length = ?`;
+          explanation = `Length = area ÷ width = ${area} ÷ ${width} = ${length}`;
+          formula = 'Area = length × width, so length = area ÷ width';
+          distractors.push({ text: String(area - width), misconception: 'inverse-operation' });
+          distractors.push({ text: String(area / 2 - width), misconception: 'area-perimeter-mix' });
+        } else {
+          const perimeter = 2 * (length + width);
+          questionText = `A rectangle has perimeter ${perimeter} and width ${width}. Length = ?`;
+          explanation = `Length = (perimeter - 2 × width) ÷ 2 = (${perimeter} - ${2 * width}) ÷ 2 = ${length}`;
+          formula = 'Perimeter = 2 × (length + width)';
+          distractors.push({ text: String(perimeter - 2 * width), misconception: 'forgot-half' });
+          distractors.push({ text: String(perimeter - width), misconception: 'missed-sides' });
+        }
+        break;
+
+      default:
+        answer = length * width;
+        questionText = `Area of a ${length} × ${width} rectangle = ?`;
+        explanation = `Area = length × width = ${length} × ${width} = ${answer}`;
+        formula = 'Area = length × width';
+        distractors.push({ text: String(2 * (length + width)), misconception: 'area-perimeter-mix' });
+        distractors.push({ text: String(length + width), misconception: 'missed-sides' });
+    }
+
+    distractors.push({ text: String(answer + 1), misconception: 'off-by-one' });
+    distractors.push({ text: String(answer - 1), misconception: 'off-by-one' });
+
+    return {
+      questionText,
+      answer: String(answer),
+      distractors,
+      nearMiss: step => String(answer + this._nearMissOffset(step)),
+      explanation,
+      hints: [formula]
+    };
+  }
+
+  /**
+   * Fill a story template whose operation suits the difficulty; the answer is computed, never stored
+   */
+  private _generateWordProblem(difficulty: QuestionDifficulty, settings: MathDifficultySettings): Question {
+    const templates = WORD_PROBLEM_TEMPLATES.filter(t => settings.operations.includes(t.operation));
+    const template = this.randomPick(templates);
+
+    // Stories read oddly with "1 packs" or nothing left over, so keep every number at 2+
+    let numbers = this._generateNumbers(template.operation, settings);
+    for (let attempt = 0; attempt < 10 && Math.min(numbers.num1, numbers.num2, numbers.answer) < 2; attempt++) {
+      numbers = this._generateNumbers(template.operation, settings);
+    }
+    const { num1, num2, answer } = numbers;
+
+    const [, items] = this.randomPick(WORD_PROBLEM_ITEMS);
+    const slots = { name: this.randomPick(WORD_PROBLEM_NAMES), items, a: num1, b: num2 };
+
+    const distractors = this._generateWrongAnswers(template.operation, num1, num2, answer, settings);
+    const misconceptions: Record<string, Misconception> = {};
+    for (const { value, misconception } of distractors) {
+      misconceptions[formatQuantity(value, template.unit)] = { id: misconception, label: MATH_MISCONCEPTIONS[misconception] };
+    }
+
+    const symbol = this._getOperationSymbol(template.operation);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'word-problems',
+      difficulty,
+      questionText: renderWordProblem(template.story, slots),
+      questionSubtext: renderWordProblem(template.question, slots),
+      correctAnswer: formatQuantity(answer, template.unit),
+      wrongAnswers: distractors.map(d => formatQuantity(d.value, template.unit)),
+      misconceptions,
+      explanation: `${num1} ${symbol} ${num2} = ${formatQuantity(answer, template.unit)}`,
+      hints: [`This is ${OPERATION_NAMES[template.operation]} problem`, `Work out ${num1} ${symbol} ${num2}`],
+      tags: ['word-problems', template.operation, template.id]
+    };
+  }
+
+  private _randomInt(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  /**
+   * Filler offsets that never repeat: +2, -3, +3, -4, +4...
+   */
+  private _nearMissOffset(step: number): number {
+    const size = Math.floor(step / 2) + 2;
+    return step % 2 === 0 ? -size : size;
+  }
+
+  private _gcd(a: number, b: number): number {
+    a = Math.abs(a);
+    b = Math.abs(b);
+    while (b) {
+      [a, b] = [b, a % b];
+    }
+    return a || 1;
+  }
+
+  /**
+   * Simplest form as a/b, or a whole number when it divides evenly
+   */
+  private _formatFraction(numerator: number, denominator: number): string {
+    const divisor = this._gcd(numerator, denominator);
+    const top = numerator / divisor;
+    const bottom = denominator / divisor;
+    return bottom === 1 ? `${top}` : `${top}/${bottom}`;
+  }
+
+  /**
+   * "6/8 = 3/4" when the fraction simplifies, otherwise just "3/4"
+   */
+  private _showSimplifying(numerator: number, denominator: number): string {
+    const simplified = this._formatFraction(numerator, denominator);
+    const raw = `${numerator}/${denominator}`;
+    return simplified === raw ? raw : `${raw} = ${simplified}`;
+  }
+
+  private _roundTo(value: number, places: number): number {
+    const factor = Math.pow(10, places);
+    return Math.round(value * factor) / factor;
+  }
+
+  /**
+   * Parse an integer, decimal, fraction, mixed number or percentage (as its number, "50%" = 50)
+   */
+  private _parseNumericAnswer(text: string): number | null {
+    // Units from word problems are ignored: "$12" and "12 cm" both read as 12
+    const cleaned = text.trim()
+      .replace(/,/g, '')
+      .replace(/^\$\s*/, '')
+      .replace(/\s*(%|\p{L}+)$/u, '')
+      .replace(/\s+/g, ' ');
+
+    const mixed = cleaned.match(/^(-?)(\d+) (\d+)\/(\d+)$/);
+    if (mixed) {
+      const [, sign, whole, numerator, denominator] = mixed;
+      if (Number(denominator) === 0) return null;
+      const value = Number(whole) + Number(numerator) / Number(denominator);
+      return sign ? -value : value;
+    }
+
+    const fraction = cleaned.match(/^(-?\d*\.?\d+)\s?\/\s?(\d*\.?\d+)$/);
+    if (fraction) {
+      const denominator = Number(fraction[2]);
+      return denominator === 0 ? null : Number(fraction[1]) / denominator;
+    }
+
+    return /^-?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? Number(cleaned) : null;
+  }
+
+  private _generateWrongAnswers(
+    operation: MathOperation,
+    num1: number,
+    num2: number,
+    answer: number,
+    settings: MathDifficultySettings
+  ): MathDistractor[] {
+    const distractors: MathDistractor[] = [];
+    const used = new Set<number>([answer]);
+
+    const add = (value: number, misconception: MathMisconception): void => {
+      const rounded = Math.round(value * 100) / 100;
+      if (distractors.length >= WRONG_ANSWER_COUNT || used.has(rounded)) return;
+      if (rounded < 0 && !settings.allowNegatives) return;
+      used.add(rounded);
+      distractors.push({ value: rounded, misconception });
+    };
+
+    // Errors specific to the operation first, so they aren't crowded out by off-by-one
+    const [specific, general] = this._getMisconceptionCandidates(operation, num1, num2, answer);
+    this.shuffle(specific).forEach(d => add(d.value, d.misconception));
+    this.shuffle(general).forEach(d => add(d.value, d.misconception));
+
+    // Top up with nearby numbers when the error models collide
+    let attempts = 0;
+    while (distractors.length < WRONG_ANSWER_COUNT && attempts < 50) {
+      attempts++;
+      const offset = Math.floor(this.random() * settings.wrongAnswerRange * 2) - settings.wrongAnswerRange;
+      if (offset !== 0) add(Math.abs(answer + offset), 'near-miss');
+    }
+
+    let fill = 2;
+    while (distractors.length < WRONG_ANSWER_COUNT) {
+      add(answer + fill, 'near-miss');
       fill++;
     }
 
-    return wrongAnswers;
+    return distractors;
+  }
+
+  /**
+   * Answers a student would reach through a known mistake: [operation-specific, general]
+   */
+  private _getMisconceptionCandidates(
+    operation: MathOperation,
+    num1: number,
+    num2: number,
+    answer: number
+  ): [MathDistractor[], MathDistractor[]] {
+    const specific: MathDistractor[] = [];
+    const general: MathDistractor[] = [
+      { value: answer + 1, misconception: 'off-by-one' },
+      { value: answer - 1, misconception: 'off-by-one' }
+    ];
+
+    const reversed = this._reverseDigits(answer);
+    if (reversed !== null) {
+      general.push({ value: reversed, misconception: 'digit-reversal' });
+    }
+
+    // A single digit lined up under the tens column (23 + 5 -> 73)
+    const misaligned = num1 >= 10 && num2 < 10 ? num2 * 10 : null;
+
+    switch (operation) {
+      case '+':
+        specific.push({ value: Math.abs(num1 - num2), misconception: 'operation-swap' });
+        if (this._needsCarry(num1, num2)) {
+          specific.push({ value: this._addWithoutCarry(num1, num2), misconception: 'carry-error' });
+        }
+        if (misaligned !== null) {
+          specific.push({ value: num1 + misaligned, misconception: 'place-value' });
+        }
+        break;
+
+      case '-':
+        specific.push({ value: num1 + num2, misconception: 'operation-swap' });
+        if (this._needsBorrow(num1, num2)) {
+          specific.push({ value: this._subtractWithoutBorrow(num1, num2), misconception: 'borrow-error' });
+        }
+        if (misaligned !== null && num1 >= misaligned) {
+          specific.push({ value: num1 - misaligned, misconception: 'place-value' });
+        }
+        break;
+
+      case '*':
+        specific.push({ value: num1 + num2, misconception: 'operation-swap' });
+        // One group too many or too few (7 x 6 -> 49 or 35)
+        specific.push({ value: answer + num1, misconception: 'off-by-one' });
+        specific.push({ value: answer - num1, misconception: 'off-by-one' });
+        general.push({ value: answer * 10, misconception: 'place-value' });
+        break;
+
+      case '/':
+        specific.push({ value: num1 - num2, misconception: 'operation-swap' });
+        general.push({ value: answer * 10, misconception: 'place-value' });
+        break;
+
+      case '%':
+        // Subtracting the percentage instead of taking it (25% of 40 -> 15)
+        specific.push({ value: Math.abs(num2 - num1), misconception: 'operation-swap' });
+        specific.push({ value: answer * 10, misconception: 'place-value' });
+        specific.push({ value: answer / 10, misconception: 'place-value' });
+        break;
+    }
+
+    return [specific, general];
+  }
+
+  private _getDigits(value: number): number[] {
+    return Math.abs(Math.trunc(value)).toString().split('').reverse().map(Number);
+  }
+
+  private _needsCarry(a: number, b: number): boolean {
+    const digitsA = this._getDigits(a);
+    const digitsB = this._getDigits(b);
+    return digitsA.some((digit, i) => digit + (digitsB[i] || 0) >= 10);
+  }
+
+  /**
+   * Column addition that drops every carry (48 + 37 -> 75)
+   */
+  private _addWithoutCarry(a: number, b: number): number {
+    const digitsA = this._getDigits(a);
+    const digitsB = this._getDigits(b);
+    const columns = Math.max(digitsA.length, digitsB.length);
+
+    let result = 0;
+    for (let i = columns - 1; i >= 0; i--) {
+      result = result * 10 + ((digitsA[i] || 0) + (digitsB[i] || 0)) % 10;
+    }
+    return result;
+  }
+
+  private _needsBorrow(a: number, b: number): boolean {
+    const digitsA = this._getDigits(a);
+    const digitsB = this._getDigits(b);
+    return digitsB.some((digit, i) => digit > (digitsA[i] || 0));
+  }
+
+  /**
+   * Column subtraction taking the smaller digit from the larger (52 - 17 -> 45)
+   */
+  private _subtractWithoutBorrow(a: number, b: number): number {
+    const digitsA = this._getDigits(a);
+    const digitsB = this._getDigits(b);
+
+    let result = 0;
+    for (let i = digitsA.length - 1; i >= 0; i--) {
+      result = result * 10 + Math.abs((digitsA[i] || 0) - (digitsB[i] || 0));
+    }
+    return result;
+  }
+
+  /**
+   * 23 -> 32; null when reversing doesn't make a different number of the same size
+   */
+  private _reverseDigits(value: number): number | null {
+    if (!Number.isInteger(value) || Math.abs(value) < 10 || value % 10 === 0) return null;
+
+    const reversed = Number(Math.abs(value).toString().split('').reverse().join('')) * Math.sign(value);
+    return reversed === value ? null : reversed;
   }
 }
@@ -0,0 +1,587 @@
+/**
+ * QuestionPackLoader - Reads teacher-authored question packs from disk
+ *
+ * Packs are JSON or CSV files dropped into the question pack folder
+ * (`question-packs/` by default, override with QUESTION_PACKS_DIR).
+ *
+ * JSON:
+ *   {
+ *     "name": "Grade 5 Explorers",
+ *     "subject": "history",
+ *     "categories": [{ "id": "explorers", "name": "Explorers", "description": "...", "gradeLevel": 5,
+ *                      "standards": ["C3.D2.His.3.3-5"] }],
+ *     "questions": [{ "question": "...", "correctAnswer": "...", "wrongAnswers": ["...", "...", "..."],
+ *                     "category": "explorers", "difficulty": "beginner", "gradeLevel": 5, "explanation": "...",
+ *                     "standards": ["C3.D2.His.2.3-5"] }]
+ *   }
+ *
+ * CSV (header row required, wrong answers and standards separated by "|", pack name = file name):
+ *   subject,question,correctAnswer,wrongAnswers,category,difficulty,gradeLevel,explanation,standards
+ *
+ * Categories must either exist on the subject's built-in provider or be declared by a JSON pack.
+ * Malformed rows are skipped and reported; a file that cannot be read at all is skipped entirely.
+ * lintQuestionPacks() adds content checks used by `bun run validate-packs`.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, extname, join, resolve } from 'path';
+import type {
+  QuestionCategory,
+  QuestionDifficulty,
+  SubjectType
+} from './QuestionProvider';
+import { QuestionProviderRegistry } from './QuestionProvider';
+import { QuestionPackProvider } from './QuestionPackProvider';
+import { isStandardTag, STANDARD_FRAMEWORKS } from './Standards';
+
+// ============ Types ============
+
+export interface PackQuestion {
+  question: string;
+  correctAnswer: string;
+  wrongAnswers: string[];
+  category: string;
+  difficulty: QuestionDifficulty;
+  gradeLevel?: number;
+  explanation?: string;
+  standards?: string[]; // Curriculum standard codes, added to the question's tags
+  line?: number; // Source line (for error reports)
+}
+
+export interface QuestionPack {
+  name: string;
+  file: string;
+  subject: SubjectType;
+  categories: QuestionCategory[];
+  questions: PackQuestion[];
+}
+
+export interface QuestionPackIssue {
+  file: string;
+  line?: number;
+  message: string;
+}
+
+export interface QuestionPackLoadResult {
+  packs: QuestionPack[];
+  errors: QuestionPackIssue[];
+}
+
+// ============ Constants ============
+
+export const QUESTION_PACKS_DIR = process.env.QUESTION_PACKS_DIR || 'question-packs';
+export const MIN_WRONG_ANSWERS = 3;
+export const MAX_ANSWER_LENGTH = 24; // answer-label SceneUI is 28px, no wrapping - longer text overlaps the next block
+
+const SUBJECTS: SubjectType[] = ['math', 'spelling', 'vocabulary', 'geography', 'science', 'history', 'language', 'typing'];
+const DIFFICULTIES: QuestionDifficulty[] = ['beginner', 'intermediate', 'advanced', 'expert'];
+const CSV_COLUMNS = ['subject', 'question', 'correctAnswer', 'wrongAnswers', 'category', 'difficulty', 'gradeLevel', 'explanation', 'standards'];
+const OPTIONAL_CSV_COLUMNS = ['gradeLevel', 'explanation', 'standards'];
+const CSV_ANSWER_SEPARATOR = '|';
+const PACK_EXTENSIONS = ['.json', '.csv'];
+
+// ============ Loading ============
+
+/**
+ * Load every pack in a directory. Categories are checked against the providers already
+ * registered (built-in categories) plus those declared by the packs themselves.
+ */
+export function loadQuestionPacks(
+  directory: string = QUESTION_PACKS_DIR,
+  registry: QuestionProviderRegistry = QuestionProviderRegistry.getInstance()
+): QuestionPackLoadResult {
+  const result: QuestionPackLoadResult = { packs: [], errors: [] };
+  const root = resolve(directory);
+
+  if (!existsSync(root)) {
+    return result;
+  }
+
+  const files = readdirSync(root)
+    .filter(file => PACK_EXTENSIONS.includes(extname(file).toLowerCase()))
+    .sort();
+
+  for (const name of files) {
+    const file = join(directory, name); // As given, so reports read like "question-packs/fractions.csv:12"
+    let content: string;
+    try {
+      content = readFileSync(join(root, name), 'utf-8');
+    } catch (error) {
+      result.errors.push({ file, message: `Could not read file: ${(error as Error).message}` });
+      continue;
+    }
+
+    const parsed = parseQuestionPack(file, content);
+    result.errors.push(...parsed.errors);
+    if (parsed.pack) {
+      result.packs.push(parsed.pack);
+    }
+  }
+
+  result.errors.push(...filterUnknownCategories(result.packs, registry));
+  result.packs = result.packs.filter(pack => pack.questions.length > 0);
+
+  return result;
+}
+
+/**
+ * Parse a single pack file (format chosen by extension)
+ */
+export function parseQuestionPack(file: string, content: string): { pack: QuestionPack | null; errors: QuestionPackIssue[] } {
+  return extname(file).toLowerCase() === '.csv'
+    ? parseCsvPack(file, content)
+    : parseJsonPack(file, content);
+}
+
+/**
+ * Load all packs and register them with the question registry. Packs for a subject that already
+ * has a provider are layered over it, so built-in questions stay in the rotation.
+ */
+export function registerQuestionPacks(
+  registry: QuestionProviderRegistry = QuestionProviderRegistry.getInstance(),
+  directory: string = QUESTION_PACKS_DIR
+): QuestionPack[] {
+  const { packs, errors } = loadQuestionPacks(directory, registry);
+
+  for (const error of errors) {
+    console.error(`[QuestionPacks] ${formatPackIssue(error)}`);
+  }
+
+  const bySubject = new Map<SubjectType, QuestionPack[]>();
+  for (const pack of packs) {
+    bySubject.set(pack.subject, [...(bySubject.get(pack.subject) || []), pack]);
+  }
+
+  for (const [subject, subjectPacks] of bySubject) {
+    registry.register(new QuestionPackProvider(subject, subjectPacks, registry.getProvider(subject)));
+
+    const total = subjectPacks.reduce((sum, pack) => sum + pack.questions.length, 0);
+    console.log(`[QuestionPacks] Loaded ${subjectPacks.length} ${subject} pack(s) with ${total} questions`);
+  }
+
+  return packs;
+}
+
+/**
+ * Format an issue as "file:line: message"
+ */
+export function formatPackIssue(issue: QuestionPackIssue): string {
+  return `${formatPackLocation(issue.file, issue.line)}: ${issue.message}`;
+}
+
+function formatPackLocation(file: string, line?: number): string {
+  return line !== undefined ? `${file}:${line}` : file;
+}
+
+// ============ JSON Packs ============
+
+function parseJsonPack(file: string, content: string): { pack: QuestionPack | null; errors: QuestionPackIssue[] } {
+  const errors: QuestionPackIssue[] = [];
+
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    errors.push({ file, message: `Invalid JSON: ${(error as Error).message}` });
+    return { pack: null, errors };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    errors.push({ file, line: 1, message: 'Pack must be a JSON object with "subject" and "questions"' });
+    return { pack: null, errors };
+  }
+
+  if (!SUBJECTS.includes(data.subject)) {
+    errors.push({ file, line: 1, message: `Unknown subject "${data.subject}" (expected one of: ${SUBJECTS.join(', ')})` });
+    return { pack: null, errors };
+  }
+
+  if (!Array.isArray(data.questions)) {
+    errors.push({ file, line: 1, message: '"questions" must be an array' });
+    return { pack: null, errors };
+  }
+
+  const subject: SubjectType = data.subject;
+  const categoryLines = findArrayElementLines(content, 'categories');
+  const questionLines = findArrayElementLines(content, 'questions');
+
+  const categories: QuestionCategory[] = [];
+  if (data.categories !== undefined && !Array.isArray(data.categories)) {
+    errors.push({ file, line: 1, message: '"categories" must be an array' });
+  } else {
+    (data.categories || []).forEach((raw: any, index: number) => {
+      const line = categoryLines[index];
+      if (!raw || typeof raw.id !== 'string' || !raw.id.trim()) {
+        errors.push({ file, line, message: `categories[${index}]: "id" is required` });
+        return;
+      }
+      categories.push({
+        id: raw.id.trim(),
+        name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : raw.id.trim(),
+        description: typeof raw.description === 'string' ? raw.description : '',
+        subject,
+        gradeLevel: typeof raw.gradeLevel === 'number' ? raw.gradeLevel : undefined,
+        icon: typeof raw.icon === 'string' ? raw.icon : undefined,
+        standards: Array.isArray(raw.standards)
+          ? raw.standards.filter((code: unknown) => typeof code === 'string' && code.trim()).map((code: string) => code.trim())
+          : undefined
+      });
+    });
+  }
+
+  const questions: PackQuestion[] = [];
+  data.questions.forEach((raw: any, index: number) => {
+    const line = questionLines[index];
+    const question = validatePackQuestion(raw ?? {}, line, file, `questions[${index}]`, errors);
+    if (question) questions.push(question);
+  });
+
+  return {
+    pack: {
+      name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : basename(file, extname(file)),
+      file,
+      subject,
+      categories,
+      questions
+    },
+    errors
+  };
+}
+
+/**
+ * Line number where each element of a top-level array property starts
+ */
+function findArrayElementLines(content: string, key: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let stringStart = 0;
+  let lastString = '';
+  let arrayDepth = -1; // Depth of the matching array's elements, -1 until found
+  let expectElement = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') line++;
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+        lastString = content.slice(stringStart, i);
+      }
+      continue;
+    }
+
+    if (expectElement && !/\s|,/.test(char) && char !== ']') {
+      lines.push(line);
+      expectElement = false;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringStart = i + 1;
+        break;
+      case '{':
+      case '[':
+        if (char === '[' && depth === 1 && lastString === key && arrayDepth === -1) {
+          arrayDepth = depth + 1;
+          expectElement = true;
+        }
+        depth++;
+        break;
+      case '}':
+      case ']':
+        depth--;
+        if (depth < arrayDepth) arrayDepth = -2; // Array closed - stop collecting
+        break;
+      case ',':
+        if (depth === arrayDepth) expectElement = true;
+        break;
+      case ':':
+        break;
+      default:
+        if (!/\s/.test(char)) lastString = '';
+    }
+  }
+
+  return lines;
+}
+
+// ============ CSV Packs ============
+
+function parseCsvPack(file: string, content: string): { pack: QuestionPack | null; errors: QuestionPackIssue[] } {
+  const errors: QuestionPackIssue[] = [];
+  const records = parseCsvRecords(content).filter(record => record.fields.some(field => field.trim()));
+
+  if (records.length === 0) {
+    errors.push({ file, message: 'CSV pack is empty' });
+    return { pack: null, errors };
+  }
+
+  const [header, ...rows] = records;
+  const columns = header.fields.map(field => field.trim());
+  const missing = CSV_COLUMNS.filter(column => !OPTIONAL_CSV_COLUMNS.includes(column) && !columns.includes(column));
+  if (missing.length > 0) {
+    errors.push({ file, line: header.line, message: `Missing column(s): ${missing.join(', ')}` });
+    return { pack: null, errors };
+  }
+
+  let subject: SubjectType | null = null;
+  const questions: PackQuestion[] = [];
+
+  for (const row of rows) {
+    const value = (column: string) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? '' : (row.fields[index] ?? '').trim();
+    };
+
+    const rowSubject = value('subject');
+    if (!SUBJECTS.includes(rowSubject as SubjectType)) {
+      errors.push({ file, line: row.line, message: `Unknown subject "${rowSubject}"` });
+      continue;
+    }
+    if (subject && rowSubject !== subject) {
+      errors.push({ file, line: row.line, message: `Subject "${rowSubject}" differs from the pack's subject "${subject}"` });
+      continue;
+    }
+    subject = rowSubject as SubjectType;
+
+    const gradeLevel = value('gradeLevel');
+    const standards = value('standards');
+    const question = validatePackQuestion({
+      question: value('question'),
+      correctAnswer: value('correctAnswer'),
+      wrongAnswers: value('wrongAnswers').split(CSV_ANSWER_SEPARATOR).map(answer => answer.trim()).filter(Boolean),
+      category: value('category'),
+      difficulty: value('difficulty'),
+      gradeLevel: gradeLevel ? Number(gradeLevel) : undefined,
+      explanation: value('explanation') || undefined,
+      standards: standards ? standards.split(CSV_ANSWER_SEPARATOR).map(code => code.trim()).filter(Boolean) : undefined
+    }, row.line, file, '', errors);
+
+    if (question) questions.push(question);
+  }
+
+  if (!subject) {
+    errors.push({ file, message: 'CSV pack has no valid rows' });
+    return { pack: null, errors };
+  }
+
+  return {
+    pack: {
+      name: basename(file, extname(file)),
+      file,
+      subject,
+      categories: [],
+      questions
+    },
+    errors
+  };
+}
+
+/**
+ * Split CSV text into records (RFC 4180 quoting, quoted fields may span lines)
+ */
+function parseCsvRecords(content: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || fields.length > 0) {
+    fields.push(field);
+    records.push({ line: recordLine, fields });
+  }
+
+  return records;
+}
+
+// ============ Validation ============
+
+/**
+ * Check a raw question entry, recording an issue and returning null if it is malformed
+ */
+function validatePackQuestion(
+  raw: any,
+  line: number | undefined,
+  file: string,
+  label: string, // Entry name for JSON packs ('' when the line number says it all)
+  errors: QuestionPackIssue[]
+): PackQuestion | null {
+  const problems: string[] = [];
+
+  if (typeof raw.question !== 'string' || !raw.question.trim()) {
+    problems.push('"question" is required');
+  }
+  if (typeof raw.correctAnswer !== 'string' && typeof raw.correctAnswer !== 'number') {
+    problems.push('"correctAnswer" is required');
+  } else if (!String(raw.correctAnswer).trim()) {
+    problems.push('"correctAnswer" is required');
+  }
+  if (!Array.isArray(raw.wrongAnswers) || raw.wrongAnswers.some((a: unknown) => typeof a !== 'string' && typeof a !== 'number')) {
+    problems.push('"wrongAnswers" must be a list of answers');
+  } else if (raw.wrongAnswers.length < MIN_WRONG_ANSWERS) {
+    problems.push(`needs at least ${MIN_WRONG_ANSWERS} wrong answers (found ${raw.wrongAnswers.length})`);
+  }
+  if (typeof raw.category !== 'string' || !raw.category.trim()) {
+    problems.push('"category" is required');
+  }
+  if (!DIFFICULTIES.includes(raw.difficulty)) {
+    problems.push(`unknown difficulty "${raw.difficulty}" (expected one of: ${DIFFICULTIES.join(', ')})`);
+  }
+  if (raw.gradeLevel !== undefined && (!Number.isInteger(raw.gradeLevel) || raw.gradeLevel < 0 || raw.gradeLevel > 12)) {
+    problems.push('"gradeLevel" must be a whole number from 0 (K) to 12');
+  }
+  if (raw.explanation !== undefined && typeof raw.explanation !== 'string') {
+    problems.push('"explanation" must be text');
+  }
+  if (raw.standards !== undefined && (!Array.isArray(raw.standards) || raw.standards.some((code: unknown) => typeof code !== 'string'))) {
+    problems.push('"standards" must be a list of standard codes');
+  }
+
+  if (problems.length > 0) {
+    errors.push({ file, line, message: `${label ? `${label}: ` : ''}${problems.join('; ')}` });
+    return null;
+  }
+
+  return {
+    question: raw.question.trim(),
+    correctAnswer: String(raw.correctAnswer).trim(),
+    wrongAnswers: raw.wrongAnswers.map((answer: string | number) => String(answer).trim()),
+    category: raw.category.trim(),
+    difficulty: raw.difficulty,
+    gradeLevel: raw.gradeLevel,
+    explanation: raw.explanation?.trim() || undefined,
+    standards: raw.standards?.map((code: string) => code.trim()).filter(Boolean),
+    line
+  };
+}
+
+// ============ Linting ============
+
+/**
+ * Content checks on loaded packs: repeated answers, answers too long for the
+ * answer label, standard codes without a known framework prefix, and the same
+ * question appearing twice (within or across packs)
+ */
+export function lintQuestionPacks(packs: QuestionPack[]): QuestionPackIssue[] {
+  const issues: QuestionPackIssue[] = [];
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const seenQuestions = new Map<string, { file: string; line?: number }>();
+
+  for (const pack of packs) {
+    for (const question of pack.questions) {
+      const report = (message: string) => issues.push({ file: pack.file, line: question.line, message });
+
+      const correct = normalize(question.correctAnswer);
+      const seenAnswers = new Set<string>();
+      for (const wrong of question.wrongAnswers) {
+        const answer = normalize(wrong);
+        if (answer === correct) {
+          report(`Wrong answer "${wrong}" duplicates the correct answer`);
+        } else if (seenAnswers.has(answer)) {
+          report(`Duplicate wrong answer "${wrong}"`);
+        }
+        seenAnswers.add(answer);
+      }
+
+      for (const answer of [question.correctAnswer, ...question.wrongAnswers]) {
+        if (answer.length > MAX_ANSWER_LENGTH) {
+          report(`Answer "${answer}" is ${answer.length} characters (max ${MAX_ANSWER_LENGTH} fits the answer label)`);
+        }
+      }
+
+      for (const code of question.standards || []) {
+        if (!isStandardTag(code)) {
+          report(`Standard "${code}" needs a framework prefix (${STANDARD_FRAMEWORKS.map(f => `${f}.`).join(', ')}) to be reported`);
+        }
+      }
+
+      const key = `${pack.subject}:${normalize(question.question)}`;
+      const first = seenQuestions.get(key);
+      if (first) {
+        report(`Duplicate question "${question.question}" (first seen at ${formatPackLocation(first.file, first.line)})`);
+      } else {
+        seenQuestions.set(key, { file: pack.file, line: question.line });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Drop questions whose category is neither built in nor declared by a pack for the subject
+ */
+function filterUnknownCategories(packs: QuestionPack[], registry: QuestionProviderRegistry): QuestionPackIssue[] {
+  const errors: QuestionPackIssue[] = [];
+  const known = new Map<SubjectType, Set<string>>();
+
+  const knownFor = (subject: SubjectType): Set<string> => {
+    if (!known.has(subject)) {
+      const builtIn = registry.getProvider(subject)?.getCategories().map(c => c.id) || [];
+      known.set(subject, new Set(builtIn));
+    }
+    return known.get(subject)!;
+  };
+
+  for (const pack of packs) {
+    pack.categories.forEach(category => knownFor(pack.subject).add(category.id));
+  }
+
+  for (const pack of packs) {
+    const categories = knownFor(pack.subject);
+    pack.questions = pack.questions.filter(question => {
+      if (categories.has(question.category)) return true;
+
+      errors.push({
+        file: pack.file,
+        line: question.line,
+        message: `Unknown ${pack.subject} category "${question.category}" (declare it in a JSON pack's "categories")`
+      });
+      return false;
+    });
+  }
+
+  return errors;
+}
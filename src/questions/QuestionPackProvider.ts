@@ -0,0 +1,148 @@
+/**
+ * QuestionPackProvider - Serves questions from teacher-authored packs
+ *
+ * One provider per subject holds every pack loaded for that subject.
+ * If the subject already has a built-in provider, the packs are layered
+ * over it: built-in categories keep working, pack categories are added,
+ * and unfiltered games mix pack and built-in questions.
+ */
+
+import { BaseQuestionProvider } from './QuestionProvider';
+import type {
+  IQuestionProvider,
+  Question,
+  QuestionCategory,
+  QuestionDifficulty,
+  QuestionProviderConfig,
+  SubjectType
+} from './QuestionProvider';
+import type { Locale } from '../i18n/Locale';
+import type { PackQuestion, QuestionPack } from './QuestionPackLoader';
+
+// Chance that an unfiltered question comes from the built-in provider instead of a pack
+const BUILT_IN_QUESTION_SHARE = 0.5;
+const WRONG_ANSWERS_PER_QUESTION = 3;
+
+export class QuestionPackProvider extends BaseQuestionProvider {
+  readonly subject: SubjectType;
+  readonly config: QuestionProviderConfig;
+
+  private _packs: QuestionPack[];
+  private _questions: PackQuestion[];
+  private _baseProvider?: IQuestionProvider;
+
+  constructor(subject: SubjectType, packs: QuestionPack[], baseProvider?: IQuestionProvider) {
+    super();
+    this.subject = subject;
+    this._packs = packs;
+    this._questions = packs.flatMap(pack => pack.questions);
+    this._baseProvider = baseProvider;
+
+    // Built-in categories first, then any new ones declared by packs
+    const categories: QuestionCategory[] = [...(baseProvider?.getCategories() || [])];
+    for (const category of packs.flatMap(pack => pack.categories)) {
+      if (!categories.some(c => c.id === category.id)) {
+        categories.push(category);
+      }
+    }
+
+    this.config = {
+      subject,
+      categories,
+      supportedDifficulties: baseProvider?.config.supportedDifficulties || ['beginner', 'intermediate', 'advanced', 'expert'],
+      defaultDifficulty: baseProvider?.config.defaultDifficulty || 'intermediate'
+    };
+  }
+
+  generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    const inCategory = category
+      ? this._questions.filter(q => q.category === category)
+      : this._questions;
+
+    // Hand off to the built-in provider when it covers the request and the packs don't (or by chance)
+    const base = this._baseProvider;
+    if (base && (!category || base.getCategories().some(c => c.id === category))) {
+      if (inCategory.length === 0 || this.random() < BUILT_IN_QUESTION_SHARE) {
+        // Share our random source so seeded games stay reproducible across the hand-off
+        return base.withRandomSource
+          ? base.withRandomSource(this.random, () => base.generateQuestion(difficulty, category))
+          : base.generateQuestion(difficulty, category);
+      }
+    }
+
+    // Filter by difficulty, falling back to the whole category, then the whole pack
+    let filtered = inCategory.filter(q => q.difficulty === difficulty);
+    if (filtered.length === 0) {
+      filtered = inCategory;
+    }
+    if (filtered.length === 0) {
+      filtered = this._questions.filter(q => q.difficulty === difficulty);
+    }
+    if (filtered.length === 0) {
+      filtered = this._questions;
+    }
+
+    const packQ = this.randomPick(filtered);
+    const categoryInfo = this.config.categories.find(c => c.id === packQ.category);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: packQ.category,
+      difficulty: packQ.difficulty,
+      questionText: packQ.question,
+      correctAnswer: packQ.correctAnswer,
+      wrongAnswers: this.randomPickN(packQ.wrongAnswers, WRONG_ANSWERS_PER_QUESTION),
+      explanation: packQ.explanation || `The answer is ${packQ.correctAnswer}`,
+      tags: [this.subject, packQ.category, 'pack', ...(packQ.standards || [])],
+      gradeLevel: packQ.gradeLevel ?? categoryInfo?.gradeLevel
+    };
+  }
+
+  validateAnswer(question: Question, answer: string): boolean {
+    // Built-in questions may rely on subject-specific matching
+    if (this._baseProvider && !question.tags?.includes('pack')) {
+      return this._baseProvider.validateAnswer(question, answer);
+    }
+    return super.validateAnswer(question, answer);
+  }
+
+  localizeQuestion(question: Question, locale: Locale): Question {
+    // Teacher-authored questions are shown as written
+    if (question.tags?.includes('pack')) return question;
+    return this._baseProvider?.localizeQuestion?.(question, locale) ?? question;
+  }
+
+  getStats(): {
+    totalQuestions: number;
+    questionsPerCategory: Record<string, number>;
+    questionsPerDifficulty: Record<QuestionDifficulty, number>;
+  } {
+    const baseStats = this._baseProvider?.getStats();
+    const perCategory: Record<string, number> = { ...(baseStats?.questionsPerCategory || {}) };
+    const perDifficulty: Record<QuestionDifficulty, number> = {
+      beginner: baseStats?.questionsPerDifficulty.beginner || 0,
+      intermediate: baseStats?.questionsPerDifficulty.intermediate || 0,
+      advanced: baseStats?.questionsPerDifficulty.advanced || 0,
+      expert: baseStats?.questionsPerDifficulty.expert || 0
+    };
+
+    for (const q of this._questions) {
+      perCategory[q.category] = (perCategory[q.category] || 0) + 1;
+      perDifficulty[q.difficulty]++;
+    }
+
+    return {
+      totalQuestions: (baseStats?.totalQuestions || 0) + this._questions.length,
+      questionsPerCategory: perCategory,
+      questionsPerDifficulty: perDifficulty
+    };
+  }
+
+  /**
+   * Names of the packs served by this provider
+   */
+  getPackNames(): string[] {
+    return this._packs.map(pack => pack.name);
+  }
+}
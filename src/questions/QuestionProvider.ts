@@ -6,6 +6,27 @@
  * and can generate questions appropriate for its domain.
  */
 
+import type { Locale } from '../i18n/Locale';
+import { foldAccents } from '../i18n/Locale';
+import type { RandomSource } from './SeededRandom';
+import type { ContentFilter } from './Standards';
+import { applyCategoryStandards, categoryMatchesFilter, hasContentFilter, questionMatchesFilter } from './Standards';
+import { translateQuestion, translateText } from './QuestionTranslator';
+import { getQuestionTranslations } from './translations';
+
+// Candidates drawn when looking for a question the player hasn't seen
+const UNSEEN_QUESTION_ATTEMPTS = 12;
+
+// Candidates drawn when looking for a question inside a grade band or standard
+const FILTERED_QUESTION_ATTEMPTS = 8;
+
+// Typed multi-select and sequence answers list their picks separated by commas or semicolons
+const SELECTION_SEPARATOR = /[,;]/;
+const TRUE_FALSE_ALIASES: Record<string, string> = {
+  t: 'true', yes: 'true', y: 'true', f: 'false', no: 'false', n: 'false',
+  verdadero: 'true', v: 'true', 'sí': 'true', si: 'true', falso: 'false'
+};
+
 export type SubjectType =
   | 'math'
   | 'spelling'
@@ -18,13 +39,49 @@ export type SubjectType =
 
 export type QuestionDifficulty = 'beginner' | 'intermediate' | 'advanced' | 'expert';
 
+/**
+ * How a question is answered:
+ * - multiple-choice: one correct block in a row of 2-6
+ * - true-false: two big blocks, "True" and "False"
+ * - multi-select: "select all that apply", every block in correctAnswers must be hit in one fall
+ * - sequence: one row of blocks per step, passed through in the order of correctAnswers
+ */
+export type QuestionFormat = 'multiple-choice' | 'true-false' | 'multi-select' | 'sequence';
+
+// Blocks shown for a multiple-choice question; providers with fewer distractors show what they have
+export const CHOICE_COUNTS: Record<QuestionDifficulty, number> = {
+  beginner: 3,
+  intermediate: 4,
+  advanced: 5,
+  expert: 6
+};
+
+export const TRUE_FALSE_CHOICES = ['True', 'False'];
+
+// Steps to put in order for a sequence question (one row of blocks each)
+export const SEQUENCE_LENGTHS: Record<QuestionDifficulty, number> = {
+  beginner: 3,
+  intermediate: 4,
+  advanced: 4,
+  expert: 5
+};
+
 export interface QuestionCategory {
   id: string;
   name: string;
   description: string;
   subject: SubjectType;
-  gradeLevel?: number; // K=0, 1-12
+  gradeLevel?: number; // K=0, 1-12 - the grade of its beginner questions
   icon?: string;
+  standards?: string[]; // Curriculum standard codes its questions practice (see Standards.ts)
+}
+
+/**
+ * A common error that produces a particular wrong answer
+ */
+export interface Misconception {
+  id: string;     // e.g. 'carry-error'
+  label: string;  // Shown to students and teachers
 }
 
 export interface Question {
@@ -38,15 +95,50 @@ export interface Question {
   questionSubtext?: string;       // Optional hint or context
 
   // Answer options
-  correctAnswer: string;          // The correct answer (as string for flexibility)
-  wrongAnswers: string[];         // 3 wrong answers
+  format?: QuestionFormat;        // Defaults to 'multiple-choice'
+  correctAnswer: string;          // The correct answer (multi-select and sequence: all of them, comma separated)
+  correctAnswers?: string[];      // Multi-select: each answer to pick; sequence: the steps in order
+  wrongAnswers: string[];         // 1-5 wrong answers (see CHOICE_COUNTS)
+  misconceptions?: Record<string, Misconception>;  // Wrong answer -> the error that produces it
 
   // Optional metadata
   explanation?: string;           // Explanation shown after answering
-  imageUri?: string;              // Optional image for the question
+  hints?: string[];               // Least to most revealing; each one used costs points
+  imageUri?: string;              // Optional image for the question (asset path, e.g. 'ui/images/flags/fr.svg')
+  answerImages?: Record<string, string>;  // Answer -> image shown on its block in place of the text
   audioUri?: string;              // Optional audio (for pronunciation, etc.)
-  tags?: string[];                // For filtering/analytics
-  gradeLevel?: number;
+  tags?: string[];                // For filtering/analytics, including curriculum standard codes
+  gradeLevel?: number;            // K=0, 1-12 (set from the category when the provider doesn't)
+  locale?: Locale;                // Set once translated; unset questions are in English
+  factKey?: string;               // The English question's fact key, kept when translated (see getQuestionFactKey)
+}
+
+/**
+ * What a player has already been asked, so the registry can avoid repeats
+ */
+export interface QuestionExposure {
+  // Already asked in the current game
+  isSeenThisSession(question: Question): boolean;
+
+  // When the player last saw the question in any session (0 if never)
+  getLastSeenAt(question: Question): number;
+}
+
+/**
+ * Optional settings for generating a question through the registry
+ */
+export interface QuestionGenerationOptions {
+  // Only draw from this category
+  category?: string;
+
+  // Seeded random source, to make the question reproducible
+  random?: RandomSource;
+
+  // Keep to a grade band or standard
+  filter?: ContentFilter;
+
+  // Translate the question into this locale
+  locale?: Locale;
 }
 
 export interface QuestionProviderConfig {
@@ -74,15 +166,30 @@ export interface IQuestionProvider {
   getCategories(): QuestionCategory[];
 
   /**
-   * Validate if an answer is correct
+   * Validate if an answer is correct, whether picked from the choices or typed
    * (Some subjects may need fuzzy matching, e.g., spelling)
    */
   validateAnswer(question: Question, answer: string): boolean;
 
   /**
-   * Get a hint for the question (optional)
+   * Run generation with the given random source, e.g. a seeded one for a match (optional)
+   */
+  withRandomSource?<T>(random: RandomSource, generate: () => T): T;
+
+  /**
+   * Get a hint for the question, level 0 being the gentlest; null once there are no more (optional)
+   */
+  getHint?(question: Question, level: number): string | null;
+
+  /**
+   * Translate a generated question into a locale (optional; questions stay in English without it)
    */
-  getHint?(question: Question): string;
+  localizeQuestion?(question: Question, locale: Locale): Question;
+
+  /**
+   * Translate one piece of this subject's text, e.g. a category name (optional)
+   */
+  localizeText?(text: string, locale?: Locale): string;
 
   /**
    * Get statistics about the question bank
@@ -101,15 +208,99 @@ export abstract class BaseQuestionProvider implements IQuestionProvider {
   abstract readonly subject: SubjectType;
   abstract readonly config: QuestionProviderConfig;
 
+  // All question randomness goes through here so it can be seeded
+  protected random: RandomSource = Math.random;
+
   abstract generateQuestion(difficulty: QuestionDifficulty, category?: string): Question;
 
+  /**
+   * Replace the provider's random source for every question from now on
+   */
+  setRandomSource(random: RandomSource): void {
+    this.random = random;
+  }
+
+  /**
+   * Use a random source for one call only (providers are shared between players)
+   */
+  withRandomSource<T>(random: RandomSource, generate: () => T): T {
+    const previous = this.random;
+    this.random = random;
+    try {
+      return generate();
+    } finally {
+      this.random = previous;
+    }
+  }
+
   getCategories(): QuestionCategory[] {
     return this.config.categories;
   }
 
   validateAnswer(question: Question, answer: string): boolean {
     // Default: case-insensitive exact match
-    return answer.toLowerCase().trim() === question.correctAnswer.toLowerCase().trim();
+    const typed = this.normalizeAnswer(answer);
+    const correct = this.normalizeAnswer(question.correctAnswer);
+    if (typed === correct) return true;
+
+    // Translated answers may be typed without their accents ("Mexico" for "México")
+    return !!question.locale && foldAccents(typed) === foldAccents(correct);
+  }
+
+  getHint(question: Question, level: number): string | null {
+    if (question.hints) return question.hints[level] ?? null;
+    const hint = this.getDefaultHints(question)[level];
+    return hint === undefined ? null : this.localizeText(hint, question.locale);
+  }
+
+  localizeQuestion(question: Question, locale: Locale): Question {
+    const translations = getQuestionTranslations(this.subject, locale);
+    if (!translations) return question;
+
+    const localized = translateQuestion(question, locale, translations);
+
+    // A first-letter hint has to follow the translated answer ("The Pyramids" -> "Las pirámides"),
+    // and goes when the translated choices all share that letter
+    const letterHint = this.firstLetterHint(question.correctAnswer);
+    const keepLetterHint = firstLetterRulesOutChoice(localized);
+    localized.hints = localized.hints?.flatMap((hint, i) => {
+      if (question.hints![i] !== letterHint) return [hint];
+      return keepLetterHint ? [translateText(this.firstLetterHint(localized.correctAnswer), locale, translations)] : [];
+    });
+
+    return localized;
+  }
+
+  localizeText(text: string, locale?: Locale): string {
+    if (!locale) return text;
+    const translations = getQuestionTranslations(this.subject, locale);
+    return translations ? translateText(text, locale, translations) : text;
+  }
+
+  /**
+   * Hints for questions generated without any (review items, question packs), from the answer alone
+   */
+  protected getDefaultHints(question: Question): string[] {
+    const [first] = getCorrectChoices(question);
+    switch (getQuestionFormat(question)) {
+      case 'true-false':
+        return [];  // Any hint gives it away
+      case 'multi-select':
+        return [`${first} is one of them`];
+      case 'sequence':
+        return [`${first} comes first`];
+      default: {
+        const hints: string[] = [];
+        // Ruling out a choice only helps while at least two others are left
+        if (question.wrongAnswers.length > 1) hints.push(`It isn't ${question.wrongAnswers[0]}`);
+        // The first letter of a one- or two-character answer (a key, a letter) gives it away,
+        // and one every choice shares tells the player nothing
+        if (question.correctAnswer.trim().length > 2 && firstLetterRulesOutChoice(question)) {
+          hints.push(this.firstLetterHint(question.correctAnswer));
+        }
+        return hints;
+      }
+    }
   }
 
   abstract getStats(): {
@@ -119,19 +310,65 @@ export abstract class BaseQuestionProvider implements IQuestionProvider {
   };
 
   /**
-   * Utility: Generate a unique question ID
+   * Utility: How many wrong answers to offer at this difficulty (see CHOICE_COUNTS)
+   */
+  protected getWrongAnswerCount(difficulty: QuestionDifficulty): number {
+    return CHOICE_COUNTS[difficulty] - 1;
+  }
+
+  /**
+   * Utility: How many steps a sequence question has at this difficulty (see SEQUENCE_LENGTHS)
+   */
+  protected getSequenceLength(difficulty: QuestionDifficulty): number {
+    return SEQUENCE_LENGTHS[difficulty];
+  }
+
+  /**
+   * Utility: "It starts with "P"" for an answer
+   */
+  protected firstLetterHint(answer: string): string {
+    return getFirstLetterHint(answer);
+  }
+
+  /**
+   * Utility: Generate a unique question ID (not seeded - IDs must stay unique across replays)
    */
   protected generateId(): string {
     return `${this.subject}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * Utility: Normalize typed text for comparison (case and whitespace)
+   */
+  protected normalizeAnswer(answer: string): string {
+    return answer.toLowerCase().trim().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * Utility: Levenshtein edit distance between two strings
+   */
+  protected levenshteinDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
   /**
    * Utility: Shuffle an array
    */
   protected shuffle<T>(array: T[]): T[] {
     const result = [...array];
     for (let i = result.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(this.random() * (i + 1));
       [result[i], result[j]] = [result[j], result[i]];
     }
     return result;
@@ -141,7 +378,7 @@ export abstract class BaseQuestionProvider implements IQuestionProvider {
    * Utility: Pick random item from array
    */
   protected randomPick<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
+    return array[Math.floor(this.random() * array.length)];
   }
 
   /**
@@ -151,6 +388,14 @@ export abstract class BaseQuestionProvider implements IQuestionProvider {
     const shuffled = this.shuffle(array);
     return shuffled.slice(0, n);
   }
+
+  /**
+   * Utility: Pick N random items from array, keeping their original order
+   */
+  protected randomPickInOrder<T>(array: T[], n: number): T[] {
+    const picked = new Set(this.randomPickN(array.map((_, index) => index), n));
+    return array.filter((_, index) => picked.has(index));
+  }
 }
 
 /**
@@ -198,20 +443,139 @@ export class QuestionProviderRegistry {
     return Array.from(this._providers.keys());
   }
 
+  /**
+   * Get a subject's categories, optionally only those with questions that can pass a content filter,
+   * named in the given locale
+   */
+  public getCategories(subject: SubjectType, filter?: ContentFilter, locale?: Locale): QuestionCategory[] {
+    const provider = this._providers.get(subject);
+    const categories = provider?.getCategories() || [];
+    const matching = hasContentFilter(filter)
+      ? categories.filter(category => categoryMatchesFilter(category, filter))
+      : categories;
+
+    if (!locale || !provider?.localizeText) return matching;
+    return matching.map(category => ({
+      ...category,
+      name: provider.localizeText!(category.name, locale),
+      description: provider.localizeText!(category.description, locale)
+    }));
+  }
+
+  /**
+   * Get the standard codes a subject's categories practice (every subject when none is given)
+   */
+  public getStandards(subject?: SubjectType, filter?: ContentFilter): string[] {
+    const subjects = subject ? [subject] : this.getAvailableSubjects();
+    const codes = subjects.flatMap(s => this.getCategories(s, filter).flatMap(category => category.standards || []));
+    return Array.from(new Set(codes)).sort();
+  }
+
   /**
    * Generate a question from any registered provider
    */
   public generateQuestion(
     subject: SubjectType,
     difficulty: QuestionDifficulty,
-    category?: string
+    options: QuestionGenerationOptions = {}
   ): Question | null {
+    const { category, random, filter } = options;
     const provider = this._providers.get(subject);
     if (!provider) {
       console.warn(`[QuestionRegistry] No provider for subject: ${subject}`);
       return null;
     }
-    return provider.generateQuestion(difficulty, category);
+    if (!hasContentFilter(filter)) {
+      return this._generateFromProvider(provider, difficulty, options);
+    }
+
+    // Draw from the categories that fit, then skip questions outside the band
+    const categories = category ? [] : this.getCategories(subject, filter).map(c => c.id);
+    let offFilter: Question | null = null;
+    for (let attempt = 0; attempt < FILTERED_QUESTION_ATTEMPTS; attempt++) {
+      const pick = category
+        ?? (categories.length > 0 ? categories[Math.floor((random || Math.random)() * categories.length)] : undefined);
+      const question = this._generateFromProvider(provider, difficulty, { ...options, category: pick });
+      if (questionMatchesFilter(question, filter)) return question;
+      offFilter = offFilter || question;
+    }
+
+    // Nothing at this difficulty fits - a question beats no question
+    return offFilter;
+  }
+
+  private _generateFromProvider(
+    provider: IQuestionProvider,
+    difficulty: QuestionDifficulty,
+    { category, random, locale }: QuestionGenerationOptions
+  ): Question {
+    const question = random && provider.withRandomSource
+      ? provider.withRandomSource(random, () => provider.generateQuestion(difficulty, category))
+      : provider.generateQuestion(difficulty, category);
+
+    // Providers may offer spare distractors; keep the best ones (listed first) up to the difficulty's count
+    if (getQuestionFormat(question) === 'multiple-choice') {
+      question.wrongAnswers = question.wrongAnswers.slice(0, CHOICE_COUNTS[difficulty] - 1);
+    }
+
+    // A first-letter hint that every remaining choice shares ("It starts with "1"" for years) costs points for nothing
+    if (question.hints && !firstLetterRulesOutChoice(question)) {
+      const letterHint = getFirstLetterHint(question.correctAnswer);
+      question.hints = question.hints.filter(hint => hint !== letterHint);
+    }
+
+    const questionCategory = provider.getCategories().find(c => c.id === question.category);
+    if (questionCategory) {
+      applyCategoryStandards(question, questionCategory);
+    }
+    return this.localizeQuestion(question, locale);
+  }
+
+  /**
+   * Translate an English question into a locale with its provider (already translated ones are kept as they are)
+   */
+  public localizeQuestion(question: Question, locale?: Locale): Question {
+    if (!locale || question.locale) return question;
+    const localized = this._providers.get(question.subject)?.localizeQuestion?.(question, locale);
+    if (!localized || localized === question) return question;
+
+    // Review scheduling and exposure follow the fact, whatever language it was shown in
+    return { ...localized, factKey: getQuestionFactKey(question) };
+  }
+
+  /**
+   * Generate a question the player hasn't been asked this game, preferring
+   * ones never seen before, then the least recently seen
+   */
+  public generateUnseenQuestion(
+    subject: SubjectType,
+    difficulty: QuestionDifficulty,
+    exposure: QuestionExposure,
+    options: QuestionGenerationOptions = {}
+  ): Question | null {
+    let fallback: Question | null = null;
+    let best: Question | null = null;
+    let bestSeenAt = Infinity;
+
+    for (let attempt = 0; attempt < UNSEEN_QUESTION_ATTEMPTS; attempt++) {
+      const question = this.generateQuestion(subject, difficulty, options);
+      if (!question) return null;
+
+      if (exposure.isSeenThisSession(question)) {
+        fallback = fallback || question;
+        continue;
+      }
+
+      const seenAt = exposure.getLastSeenAt(question);
+      if (seenAt === 0) return question;
+      if (seenAt < bestSeenAt) {
+        best = question;
+        bestSeenAt = seenAt;
+      }
+    }
+
+    // Small banks can run out - a repeat beats no question
+    return best || fallback;
   }
 
   /**
@@ -220,6 +584,138 @@ export class QuestionProviderRegistry {
   public validateAnswer(question: Question, answer: string): boolean {
     const provider = this._providers.get(question.subject);
     if (!provider) return false;
-    return provider.validateAnswer(question, answer);
+
+    switch (getQuestionFormat(question)) {
+      case 'true-false': {
+        // Compare canonical forms so "yes", "verdadero" and "True" all mean the same
+        const canonical = (value: string) => {
+          const typed = value.trim().toLowerCase();
+          return TRUE_FALSE_ALIASES[typed] || typed;
+        };
+        return provider.validateAnswer({ ...question, correctAnswer: canonical(question.correctAnswer) }, canonical(answer));
+      }
+      case 'multi-select': {
+        // Every pick must match a correct answer, and none may be left out
+        const picks = splitSelection(answer);
+        const correct = getCorrectChoices(question);
+        return picks.length === correct.length &&
+          correct.every(choice => picks.some(pick => this._matchesChoice(provider, question, pick, choice)));
+      }
+      case 'sequence':
+        return this.gradeAnswer(question, answer) === 1;
+      default:
+        return provider.validateAnswer(question, answer);
+    }
+  }
+
+  /**
+   * Get the next hint for a question from its provider (null if it has none left)
+   */
+  public getHint(question: Question, level: number): string | null {
+    return this._providers.get(question.subject)?.getHint?.(question, level) ?? null;
   }
+
+  /**
+   * Credit for an answer from 0 to 1. Sequences earn the share of steps
+   * placed correctly before the first mistake; every other format is all or nothing
+   */
+  public gradeAnswer(question: Question, answer: string): number {
+    if (getQuestionFormat(question) !== 'sequence') {
+      return this.validateAnswer(question, answer) ? 1 : 0;
+    }
+
+    const provider = this._providers.get(question.subject);
+    if (!provider) return 0;
+
+    const picks = splitSelection(answer);
+    const order = getCorrectChoices(question);
+    let prefix = 0;
+    while (prefix < order.length && prefix < picks.length &&
+      this._matchesChoice(provider, question, picks[prefix], order[prefix])) {
+      prefix++;
+    }
+
+    // Extra steps past the end spoil an otherwise complete order
+    return prefix / Math.max(order.length, picks.length);
+  }
+
+  /**
+   * Check one pick against one choice with the provider's own matching (fuzzy spelling etc.)
+   */
+  private _matchesChoice(provider: IQuestionProvider, question: Question, pick: string, choice: string): boolean {
+    return provider.validateAnswer({ ...question, format: 'multiple-choice', correctAnswer: choice }, pick);
+  }
+}
+
+// ============ Hint Helpers ============
+
+function firstLetterOf(answer: string): string {
+  return answer.trim().charAt(0).toUpperCase();
+}
+
+function getFirstLetterHint(answer: string): string {
+  return `It starts with "${firstLetterOf(answer)}"`;
+}
+
+/**
+ * Whether knowing the answer's first letter rules out at least one choice
+ */
+function firstLetterRulesOutChoice(question: Question): boolean {
+  const letter = firstLetterOf(question.correctAnswer);
+  return question.wrongAnswers.some(wrong => firstLetterOf(wrong) !== letter);
+}
+
+// ============ Format Helpers ============
+
+/**
+ * Build the fact key used to track a question across sessions.
+ * Generated questions with the same text map to the same fact; picture and
+ * spoken questions ("Which country does this flag belong to?", "Listen and
+ * spell the word") are told apart by their image or audio clip.
+ * Translated questions carry their English key as `factKey`.
+ */
+export function getQuestionFactKey(
+  question: Pick<Question, 'subject' | 'category' | 'questionText' | 'questionSubtext' | 'imageUri' | 'audioUri' | 'factKey'>
+): string {
+  if (question.factKey) return question.factKey;
+
+  const text = [question.questionText, question.questionSubtext || '']
+    .join(' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+  const media = [question.imageUri, question.audioUri].filter(Boolean).map(uri => `:${uri}`).join('');
+  return `${question.subject}:${question.category}:${text}${media}`;
+}
+
+export function getQuestionFormat(question: Question): QuestionFormat {
+  return question.format || 'multiple-choice';
+}
+
+/**
+ * The answers that count as correct picks (one, except for multi-select and sequence)
+ */
+export function getCorrectChoices(question: Question): string[] {
+  return question.correctAnswers || [question.correctAnswer];
+}
+
+/**
+ * Every answer block to show, correct ones first (callers shuffle)
+ */
+export function getAnswerChoices(question: Question): string[] {
+  return [...getCorrectChoices(question), ...question.wrongAnswers];
+}
+
+/**
+ * Join multi-select or sequence picks into a single answer string, as typed answers are written
+ */
+export function joinSelection(picks: string[]): string {
+  return picks.join(', ');
+}
+
+/**
+ * Split a typed or joined answer back into its picks
+ */
+export function splitSelection(answer: string): string[] {
+  return answer.split(SELECTION_SEPARATOR).map(pick => pick.trim()).filter(Boolean);
 }
@@ -0,0 +1,184 @@
+/**
+ * QuestionTranslator - Renders generated questions in another language
+ *
+ * Providers generate questions in English. A locale's catalog maps that text
+ * to translations in two ways:
+ * - phrases:   whole strings ("Germany" -> "Alemania"), used for answers and fixed questions
+ * - templates: sentences with {slot} placeholders ("What is the capital of {country}?"),
+ *              whose slot values are translated in turn
+ *
+ * Lists ("France, Germany, Italy") are translated item by item. Anything
+ * without an entry stays in English, and numbers are rewritten for the
+ * locale last (decimal comma in Spanish).
+ */
+
+import type { Locale } from '../i18n/Locale';
+import { localizeNumbers } from '../i18n/Locale';
+import type { Question } from './QuestionProvider';
+
+// ============ Types ============
+
+export interface QuestionTranslations {
+  phrases?: Record<string, string>;
+  templates?: Record<string, string>;
+}
+
+interface CompiledTemplate {
+  pattern: RegExp;
+  slots: string[];
+  target: string;
+  literalLength: number;
+}
+
+interface CompiledTranslations {
+  phrases: Map<string, string>;
+  lowerPhrases: Map<string, string>;  // For text lowercased mid-sentence ("the left pinky finger")
+  templates: CompiledTemplate[];      // Most specific (longest literal text) first
+}
+
+// ============ Constants ============
+
+// Multi-select answers and sequence explanations join their items with these
+const LIST_SEPARATORS = [', ', ' → '];
+
+const SLOT_PATTERN = /\{(\w+)\}/g;
+
+// Catalogs are compiled on first use
+const _compiled = new WeakMap<QuestionTranslations, CompiledTranslations>();
+
+// ============ Catalogs ============
+
+/**
+ * Combine catalogs into one; earlier ones win where they share an entry
+ */
+export function mergeTranslations(...catalogs: QuestionTranslations[]): QuestionTranslations {
+  const merged: Required<QuestionTranslations> = { phrases: {}, templates: {} };
+  for (const catalog of [...catalogs].reverse()) {
+    Object.assign(merged.phrases, catalog.phrases);
+    Object.assign(merged.templates, catalog.templates);
+  }
+  return merged;
+}
+
+function compile(translations: QuestionTranslations): CompiledTranslations {
+  const cached = _compiled.get(translations);
+  if (cached) return cached;
+
+  const phrases = new Map(Object.entries(translations.phrases || {}));
+  const lowerPhrases = new Map(Array.from(phrases, ([source, target]) => [source.toLowerCase(), target]));
+
+  const templates: CompiledTemplate[] = [];
+  for (const [source, target] of Object.entries(translations.templates || {})) {
+    const slots = Array.from(source.matchAll(SLOT_PATTERN), match => match[1]);
+    const literals = source.split(SLOT_PATTERN).filter((_, i) => i % 2 === 0);
+    const literalLength = literals.join('').length;
+    if (literalLength === 0) continue;  // A bare "{x}" would match everything
+
+    const pattern = new RegExp(`^${literals.map(escapeRegExp).join('(.+?)')}$`);
+    templates.push({ pattern, slots, target, literalLength });
+  }
+  templates.sort((a, b) => b.literalLength - a.literalLength);
+
+  const result = { phrases, lowerPhrases, templates };
+  _compiled.set(translations, result);
+  return result;
+}
+
+// ============ Translation ============
+
+/**
+ * Translate one piece of question text (unchanged where the catalog has no entry)
+ */
+export function translateText(text: string, locale: Locale, translations: QuestionTranslations): string {
+  return localizeNumbers(translateWith(text, compile(translations)), locale);
+}
+
+/**
+ * A copy of the question with its text, answers, hints and explanation translated
+ */
+export function translateQuestion(question: Question, locale: Locale, translations: QuestionTranslations): Question {
+  const text = (value: string) => translateText(value, locale, translations);
+
+  const localized: Question = {
+    ...question,
+    questionText: text(question.questionText),
+    questionSubtext: question.questionSubtext && text(question.questionSubtext),
+    correctAnswer: text(question.correctAnswer),
+    correctAnswers: question.correctAnswers?.map(text),
+    wrongAnswers: question.wrongAnswers.map(text),
+    explanation: question.explanation && text(question.explanation),
+    hints: question.hints?.map(text),
+    locale
+  };
+
+  // Both are keyed by answer text, so they follow the answers
+  if (question.misconceptions) {
+    localized.misconceptions = Object.fromEntries(
+      Object.entries(question.misconceptions).map(([answer, misconception]) =>
+        [text(answer), { ...misconception, label: text(misconception.label) }]
+      )
+    );
+  }
+  if (question.answerImages) {
+    localized.answerImages = Object.fromEntries(
+      Object.entries(question.answerImages).map(([answer, image]) => [text(answer), image])
+    );
+  }
+
+  return localized;
+}
+
+function translateWith(text: string, translations: CompiledTranslations): string {
+  if (!text.trim()) return text;
+
+  const phrase = lookupPhrase(text, translations);
+  if (phrase !== undefined) return phrase;
+
+  for (const template of translations.templates) {
+    const match = template.pattern.exec(text);
+    if (!match) continue;
+
+    const values: Record<string, string> = {};
+    template.slots.forEach((slot, i) => {
+      values[slot] = translateWith(match[i + 1], translations);
+    });
+    return matchCapitalization(text, template.target.replace(SLOT_PATTERN, (_, slot: string) => values[slot] ?? ''));
+  }
+
+  for (const separator of LIST_SEPARATORS) {
+    if (!text.includes(separator)) continue;
+    const items = text.split(separator);
+    const translated = items.map(item => translateWith(item, translations));
+    if (translated.some((item, i) => item !== items[i])) return translated.join(separator);
+  }
+
+  return text;
+}
+
+function lookupPhrase(text: string, translations: CompiledTranslations): string | undefined {
+  const exact = translations.phrases.get(text);
+  if (exact !== undefined) return exact;
+
+  const lower = translations.lowerPhrases.get(text.toLowerCase());
+  if (lower === undefined) return undefined;
+  // Lowercase source text stays lowercase ("flower" -> "flor", not "Flor")
+  return isCapitalized(text) ? lower : lower.charAt(0).toLowerCase() + lower.slice(1);
+}
+
+/**
+ * A sentence that started with a capital still does after a lowercase slot moved to the front
+ */
+function matchCapitalization(source: string, result: string): string {
+  if (!isCapitalized(source)) return result;
+  const first = result.search(/\p{L}/u);
+  return first < 0 ? result : result.slice(0, first) + result.charAt(first).toUpperCase() + result.slice(first + 1);
+}
+
+function isCapitalized(text: string): boolean {
+  const first = text.match(/\p{L}/u)?.[0];
+  return !!first && first !== first.toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
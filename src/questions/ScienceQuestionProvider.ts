@@ -7,10 +7,13 @@
  * - Physics (forces, energy, motion)
  * - Astronomy (planets, stars, space)
  * - Earth Science (weather, geology, environment)
+ * - Diagrams (name the labeled part, images in assets/ui/images/diagrams)
+ * - Processes (put the steps of a cycle or process in order)
  */
 
 import {
   BaseQuestionProvider,
+  joinSelection,
   Question,
   QuestionCategory,
   QuestionDifficulty,
@@ -25,8 +28,25 @@ interface ScienceQuestion {
   category: string;
   explanation?: string;
   difficulty: QuestionDifficulty;
+  imageUri?: string;
 }
 
+interface ScienceDiagram {
+  file: string;
+  subject: string;                 // "the plant", used in the question text
+  difficulty: QuestionDifficulty;
+  labels: Record<string, string>;  // Letter on the diagram -> part name
+}
+
+interface ScienceProcess {
+  name: string;                    // "the water cycle", used in the question text
+  difficulty: QuestionDifficulty;
+  steps: string[];                 // In order; shown on blocks, so keep them comma-free
+}
+
+// Share of uncategorized questions that are process sequences
+const PROCESS_CHANCE = 0.2;
+
 const SCIENCE_CATEGORIES: QuestionCategory[] = [
   {
     id: 'biology',
@@ -34,6 +54,7 @@ const SCIENCE_CATEGORIES: QuestionCategory[] = [
     description: 'Living things, animals, plants, and the human body',
     subject: 'science',
     gradeLevel: 3,
+    standards: ['NGSS.3-LS3-1', 'NGSS.4-LS1-1', 'NGSS.MS-LS1-1', 'NGSS.MS-LS1-3'],
     icon: '🧬'
   },
   {
@@ -42,6 +63,7 @@ const SCIENCE_CATEGORIES: QuestionCategory[] = [
     description: 'Elements, compounds, and chemical reactions',
     subject: 'science',
     gradeLevel: 5,
+    standards: ['NGSS.5-PS1-1', 'NGSS.MS-PS1-1', 'NGSS.MS-PS1-2'],
     icon: '⚗️'
   },
   {
@@ -50,6 +72,7 @@ const SCIENCE_CATEGORIES: QuestionCategory[] = [
     description: 'Forces, energy, motion, and how things work',
     subject: 'science',
     gradeLevel: 4,
+    standards: ['NGSS.3-PS2-1', 'NGSS.4-PS3-2', 'NGSS.MS-PS2-2'],
     icon: '⚡'
   },
   {
@@ -58,6 +81,7 @@ const SCIENCE_CATEGORIES: QuestionCategory[] = [
     description: 'Planets, stars, and the universe',
     subject: 'science',
     gradeLevel: 3,
+    standards: ['NGSS.1-ESS1-1', 'NGSS.5-ESS1-1', 'NGSS.MS-ESS1-2'],
     icon: '🌌'
   },
   {
@@ -66,10 +90,125 @@ const SCIENCE_CATEGORIES: QuestionCategory[] = [
     description: 'Weather, geology, and our planet',
     subject: 'science',
     gradeLevel: 3,
+    standards: ['NGSS.2-ESS2-2', 'NGSS.4-ESS2-1', 'NGSS.MS-ESS2-2'],
     icon: '🌍'
+  },
+  {
+    id: 'diagrams',
+    name: 'Diagrams',
+    description: 'Name the labeled parts of plants, cells and more',
+    subject: 'science',
+    gradeLevel: 3,
+    standards: ['NGSS.4-LS1-1', 'NGSS.MS-LS1-2'],
+    icon: '🔬'
+  },
+  {
+    id: 'processes',
+    name: 'Processes',
+    description: 'Put the steps of life cycles and natural processes in order',
+    subject: 'science',
+    gradeLevel: 3,
+    standards: ['NGSS.3-LS1-1', 'NGSS.MS-ESS2-4', 'NGSS.MS-LS1-6'],
+    icon: '🔄'
   }
 ];
 
+const DIAGRAM_IMAGE_PATH = 'ui/images/diagrams';
+
+const SCIENCE_DIAGRAMS: ScienceDiagram[] = [
+  {
+    file: 'plant.svg',
+    subject: 'the plant',
+    difficulty: 'beginner',
+    labels: { A: 'Flower', B: 'Leaf', C: 'Stem', D: 'Roots' }
+  },
+  {
+    file: 'earth-layers.svg',
+    subject: 'Earth',
+    difficulty: 'intermediate',
+    labels: { A: 'Crust', B: 'Mantle', C: 'Outer core', D: 'Inner core' }
+  },
+  {
+    file: 'water-cycle.svg',
+    subject: 'the water cycle',
+    difficulty: 'intermediate',
+    labels: { A: 'Evaporation', B: 'Condensation', C: 'Precipitation', D: 'Collection' }
+  },
+  {
+    file: 'animal-cell.svg',
+    subject: 'the animal cell',
+    difficulty: 'advanced',
+    labels: { A: 'Cell membrane', B: 'Nucleus', C: 'Cytoplasm', D: 'Mitochondrion' }
+  },
+  {
+    file: 'eye.svg',
+    subject: 'the eye',
+    difficulty: 'expert',
+    labels: { A: 'Cornea', B: 'Lens', C: 'Retina', D: 'Optic nerve' }
+  }
+];
+
+const SCIENCE_PROCESSES: ScienceProcess[] = [
+  {
+    name: 'a butterfly\'s life cycle',
+    difficulty: 'beginner',
+    steps: ['Egg', 'Caterpillar', 'Chrysalis', 'Butterfly']
+  },
+  {
+    name: 'a frog\'s life cycle',
+    difficulty: 'beginner',
+    steps: ['Egg', 'Tadpole', 'Froglet', 'Adult frog']
+  },
+  {
+    name: 'a plant growing',
+    difficulty: 'beginner',
+    steps: ['Seed', 'Sprout', 'Seedling', 'Flowering plant', 'Fruit']
+  },
+  {
+    name: 'the water cycle, starting from the sea',
+    difficulty: 'intermediate',
+    steps: ['Evaporation', 'Condensation', 'Precipitation', 'Collection']
+  },
+  {
+    name: 'the scientific method',
+    difficulty: 'intermediate',
+    steps: ['Ask a question', 'Make a hypothesis', 'Run an experiment', 'Analyze the data', 'Draw a conclusion']
+  },
+  {
+    name: 'food passing through the body',
+    difficulty: 'advanced',
+    steps: ['Mouth', 'Esophagus', 'Stomach', 'Small intestine', 'Large intestine']
+  },
+  {
+    name: 'the life of a star like the Sun',
+    difficulty: 'advanced',
+    steps: ['Nebula', 'Protostar', 'Main sequence star', 'Red giant', 'White dwarf']
+  },
+  {
+    name: 'mitosis',
+    difficulty: 'expert',
+    steps: ['Interphase', 'Prophase', 'Metaphase', 'Anaphase', 'Telophase']
+  },
+  {
+    name: 'blood flowing through the heart from the body',
+    difficulty: 'expert',
+    steps: ['Right atrium', 'Right ventricle', 'Lungs', 'Left atrium', 'Left ventricle']
+  }
+];
+
+// One question per label; the other labels on the same diagram are the wrong answers
+const DIAGRAM_QUESTIONS: ScienceQuestion[] = SCIENCE_DIAGRAMS.flatMap(diagram =>
+  Object.entries(diagram.labels).map(([letter, part]) => ({
+    question: `What part of ${diagram.subject} is labeled ${letter}?`,
+    answer: part,
+    wrongAnswers: Object.values(diagram.labels).filter(other => other !== part),
+    category: 'diagrams',
+    explanation: `Label ${letter} marks the ${part.toLowerCase()}`,
+    difficulty: diagram.difficulty,
+    imageUri: `${DIAGRAM_IMAGE_PATH}/${diagram.file}`
+  }))
+);
+
 // Science questions organized by category and difficulty
 const SCIENCE_QUESTIONS: ScienceQuestion[] = [
   // BIOLOGY - Beginner
@@ -177,6 +316,9 @@ const SCIENCE_QUESTIONS: ScienceQuestion[] = [
   { question: 'What is the study of weather called?', answer: 'Meteorology', wrongAnswers: ['Geology', 'Oceanography', 'Astronomy'], category: 'earth-science', difficulty: 'advanced' },
   { question: 'What type of plate boundary causes mountains?', answer: 'Convergent boundary', wrongAnswers: ['Divergent boundary', 'Transform boundary', 'Subduction zone'], category: 'earth-science', difficulty: 'advanced' },
   { question: 'What is Earth\'s inner core made of?', answer: 'Iron and nickel', wrongAnswers: ['Rock and magma', 'Water and ice', 'Gold and silver'], category: 'earth-science', difficulty: 'advanced' },
+
+  // DIAGRAMS - All difficulties
+  ...DIAGRAM_QUESTIONS,
 ];
 
 export class ScienceQuestionProvider extends BaseQuestionProvider {
@@ -189,6 +331,10 @@ export class ScienceQuestionProvider extends BaseQuestionProvider {
   };
 
   generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    if (category === 'processes' || (!category && this.random() < PROCESS_CHANCE)) {
+      return this._createProcessQuestion(difficulty);
+    }
+
     // Filter questions by difficulty and optionally by category
     let filtered = SCIENCE_QUESTIONS.filter(q => q.difficulty === difficulty);
 
@@ -196,7 +342,10 @@ export class ScienceQuestionProvider extends BaseQuestionProvider {
       filtered = filtered.filter(q => q.category === category);
     }
 
-    // If no questions match, fall back to all questions of that difficulty
+    // If no questions match, keep the chosen category at any difficulty, then drop it
+    if (filtered.length === 0 && category) {
+      filtered = SCIENCE_QUESTIONS.filter(q => q.category === category);
+    }
     if (filtered.length === 0) {
       filtered = SCIENCE_QUESTIONS.filter(q => q.difficulty === difficulty);
     }
@@ -216,11 +365,36 @@ export class ScienceQuestionProvider extends BaseQuestionProvider {
       questionText: scienceQ.question,
       correctAnswer: scienceQ.answer,
       wrongAnswers: [...scienceQ.wrongAnswers],
+      imageUri: scienceQ.imageUri,
       explanation: scienceQ.explanation || `The answer is ${scienceQ.answer}`,
       tags: ['science', scienceQ.category]
     };
   }
 
+  /**
+   * Sequence question: steps of one process, to be passed through in order
+   */
+  private _createProcessQuestion(difficulty: QuestionDifficulty): Question {
+    const matching = SCIENCE_PROCESSES.filter(p => p.difficulty === difficulty);
+    const process = this.randomPick(matching.length > 0 ? matching : SCIENCE_PROCESSES);
+    const order = this.randomPickInOrder(process.steps, this.getSequenceLength(difficulty));
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'processes',
+      difficulty,
+      questionText: `Put the steps in order: ${process.name}`,
+      format: 'sequence',
+      correctAnswer: joinSelection(order),
+      correctAnswers: order,
+      wrongAnswers: [],
+      explanation: order.join(' → '),
+      hints: [`It starts with ${order[0]}`, `${order[1]} comes second`],
+      tags: ['science', 'processes']
+    };
+  }
+
   getStats(): {
     totalQuestions: number;
     questionsPerCategory: Record<string, number>;
@@ -238,9 +412,13 @@ export class ScienceQuestionProvider extends BaseQuestionProvider {
       perCategory[q.category] = (perCategory[q.category] || 0) + 1;
       perDifficulty[q.difficulty]++;
     }
+    for (const p of SCIENCE_PROCESSES) {
+      perCategory.processes = (perCategory.processes || 0) + 1;
+      perDifficulty[p.difficulty]++;
+    }
 
     return {
-      totalQuestions: SCIENCE_QUESTIONS.length,
+      totalQuestions: SCIENCE_QUESTIONS.length + SCIENCE_PROCESSES.length,
       questionsPerCategory: perCategory,
       questionsPerDifficulty: perDifficulty
     };
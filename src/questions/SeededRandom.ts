@@ -0,0 +1,46 @@
+/**
+ * SeededRandom - Reproducible random numbers for question generation
+ *
+ * Providers draw from a RandomSource instead of calling Math.random() directly,
+ * so a tournament, daily challenge or bug report can replay the exact question
+ * sequence, distractors and answer ordering from a seed.
+ */
+
+/**
+ * Returns a float in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic generator (mulberry32) from a numeric or string seed
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fold a string seed into 32 bits (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a fresh seed for a session that wasn't given one (short enough to read out in a bug report)
+ */
+export function createRandomSeed(): string {
+  return Math.floor(Math.random() * 4294967296).toString(36);
+}
@@ -7,8 +7,15 @@
  * - Vocabulary definitions
  * - Synonyms/Antonyms
  * - Word completion
+ * - Listen and spell (audio-only prompt)
+ *
+ * Spoken words are read from assets/audio/words/<word>.mp3 (or .ogg/.wav) at startup.
+ * Spelling questions about a word with a clip carry it as audioUri; listen-and-spell
+ * only uses those words.
  */
 
+import { existsSync, readdirSync } from 'fs';
+import { extname, join, basename } from 'path';
 import {
   BaseQuestionProvider,
   Question,
@@ -34,6 +41,12 @@ const SPELLING_CATEGORIES: QuestionCategory[] = [
     description: 'Choose the correctly spelled word',
     subject: 'spelling',
     gradeLevel: 2,
+    standards: [
+      'CCSS.ELA-LITERACY.L.2.2.D',
+      'CCSS.ELA-LITERACY.L.3.2.F',
+      'CCSS.ELA-LITERACY.L.4.2.D',
+      'CCSS.ELA-LITERACY.L.5.2.E'
+    ],
     icon: '📝'
   },
   {
@@ -42,6 +55,7 @@ const SPELLING_CATEGORIES: QuestionCategory[] = [
     description: 'Fill in the missing letter',
     subject: 'spelling',
     gradeLevel: 1,
+    standards: ['CCSS.ELA-LITERACY.L.1.2.D', 'CCSS.ELA-LITERACY.L.2.2.D', 'CCSS.ELA-LITERACY.L.3.2.F'],
     icon: '🔤'
   },
   {
@@ -50,6 +64,7 @@ const SPELLING_CATEGORIES: QuestionCategory[] = [
     description: 'Match words to their meanings',
     subject: 'spelling',
     gradeLevel: 3,
+    standards: ['CCSS.ELA-LITERACY.L.3.4.D', 'CCSS.ELA-LITERACY.L.4.4.C', 'CCSS.ELA-LITERACY.L.5.4.C'],
     icon: '📖'
   },
   {
@@ -58,6 +73,7 @@ const SPELLING_CATEGORIES: QuestionCategory[] = [
     description: 'Find words with similar meanings',
     subject: 'spelling',
     gradeLevel: 4,
+    standards: ['CCSS.ELA-LITERACY.L.4.5.C', 'CCSS.ELA-LITERACY.L.5.5.C'],
     icon: '🔄'
   },
   {
@@ -66,10 +82,23 @@ const SPELLING_CATEGORIES: QuestionCategory[] = [
     description: 'Find words with opposite meanings',
     subject: 'spelling',
     gradeLevel: 4,
+    standards: ['CCSS.ELA-LITERACY.L.4.5.C', 'CCSS.ELA-LITERACY.L.5.5.C'],
     icon: '↔️'
+  },
+  {
+    id: 'listen-and-spell',
+    name: 'Listen & Spell',
+    description: 'Hear the word, then spell it',
+    subject: 'spelling',
+    gradeLevel: 1,
+    standards: ['CCSS.ELA-LITERACY.L.1.2.D', 'CCSS.ELA-LITERACY.L.2.2.D', 'CCSS.ELA-LITERACY.L.3.2.F'],
+    icon: '🔊'
   }
 ];
 
+const WORD_AUDIO_PATH = 'audio/words';  // Relative to assets/, as clients load it
+const WORD_AUDIO_EXTENSIONS = ['.mp3', '.ogg', '.wav'];
+
 // Word bank organized by grade level
 const WORD_BANK: Record<QuestionDifficulty, WordEntry[]> = {
   beginner: [
@@ -142,6 +171,8 @@ const WORD_BANK: Record<QuestionDifficulty, WordEntry[]> = {
   ]
 };
 
+const ALL_WORDS: WordEntry[] = Object.values(WORD_BANK).flat();
+
 // Common misspellings for generating wrong answers
 const COMMON_MISSPELLINGS: Record<string, string[]> = {
   'beautiful': ['beatiful', 'beutiful', 'beautifull'],
@@ -158,6 +189,31 @@ const COMMON_MISSPELLINGS: Record<string, string[]> = {
   'rhythm': ['rythm', 'rhythym', 'rythym'],
 };
 
+// Categories where the exact spelling is the skill being tested, so typos are never forgiven
+const EXACT_SPELLING_CATEGORIES = ['correct-spelling', 'missing-letter', 'listen-and-spell'];
+
+// Categories that play the word's clip along with the question
+const SPOKEN_WORD_CATEGORIES = ['correct-spelling', 'missing-letter', 'listen-and-spell'];
+
+const VOWELS = 'aeiou';
+
+/**
+ * Map each recorded word to its asset URI; a missing folder just means no clips
+ */
+function loadWordAudio(directory: string = join('assets', WORD_AUDIO_PATH)): Map<string, string> {
+  const clips = new Map<string, string>();
+  if (!existsSync(directory)) return clips;
+
+  for (const file of readdirSync(directory)) {
+    const extension = extname(file).toLowerCase();
+    if (!WORD_AUDIO_EXTENSIONS.includes(extension)) continue;
+    clips.set(basename(file, extname(file)).toLowerCase(), `${WORD_AUDIO_PATH}/${file}`);
+  }
+
+  console.log(`[SpellingQuestionProvider] Loaded ${clips.size} word audio clips`);
+  return clips;
+}
+
 export class SpellingQuestionProvider extends BaseQuestionProvider {
   readonly subject: SubjectType = 'spelling';
   readonly config: QuestionProviderConfig = {
@@ -167,9 +223,26 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
     defaultDifficulty: 'intermediate'
   };
 
+  private _wordAudio: Map<string, string> = loadWordAudio();
+
+  /**
+   * Listen & Spell is only offered once some word has been recorded
+   */
+  getCategories(): QuestionCategory[] {
+    const hasRecordings = ALL_WORDS.some(w => this._wordAudio.has(w.word));
+    return hasRecordings
+      ? this.config.categories
+      : this.config.categories.filter(c => c.id !== 'listen-and-spell');
+  }
+
   generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    // A chosen synonym/antonym category needs a word that has some; keep the category at any difficulty
     const words = WORD_BANK[difficulty];
-    const wordEntry = this.randomPick(words);
+    const hasRelated = (w: WordEntry) => category === 'synonyms' ? !!w.synonyms?.length
+      : category === 'antonyms' ? !!w.antonyms?.length
+      : true;
+    const usable = words.filter(hasRelated);
+    const wordEntry = this.randomPick(usable.length > 0 ? usable : ALL_WORDS.filter(hasRelated));
 
     // Choose question type based on category
     const questionType = category || this.randomPick([
@@ -177,9 +250,20 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       'missing-letter',
       'definitions',
       'synonyms',
-      'antonyms'
+      'antonyms',
+      ...(this._wordAudio.has(wordEntry.word) ? ['listen-and-spell'] : [])
     ]);
 
+    const question = this._createQuestion(questionType, wordEntry, difficulty);
+    if (SPOKEN_WORD_CATEGORIES.includes(question.category)) {
+      // Missing-letter answers are a single letter; listen-and-spell may have picked its own recorded word
+      const word = question.category === 'missing-letter' ? wordEntry.word : question.correctAnswer;
+      question.audioUri = this._wordAudio.get(word);
+    }
+    return question;
+  }
+
+  private _createQuestion(questionType: string, wordEntry: WordEntry, difficulty: QuestionDifficulty): Question {
     switch (questionType) {
       case 'correct-spelling':
         return this._createSpellingQuestion(wordEntry, difficulty);
@@ -191,6 +275,8 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
         return this._createSynonymQuestion(wordEntry, difficulty);
       case 'antonyms':
         return this._createAntonymQuestion(wordEntry, difficulty);
+      case 'listen-and-spell':
+        return this._createListenAndSpellQuestion(difficulty) || this._createSpellingQuestion(wordEntry, difficulty);
       default:
         return this._createSpellingQuestion(wordEntry, difficulty);
     }
@@ -198,7 +284,15 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
 
   validateAnswer(question: Question, answer: string): boolean {
     // Case-insensitive comparison
-    return answer.toLowerCase().trim() === question.correctAnswer.toLowerCase().trim();
+    const typed = this.normalizeAnswer(answer);
+    const correct = this.normalizeAnswer(question.correctAnswer);
+    if (typed === correct) return true;
+    if (EXACT_SPELLING_CATEGORIES.includes(question.category)) return false;
+
+    // Forgive small typos in typed answers, unless the answer is closer to a wrong choice
+    const distance = this.levenshteinDistance(typed, correct);
+    return distance <= this._getTypoAllowance(correct) &&
+      question.wrongAnswers.every(w => this.levenshteinDistance(typed, this.normalizeAnswer(w)) > distance);
   }
 
   getStats(): {
@@ -215,7 +309,8 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
         'missing-letter': total,
         'definitions': total,
         'synonyms': Math.floor(total * 0.6),
-        'antonyms': Math.floor(total * 0.4)
+        'antonyms': Math.floor(total * 0.4),
+        'listen-and-spell': ALL_WORDS.filter(w => this._wordAudio.has(w.word)).length
       },
       questionsPerDifficulty: {
         beginner: WORD_BANK.beginner.length * 5,
@@ -239,13 +334,38 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       correctAnswer: entry.word,
       wrongAnswers: wrongSpellings,
       explanation: `The correct spelling is "${entry.word}"`,
+      hints: this._getWordHints(entry.word),
       tags: ['spelling', entry.partOfSpeech]
     };
   }
 
+  /**
+   * Audio-only prompt, from another difficulty's recordings when none at this one; null when no word has been recorded
+   */
+  private _createListenAndSpellQuestion(difficulty: QuestionDifficulty): Question | null {
+    const recorded = WORD_BANK[difficulty].filter(w => this._wordAudio.has(w.word));
+    const pool = recorded.length > 0 ? recorded : ALL_WORDS.filter(w => this._wordAudio.has(w.word));
+    if (pool.length === 0) return null;
+
+    const entry = this.randomPick(pool);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'listen-and-spell',
+      difficulty,
+      questionText: 'Listen and spell the word',
+      correctAnswer: entry.word,
+      wrongAnswers: this._generateWrongSpellings(entry.word),
+      explanation: `The word was "${entry.word}": ${entry.definition.toLowerCase()}`,
+      hints: this._getWordHints(entry.word),
+      tags: ['spelling', 'listen-and-spell', entry.partOfSpeech]
+    };
+  }
+
   private _createMissingLetterQuestion(entry: WordEntry, difficulty: QuestionDifficulty): Question {
     const word = entry.word;
-    const letterIndex = Math.floor(Math.random() * word.length);
+    const letterIndex = Math.floor(this.random() * word.length);
     const missingLetter = word[letterIndex];
     const wordWithBlank = word.substring(0, letterIndex) + '_' + word.substring(letterIndex + 1);
 
@@ -262,6 +382,10 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       correctAnswer: missingLetter,
       wrongAnswers: wrongLetters,
       explanation: `The complete word is "${word}"`,
+      hints: [
+        `The missing letter is a ${VOWELS.includes(missingLetter.toLowerCase()) ? 'vowel' : 'consonant'}`,
+        `It comes ${missingLetter.toLowerCase() < 'n' ? 'before N' : 'after M'} in the alphabet`
+      ],
       tags: ['spelling', 'missing-letter']
     };
   }
@@ -270,7 +394,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
     // Get other words for wrong answers
     const words = WORD_BANK[difficulty];
     const otherWords = words.filter(w => w.word !== entry.word);
-    const wrongWords = this.randomPickN(otherWords, 3).map(w => w.word);
+    const wrongWords = this.randomPickN(otherWords, this.getWrongAnswerCount(difficulty)).map(w => w.word);
 
     return {
       id: this.generateId(),
@@ -281,6 +405,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       correctAnswer: entry.word,
       wrongAnswers: wrongWords,
       explanation: `"${entry.word}" means ${entry.definition}`,
+      hints: this._getWordHints(entry.word),
       tags: ['vocabulary', 'definitions', entry.partOfSpeech]
     };
   }
@@ -310,6 +435,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       correctAnswer: correctSynonym,
       wrongAnswers: wrongAnswers,
       explanation: `"${correctSynonym}" means the same as "${entry.word}"`,
+      hints: this._getWordHints(correctSynonym),
       tags: ['vocabulary', 'synonyms']
     };
   }
@@ -339,7 +465,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       .map(w => w.word);
 
     while (wrongWords.length < 3 && additionalWrong.length > 0) {
-      const idx = Math.floor(Math.random() * additionalWrong.length);
+      const idx = Math.floor(this.random() * additionalWrong.length);
       wrongWords.push(additionalWrong.splice(idx, 1)[0]);
     }
 
@@ -353,10 +479,28 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
       correctAnswer: correctAntonym,
       wrongAnswers: wrongWords.slice(0, 3),
       explanation: `"${correctAntonym}" is the opposite of "${entry.word}"`,
+      hints: this._getWordHints(correctAntonym),
       tags: ['vocabulary', 'antonyms']
     };
   }
 
+  /**
+   * First letter, then length, then the first half of the word
+   */
+  private _getWordHints(word: string): string[] {
+    return [
+      this.firstLetterHint(word),
+      `It has ${word.length} letters`,
+      `It starts with "${word.slice(0, Math.ceil(word.length / 2))}"`
+    ];
+  }
+
+  private _getTypoAllowance(word: string): number {
+    if (word.length >= 9) return 2;
+    if (word.length >= 5) return 1;
+    return 0;
+  }
+
   private _generateWrongSpellings(word: string): string[] {
     // Check if we have pre-defined misspellings
     if (COMMON_MISSPELLINGS[word]) {
@@ -369,7 +513,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
 
     // Swap two adjacent letters
     if (letters.length > 2) {
-      const idx = Math.floor(Math.random() * (letters.length - 1));
+      const idx = Math.floor(this.random() * (letters.length - 1));
       const swapped = [...letters];
       [swapped[idx], swapped[idx + 1]] = [swapped[idx + 1], swapped[idx]];
       wrong.push(swapped.join(''));
@@ -377,7 +521,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
 
     // Double a letter
     if (letters.length > 2) {
-      const idx = Math.floor(Math.random() * letters.length);
+      const idx = Math.floor(this.random() * letters.length);
       const doubled = [...letters];
       doubled.splice(idx, 0, letters[idx]);
       wrong.push(doubled.join(''));
@@ -385,7 +529,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
 
     // Remove a letter
     if (letters.length > 3) {
-      const idx = Math.floor(Math.random() * letters.length);
+      const idx = Math.floor(this.random() * letters.length);
       const removed = letters.filter((_, i) => i !== idx);
       wrong.push(removed.join(''));
     }
@@ -406,8 +550,8 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
     const unique = [...new Set(wrong)].filter(w => w !== word);
     while (unique.length < 3) {
       // Add a random character somewhere
-      const idx = Math.floor(Math.random() * word.length);
-      const char = String.fromCharCode(97 + Math.floor(Math.random() * 26));
+      const idx = Math.floor(this.random() * word.length);
+      const char = String.fromCharCode(97 + Math.floor(this.random() * 26));
       const modified = word.slice(0, idx) + char + word.slice(idx);
       if (!unique.includes(modified) && modified !== word) {
         unique.push(modified);
@@ -444,7 +588,7 @@ export class SpellingQuestionProvider extends BaseQuestionProvider {
 
     // Add random letters to fill
     while (wrong.length < 3) {
-      const randomLetter = alphabet[Math.floor(Math.random() * 26)];
+      const randomLetter = alphabet[Math.floor(this.random() * 26)];
       if (randomLetter !== lowerCorrect && !wrong.includes(randomLetter)) {
         wrong.push(randomLetter);
       }
@@ -0,0 +1,153 @@
+/**
+ * Standards - Grade bands and curriculum standard codes for question content
+ *
+ * Every category declares the grade its beginner questions suit (`gradeLevel`)
+ * and the curriculum standards it practices (`standards`). The registry stamps
+ * both onto generated questions: `question.gradeLevel` moves up a grade per
+ * difficulty step, and the standard codes are added to `question.tags`.
+ *
+ * Codes are prefixed with their framework so they can be told apart from
+ * other tags: Common Core (CCSS.MATH.CONTENT.3.OA.C.7, CCSS.ELA-LITERACY.L.4.5.C),
+ * Next Generation Science Standards (NGSS.MS-LS1-6) and the C3 social studies
+ * framework (C3.D2.His.1.3-5).
+ */
+
+import type { Question, QuestionCategory, QuestionDifficulty } from './QuestionProvider';
+
+// ============ Types ============
+
+/**
+ * Keeps questions to a player's or class's grade band and/or one standard
+ */
+export interface ContentFilter {
+  gradeLevel?: number;  // K=0, 1-12
+  standard?: string;    // A standard code, or a prefix of one (e.g. "CCSS.MATH.CONTENT.3")
+}
+
+// ============ Constants ============
+
+export const MIN_GRADE_LEVEL = 0;  // Kindergarten
+export const MAX_GRADE_LEVEL = 12;
+export const STANDARD_FRAMEWORKS = ['CCSS', 'NGSS', 'C3'];
+
+// A grade's band reaches two grades back (review) and one ahead (stretch)
+const GRADE_BAND_BELOW = 2;
+const GRADE_BAND_ABOVE = 1;
+
+// Grades above the category's gradeLevel for each difficulty
+const DIFFICULTY_GRADE_OFFSETS: Record<QuestionDifficulty, number> = {
+  beginner: 0,
+  intermediate: 1,
+  advanced: 2,
+  expert: 3
+};
+
+// ============ Grades ============
+
+/**
+ * Grade of a question from its category's entry grade and its difficulty
+ */
+export function getGradeForDifficulty(categoryGrade: number, difficulty: QuestionDifficulty): number {
+  return Math.min(MAX_GRADE_LEVEL, categoryGrade + DIFFICULTY_GRADE_OFFSETS[difficulty]);
+}
+
+/**
+ * Whether content for `gradeLevel` suits a player in `grade` (content without a grade always does)
+ */
+export function isInGradeBand(gradeLevel: number | undefined, grade: number): boolean {
+  if (gradeLevel === undefined) return true;
+  return gradeLevel >= grade - GRADE_BAND_BELOW && gradeLevel <= grade + GRADE_BAND_ABOVE;
+}
+
+/**
+ * Read a grade setting from untrusted input: 0 (K) to 12, anything else is no grade
+ */
+export function parseGradeLevel(value: unknown): number | undefined {
+  const grade = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof grade === 'number' && Number.isInteger(grade) && grade >= MIN_GRADE_LEVEL && grade <= MAX_GRADE_LEVEL
+    ? grade
+    : undefined;
+}
+
+/**
+ * "K" for kindergarten, otherwise the grade number
+ */
+export function formatGradeLevel(grade: number): string {
+  return grade === MIN_GRADE_LEVEL ? 'K' : `${grade}`;
+}
+
+// ============ Standards ============
+
+/**
+ * Whether a tag is a curriculum standard code rather than a topic tag
+ */
+export function isStandardTag(tag: string): boolean {
+  return STANDARD_FRAMEWORKS.some(framework => tag.startsWith(`${framework}.`));
+}
+
+/**
+ * Standard codes a question is tagged with
+ */
+export function getStandardTags(question: Pick<Question, 'tags'>): string[] {
+  return (question.tags || []).filter(isStandardTag);
+}
+
+/**
+ * Whether a code is the filter's standard or falls under it, matching whole dot-separated segments
+ * (`C3.D2.His.1` covers `C3.D2.His.1.3-5` but not `C3.D2.His.14.3-5`)
+ */
+export function matchesStandard(code: string, standard: string): boolean {
+  const prefix = standard.replace(/\.+$/, '');
+  return code === prefix || code.startsWith(`${prefix}.`);
+}
+
+/**
+ * Add a category's grade and standards to a question generated from it
+ */
+export function applyCategoryStandards(question: Question, category: QuestionCategory): void {
+  if (question.gradeLevel === undefined && category.gradeLevel !== undefined) {
+    question.gradeLevel = getGradeForDifficulty(category.gradeLevel, question.difficulty);
+  }
+
+  const missing = (category.standards || []).filter(code => !question.tags?.includes(code));
+  if (missing.length > 0) {
+    question.tags = [...(question.tags || []), ...missing];
+  }
+}
+
+// ============ Filtering ============
+
+/**
+ * Whether a filter actually narrows anything
+ */
+export function hasContentFilter(filter: ContentFilter | undefined): filter is ContentFilter {
+  return !!filter && (filter.gradeLevel !== undefined || !!filter.standard);
+}
+
+/**
+ * Whether some of a category's questions can pass the filter
+ */
+export function categoryMatchesFilter(category: QuestionCategory, filter: ContentFilter): boolean {
+  if (filter.gradeLevel !== undefined && category.gradeLevel !== undefined) {
+    // Its questions run from the entry grade to the expert grade
+    const highest = getGradeForDifficulty(category.gradeLevel, 'expert');
+    if (highest < filter.gradeLevel - GRADE_BAND_BELOW || category.gradeLevel > filter.gradeLevel + GRADE_BAND_ABOVE) {
+      return false;
+    }
+  }
+
+  const standard = filter.standard;
+  return !standard || (category.standards || []).some(code => matchesStandard(code, standard));
+}
+
+/**
+ * Whether a generated question passes the filter
+ */
+export function questionMatchesFilter(question: Pick<Question, 'gradeLevel' | 'tags'>, filter: ContentFilter): boolean {
+  if (filter.gradeLevel !== undefined && !isInGradeBand(question.gradeLevel, filter.gradeLevel)) {
+    return false;
+  }
+
+  const standard = filter.standard;
+  return !standard || getStandardTags(question).some(code => matchesStandard(code, standard));
+}
@@ -0,0 +1,359 @@
+/**
+ * TypingQuestionProvider - Keyboarding and typing accuracy questions
+ *
+ * Question Types:
+ * - Finger placement (which finger types a key)
+ * - Key locations (find keys on a QWERTY keyboard)
+ * - Exact copy (spot the correctly typed text among typos)
+ * - Shortcuts (common keyboard shortcuts)
+ */
+
+import { BaseQuestionProvider } from './QuestionProvider';
+import type {
+  Question,
+  QuestionCategory,
+  QuestionDifficulty,
+  QuestionProviderConfig,
+  SubjectType
+} from './QuestionProvider';
+import type { Locale } from '../i18n/Locale';
+
+interface ShortcutEntry {
+  keys: string;
+  action: string;
+  wrongAnswers: string[];
+}
+
+const TYPING_CATEGORIES: QuestionCategory[] = [
+  {
+    id: 'finger-placement',
+    name: 'Finger Placement',
+    description: 'Which finger types each key',
+    subject: 'typing',
+    gradeLevel: 2,
+    standards: ['CCSS.ELA-LITERACY.W.3.6', 'CCSS.ELA-LITERACY.W.4.6'],
+    icon: '🖐️'
+  },
+  {
+    id: 'key-locations',
+    name: 'Key Locations',
+    description: 'Find keys without looking',
+    subject: 'typing',
+    gradeLevel: 2,
+    standards: ['CCSS.ELA-LITERACY.W.3.6', 'CCSS.ELA-LITERACY.W.4.6'],
+    icon: '⌨️'
+  },
+  {
+    id: 'exact-copy',
+    name: 'Exact Copy',
+    description: 'Spot the text typed with no mistakes',
+    subject: 'typing',
+    gradeLevel: 3,
+    standards: ['CCSS.ELA-LITERACY.W.4.6', 'CCSS.ELA-LITERACY.W.5.6', 'CCSS.ELA-LITERACY.W.6.6'],
+    icon: '🎯'
+  },
+  {
+    id: 'shortcuts',
+    name: 'Shortcuts',
+    description: 'Common keyboard shortcuts',
+    subject: 'typing',
+    gradeLevel: 4,
+    standards: ['CCSS.ELA-LITERACY.W.5.6', 'CCSS.ELA-LITERACY.W.6.6'],
+    icon: '⚡'
+  }
+];
+
+// QWERTY letter rows, top to bottom
+const TOP_ROW = 'qwertyuiop';
+const HOME_ROW = 'asdfghjkl';
+const BOTTOM_ROW = 'zxcvbnm';
+
+// Touch-typing finger for each letter
+const FINGER_FOR_KEY: Record<string, string> = {
+  q: 'Left pinky', a: 'Left pinky', z: 'Left pinky',
+  w: 'Left ring', s: 'Left ring', x: 'Left ring',
+  e: 'Left middle', d: 'Left middle', c: 'Left middle',
+  r: 'Left index', f: 'Left index', v: 'Left index',
+  t: 'Left index', g: 'Left index', b: 'Left index',
+  y: 'Right index', h: 'Right index', n: 'Right index',
+  u: 'Right index', j: 'Right index', m: 'Right index',
+  i: 'Right middle', k: 'Right middle',
+  o: 'Right ring', l: 'Right ring',
+  p: 'Right pinky'
+};
+
+const FINGERS = [
+  'Left pinky', 'Left ring', 'Left middle', 'Left index',
+  'Right index', 'Right middle', 'Right ring', 'Right pinky'
+];
+
+// Rows drilled at each difficulty
+const ROWS_BY_DIFFICULTY: Record<QuestionDifficulty, string[]> = {
+  beginner: [HOME_ROW],
+  intermediate: [HOME_ROW, TOP_ROW],
+  advanced: [TOP_ROW, BOTTOM_ROW],
+  expert: [TOP_ROW, HOME_ROW, BOTTOM_ROW]
+};
+
+const COPY_TEXTS: Record<QuestionDifficulty, string[]> = {
+  beginner: ['cat', 'jump', 'fish', 'green', 'house', 'plant', 'river', 'smile'],
+  intermediate: ['keyboard', 'practice', 'journey', 'whistle', 'quickly', 'thunder', 'balance', 'library'],
+  advanced: ['Hello World', 'Type Faster', 'Good Morning', 'Blue Whale', 'New York City', 'Rocket Ship'],
+  expert: ['Ready? Set, go!', "It's 4:30 pm.", 'Zip code 90210', 'Wait... what?!', 'Page 12 of 48', "Don't stop now!"]
+};
+
+const SHORTCUTS: Record<QuestionDifficulty, ShortcutEntry[]> = {
+  beginner: [
+    { keys: 'Ctrl + C', action: 'Copy', wrongAnswers: ['Cut', 'Close', 'Paste'] },
+    { keys: 'Ctrl + V', action: 'Paste', wrongAnswers: ['Copy', 'View', 'Save'] },
+    { keys: 'Ctrl + Z', action: 'Undo', wrongAnswers: ['Redo', 'Zoom', 'Delete'] },
+    { keys: 'Ctrl + S', action: 'Save', wrongAnswers: ['Search', 'Select all', 'Send'] }
+  ],
+  intermediate: [
+    { keys: 'Ctrl + X', action: 'Cut', wrongAnswers: ['Close', 'Copy', 'Exit'] },
+    { keys: 'Ctrl + A', action: 'Select all', wrongAnswers: ['Add', 'Align', 'Save as'] },
+    { keys: 'Ctrl + P', action: 'Print', wrongAnswers: ['Paste', 'Preview', 'Pause'] },
+    { keys: 'Ctrl + F', action: 'Find', wrongAnswers: ['Format', 'Forward', 'File'] }
+  ],
+  advanced: [
+    { keys: 'Ctrl + Y', action: 'Redo', wrongAnswers: ['Undo', 'Yes', 'Copy'] },
+    { keys: 'Ctrl + B', action: 'Bold', wrongAnswers: ['Back', 'Bullet list', 'Border'] },
+    { keys: 'Ctrl + T', action: 'New tab', wrongAnswers: ['Type', 'Text size', 'Close tab'] },
+    { keys: 'Alt + Tab', action: 'Switch windows', wrongAnswers: ['Indent text', 'New tab', 'Close window'] }
+  ],
+  expert: [
+    { keys: 'Ctrl + Shift + T', action: 'Reopen closed tab', wrongAnswers: ['New tab', 'Close all tabs', 'Open settings'] },
+    { keys: 'Ctrl + Home', action: 'Go to top', wrongAnswers: ['Go home page', 'Select line', 'Go to end'] },
+    { keys: 'Ctrl + Backspace', action: 'Delete word', wrongAnswers: ['Delete line', 'Go back', 'Undo'] },
+    { keys: 'Shift + End', action: 'Select to line end', wrongAnswers: ['Go to end', 'Close file', 'Select all'] }
+  ]
+};
+
+// Neighbouring keys, used for realistic "fat finger" typos
+const ADJACENT_KEYS: Record<string, string> = {
+  q: 'wa', w: 'qes', e: 'wrd', r: 'etf', t: 'ryg', y: 'tuh', u: 'yij', i: 'uok', o: 'ipl', p: 'ol',
+  a: 'qsz', s: 'awdx', d: 'sefc', f: 'drgv', g: 'fthb', h: 'gyjn', j: 'hukm', k: 'jil', l: 'kop',
+  z: 'asx', x: 'zsc', c: 'xdv', v: 'cfb', b: 'vgn', n: 'bhm', m: 'nj'
+};
+
+const TYPO_ATTEMPTS = 50;
+
+export class TypingQuestionProvider extends BaseQuestionProvider {
+  readonly subject: SubjectType = 'typing';
+  readonly config: QuestionProviderConfig = {
+    subject: 'typing',
+    categories: TYPING_CATEGORIES,
+    supportedDifficulties: ['beginner', 'intermediate', 'advanced', 'expert'],
+    defaultDifficulty: 'intermediate'
+  };
+
+  generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    const questionType = category || this.randomPick(TYPING_CATEGORIES.map(c => c.id));
+
+    switch (questionType) {
+      case 'finger-placement':
+        return this._createFingerQuestion(difficulty);
+      case 'key-locations':
+        return this._createKeyLocationQuestion(difficulty);
+      case 'exact-copy':
+        return this._createExactCopyQuestion(difficulty);
+      case 'shortcuts':
+        return this._createShortcutQuestion(difficulty);
+      default:
+        return this._createExactCopyQuestion(difficulty);
+    }
+  }
+
+  validateAnswer(question: Question, answer: string): boolean {
+    // Capitalization and punctuation are what exact-copy questions test
+    if (question.category === 'exact-copy') {
+      return answer === question.correctAnswer;
+    }
+    return super.validateAnswer(question, answer);
+  }
+
+  localizeQuestion(question: Question, locale: Locale): Question {
+    const localized = super.localizeQuestion(question, locale);
+    if (question.category !== 'exact-copy') return localized;
+
+    // The text to copy is the question itself, so it stays exactly as written
+    return {
+      ...localized,
+      questionSubtext: question.questionSubtext,
+      correctAnswer: question.correctAnswer,
+      wrongAnswers: [...question.wrongAnswers]
+    };
+  }
+
+  getStats(): {
+    totalQuestions: number;
+    questionsPerCategory: Record<string, number>;
+    questionsPerDifficulty: Record<QuestionDifficulty, number>;
+  } {
+    const perCategory: Record<string, number> = {};
+    const perDifficulty: Record<QuestionDifficulty, number> = {
+      beginner: 0,
+      intermediate: 0,
+      advanced: 0,
+      expert: 0
+    };
+
+    for (const difficulty of Object.keys(perDifficulty) as QuestionDifficulty[]) {
+      const keys = ROWS_BY_DIFFICULTY[difficulty].join('').length;
+      const counts: Record<string, number> = {
+        'finger-placement': keys,
+        'key-locations': keys,
+        'exact-copy': COPY_TEXTS[difficulty].length,
+        'shortcuts': SHORTCUTS[difficulty].length
+      };
+
+      for (const [categoryId, count] of Object.entries(counts)) {
+        perCategory[categoryId] = (perCategory[categoryId] || 0) + count;
+        perDifficulty[difficulty] += count;
+      }
+    }
+
+    return {
+      totalQuestions: Object.values(perDifficulty).reduce((sum, count) => sum + count, 0),
+      questionsPerCategory: perCategory,
+      questionsPerDifficulty: perDifficulty
+    };
+  }
+
+  private _createFingerQuestion(difficulty: QuestionDifficulty): Question {
+    const row = this.randomPick(ROWS_BY_DIFFICULTY[difficulty]);
+    const key = this.randomPick(row.split(''));
+    const finger = FINGER_FOR_KEY[key];
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'finger-placement',
+      difficulty,
+      questionText: `Which finger types the ${key.toUpperCase()} key?`,
+      questionSubtext: '(Touch typing, hands on the home row)',
+      correctAnswer: finger,
+      wrongAnswers: this.randomPickN(FINGERS.filter(f => f !== finger), 3),
+      explanation: `${key.toUpperCase()} is typed with the ${finger.toLowerCase()} finger`,
+      tags: ['typing', 'finger-placement']
+    };
+  }
+
+  private _createKeyLocationQuestion(difficulty: QuestionDifficulty): Question {
+    const row = this.randomPick(ROWS_BY_DIFFICULTY[difficulty]);
+    let questionText: string;
+    let answer: string;
+
+    // Harder levels reach between rows from the home row
+    if (difficulty !== 'beginner' && row !== HOME_ROW && this.random() < 0.5) {
+      const targetRow = row === TOP_ROW ? TOP_ROW : BOTTOM_ROW;
+      const index = Math.floor(this.random() * Math.min(HOME_ROW.length, targetRow.length));
+      const homeKey = HOME_ROW[index];
+      answer = targetRow[index];
+      questionText = `Which key is just ${targetRow === TOP_ROW ? 'above' : 'below'} ${homeKey.toUpperCase()}?`;
+    } else {
+      const index = 1 + Math.floor(this.random() * (row.length - 2));
+      answer = row[index];
+      questionText = `Which key is between ${row[index - 1].toUpperCase()} and ${row[index + 1].toUpperCase()}?`;
+    }
+
+    // Nearby keys make the hardest wrong answers
+    const neighbours = (ADJACENT_KEYS[answer] || '').split('');
+    const others = (TOP_ROW + HOME_ROW + BOTTOM_ROW)
+      .split('')
+      .filter(k => k !== answer && !neighbours.includes(k));
+    const wrongKeys = [...this.randomPickN(neighbours, 2), ...this.randomPickN(others, 3)].slice(0, 3);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'key-locations',
+      difficulty,
+      questionText,
+      questionSubtext: '(QWERTY keyboard)',
+      correctAnswer: answer.toUpperCase(),
+      wrongAnswers: wrongKeys.map(k => k.toUpperCase()),
+      explanation: `The answer is ${answer.toUpperCase()}`,
+      tags: ['typing', 'key-locations']
+    };
+  }
+
+  private _createExactCopyQuestion(difficulty: QuestionDifficulty): Question {
+    const text = this.randomPick(COPY_TEXTS[difficulty]);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'exact-copy',
+      difficulty,
+      questionText: 'Which one matches exactly?',
+      questionSubtext: text,
+      correctAnswer: text,
+      wrongAnswers: this._generateTypos(text, 3),
+      explanation: `It should be typed exactly as "${text}"`,
+      hints: ['Compare each choice letter by letter, including capitals'],
+      tags: ['typing', 'exact-copy']
+    };
+  }
+
+  private _createShortcutQuestion(difficulty: QuestionDifficulty): Question {
+    const entry = this.randomPick(SHORTCUTS[difficulty]);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'shortcuts',
+      difficulty,
+      questionText: `What does ${entry.keys} do?`,
+      questionSubtext: '(Windows / Chromebook)',
+      correctAnswer: entry.action,
+      wrongAnswers: [...entry.wrongAnswers],
+      explanation: `${entry.keys} is the shortcut for ${entry.action.toLowerCase()}`,
+      tags: ['typing', 'shortcuts']
+    };
+  }
+
+  /**
+   * Make distinct, realistic typos: swapped, dropped, doubled or neighbouring keys, and wrong case
+   */
+  private _generateTypos(text: string, count: number): string[] {
+    const typos = new Set<string>();
+
+    for (let attempt = 0; attempt < TYPO_ATTEMPTS && typos.size < count; attempt++) {
+      const i = Math.floor(this.random() * text.length);
+      const char = text[i];
+      let typo: string;
+
+      switch (Math.floor(this.random() * 5)) {
+        case 0: // Swap with the next character
+          if (i >= text.length - 1) continue;
+          typo = text.slice(0, i) + text[i + 1] + char + text.slice(i + 2);
+          break;
+        case 1: // Drop a character
+          typo = text.slice(0, i) + text.slice(i + 1);
+          break;
+        case 2: // Double a character
+          typo = text.slice(0, i) + char + text.slice(i);
+          break;
+        case 3: { // Hit a neighbouring key
+          const neighbours = ADJACENT_KEYS[char.toLowerCase()];
+          if (!neighbours) continue;
+          typo = text.slice(0, i) + this.randomPick(neighbours.split('')) + text.slice(i + 1);
+          break;
+        }
+        default: { // Wrong case
+          const flipped = char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase();
+          if (flipped === char) continue;
+          typo = text.slice(0, i) + flipped + text.slice(i + 1);
+          break;
+        }
+      }
+
+      if (typo !== text && typo.trim().length > 0) {
+        typos.add(typo);
+      }
+    }
+
+    return Array.from(typos);
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * VocabularyQuestionProvider - Word meaning and usage questions
+ *
+ * Question Types:
+ * - Context clues (pick the word that completes a sentence)
+ * - Word parts (prefixes, suffixes and roots)
+ * - Analogies
+ * - Idioms
+ */
+
+import { BaseQuestionProvider } from './QuestionProvider';
+import type {
+  Question,
+  QuestionCategory,
+  QuestionDifficulty,
+  QuestionProviderConfig,
+  SubjectType
+} from './QuestionProvider';
+
+interface ContextEntry {
+  sentence: string;      // Uses ___ for the missing word
+  word: string;
+  wrongAnswers: string[];
+  definition: string;
+}
+
+interface WordPartEntry {
+  part: string;
+  type: 'prefix' | 'suffix' | 'root';
+  meaning: string;
+  example: string;
+}
+
+interface AnalogyEntry {
+  first: [string, string];
+  second: string;
+  answer: string;
+  wrongAnswers: string[];
+  relationship: string;
+}
+
+interface IdiomEntry {
+  idiom: string;
+  meaning: string;
+  wrongAnswers: string[];
+}
+
+const VOCABULARY_CATEGORIES: QuestionCategory[] = [
+  {
+    id: 'context-clues',
+    name: 'Context Clues',
+    description: 'Use the sentence to find the right word',
+    subject: 'vocabulary',
+    gradeLevel: 2,
+    standards: ['CCSS.ELA-LITERACY.L.2.4.A', 'CCSS.ELA-LITERACY.L.4.4.A', 'CCSS.ELA-LITERACY.L.6.4.A'],
+    icon: '🔍'
+  },
+  {
+    id: 'word-parts',
+    name: 'Word Parts',
+    description: 'Prefixes, suffixes, and roots',
+    subject: 'vocabulary',
+    gradeLevel: 3,
+    standards: ['CCSS.ELA-LITERACY.L.3.4.B', 'CCSS.ELA-LITERACY.L.4.4.B', 'CCSS.ELA-LITERACY.L.6.4.B'],
+    icon: '🧩'
+  },
+  {
+    id: 'analogies',
+    name: 'Analogies',
+    description: 'Complete the word relationship',
+    subject: 'vocabulary',
+    gradeLevel: 4,
+    standards: ['CCSS.ELA-LITERACY.L.5.5.C', 'CCSS.ELA-LITERACY.L.7.5.B'],
+    icon: '⚖️'
+  },
+  {
+    id: 'idioms',
+    name: 'Idioms',
+    description: 'What common sayings really mean',
+    subject: 'vocabulary',
+    gradeLevel: 4,
+    standards: ['CCSS.ELA-LITERACY.L.4.5.B', 'CCSS.ELA-LITERACY.L.5.5.B'],
+    icon: '💬'
+  }
+];
+
+const CONTEXT_BANK: Record<QuestionDifficulty, ContextEntry[]> = {
+  beginner: [
+    { sentence: 'The puppy was so ___ that it slept all day.', word: 'tired', wrongAnswers: ['loud', 'hungry', 'fast'], definition: 'needing rest or sleep' },
+    { sentence: 'Please ___ the door so the cat stays inside.', word: 'close', wrongAnswers: ['paint', 'open', 'draw'], definition: 'to shut' },
+    { sentence: 'The ice cream will ___ in the hot sun.', word: 'melt', wrongAnswers: ['freeze', 'jump', 'sing'], definition: 'to turn from solid to liquid' },
+    { sentence: 'She wore a coat because it was ___ outside.', word: 'chilly', wrongAnswers: ['sunny', 'sandy', 'quiet'], definition: 'unpleasantly cold' },
+    { sentence: 'The baby bird is too ___ to fly yet.', word: 'young', wrongAnswers: ['old', 'tall', 'brave'], definition: 'not grown up' },
+    { sentence: 'We whispered so we would not ___ the baby.', word: 'wake', wrongAnswers: ['feed', 'hug', 'help'], definition: 'to stop sleeping' }
+  ],
+  intermediate: [
+    { sentence: 'The hikers were ___ after climbing all morning.', word: 'exhausted', wrongAnswers: ['excited', 'amazed', 'careful'], definition: 'extremely tired' },
+    { sentence: 'He was ___ about the test, so he studied every night.', word: 'anxious', wrongAnswers: ['bored', 'certain', 'lazy'], definition: 'worried or nervous' },
+    { sentence: 'The desert is ___, with very little rain all year.', word: 'arid', wrongAnswers: ['humid', 'frozen', 'crowded'], definition: 'very dry' },
+    { sentence: 'The ___ student asked questions about everything.', word: 'curious', wrongAnswers: ['silent', 'sleepy', 'angry'], definition: 'eager to learn or know' },
+    { sentence: 'After the storm, the town began to ___ the damage.', word: 'repair', wrongAnswers: ['ignore', 'cause', 'admire'], definition: 'to fix' },
+    { sentence: 'The map was ___, so we got lost twice.', word: 'inaccurate', wrongAnswers: ['colorful', 'helpful', 'expensive'], definition: 'not correct' }
+  ],
+  advanced: [
+    { sentence: 'Her ___ reply made it clear she did not want to talk.', word: 'curt', wrongAnswers: ['warm', 'lengthy', 'cheerful'], definition: 'rudely brief' },
+    { sentence: 'The ___ runner kept going despite the pain.', word: 'tenacious', wrongAnswers: ['timid', 'careless', 'idle'], definition: 'not giving up easily' },
+    { sentence: 'The scientist was ___ and checked every result twice.', word: 'meticulous', wrongAnswers: ['reckless', 'forgetful', 'hasty'], definition: 'very careful about details' },
+    { sentence: 'The crowd was ___ when the home team won.', word: 'jubilant', wrongAnswers: ['somber', 'indifferent', 'weary'], definition: 'full of joy' },
+    { sentence: 'His ___ excuse did not convince the teacher.', word: 'feeble', wrongAnswers: ['sturdy', 'honest', 'brilliant'], definition: 'weak' },
+    { sentence: 'The fog made the road signs ___.', word: 'obscure', wrongAnswers: ['vivid', 'obvious', 'bright'], definition: 'hard to see or understand' }
+  ],
+  expert: [
+    { sentence: 'The senator\'s ___ speech avoided answering the question.', word: 'evasive', wrongAnswers: ['candid', 'concise', 'fervent'], definition: 'avoiding a direct answer' },
+    { sentence: 'Smartphones have become ___ in modern life.', word: 'ubiquitous', wrongAnswers: ['obsolete', 'scarce', 'dormant'], definition: 'found everywhere' },
+    { sentence: 'The ___ host made every guest feel welcome.', word: 'gregarious', wrongAnswers: ['reclusive', 'aloof', 'morose'], definition: 'sociable and outgoing' },
+    { sentence: 'Her ___ remarks cut to the heart of the issue.', word: 'incisive', wrongAnswers: ['vague', 'trivial', 'rambling'], definition: 'clear and sharp' },
+    { sentence: 'The old law was ___, so no one followed it anymore.', word: 'defunct', wrongAnswers: ['pivotal', 'stringent', 'novel'], definition: 'no longer in use' },
+    { sentence: 'His ___ attitude meant he rarely took sides.', word: 'impartial', wrongAnswers: ['biased', 'zealous', 'hostile'], definition: 'treating all sides equally' }
+  ]
+};
+
+const WORD_PART_BANK: Record<QuestionDifficulty, WordPartEntry[]> = {
+  beginner: [
+    { part: 'un-', type: 'prefix', meaning: 'not', example: 'unhappy' },
+    { part: 're-', type: 'prefix', meaning: 'again', example: 'replay' },
+    { part: 'pre-', type: 'prefix', meaning: 'before', example: 'preview' },
+    { part: '-ful', type: 'suffix', meaning: 'full of', example: 'joyful' },
+    { part: '-less', type: 'suffix', meaning: 'without', example: 'fearless' },
+    { part: '-er', type: 'suffix', meaning: 'one who', example: 'teacher' }
+  ],
+  intermediate: [
+    { part: 'mis-', type: 'prefix', meaning: 'wrongly', example: 'misspell' },
+    { part: 'sub-', type: 'prefix', meaning: 'under', example: 'submarine' },
+    { part: 'tri-', type: 'prefix', meaning: 'three', example: 'triangle' },
+    { part: '-able', type: 'suffix', meaning: 'can be done', example: 'readable' },
+    { part: '-ology', type: 'suffix', meaning: 'study of', example: 'biology' },
+    { part: 'port', type: 'root', meaning: 'carry', example: 'transport' }
+  ],
+  advanced: [
+    { part: 'anti-', type: 'prefix', meaning: 'against', example: 'antibiotic' },
+    { part: 'inter-', type: 'prefix', meaning: 'between', example: 'international' },
+    { part: 'bene', type: 'root', meaning: 'good', example: 'benefit' },
+    { part: 'chron', type: 'root', meaning: 'time', example: 'chronology' },
+    { part: 'graph', type: 'root', meaning: 'write', example: 'autograph' },
+    { part: 'spect', type: 'root', meaning: 'look', example: 'inspect' }
+  ],
+  expert: [
+    { part: 'mal-', type: 'prefix', meaning: 'bad', example: 'malfunction' },
+    { part: 'circum-', type: 'prefix', meaning: 'around', example: 'circumnavigate' },
+    { part: 'omni-', type: 'prefix', meaning: 'all', example: 'omnivore' },
+    { part: 'phil', type: 'root', meaning: 'love', example: 'philosophy' },
+    { part: 'path', type: 'root', meaning: 'feeling', example: 'empathy' },
+    { part: 'voc', type: 'root', meaning: 'voice', example: 'vocal' }
+  ]
+};
+
+const ANALOGY_BANK: Record<QuestionDifficulty, AnalogyEntry[]> = {
+  beginner: [
+    { first: ['hot', 'cold'], second: 'up', answer: 'down', wrongAnswers: ['high', 'over', 'top'], relationship: 'opposites' },
+    { first: ['bird', 'nest'], second: 'bee', answer: 'hive', wrongAnswers: ['honey', 'flower', 'sting'], relationship: 'animal and its home' },
+    { first: ['cat', 'kitten'], second: 'dog', answer: 'puppy', wrongAnswers: ['cub', 'calf', 'bark'], relationship: 'animal and its baby' },
+    { first: ['hand', 'glove'], second: 'foot', answer: 'sock', wrongAnswers: ['hat', 'leg', 'toe'], relationship: 'body part and what covers it' },
+    { first: ['day', 'sun'], second: 'night', answer: 'moon', wrongAnswers: ['dark', 'bed', 'sky'], relationship: 'time and what lights it' }
+  ],
+  intermediate: [
+    { first: ['pen', 'write'], second: 'knife', answer: 'cut', wrongAnswers: ['sharp', 'fork', 'cook'], relationship: 'tool and its use' },
+    { first: ['author', 'book'], second: 'composer', answer: 'symphony', wrongAnswers: ['piano', 'orchestra', 'painting'], relationship: 'creator and creation' },
+    { first: ['petal', 'flower'], second: 'page', answer: 'book', wrongAnswers: ['paper', 'word', 'tree'], relationship: 'part and whole' },
+    { first: ['hungry', 'eat'], second: 'tired', answer: 'sleep', wrongAnswers: ['yawn', 'run', 'bed'], relationship: 'need and what satisfies it' },
+    { first: ['brave', 'cowardly'], second: 'generous', answer: 'stingy', wrongAnswers: ['kind', 'wealthy', 'giving'], relationship: 'opposites' }
+  ],
+  advanced: [
+    { first: ['drought', 'rain'], second: 'famine', answer: 'food', wrongAnswers: ['hunger', 'crops', 'desert'], relationship: 'shortage and what is lacking' },
+    { first: ['thermometer', 'temperature'], second: 'odometer', answer: 'distance', wrongAnswers: ['speed', 'car', 'fuel'], relationship: 'instrument and what it measures' },
+    { first: ['ornithologist', 'birds'], second: 'entomologist', answer: 'insects', wrongAnswers: ['fossils', 'fish', 'words'], relationship: 'scientist and subject' },
+    { first: ['whisper', 'shout'], second: 'drizzle', answer: 'downpour', wrongAnswers: ['mist', 'cloud', 'puddle'], relationship: 'mild and intense' },
+    { first: ['sculptor', 'chisel'], second: 'surgeon', answer: 'scalpel', wrongAnswers: ['hospital', 'patient', 'bandage'], relationship: 'worker and tool' }
+  ],
+  expert: [
+    { first: ['verbose', 'words'], second: 'extravagant', answer: 'money', wrongAnswers: ['luxury', 'poverty', 'savings'], relationship: 'excess of something' },
+    { first: ['candid', 'deceit'], second: 'humble', answer: 'arrogance', wrongAnswers: ['modesty', 'shyness', 'pride'], relationship: 'quality and what it lacks' },
+    { first: ['prologue', 'novel'], second: 'overture', answer: 'opera', wrongAnswers: ['finale', 'conductor', 'aria'], relationship: 'opening and the work it opens' },
+    { first: ['ephemeral', 'permanent'], second: 'lucid', answer: 'murky', wrongAnswers: ['clear', 'bright', 'sane'], relationship: 'opposites' },
+    { first: ['insomnia', 'sleep'], second: 'amnesia', answer: 'memory', wrongAnswers: ['dreams', 'injury', 'speech'], relationship: 'condition and what is lost' }
+  ]
+};
+
+const IDIOM_BANK: Record<QuestionDifficulty, IdiomEntry[]> = {
+  beginner: [
+    { idiom: 'a piece of cake', meaning: 'very easy', wrongAnswers: ['a tasty snack', 'a birthday', 'very messy'] },
+    { idiom: 'raining cats and dogs', meaning: 'raining hard', wrongAnswers: ['pets are outside', 'a light drizzle', 'a noisy party'] },
+    { idiom: 'cold feet', meaning: 'feeling nervous', wrongAnswers: ['needing socks', 'being sick', 'walking in snow'] },
+    { idiom: 'under the weather', meaning: 'feeling sick', wrongAnswers: ['outside in rain', 'very happy', 'under a tree'] }
+  ],
+  intermediate: [
+    { idiom: 'break the ice', meaning: 'start a conversation', wrongAnswers: ['go ice skating', 'ruin a party', 'cool a drink'] },
+    { idiom: 'hit the books', meaning: 'study hard', wrongAnswers: ['be angry', 'clean a shelf', 'quit school'] },
+    { idiom: 'spill the beans', meaning: 'tell a secret', wrongAnswers: ['make a mess', 'cook dinner', 'waste food'] },
+    { idiom: 'once in a blue moon', meaning: 'very rarely', wrongAnswers: ['every night', 'during a storm', 'very late'] }
+  ],
+  advanced: [
+    { idiom: 'bite the bullet', meaning: 'face something hard', wrongAnswers: ['get hurt', 'eat quickly', 'give up'] },
+    { idiom: 'the ball is in your court', meaning: 'it is your decision', wrongAnswers: ['you won the game', 'you lost the ball', 'go play outside'] },
+    { idiom: 'cut corners', meaning: 'do a sloppy job', wrongAnswers: ['take a shortcut home', 'use scissors', 'save money wisely'] },
+    { idiom: 'let sleeping dogs lie', meaning: 'leave it alone', wrongAnswers: ['be quiet at night', 'feed the pets', 'tell the truth'] }
+  ],
+  expert: [
+    { idiom: 'a Pyrrhic victory', meaning: 'a win at too high a cost', wrongAnswers: ['an easy win', 'a surprise win', 'a tie game'] },
+    { idiom: 'cross the Rubicon', meaning: 'commit with no way back', wrongAnswers: ['travel abroad', 'change your mind', 'win a battle'] },
+    { idiom: 'a Trojan horse', meaning: 'a hidden threat', wrongAnswers: ['a strong army', 'a gift for a hero', 'a fast escape'] },
+    { idiom: 'Achilles\' heel', meaning: 'a weak spot', wrongAnswers: ['a fast runner', 'a foot injury', 'a hidden talent'] }
+  ]
+};
+
+export class VocabularyQuestionProvider extends BaseQuestionProvider {
+  readonly subject: SubjectType = 'vocabulary';
+  readonly config: QuestionProviderConfig = {
+    subject: 'vocabulary',
+    categories: VOCABULARY_CATEGORIES,
+    supportedDifficulties: ['beginner', 'intermediate', 'advanced', 'expert'],
+    defaultDifficulty: 'intermediate'
+  };
+
+  generateQuestion(difficulty: QuestionDifficulty, category?: string): Question {
+    const questionType = category || this.randomPick(VOCABULARY_CATEGORIES.map(c => c.id));
+
+    switch (questionType) {
+      case 'context-clues':
+        return this._createContextQuestion(difficulty);
+      case 'word-parts':
+        return this._createWordPartQuestion(difficulty);
+      case 'analogies':
+        return this._createAnalogyQuestion(difficulty);
+      case 'idioms':
+        return this._createIdiomQuestion(difficulty);
+      default:
+        return this._createContextQuestion(difficulty);
+    }
+  }
+
+  getStats(): {
+    totalQuestions: number;
+    questionsPerCategory: Record<string, number>;
+    questionsPerDifficulty: Record<QuestionDifficulty, number>;
+  } {
+    const banks: Record<string, Record<QuestionDifficulty, unknown[]>> = {
+      'context-clues': CONTEXT_BANK,
+      'word-parts': WORD_PART_BANK,
+      'analogies': ANALOGY_BANK,
+      'idioms': IDIOM_BANK
+    };
+
+    const perCategory: Record<string, number> = {};
+    const perDifficulty: Record<QuestionDifficulty, number> = {
+      beginner: 0,
+      intermediate: 0,
+      advanced: 0,
+      expert: 0
+    };
+
+    for (const [categoryId, bank] of Object.entries(banks)) {
+      for (const [difficulty, entries] of Object.entries(bank)) {
+        perCategory[categoryId] = (perCategory[categoryId] || 0) + entries.length;
+        perDifficulty[difficulty as QuestionDifficulty] += entries.length;
+      }
+    }
+
+    return {
+      totalQuestions: Object.values(perCategory).reduce((sum, count) => sum + count, 0),
+      questionsPerCategory: perCategory,
+      questionsPerDifficulty: perDifficulty
+    };
+  }
+
+  private _createContextQuestion(difficulty: QuestionDifficulty): Question {
+    const entry = this.randomPick(CONTEXT_BANK[difficulty]);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'context-clues',
+      difficulty,
+      questionText: 'Which word best completes the sentence?',
+      questionSubtext: entry.sentence,
+      correctAnswer: entry.word,
+      wrongAnswers: [...entry.wrongAnswers],
+      explanation: `"${entry.word}" means ${entry.definition}`,
+      tags: ['vocabulary', 'context-clues']
+    };
+  }
+
+  private _createWordPartQuestion(difficulty: QuestionDifficulty): Question {
+    const entry = this.randomPick(WORD_PART_BANK[difficulty]);
+
+    // Meanings of other word parts make believable wrong answers
+    const otherMeanings = Object.values(WORD_PART_BANK)
+      .flat()
+      .filter(p => p.meaning !== entry.meaning)
+      .map(p => p.meaning);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'word-parts',
+      difficulty,
+      questionText: `What does the ${entry.type} "${entry.part}" mean?`,
+      questionSubtext: `(as in "${entry.example}")`,
+      correctAnswer: entry.meaning,
+      wrongAnswers: this.randomPickN(otherMeanings, 3),
+      explanation: `The ${entry.type} "${entry.part}" means "${entry.meaning}", as in "${entry.example}"`,
+      tags: ['vocabulary', 'word-parts', entry.type]
+    };
+  }
+
+  private _createAnalogyQuestion(difficulty: QuestionDifficulty): Question {
+    const entry = this.randomPick(ANALOGY_BANK[difficulty]);
+    const [a, b] = entry.first;
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'analogies',
+      difficulty,
+      questionText: `${a} is to ${b} as ${entry.second} is to ___`,
+      questionSubtext: '(Complete the analogy)',
+      correctAnswer: entry.answer,
+      wrongAnswers: [...entry.wrongAnswers],
+      explanation: `Both pairs show ${entry.relationship}: ${a}/${b} and ${entry.second}/${entry.answer}`,
+      tags: ['vocabulary', 'analogies']
+    };
+  }
+
+  private _createIdiomQuestion(difficulty: QuestionDifficulty): Question {
+    const entry = this.randomPick(IDIOM_BANK[difficulty]);
+
+    return {
+      id: this.generateId(),
+      subject: this.subject,
+      category: 'idioms',
+      difficulty,
+      questionText: `What does "${entry.idiom}" mean?`,
+      correctAnswer: entry.meaning,
+      wrongAnswers: [...entry.wrongAnswers],
+      explanation: `"${entry.idiom}" means ${entry.meaning}`,
+      tags: ['vocabulary', 'idioms']
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * WordProblemTemplates - Story templates for generated math word problems
+ *
+ * Each template is a short story with slots that MathQuestionProvider fills:
+ * - {name}   a random first name
+ * - {items}  a random countable item (plural)
+ * - {a}, {b} the operands, drawn from the difficulty's number ranges
+ *
+ * The answer is always computed as `a <operation> b`, so a template only has
+ * to describe that calculation in words. `unit` is attached to the answer
+ * choices ("$" goes in front, anything else after the number).
+ */
+
+export type WordProblemOperation = '+' | '-' | '*' | '/';
+
+export interface WordProblemTemplate {
+  id: string;
+  operation: WordProblemOperation;
+  story: string;     // Shown as questionText
+  question: string;  // Shown as questionSubtext
+  unit?: string;
+}
+
+export const WORD_PROBLEM_NAMES = [
+  'Maya', 'Leo', 'Aisha', 'Sam', 'Priya', 'Diego', 'Hana', 'Omar',
+  'Zoe', 'Kofi', 'Lucia', 'Ben', 'Mei', 'Noah', 'Amara', 'Ivan'
+];
+
+// [singular, plural]
+export const WORD_PROBLEM_ITEMS: [string, string][] = [
+  ['apple', 'apples'],
+  ['sticker', 'stickers'],
+  ['marble', 'marbles'],
+  ['cookie', 'cookies'],
+  ['pencil', 'pencils'],
+  ['shell', 'shells'],
+  ['trading card', 'trading cards'],
+  ['balloon', 'balloons']
+];
+
+export const WORD_PROBLEM_TEMPLATES: WordProblemTemplate[] = [
+  // Addition
+  {
+    id: 'buy-more',
+    operation: '+',
+    story: '{name} has {a} {items} and buys {b} more.',
+    question: 'How many {items} does {name} have now?'
+  },
+  {
+    id: 'bus-passengers',
+    operation: '+',
+    story: 'A bus has {a} passengers. At the next stop, {b} more get on.',
+    question: 'How many passengers are on the bus now?'
+  },
+  {
+    id: 'walk-distance',
+    operation: '+',
+    story: '{name} walked {a} km on Monday and {b} km on Tuesday.',
+    question: 'How far did {name} walk altogether?',
+    unit: 'km'
+  },
+  {
+    id: 'savings',
+    operation: '+',
+    story: '{name} saved ${a} last month and ${b} this month.',
+    question: 'How much has {name} saved in total?',
+    unit: '$'
+  },
+
+  // Subtraction
+  {
+    id: 'give-away',
+    operation: '-',
+    story: '{name} had {a} {items} and gave {b} of them to a friend.',
+    question: 'How many {items} does {name} have left?'
+  },
+  {
+    id: 'ribbon-cut',
+    operation: '-',
+    story: 'A ribbon is {a} cm long. {name} cuts {b} cm off it.',
+    question: 'How long is the ribbon now?',
+    unit: 'cm'
+  },
+  {
+    id: 'spend-money',
+    operation: '-',
+    story: '{name} had ${a} and spent ${b} at the book fair.',
+    question: 'How much money does {name} have left?',
+    unit: '$'
+  },
+  {
+    id: 'pages-left',
+    operation: '-',
+    story: 'A book has {a} pages. {name} has read {b} of them.',
+    question: 'How many pages are left to read?',
+    unit: 'pages'
+  },
+
+  // Multiplication
+  {
+    id: 'packs',
+    operation: '*',
+    story: '{name} buys {a} packs of {items}. Each pack holds {b} {items}.',
+    question: 'How many {items} does {name} buy?'
+  },
+  {
+    id: 'garden-rows',
+    operation: '*',
+    story: 'A garden has {a} rows of carrots with {b} carrots in each row.',
+    question: 'How many carrots are in the garden?'
+  },
+  {
+    id: 'daily-reading',
+    operation: '*',
+    story: '{name} reads {b} pages every day for {a} days.',
+    question: 'How many pages does {name} read?',
+    unit: 'pages'
+  },
+  {
+    id: 'tickets',
+    operation: '*',
+    story: 'Tickets to the fair cost ${b} each. {name} buys {a} tickets.',
+    question: 'How much does {name} pay?',
+    unit: '$'
+  },
+
+  // Division
+  {
+    id: 'share-equally',
+    operation: '/',
+    story: '{name} shares {a} {items} equally among {b} friends.',
+    question: 'How many {items} does each friend get?'
+  },
+  {
+    id: 'teams',
+    operation: '/',
+    story: '{a} students split into teams of {b}.',
+    question: 'How many teams are there?'
+  },
+  {
+    id: 'rope-pieces',
+    operation: '/',
+    story: 'A rope {a} cm long is cut into {b} equal pieces.',
+    question: 'How long is each piece?',
+    unit: 'cm'
+  },
+  {
+    id: 'training-run',
+    operation: '/',
+    story: '{name} runs {a} km in {b} days, the same distance each day.',
+    question: 'How far does {name} run each day?',
+    unit: 'km'
+  }
+];
+
+/**
+ * Fill {slot} placeholders; unknown slots are left as written
+ */
+export function renderWordProblem(text: string, slots: Record<string, string | number>): string {
+  return text.replace(/\{(\w+)\}/g, (match, slot: string) =>
+    slot in slots ? String(slots[slot]) : match
+  );
+}
+
+/**
+ * Attach a unit to a number: "$12", "5 km", "1 page"
+ */
+export function formatQuantity(value: number, unit?: string): string {
+  if (!unit) return `${value}`;
+  if (unit === '$') return `$${value}`;
+
+  // Word units read as singular for exactly one ("1 page"); abbreviations don't change
+  const singular = value === 1 && unit.length > 2 && unit.endsWith('s') ? unit.slice(0, -1) : unit;
+  return `${value} ${singular}`;
+}
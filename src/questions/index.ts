@@ -6,23 +6,85 @@
 export type {
   SubjectType,
   QuestionDifficulty,
+  QuestionFormat,
   QuestionCategory,
   Question,
+  Misconception,
   QuestionProviderConfig,
+  QuestionExposure,
+  QuestionGenerationOptions,
   IQuestionProvider
 } from './QuestionProvider';
 
 export {
   BaseQuestionProvider,
-  QuestionProviderRegistry
+  QuestionProviderRegistry,
+  CHOICE_COUNTS,
+  TRUE_FALSE_CHOICES,
+  SEQUENCE_LENGTHS,
+  getQuestionFormat,
+  getQuestionFactKey,
+  getCorrectChoices,
+  getAnswerChoices,
+  joinSelection,
+  splitSelection
 } from './QuestionProvider';
 
+// Seeded randomness for reproducible question sequences
+export type { RandomSource } from './SeededRandom';
+export { createSeededRandom, createRandomSeed, hashSeed } from './SeededRandom';
+
+// Grade bands and curriculum standards
+export type { ContentFilter } from './Standards';
+export {
+  MIN_GRADE_LEVEL,
+  MAX_GRADE_LEVEL,
+  STANDARD_FRAMEWORKS,
+  getGradeForDifficulty,
+  isInGradeBand,
+  parseGradeLevel,
+  formatGradeLevel,
+  isStandardTag,
+  getStandardTags,
+  matchesStandard,
+  categoryMatchesFilter,
+  questionMatchesFilter
+} from './Standards';
+
+// Translated question content
+export type { QuestionTranslations } from './QuestionTranslator';
+export { mergeTranslations, translateText, translateQuestion } from './QuestionTranslator';
+export { getQuestionTranslations } from './translations';
+
 // Subject-specific providers
-export { MathQuestionProvider } from './MathQuestionProvider';
+export { MathQuestionProvider, MATH_MISCONCEPTIONS } from './MathQuestionProvider';
+export type { MathMisconception } from './MathQuestionProvider';
+export type { WordProblemTemplate, WordProblemOperation } from './WordProblemTemplates';
+export { WORD_PROBLEM_TEMPLATES, renderWordProblem, formatQuantity } from './WordProblemTemplates';
 export { SpellingQuestionProvider } from './SpellingQuestionProvider';
 export { GeographyQuestionProvider } from './GeographyQuestionProvider';
 export { ScienceQuestionProvider } from './ScienceQuestionProvider';
 export { HistoryQuestionProvider } from './HistoryQuestionProvider';
+export { VocabularyQuestionProvider } from './VocabularyQuestionProvider';
+export { LanguageQuestionProvider } from './LanguageQuestionProvider';
+export { TypingQuestionProvider } from './TypingQuestionProvider';
+
+// Teacher-authored question packs
+export type {
+  PackQuestion,
+  QuestionPack,
+  QuestionPackIssue,
+  QuestionPackLoadResult
+} from './QuestionPackLoader';
+export {
+  loadQuestionPacks,
+  parseQuestionPack,
+  registerQuestionPacks,
+  lintQuestionPacks,
+  formatPackIssue,
+  QUESTION_PACKS_DIR
+} from './QuestionPackLoader';
+export { QuestionPackProvider } from './QuestionPackProvider';
 
 // Convenience function to register all providers
 import { QuestionProviderRegistry } from './QuestionProvider';
@@ -31,19 +93,36 @@ import { SpellingQuestionProvider } from './SpellingQuestionProvider';
 import { GeographyQuestionProvider } from './GeographyQuestionProvider';
 import { ScienceQuestionProvider } from './ScienceQuestionProvider';
 import { HistoryQuestionProvider } from './HistoryQuestionProvider';
+import { VocabularyQuestionProvider } from './VocabularyQuestionProvider';
+import { LanguageQuestionProvider } from './LanguageQuestionProvider';
+import { TypingQuestionProvider } from './TypingQuestionProvider';
+import { registerQuestionPacks } from './QuestionPackLoader';
 
 /**
- * Initialize and register all question providers
+ * Register the built-in subject providers (no question packs)
  */
-export function initializeQuestionProviders(): QuestionProviderRegistry {
-  const registry = QuestionProviderRegistry.getInstance();
-
-  // Register all providers
+export function registerBuiltInProviders(registry: QuestionProviderRegistry): void {
   registry.register(new MathQuestionProvider());
   registry.register(new SpellingQuestionProvider());
   registry.register(new GeographyQuestionProvider());
   registry.register(new ScienceQuestionProvider());
   registry.register(new HistoryQuestionProvider());
+  registry.register(new VocabularyQuestionProvider());
+  registry.register(new LanguageQuestionProvider());
+  registry.register(new TypingQuestionProvider());
+}
+
+/**
+ * Initialize and register all question providers
+ */
+export function initializeQuestionProviders(): QuestionProviderRegistry {
+  const registry = QuestionProviderRegistry.getInstance();
+
+  // Register all providers
+  registerBuiltInProviders(registry);
+
+  // Layer teacher-authored packs over the built-in providers
+  registerQuestionPacks(registry);
 
   console.log('[Questions] All providers registered:', registry.getAvailableSubjects());
 
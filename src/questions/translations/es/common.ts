@@ -0,0 +1,20 @@
+/**
+ * Spanish - Text every subject shares (true/false, default hints and explanations)
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+export const ES_COMMON: QuestionTranslations = {
+  phrases: {
+    'True': 'Verdadero',
+    'False': 'Falso'
+  },
+  templates: {
+    'True or false: {statement}': 'Verdadero o falso: {statement}',
+    'The answer is {answer}': 'La respuesta es {answer}',
+    'It starts with "{letter}"': 'Empieza por "{letter}"',
+    'It isn\'t {answer}': 'No es {answer}',
+    '{answer} is one of them': '{answer} es uno de ellos',
+    '{answer} comes first': '{answer} va primero'
+  }
+};
@@ -0,0 +1,335 @@
+/**
+ * Spanish - Geography names and question text
+ *
+ * Place names that Spanish writes the same way (Chile, Nairobi, Texas) are
+ * left out; untranslated text is shown as it is.
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+const COUNTRIES: Record<string, string> = {
+  'United States': 'Estados Unidos',
+  'Canada': 'Canadá',
+  'Mexico': 'México',
+  'United Kingdom': 'Reino Unido',
+  'France': 'Francia',
+  'Germany': 'Alemania',
+  'Italy': 'Italia',
+  'Spain': 'España',
+  'Japan': 'Japón',
+  'Brazil': 'Brasil',
+  'Russia': 'Rusia',
+  'South Korea': 'Corea del Sur',
+  'Egypt': 'Egipto',
+  'South Africa': 'Sudáfrica',
+  'Greece': 'Grecia',
+  'Netherlands': 'Países Bajos',
+  'Sweden': 'Suecia',
+  'Norway': 'Noruega',
+  'Poland': 'Polonia',
+  'Turkey': 'Turquía',
+  'Thailand': 'Tailandia',
+  'Kenya': 'Kenia',
+  'Morocco': 'Marruecos',
+  'Peru': 'Perú',
+  'Switzerland': 'Suiza',
+  'Czech Republic': 'República Checa',
+  'Hungary': 'Hungría',
+  'Philippines': 'Filipinas',
+  'Malaysia': 'Malasia',
+  'New Zealand': 'Nueva Zelanda',
+  'Ireland': 'Irlanda',
+  'Kazakhstan': 'Kazajistán',
+  'Slovenia': 'Eslovenia',
+  'Croatia': 'Croacia',
+  'Slovakia': 'Eslovaquia',
+  'Lithuania': 'Lituania',
+  'Latvia': 'Letonia',
+  'Iceland': 'Islandia',
+  'Bhutan': 'Bután',
+  'Belgium': 'Bélgica',
+  'Ukraine': 'Ucrania',
+  'Denmark': 'Dinamarca',
+  'Finland': 'Finlandia',
+  'Romania': 'Rumanía',
+  'Mali': 'Malí',
+  'Sierra Leone': 'Sierra Leona',
+  'Gabon': 'Gabón',
+  'Jordan': 'Jordania'
+};
+
+const CAPITALS: Record<string, string> = {
+  'Washington D.C.': 'Washington D. C.',
+  'Mexico City': 'Ciudad de México',
+  'London': 'Londres',
+  'Paris': 'París',
+  'Berlin': 'Berlín',
+  'Rome': 'Roma',
+  'Beijing': 'Pekín',
+  'Tokyo': 'Tokio',
+  'New Delhi': 'Nueva Delhi',
+  'Moscow': 'Moscú',
+  'Seoul': 'Seúl',
+  'Cairo': 'El Cairo',
+  'Athens': 'Atenas',
+  'Amsterdam': 'Ámsterdam',
+  'Stockholm': 'Estocolmo',
+  'Warsaw': 'Varsovia',
+  'Hanoi': 'Hanói',
+  'Jakarta': 'Yakarta',
+  'Bogota': 'Bogotá',
+  'Lisbon': 'Lisboa',
+  'Bern': 'Berna',
+  'Vienna': 'Viena',
+  'Prague': 'Praga',
+  'Dublin': 'Dublín',
+  'Ljubljana': 'Liubliana',
+  'Reykjavik': 'Reikiavik',
+  'Ulaanbaatar': 'Ulán Bator',
+  'Kathmandu': 'Katmandú',
+  'Thimphu': 'Timbu'
+};
+
+const CONTINENTS: Record<string, string> = {
+  'North America': 'América del Norte',
+  'South America': 'América del Sur',
+  'Europe': 'Europa',
+  'Africa': 'África',
+  'Oceania': 'Oceanía',
+  'Antarctica': 'Antártida',
+  'Europe/Asia': 'Europa/Asia'
+};
+
+const US_STATES: Record<string, string> = {
+  'Hawaii': 'Hawái',
+  'Louisiana': 'Luisiana',
+  'Michigan': 'Míchigan',
+  'Mississippi': 'Misisipi',
+  'New Hampshire': 'Nuevo Hampshire',
+  'New Jersey': 'Nueva Jersey',
+  'New Mexico': 'Nuevo México',
+  'New York': 'Nueva York',
+  'North Carolina': 'Carolina del Norte',
+  'North Dakota': 'Dakota del Norte',
+  'Oregon': 'Oregón',
+  'Pennsylvania': 'Pensilvania',
+  'South Carolina': 'Carolina del Sur',
+  'South Dakota': 'Dakota del Sur',
+  'West Virginia': 'Virginia Occidental'
+};
+
+const US_REGIONS: Record<string, string> = {
+  'South': 'Sur',
+  'West': 'Oeste',
+  'Southwest': 'Suroeste',
+  'Northeast': 'Noreste',
+  'Midwest': 'Medio Oeste'
+};
+
+const US_NICKNAMES: Record<string, string> = {
+  'Heart of Dixie': 'Corazón de Dixie',
+  'The Last Frontier': 'La Última Frontera',
+  'Grand Canyon State': 'Estado del Gran Cañón',
+  'Natural State': 'Estado Natural',
+  'Golden State': 'Estado Dorado',
+  'Centennial State': 'Estado del Centenario',
+  'Constitution State': 'Estado de la Constitución',
+  'First State': 'Primer Estado',
+  'Sunshine State': 'Estado del Sol',
+  'Peach State': 'Estado del Melocotón',
+  'Aloha State': 'Estado Aloha',
+  'Gem State': 'Estado Gema',
+  'Prairie State': 'Estado de la Pradera',
+  'Hoosier State': 'Estado Hoosier',
+  'Hawkeye State': 'Estado Hawkeye',
+  'Sunflower State': 'Estado del Girasol',
+  'Bluegrass State': 'Estado del Pasto Azul',
+  'Pelican State': 'Estado del Pelícano',
+  'Pine Tree State': 'Estado del Pino',
+  'Old Line State': 'Estado de la Vieja Línea',
+  'Bay State': 'Estado de la Bahía',
+  'Great Lakes State': 'Estado de los Grandes Lagos',
+  'Land of 10,000 Lakes': 'Tierra de los 10 000 Lagos',
+  'Magnolia State': 'Estado de la Magnolia',
+  'Show-Me State': 'Estado "Demuéstramelo"',
+  'Treasure State': 'Estado del Tesoro',
+  'Cornhusker State': 'Estado Cornhusker',
+  'Silver State': 'Estado de Plata',
+  'Granite State': 'Estado de Granito',
+  'Garden State': 'Estado Jardín',
+  'Land of Enchantment': 'Tierra del Encanto',
+  'Empire State': 'Estado Imperio',
+  'Tar Heel State': 'Estado Tar Heel',
+  'Peace Garden State': 'Estado del Jardín de la Paz',
+  'Buckeye State': 'Estado Buckeye',
+  'Sooner State': 'Estado Sooner',
+  'Beaver State': 'Estado del Castor',
+  'Keystone State': 'Estado Piedra Angular',
+  'Ocean State': 'Estado del Océano',
+  'Palmetto State': 'Estado del Palmito',
+  'Mount Rushmore State': 'Estado del Monte Rushmore',
+  'Volunteer State': 'Estado Voluntario',
+  'Lone Star State': 'Estado de la Estrella Solitaria',
+  'Beehive State': 'Estado Colmena',
+  'Green Mountain State': 'Estado de las Montañas Verdes',
+  'Old Dominion': 'Viejo Dominio',
+  'Evergreen State': 'Estado Siempre Verde',
+  'Mountain State': 'Estado Montañoso',
+  'Badger State': 'Estado del Tejón',
+  'Equality State': 'Estado de la Igualdad'
+};
+
+// Landmark names read without an article in the Spanish templates
+const LANDMARKS: Record<string, string> = {
+  'Eiffel Tower': 'Torre Eiffel',
+  'Great Wall': 'Gran Muralla',
+  'Pyramids of Giza': 'Pirámides de Guiza',
+  'Colosseum': 'Coliseo',
+  'Statue of Liberty': 'Estatua de la Libertad',
+  'Sydney Opera House': 'Ópera de Sídney',
+  'Christ the Redeemer': 'Cristo Redentor',
+  'Mount Fuji': 'Monte Fuji',
+  'Leaning Tower of Pisa': 'Torre inclinada de Pisa',
+  'Acropolis': 'Acrópolis',
+
+  // Where they are
+  'Northern China': 'el norte de China',
+  'Giza': 'Guiza',
+  'Sydney': 'Sídney',
+  'Rio de Janeiro': 'Río de Janeiro',
+  'Cusco Region': 'la región de Cusco',
+  'Honshu Island': 'la isla de Honshu',
+  'Ma\'an Governorate': 'la gobernación de Ma\'an'
+};
+
+const FLAG_DESCRIPTIONS: Record<string, string> = {
+  'blue, white and red vertical stripes': 'franjas verticales azul, blanca y roja',
+  'green, white and red vertical stripes': 'franjas verticales verde, blanca y roja',
+  'black, red and gold horizontal stripes': 'franjas horizontales negra, roja y dorada',
+  'a red circle on white': 'un círculo rojo sobre fondo blanco',
+  'green, white and orange vertical stripes': 'franjas verticales verde, blanca y naranja',
+  'red, white and blue horizontal stripes': 'franjas horizontales roja, blanca y azul',
+  'white, blue and red horizontal stripes': 'franjas horizontales blanca, azul y roja',
+  'black, yellow and red vertical stripes': 'franjas verticales negra, amarilla y roja',
+  'white over red': 'blanco sobre rojo',
+  'red over white': 'rojo sobre blanco',
+  'a yellow cross on blue': 'una cruz amarilla sobre fondo azul',
+  'a white cross on a red square': 'una cruz blanca sobre un cuadrado rojo',
+  'blue over yellow': 'azul sobre amarillo',
+  'red, white and red horizontal stripes': 'franjas horizontales roja, blanca y roja',
+  'red, white and green horizontal stripes': 'franjas horizontales roja, blanca y verde',
+  'green, white and green vertical stripes': 'franjas verticales verde, blanca y verde',
+  'a wide yellow stripe over blue and red': 'una franja amarilla ancha sobre azul y rojo',
+  'a white cross on red': 'una cruz blanca sobre fondo rojo',
+  'a blue cross on white': 'una cruz azul sobre fondo blanco',
+  'a red circle on green': 'un círculo rojo sobre fondo verde',
+  'blue, yellow and red vertical stripes': 'franjas verticales azul, amarilla y roja',
+  'blue, black and white horizontal stripes': 'franjas horizontales azul, negra y blanca',
+  'yellow, green and red horizontal stripes': 'franjas horizontales amarilla, verde y roja',
+  'green, yellow and red vertical stripes': 'franjas verticales verde, amarilla y roja',
+  'white, green and red horizontal stripes': 'franjas horizontales blanca, verde y roja',
+  'green, white and blue horizontal stripes': 'franjas horizontales verde, blanca y azul',
+  'green, yellow and blue horizontal stripes': 'franjas horizontales verde, amarilla y azul'
+};
+
+const WATER_BODIES: Record<string, string> = {
+  'Which is the largest ocean?': '¿Cuál es el océano más grande?',
+  'Which ocean is between America and Europe?': '¿Qué océano está entre América y Europa?',
+  'Which is the longest river in Africa?': '¿Cuál es el río más largo de África?',
+  'Which is the longest river in South America?': '¿Cuál es el río más largo de América del Sur?',
+  'Which river flows through London?': '¿Qué río pasa por Londres?',
+  'Which is the largest lake in North America?': '¿Cuál es el lago más grande de América del Norte?',
+  'Which sea is between Europe and Africa?': '¿Qué mar está entre Europa y África?',
+  'Which is the deepest ocean?': '¿Cuál es el océano más profundo?',
+  'Which river flows through Egypt?': '¿Qué río pasa por Egipto?',
+  'Which is the largest lake in Africa?': '¿Cuál es el lago más grande de África?',
+
+  'Pacific Ocean': 'Océano Pacífico',
+  'Atlantic Ocean': 'Océano Atlántico',
+  'Indian Ocean': 'Océano Índico',
+  'Arctic Ocean': 'Océano Ártico',
+  'Southern Ocean': 'Océano Antártico',
+  'Nile River': 'Río Nilo',
+  'Amazon River': 'Río Amazonas',
+  'Congo River': 'Río Congo',
+  'Niger River': 'Río Níger',
+  'Mississippi River': 'Río Misisipi',
+  'Parana River': 'Río Paraná',
+  'Tigris River': 'Río Tigris',
+  'Euphrates River': 'Río Éufrates',
+  'Jordan River': 'Río Jordán',
+  'Thames': 'Támesis',
+  'Seine': 'Sena',
+  'Rhine': 'Rin',
+  'Danube': 'Danubio',
+  'Lake Superior': 'Lago Superior',
+  'Lake Michigan': 'Lago Míchigan',
+  'Lake Huron': 'Lago Hurón',
+  'Lake Ontario': 'Lago Ontario',
+  'Lake Victoria': 'Lago Victoria',
+  'Lake Tanganyika': 'Lago Tanganica',
+  'Lake Malawi': 'Lago Malaui',
+  'Lake Chad': 'Lago Chad',
+  'Mediterranean Sea': 'Mar Mediterráneo',
+  'Red Sea': 'Mar Rojo',
+  'Caribbean Sea': 'Mar Caribe',
+  'Black Sea': 'Mar Negro'
+};
+
+export const ES_GEOGRAPHY: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'World Capitals': 'Capitales del mundo',
+    'Name the capital cities of countries': 'Nombra las capitales de los países',
+    'Countries & Continents': 'Países y continentes',
+    'Match countries to their continents': 'Relaciona cada país con su continente',
+    'US States': 'Estados de EE. UU.',
+    'US states and their capitals': 'Los estados de EE. UU. y sus capitales',
+    'Famous Landmarks': 'Lugares famosos',
+    'World-famous landmarks and wonders': 'Monumentos y maravillas famosos en todo el mundo',
+    'Oceans & Rivers': 'Océanos y ríos',
+    'Bodies of water around the world': 'Mares, ríos y lagos de todo el mundo',
+    'Flags': 'Banderas',
+    'Recognize the flags of the world': 'Reconoce las banderas del mundo',
+
+    'Which country does this flag belong to?': '¿De qué país es esta bandera?',
+
+    ...COUNTRIES,
+    ...CAPITALS,
+    ...CONTINENTS,
+    ...US_STATES,
+    ...US_REGIONS,
+    ...US_NICKNAMES,
+    ...LANDMARKS,
+    ...FLAG_DESCRIPTIONS,
+    ...WATER_BODIES
+  },
+  templates: {
+    // Capitals and continents
+    'What is the capital of {place}?': '¿Cuál es la capital de {place}?',
+    '{capital} is the capital of {place}': '{capital} es la capital de {place}',
+    '{capital} is the capital of which US state?': '¿De qué estado de EE. UU. es capital {capital}?',
+    'On which continent is {country} located?': '¿En qué continente está {country}?',
+    '{country} is located in {continent}': '{country} está en {continent}',
+    '{country} is in {continent}': '{country} está en {continent}',
+    'Its capital is {capital}': 'Su capital es {capital}',
+    'It\'s a country in {continent}': 'Es un país de {continent}',
+    'Select all the countries in {continent}': 'Selecciona todos los países de {continent}',
+    '{countries} are in {continent}': '{countries} están en {continent}',
+    '{count} of them are in {continent}': '{count} de ellos están en {continent}',
+
+    // US states
+    '({nickname})': '({nickname})',
+    '{state} is in the {region}': '{state} está en el {region}',
+    'It\'s in the {region}': 'Está en el {region}',
+
+    // Landmarks
+    'In which country is the {landmark} located?': '{landmark}: ¿en qué país está?',
+    'The {landmark} is located in {location}, {country}': '{landmark}: en {location}, {country}',
+
+    // Flags
+    'Which is the flag of {country}?': '¿Cuál es la bandera de {country}?',
+    'The flag of {country} has {description}': 'La bandera de {country} tiene {description}',
+    'Look for {description}': 'Busca {description}'
+  }
+};
@@ -0,0 +1,340 @@
+/**
+ * Spanish - History questions, timelines and era hints
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+const QUESTIONS: Record<string, string> = {
+  // Ancient
+  'What ancient wonder was built in Egypt?': '¿Qué maravilla antigua se construyó en Egipto?',
+  'The Great Pyramids of Giza were built as tombs for Egyptian pharaohs': 'Las grandes pirámides de Guiza se construyeron como tumbas de los faraones egipcios',
+  'Who was the king of the Greek gods?': '¿Quién era el rey de los dioses griegos?',
+  'What was the capital of the Roman Empire?': '¿Cuál era la capital del Imperio romano?',
+  'What did ancient Egyptians use for writing?': '¿Qué usaban los antiguos egipcios para escribir?',
+  'What structure did the Romans build for gladiator fights?': '¿Qué edificio construyeron los romanos para las luchas de gladiadores?',
+  'What river was ancient Egypt built around?': '¿En torno a qué río se desarrolló el antiguo Egipto?',
+  'Who was the famous queen of Egypt?': '¿Quién fue la famosa reina de Egipto?',
+  'What Greek philosopher taught Alexander the Great?': '¿Qué filósofo griego fue maestro de Alejandro Magno?',
+  'What empire did Julius Caesar rule?': '¿Qué imperio gobernó Julio César?',
+  'What was the Greek city-state famous for its warriors?': '¿Qué ciudad-estado griega era famosa por sus guerreros?',
+  'What did the ancient Greeks invent for government?': '¿Qué forma de gobierno inventaron los antiguos griegos?',
+  'What year did Rome fall?': '¿En qué año cayó Roma?',
+  'Who built the first library in ancient times?': '¿Quién construyó la primera biblioteca de la Antigüedad?',
+  'What was the Rosetta Stone used for?': '¿Para qué sirvió la piedra de Rosetta?',
+
+  // Medieval
+  'What were medieval soldiers in armor called?': '¿Cómo se llamaba a los soldados medievales con armadura?',
+  'Where did kings and queens live in medieval times?': '¿Dónde vivían los reyes y las reinas en la Edad Media?',
+  'What weapon did archers use?': '¿Qué arma usaban los arqueros?',
+  'What was the Black Death?': '¿Qué fue la peste negra?',
+  'What were the Crusades?': '¿Qué fueron las cruzadas?',
+  'What document limited the king\'s power in England (1215)?': '¿Qué documento limitó el poder del rey en Inglaterra (1215)?',
+  'Who invented the printing press?': '¿Quién inventó la imprenta?',
+  'What was the Renaissance?': '¿Qué fue el Renacimiento?',
+  'What year did the Black Death reach Europe?': '¿En qué año llegó la peste negra a Europa?',
+  'Who painted the Mona Lisa?': '¿Quién pintó la Mona Lisa?',
+  'What battle did William the Conqueror win in 1066?': '¿Qué batalla ganó Guillermo el Conquistador en 1066?',
+
+  // American
+  'Who was the first President of the United States?': '¿Quién fue el primer presidente de Estados Unidos?',
+  'What country did America declare independence from?': '¿De qué país se independizó Estados Unidos?',
+  'What year did America declare independence?': '¿En qué año declaró Estados Unidos su independencia?',
+  'Who wrote the Declaration of Independence?': '¿Quién escribió la Declaración de Independencia?',
+  'What ship brought the Pilgrims to America?': '¿Qué barco llevó a los peregrinos a América?',
+  'Who freed the slaves in America?': '¿Quién liberó a los esclavos en Estados Unidos?',
+  'What was the American Civil War fought over?': '¿Por qué se luchó en la guerra de Secesión?',
+  'Who gave the "I Have a Dream" speech?': '¿Quién dio el discurso "Tengo un sueño"?',
+  'What event started the Great Depression?': '¿Qué acontecimiento dio comienzo a la Gran Depresión?',
+  'Who was president during World War II?': '¿Quién era presidente de Estados Unidos durante la Segunda Guerra Mundial?',
+  'What did the 19th Amendment give women?': '¿Qué les dio la Decimonovena Enmienda a las mujeres?',
+  'What year did the Civil War end?': '¿En qué año terminó la guerra de Secesión?',
+  'Who was the first person to walk on the moon?': '¿Quién fue la primera persona en caminar sobre la Luna?',
+  'What Supreme Court case ended school segregation?': '¿Qué caso del Tribunal Supremo acabó con la segregación escolar?',
+
+  // World
+  'What wall divided East and West Berlin?': '¿Qué muro dividía Berlín Este y Berlín Oeste?',
+  'What continent was World War I mainly fought on?': '¿En qué continente se luchó principalmente la Primera Guerra Mundial?',
+  'Who was the leader of Nazi Germany?': '¿Quién fue el líder de la Alemania nazi?',
+  'What country built the Great Wall?': '¿Qué país construyó la Gran Muralla?',
+  'What year did World War I begin?': '¿En qué año empezó la Primera Guerra Mundial?',
+  'What year did World War II end?': '¿En qué año terminó la Segunda Guerra Mundial?',
+  'What event started World War I?': '¿Qué acontecimiento desencadenó la Primera Guerra Mundial?',
+  'What was the Cold War?': '¿Qué fue la Guerra Fría?',
+  'When did the Berlin Wall fall?': '¿Cuándo cayó el muro de Berlín?',
+  'What treaty ended World War I?': '¿Qué tratado puso fin a la Primera Guerra Mundial?',
+  'What year did the French Revolution begin?': '¿En qué año empezó la Revolución francesa?',
+  'Who led India to independence from Britain?': '¿Quién condujo a la India a independizarse del Reino Unido?',
+
+  // Famous people
+  'Who discovered America in 1492?': '¿Quién llegó a América en 1492?',
+  'Who was the famous nurse during the Crimean War?': '¿Quién fue la famosa enfermera de la guerra de Crimea?',
+  'Who invented the light bulb?': '¿Quién inventó la bombilla?',
+  'Who was the first woman to fly solo across the Atlantic?': '¿Quién fue la primera mujer en cruzar sola el Atlántico en avión?',
+  'Who developed the theory of relativity?': '¿Quién desarrolló la teoría de la relatividad?',
+  'Who wrote Romeo and Juliet?': '¿Quién escribió Romeo y Julieta?',
+  'Who was the first female Prime Minister of the UK?': '¿Quién fue la primera mujer en ser primera ministra del Reino Unido?',
+  'Who led the French army to victory before being burned at the stake?': '¿Quién llevó al ejército francés a la victoria antes de morir en la hoguera?',
+
+  // Inventions
+  'Who invented the telephone?': '¿Quién inventó el teléfono?',
+  'What did the Wright Brothers invent?': '¿Qué inventaron los hermanos Wright?',
+  'Who invented the World Wide Web?': '¿Quién inventó la World Wide Web?',
+  'What did Henry Ford mass produce?': '¿Qué fabricó Henry Ford en serie?',
+  'Who discovered penicillin?': '¿Quién descubrió la penicilina?',
+  'What year was the first iPhone released?': '¿En qué año salió el primer iPhone?',
+  'Who invented the steam engine?': '¿Quién inventó la máquina de vapor?',
+  'What did Marie Curie discover?': '¿Qué descubrió Marie Curie?',
+  'Who is credited with inventing the Internet?': '¿A quién se atribuye la invención de Internet?',
+  'What year was the first computer invented?': '¿En qué año se inventó el primer ordenador?',
+  'Who invented the polio vaccine?': '¿Quién inventó la vacuna contra la polio?'
+};
+
+// People whose names Spanish writes the same way are left out
+const ANSWERS: Record<string, string> = {
+  // Ancient
+  'The Pyramids': 'Las pirámides',
+  'The Colosseum': 'El Coliseo',
+  'The Great Wall': 'La Gran Muralla',
+  'The Parthenon': 'El Partenón',
+  'Rome': 'Roma',
+  'Athens': 'Atenas',
+  'Alexandria': 'Alejandría',
+  'Carthage': 'Cartago',
+  'Hieroglyphics': 'Jeroglíficos',
+  'The alphabet': 'El alfabeto',
+  'Numbers': 'Números',
+  'Pictures': 'Dibujos',
+  'Colosseum': 'Coliseo',
+  'Pantheon': 'Panteón',
+  'Aqueduct': 'Acueducto',
+  'Forum': 'Foro',
+  'Nile River': 'Río Nilo',
+  'Amazon River': 'Río Amazonas',
+  'Tigris River': 'Río Tigris',
+  'Ganges River': 'Río Ganges',
+  'Cleopatra': 'Cleopatra',
+  'Isis': 'Isis',
+  'Aristotle': 'Aristóteles',
+  'Plato': 'Platón',
+  'Socrates': 'Sócrates',
+  'Homer': 'Homero',
+  'Roman Empire': 'Imperio romano',
+  'Greek Empire': 'Imperio griego',
+  'Persian Empire': 'Imperio persa',
+  'Egyptian Empire': 'Imperio egipcio',
+  'Sparta': 'Esparta',
+  'Corinth': 'Corinto',
+  'Thebes': 'Tebas',
+  'Democracy': 'Democracia',
+  'Monarchy': 'Monarquía',
+  'Dictatorship': 'Dictadura',
+  'Communism': 'Comunismo',
+  '476 AD': '476 d. C.',
+  '300 AD': '300 d. C.',
+  '100 AD': '100 d. C.',
+  '600 AD': '600 d. C.',
+  'Egyptians (Alexandria)': 'Los egipcios (Alejandría)',
+  'Greeks': 'Los griegos',
+  'Romans': 'Los romanos',
+  'Persians': 'Los persas',
+  'Translating hieroglyphics': 'Para traducir jeroglíficos',
+  'Building pyramids': 'Para construir pirámides',
+  'Measuring time': 'Para medir el tiempo',
+  'Navigation': 'Para navegar',
+
+  // Medieval
+  'Knights': 'Caballeros',
+  'Soldiers': 'Soldados',
+  'Guards': 'Guardias',
+  'Warriors': 'Guerreros',
+  'Castles': 'Castillos',
+  'Houses': 'Casas',
+  'Tents': 'Tiendas de campaña',
+  'Caves': 'Cuevas',
+  'Bow and arrow': 'Arco y flechas',
+  'Sword': 'Espada',
+  'Spear': 'Lanza',
+  'Axe': 'Hacha',
+  'A deadly plague': 'Una epidemia mortal',
+  'A war': 'Una guerra',
+  'A famine': 'Una hambruna',
+  'An earthquake': 'Un terremoto',
+  'A plague': 'Una epidemia',
+  'Religious wars': 'Guerras religiosas',
+  'Trade expeditions': 'Expediciones comerciales',
+  'Explorations': 'Exploraciones',
+  'Tournaments': 'Torneos',
+  'Magna Carta': 'Carta Magna',
+  'Constitution': 'Constitución',
+  'Declaration': 'Declaración',
+  'Charter of Rights': 'Carta de Derechos',
+  'Johannes Gutenberg': 'Johannes Gutenberg',
+  'Galileo Galilei': 'Galileo Galilei',
+  'A period of art and learning': 'Una época de arte y saber',
+  'Michelangelo': 'Miguel Ángel',
+  'Raphael': 'Rafael',
+  'Battle of Hastings': 'Batalla de Hastings',
+  'Battle of Waterloo': 'Batalla de Waterloo',
+  'Battle of Agincourt': 'Batalla de Azincourt',
+  'Battle of Crecy': 'Batalla de Crécy',
+
+  // American
+  'Great Britain': 'Gran Bretaña',
+  'France': 'Francia',
+  'Spain': 'España',
+  'Germany': 'Alemania',
+  'Mayflower': 'Mayflower',
+  'Santa Maria': 'Santa María',
+  'Slavery and states\' rights': 'La esclavitud y los derechos de los estados',
+  'Territory': 'Territorio',
+  'Taxes': 'Impuestos',
+  'Religion': 'Religión',
+  'Stock Market Crash of 1929': 'El crac bursátil de 1929',
+  'World War I': 'La Primera Guerra Mundial',
+  'Civil War': 'La guerra de Secesión',
+  'Gold Rush': 'La fiebre del oro',
+  'The right to vote': 'El derecho al voto',
+  'The right to work': 'El derecho al trabajo',
+  'The right to own property': 'El derecho a la propiedad',
+  'The right to education': 'El derecho a la educación',
+  'Brown v. Board of Education': 'Brown contra Consejo de Educación',
+  'Roe v. Wade': 'Roe contra Wade',
+  'Marbury v. Madison': 'Marbury contra Madison',
+  'Plessy v. Ferguson': 'Plessy contra Ferguson',
+
+  // World
+  'Berlin Wall': 'Muro de Berlín',
+  'Great Wall': 'Gran Muralla',
+  'Hadrian\'s Wall': 'Muro de Adriano',
+  'Western Wall': 'Muro de las Lamentaciones',
+  'Europe': 'Europa',
+  'Asia': 'Asia',
+  'Africa': 'África',
+  'North America': 'América del Norte',
+  'China': 'China',
+  'Japan': 'Japón',
+  'India': 'India',
+  'Mongolia': 'Mongolia',
+  'Assassination of Archduke Franz Ferdinand': 'El asesinato del archiduque Francisco Fernando',
+  'Invasion of Poland': 'La invasión de Polonia',
+  'Bombing of Pearl Harbor': 'El bombardeo de Pearl Harbor',
+  'Treaty of Versailles': 'Tratado de Versalles',
+  'Tension between USA and USSR': 'La tensión entre EE. UU. y la URSS',
+  'A war in Antarctica': 'Una guerra en la Antártida',
+  'A nuclear war': 'Una guerra nuclear',
+  'A winter war': 'Una guerra de invierno',
+  'Treaty of Paris': 'Tratado de París',
+  'Treaty of Ghent': 'Tratado de Gante',
+  'Treaty of Vienna': 'Tratado de Viena',
+
+  // Famous people
+  'Christopher Columbus': 'Cristóbal Colón',
+  'Amerigo Vespucci': 'Américo Vespucio',
+  'Ferdinand Magellan': 'Fernando de Magallanes',
+  'Leif Erikson': 'Leif Erikson',
+  'Queen Elizabeth II': 'La reina Isabel II',
+  'Queen Victoria': 'La reina Victoria',
+  'Joan of Arc': 'Juana de Arco',
+  'Marie Antoinette': 'María Antonieta',
+  'Catherine de Medici': 'Catalina de Médici',
+  'Eleanor of Aquitaine': 'Leonor de Aquitania',
+
+  // Inventions
+  'Airplane': 'Avión',
+  'Car': 'Coche',
+  'Train': 'Tren',
+  'Bicycle': 'Bicicleta',
+  'Automobiles': 'Automóviles',
+  'Airplanes': 'Aviones',
+  'Televisions': 'Televisores',
+  'Computers': 'Ordenadores',
+  'Radioactivity (Radium and Polonium)': 'La radiactividad (radio y polonio)',
+  'X-rays': 'Los rayos X',
+  'Electricity': 'La electricidad',
+  'Penicillin': 'La penicilina',
+  'Vint Cerf and Bob Kahn': 'Vint Cerf y Bob Kahn',
+  '1945 (ENIAC)': '1945 (ENIAC)'
+};
+
+// Timeline topics and events
+const TIMELINES: Record<string, string> = {
+  'American history': 'historia de Estados Unidos',
+  'inventions': 'inventos',
+  'the ancient world': 'el mundo antiguo',
+  'the 20th century': 'el siglo XX',
+  'US presidents': 'presidentes de EE. UU.',
+  'the Middle Ages': 'la Edad Media',
+  'revolutions': 'revoluciones',
+  'medicine and science': 'medicina y ciencia',
+
+  'Pilgrims land at Plymouth': 'Los peregrinos llegan a Plymouth',
+  'Declaration of Independence': 'Declaración de Independencia',
+  'Civil War ends': 'Fin de la guerra de Secesión',
+  'Wright brothers fly': 'Vuelo de los hermanos Wright',
+  'Moon landing': 'Llegada a la Luna',
+  'Printing press': 'Imprenta',
+  'Telephone': 'Teléfono',
+  'Television': 'Televisión',
+  'World Wide Web': 'World Wide Web',
+  'Great Pyramid built': 'Construcción de la Gran Pirámide',
+  'First Olympic Games': 'Primeros Juegos Olímpicos',
+  'Death of Alexander the Great': 'Muerte de Alejandro Magno',
+  'Julius Caesar assassinated': 'Asesinato de Julio César',
+  'Fall of Rome': 'Caída de Roma',
+  'World War I begins': 'Empieza la Primera Guerra Mundial',
+  'Stock market crash': 'Crac bursátil',
+  'World War II ends': 'Termina la Segunda Guerra Mundial',
+  'Berlin Wall falls': 'Cae el muro de Berlín',
+  'Magna Carta signed': 'Firma de la Carta Magna',
+  'Black Death reaches Europe': 'La peste negra llega a Europa',
+  'Gutenberg printing press': 'Imprenta de Gutenberg',
+  'Columbus reaches America': 'Colón llega a América',
+  'American Revolution begins': 'Empieza la Revolución estadounidense',
+  'French Revolution begins': 'Empieza la Revolución francesa',
+  'Haitian independence': 'Independencia de Haití',
+  'Russian Revolution': 'Revolución rusa',
+  'Indian independence': 'Independencia de la India',
+  'First smallpox vaccine': 'Primera vacuna contra la viruela',
+  'Darwin publishes evolution': 'Darwin publica la teoría de la evolución',
+  'Curie discovers radium': 'Curie descubre el radio',
+  'Penicillin discovered': 'Descubrimiento de la penicilina',
+  'DNA double helix described': 'Descripción de la doble hélice del ADN',
+  'Polio vaccine': 'Vacuna contra la polio'
+};
+
+export const ES_HISTORY: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Ancient History': 'Historia antigua',
+    'Egypt, Rome, Greece, and early civilizations': 'Egipto, Roma, Grecia y las primeras civilizaciones',
+    'Medieval History': 'Historia medieval',
+    'The Middle Ages and Renaissance': 'La Edad Media y el Renacimiento',
+    'American History': 'Historia de EE. UU.',
+    'US history from founding to present': 'La historia de EE. UU. desde su fundación hasta hoy',
+    'World History': 'Historia universal',
+    'Major world events and eras': 'Grandes acontecimientos y épocas del mundo',
+    'Famous People': 'Personajes famosos',
+    'Important historical figures': 'Figuras históricas importantes',
+    'Inventions & Discoveries': 'Inventos y descubrimientos',
+    'Important inventions throughout history': 'Inventos importantes a lo largo de la historia',
+    'Timelines': 'Cronologías',
+    'Put historical events in order': 'Ordena acontecimientos históricos',
+
+    // Eras
+    'ancient times': 'la Antigüedad',
+
+    ...QUESTIONS,
+    ...ANSWERS,
+    ...TIMELINES
+  },
+  templates: {
+    'This is from the {century}00s': 'Esto es de los años {century}00',
+    'This is from {era}': 'Esto es de {era}',
+    'Put these in order, earliest first: {topic}': 'Ordena de más antiguo a más reciente: {topic}',
+    '{event} ({year}), then {rest}': '{event} ({year}), luego {rest}',
+    '{event} ({year})': '{event} ({year})',
+    '{year} BC': '{year} a. C.',
+    'The earliest one happened in {year}': 'El más antiguo ocurrió en {year}',
+    '{event} came first': 'Lo primero fue: {event}'
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Spanish question catalogs, one per subject
+ */
+
+import type { SubjectType } from '../../QuestionProvider';
+import type { QuestionTranslations } from '../../QuestionTranslator';
+import { mergeTranslations } from '../../QuestionTranslator';
+import { ES_COMMON } from './common';
+import { ES_MATH } from './math';
+import { ES_SPELLING } from './spelling';
+import { ES_VOCABULARY } from './vocabulary';
+import { ES_GEOGRAPHY } from './geography';
+import { ES_SCIENCE } from './science';
+import { ES_HISTORY } from './history';
+import { ES_LANGUAGE } from './language';
+import { ES_TYPING } from './typing';
+
+export const ES_QUESTION_TRANSLATIONS: Record<SubjectType, QuestionTranslations> = {
+  math: mergeTranslations(ES_MATH, ES_COMMON),
+  spelling: mergeTranslations(ES_SPELLING, ES_COMMON),
+  vocabulary: mergeTranslations(ES_VOCABULARY, ES_COMMON),
+  geography: mergeTranslations(ES_GEOGRAPHY, ES_COMMON),
+  science: mergeTranslations(ES_SCIENCE, ES_COMMON),
+  history: mergeTranslations(ES_HISTORY, ES_COMMON),
+  language: mergeTranslations(ES_LANGUAGE, ES_COMMON),
+  typing: mergeTranslations(ES_TYPING, ES_COMMON)
+};
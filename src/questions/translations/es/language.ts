@@ -0,0 +1,130 @@
+/**
+ * Spanish - Language arts prompts and explanations (the English words being taught stay English)
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+export const ES_LANGUAGE: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Parts of Speech': 'Categorías gramaticales',
+    'Nouns, verbs, adjectives, and more': 'Sustantivos, verbos, adjetivos y más',
+    'Punctuation': 'Puntuación',
+    'End marks, commas, and apostrophes': 'Signos finales, comas y apóstrofos',
+    'Grammar': 'Gramática',
+    'Agreement, verb tense, and pronouns': 'Concordancia, tiempos verbales y pronombres',
+    'Plurals': 'Plurales',
+    'Regular and irregular plural forms': 'Plurales regulares e irregulares',
+    'Homophones': 'Homófonos',
+    'Words that sound alike but mean different things': 'Palabras que suenan igual pero significan cosas distintas',
+
+    // Prompts
+    'Which word is a noun?': '¿Qué palabra es un sustantivo?',
+    'Which word is a verb?': '¿Qué palabra es un verbo?',
+    'Which word is an adjective?': '¿Qué palabra es un adjetivo?',
+    'What kind of clause is in brackets?': '¿Qué tipo de oración subordinada está entre corchetes?',
+    'Which mark ends a question?': '¿Qué signo termina una pregunta?',
+    'Which mark ends a telling sentence?': '¿Qué signo termina una oración enunciativa?',
+    'Which mark shows strong feeling?': '¿Qué signo expresa una emoción fuerte?',
+    'Which state name is written correctly?': '¿Qué nombre de estado está bien escrito?',
+    'Which is correct?': '¿Cuál es correcto?',
+    'Which list is punctuated correctly?': '¿Qué lista está bien puntuada?',
+    'Which date is written correctly?': '¿Qué fecha está bien escrita?',
+    'Which mark joins two related sentences?': '¿Qué signo une dos oraciones relacionadas?',
+    'Which mark introduces a list?': '¿Qué signo introduce una lista?',
+    'Which is correct for several girls?': '¿Cuál es correcto para varias niñas?',
+    'What punctuation fixes this comma splice?': '¿Qué signo corrige este empalme de comas?',
+    'Choose the right word:': 'Elige la palabra correcta:',
+    'Which sentence is in passive voice?': '¿Qué oración está en voz pasiva?',
+
+    // Answers naming the grammar itself
+    'Noun': 'Sustantivo',
+    'Verb': 'Verbo',
+    'Adjective': 'Adjetivo',
+    'Adverb': 'Adverbio',
+    'Preposition': 'Preposición',
+    'Pronoun': 'Pronombre',
+    'Conjunction': 'Conjunción',
+    'Article': 'Artículo',
+    'Gerund': 'Gerundio',
+    'Interjection': 'Interjección',
+    'Participle': 'Participio',
+    'Noun (infinitive)': 'Sustantivo (infinitivo)',
+    'Main verb': 'Verbo principal',
+    'Adjective clause': 'Subordinada adjetiva',
+    'Adverb clause': 'Subordinada adverbial',
+    'Noun clause': 'Subordinada sustantiva',
+    'Independent clause': 'Oración independiente',
+    'Semicolon': 'Punto y coma',
+    'Another comma': 'Otra coma',
+    'Apostrophe': 'Apóstrofo',
+    'Quotation marks': 'Comillas',
+
+    // Explanations
+    'A noun names a person, place, or thing': 'Un sustantivo nombra una persona, un lugar o una cosa',
+    'A verb is an action word': 'Un verbo es una palabra de acción',
+    'An adjective describes a noun': 'Un adjetivo describe a un sustantivo',
+    'An adverb describes how an action is done': 'Un adverbio describe cómo se hace una acción',
+    'A preposition shows where something is': 'Una preposición indica dónde está algo',
+    'A pronoun takes the place of a noun': 'Un pronombre ocupa el lugar de un sustantivo',
+    'A conjunction joins words or ideas': 'Una conjunción une palabras o ideas',
+    'A gerund is an -ing verb used as a noun': 'Un gerundio inglés es un verbo en -ing usado como sustantivo',
+    'An interjection shows strong feeling': 'Una interjección expresa una emoción fuerte',
+    'A participle is a verb form used as an adjective': 'Un participio es una forma verbal usada como adjetivo',
+    'This infinitive names the goal, so it works as a noun': 'Este infinitivo nombra la meta, así que funciona como sustantivo',
+    'It describes the noun "book"': 'Describe al sustantivo "book"',
+    'Names of places start with a capital letter': 'Los nombres de lugares empiezan con mayúscula',
+    'One dog owns the toy, so use \'s': 'El juguete es de un solo perro, así que se usa \'s',
+    'The apostrophe replaces the missing "o"': 'El apóstrofo sustituye a la "o" que falta',
+    'Commas separate items in a list': 'Las comas separan los elementos de una lista',
+    'A comma goes between the day and the year': 'Entre el día y el año va una coma',
+    'A semicolon joins two complete, related sentences': 'El punto y coma une dos oraciones completas y relacionadas',
+    'A colon introduces a list after a complete sentence': 'Los dos puntos introducen una lista tras una oración completa',
+    'Plural nouns ending in s take only an apostrophe': 'Los sustantivos plurales terminados en s solo llevan apóstrofo',
+    '"Its" is possessive; "it\'s" means "it is"': '"Its" es posesivo; "it\'s" significa "it is"',
+    'Two complete sentences need a semicolon or a period, not a comma': 'Dos oraciones completas necesitan punto y coma o punto, no una coma',
+    'A singular subject takes a verb ending in s': 'Un sujeto singular lleva un verbo terminado en s',
+    'Use "an" before a vowel sound': 'Se usa "an" delante de un sonido vocálico',
+    'Use "me" after a preposition like "to"': 'Se usa "me" después de una preposición como "to"',
+    'Compare three or more with -est': 'Para comparar tres o más se usa -est',
+    '"Each" is singular': '"Each" es singular',
+    '"Whom" is the object of "invite"': '"Whom" es el complemento de "invite"',
+    'Hypothetical wishes use the subjunctive "were"': 'Los deseos hipotéticos usan el subjuntivo "were"',
+    'Future perfect tense shows an action finished by a future time': 'El futuro perfecto indica una acción terminada antes de un momento futuro',
+    'In passive voice the subject receives the action': 'En la voz pasiva el sujeto recibe la acción',
+    'Words ending in x add -es': 'Las palabras terminadas en x añaden -es',
+    'Words ending in s add -es': 'Las palabras terminadas en s añaden -es',
+    'Change y to i and add -es after a consonant': 'Tras consonante, la y cambia a i y se añade -es',
+    'Many words ending in f change to -ves': 'Muchas palabras terminadas en f cambian a -ves',
+    'Latin -us words often become -i (the English plural "cactuses" is also correct)': 'Las palabras latinas en -us suelen pasar a -i (el plural inglés "cactuses" también es correcto)',
+    'Some words ending in o add -es': 'Algunas palabras terminadas en o añaden -es',
+    'Greek -is words become -es': 'Las palabras griegas en -is pasan a -es',
+    'Greek -on words become -a': 'Las palabras griegas en -on pasan a -a',
+    'Pluralize the main word of a compound': 'En un compuesto se pone en plural la palabra principal',
+    '"Two" is the number 2': '"Two" es el número 2',
+    'You hear with your ear': 'Oyes ("hear") con el oído ("ear")',
+    '"They\'re" means "they are"': '"They\'re" significa "they are"',
+    '"There" refers to a place': '"There" se refiere a un lugar',
+    '"Your" shows ownership': '"Your" indica posesión',
+    '"Affect" is usually a verb; "effect" is usually a noun': '"Affect" suele ser verbo; "effect" suele ser sustantivo',
+    'The principal is your "pal"; a principle is a rule': 'El "principal" es el director; un "principle" es una regla',
+    'Stationery is paper; stationary means not moving': '"Stationery" es material de papelería; "stationary" significa inmóvil',
+    'To counsel is to advise; a council is a group': '"Counsel" es aconsejar; un "council" es un consejo',
+    'A compliment is praise; a complement completes something': 'Un "compliment" es un elogio; un "complement" completa algo',
+    'To faze is to disturb; a phase is a stage': '"Faze" es perturbar; una "phase" es una etapa'
+  },
+  templates: {
+    'What part of speech is "{word}"?': '¿Qué categoría gramatical es "{word}"?',
+    'What does "{word}" act as here?': '¿Qué función cumple "{word}" aquí?',
+    'What is the contraction of "{words}"?': '¿Cuál es la contracción de "{words}"?',
+    'What is the past tense of "{word}"?': '¿Cuál es el pasado de "{word}"?',
+    'What is the plural of "{word}"?': '¿Cuál es el plural de "{word}"?',
+    'What is the Latin plural of "{word}"?': '¿Cuál es el plural latino de "{word}"?',
+    'Which uses "{word}" correctly?': '¿Cuál usa "{word}" correctamente?',
+    'Plural subjects use "{word}"': 'Los sujetos plurales usan "{word}"',
+    '"{word}" is irregular: {forms}': '"{word}" es irregular: {forms}',
+    '"{word}" has an irregular plural': '"{word}" tiene un plural irregular',
+    '"{word}" is the same in singular and plural': '"{word}" es igual en singular y en plural',
+    'With "{words}", the verb agrees with the closer subject': 'Con "{words}", el verbo concuerda con el sujeto más cercano'
+  }
+};
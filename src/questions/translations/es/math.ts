@@ -0,0 +1,243 @@
+/**
+ * Spanish - Math questions, hints and explanations
+ *
+ * Arithmetic itself needs no translation; this covers the words around it.
+ * Word problems are matched by template id so the stories stay in step with
+ * WordProblemTemplates.
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+import { WORD_PROBLEM_ITEMS, WORD_PROBLEM_TEMPLATES } from '../../WordProblemTemplates';
+
+// Questions ask "qué cantidad de" rather than "cuántos/cuántas" so they read right for any item
+const WORD_PROBLEMS: Record<string, { story: string; question: string }> = {
+  'buy-more': {
+    story: '{name} tiene {a} {items} y compra {b} más.',
+    question: '¿Qué cantidad de {items} tiene {name} ahora?'
+  },
+  'bus-passengers': {
+    story: 'Un autobús lleva {a} pasajeros. En la siguiente parada suben {b} más.',
+    question: '¿Cuántos pasajeros hay ahora en el autobús?'
+  },
+  'walk-distance': {
+    story: '{name} caminó {a} km el lunes y {b} km el martes.',
+    question: '¿Qué distancia caminó {name} en total?'
+  },
+  'savings': {
+    story: '{name} ahorró ${a} el mes pasado y ${b} este mes.',
+    question: '¿Cuánto ha ahorrado {name} en total?'
+  },
+  'give-away': {
+    story: '{name} tenía {a} {items} y le dio {b} a un amigo.',
+    question: '¿Qué cantidad de {items} le queda a {name}?'
+  },
+  'ribbon-cut': {
+    story: 'Una cinta mide {a} cm. {name} le corta {b} cm.',
+    question: '¿Cuánto mide ahora la cinta?'
+  },
+  'spend-money': {
+    story: '{name} tenía ${a} y gastó ${b} en la feria del libro.',
+    question: '¿Cuánto dinero le queda a {name}?'
+  },
+  'pages-left': {
+    story: 'Un libro tiene {a} páginas. {name} ha leído {b}.',
+    question: '¿Cuántas páginas le quedan por leer?'
+  },
+  'packs': {
+    story: '{name} compra {a} paquetes de {items}. Cada paquete trae {b} {items}.',
+    question: '¿Qué cantidad de {items} compra {name}?'
+  },
+  'garden-rows': {
+    story: 'Un huerto tiene {a} filas de zanahorias con {b} zanahorias en cada fila.',
+    question: '¿Cuántas zanahorias hay en el huerto?'
+  },
+  'daily-reading': {
+    story: '{name} lee {b} páginas cada día durante {a} días.',
+    question: '¿Cuántas páginas lee {name}?'
+  },
+  'tickets': {
+    story: 'Las entradas para la feria cuestan ${b} cada una. {name} compra {a} entradas.',
+    question: '¿Cuánto paga {name}?'
+  },
+  'share-equally': {
+    story: '{name} reparte {a} {items} a partes iguales entre {b} amigos.',
+    question: '¿Qué cantidad de {items} recibe cada amigo?'
+  },
+  'teams': {
+    story: '{a} estudiantes se dividen en equipos de {b}.',
+    question: '¿Cuántos equipos hay?'
+  },
+  'rope-pieces': {
+    story: 'Una cuerda de {a} cm se corta en {b} trozos iguales.',
+    question: '¿Cuánto mide cada trozo?'
+  },
+  'training-run': {
+    story: '{name} corre {a} km en {b} días, la misma distancia cada día.',
+    question: '¿Qué distancia corre {name} cada día?'
+  }
+};
+
+// Plural forms, as the stories use them
+const ITEMS: Record<string, string> = {
+  apples: 'manzanas',
+  stickers: 'pegatinas',
+  marbles: 'canicas',
+  cookies: 'galletas',
+  pencils: 'lápices',
+  shells: 'conchas',
+  'trading cards': 'cromos',
+  balloons: 'globos'
+};
+
+const wordProblemTemplates = Object.fromEntries(
+  WORD_PROBLEM_TEMPLATES.flatMap(template => {
+    const spanish = WORD_PROBLEMS[template.id];
+    return spanish ? [[template.story, spanish.story], [template.question, spanish.question]] : [];
+  })
+);
+
+const itemPhrases = Object.fromEntries(
+  WORD_PROBLEM_ITEMS.flatMap(([, plural]) => (ITEMS[plural] ? [[plural, ITEMS[plural]]] : []))
+);
+
+export const ES_MATH: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Addition': 'Suma',
+    'Practice adding numbers': 'Practica la suma de números',
+    'Subtraction': 'Resta',
+    'Practice subtracting numbers': 'Practica la resta de números',
+    'Multiplication': 'Multiplicación',
+    'Practice multiplying numbers': 'Practica la multiplicación de números',
+    'Division': 'División',
+    'Practice dividing numbers': 'Practica la división de números',
+    'Mixed Operations': 'Operaciones combinadas',
+    'All math operations combined': 'Todas las operaciones mezcladas',
+    'Percentages': 'Porcentajes',
+    'Calculate percentages': 'Calcula porcentajes',
+    'Fractions': 'Fracciones',
+    'Add, subtract, multiply and divide fractions': 'Suma, resta, multiplica y divide fracciones',
+    'Decimals': 'Decimales',
+    'Work with decimal numbers': 'Trabaja con números decimales',
+    'Algebra': 'Álgebra',
+    'Solve one- and two-step equations': 'Resuelve ecuaciones de uno y dos pasos',
+    'Area & Perimeter': 'Área y perímetro',
+    'Measure rectangles, squares and triangles': 'Mide rectángulos, cuadrados y triángulos',
+    'Word Problems': 'Problemas',
+    'Everyday stories that need the four operations': 'Historias cotidianas que necesitan las cuatro operaciones',
+
+    // Misconceptions
+    'Used the wrong operation': 'Usó la operación equivocada',
+    'Counted one too many or too few': 'Contó uno de más o de menos',
+    'Swapped the digits around': 'Cambió el orden de las cifras',
+    'Forgot to carry': 'Olvidó llevarse',
+    'Took the smaller digit from the bigger one instead of borrowing': 'Restó la cifra menor de la mayor en vez de pedir prestado',
+    'Put a digit in the wrong place value': 'Puso una cifra en el lugar equivocado',
+    'Mixed up what to do with the denominators': 'Se confundió con los denominadores',
+    'Flipped the wrong fraction, or forgot to flip': 'Invirtió la fracción equivocada, u olvidó invertirla',
+    'Undid the equation with the wrong operation': 'Deshizo la ecuación con la operación equivocada',
+    'Stopped after the first step': 'Se detuvo después del primer paso',
+    'Mixed up area and perimeter': 'Confundió el área con el perímetro',
+    'Left out some of the sides': 'Se dejó algunos lados',
+    'Forgot to halve': 'Olvidó dividir entre dos',
+    'Guessed a nearby number': 'Eligió un número cercano',
+
+    // Operations ("This is an addition problem")
+    'an addition': 'suma',
+    'a subtraction': 'resta',
+    'a multiplication': 'multiplicación',
+    'a division': 'división',
+    'a percentage': 'porcentajes',
+
+    // Fractions and decimals
+    'Multiply the tops together, then the bottoms': 'Multiplica los numeradores entre sí y luego los denominadores',
+    'The bottoms match, so add the tops': 'Los denominadores son iguales, así que suma los numeradores',
+    'The bottoms match, so subtract the tops': 'Los denominadores son iguales, así que resta los numeradores',
+    'Multiply as if there were no decimal points': 'Multiplica como si no hubiera comas decimales',
+    'Count the decimal places in both numbers - the answer has that many': 'Cuenta los decimales de los dos números: la respuesta tiene esa misma cantidad',
+    'Then move the decimal point back one place': 'Luego mueve la coma decimal un lugar hacia atrás',
+    'Line up the decimal points': 'Alinea las comas decimales',
+    'Then add column by column, starting from the right': 'Luego suma columna por columna, empezando por la derecha',
+    'Then subtract column by column, starting from the right': 'Luego resta columna por columna, empezando por la derecha',
+
+    // Geometry formulas
+    'Perimeter = 2 × (length + width)': 'Perímetro = 2 × (largo + ancho)',
+    'Area of a square = side × side': 'Área de un cuadrado = lado × lado',
+    'A square has 4 equal sides': 'Un cuadrado tiene 4 lados iguales',
+    'Area of a triangle = ½ × base × height': 'Área de un triángulo = ½ × base × altura',
+    'Add up all three sides': 'Suma los tres lados',
+    'Area = length × width, so length = area ÷ width': 'Área = largo × ancho, así que largo = área ÷ ancho',
+    'Area = length × width': 'Área = largo × ancho',
+
+    ...itemPhrases
+  },
+  templates: {
+    // Arithmetic
+    '{a} % of {b}': '{a} % de {b}',
+    'First add the tens: {step}': 'Primero suma las decenas: {step}',
+    'Then add the ones: {step}': 'Luego suma las unidades: {step}',
+    'First take away the tens: {step}': 'Primero resta las decenas: {step}',
+    'Then take away the ones: {step}': 'Luego resta las unidades: {step}',
+    'Start at {a} and count on {b}': 'Empieza en {a} y cuenta {b} hacia delante',
+    'Start at {a} and count back {b}': 'Empieza en {a} y cuenta {b} hacia atrás',
+    'Think of it as {groups} groups of {size}': 'Piénsalo como {groups} grupos de {size}',
+    'Think of it as {groups} group of {size}': 'Piénsalo como {groups} grupo de {size}',
+    '{step}, then add one more {size}': '{step} y luego suma otro {size}',
+    'What number times {b} makes {a}?': '¿Qué número por {b} da {a}?',
+    'Count by {b}s until you reach {a}': 'Cuenta de {b} en {b} hasta llegar a {a}',
+    '{percent}% is all of it': 'El {percent}% es el total',
+    '{percent}% is the same as {fraction}': 'El {percent}% es lo mismo que {fraction}',
+    'Divide {a} by {b}': 'Divide {a} entre {b}',
+    'Divide {a} by {b}, then multiply by {c}': 'Divide {a} entre {b} y luego multiplica por {c}',
+
+    // Fractions and decimals
+    'Multiply the tops and the bottoms: {step}': 'Multiplica los numeradores y los denominadores: {step}',
+    'Flip the second fraction and multiply: {step}': 'Invierte la segunda fracción y multiplica: {step}',
+    'Rewrite both over {denominator} first': 'Primero escribe las dos fracciones con denominador {denominator}',
+    'Simplify: divide the top and bottom by {divisor}': 'Simplifica: divide el numerador y el denominador entre {divisor}',
+    'Work out {step} first': 'Primero calcula {step}',
+    '{step} (line up the decimal points)': '{step} (alinea las comas decimales)',
+    '{step} (the answer has as many decimal places as both numbers together)':
+      '{step} (la respuesta tiene tantos decimales como los dos números juntos)',
+
+    // Algebra
+    'Solve for x: {equation}': 'Despeja x: {equation}',
+    'Add {b} to both sides: {rest}': 'Suma {b} a ambos lados: {rest}',
+    'Subtract {b} from both sides: {rest}': 'Resta {b} a ambos lados: {rest}',
+    '{equation}, then divide by {a}: {result}': '{equation} y luego divide entre {a}: {result}',
+    'First add {b} to both sides': 'Primero suma {b} a ambos lados',
+    'First subtract {b} from both sides': 'Primero resta {b} a ambos lados',
+    '{equation}, so divide both sides by {a}': '{equation}, así que divide ambos lados entre {a}',
+    'Add {a} to both sides': 'Suma {a} a ambos lados',
+    'Subtract {a} from both sides': 'Resta {a} a ambos lados',
+    'Divide both sides by {a}': 'Divide ambos lados entre {a}',
+    'Divide both sides by {a}: {rest}': 'Divide ambos lados entre {a}: {rest}',
+    'Multiply both sides by {a}': 'Multiplica ambos lados por {a}',
+    'Multiply both sides by {a}: {rest}': 'Multiplica ambos lados por {a}: {rest}',
+
+    // Geometry
+    'Perimeter of a {length} × {width} rectangle = ?': 'Perímetro de un rectángulo de {length} × {width} = ?',
+    'Area of a {length} × {width} rectangle = ?': 'Área de un rectángulo de {length} × {width} = ?',
+    'Area of a square with side {side} = ?': 'Área de un cuadrado de lado {side} = ?',
+    'Perimeter of a square with side {side} = ?': 'Perímetro de un cuadrado de lado {side} = ?',
+    'Area of a triangle with base {base} and height {height} = ?': 'Área de un triángulo de base {base} y altura {height} = ?',
+    'Perimeter of a triangle with sides {a}, {b} and {c} = ?': 'Perímetro de un triángulo de lados {a}, {b} y {c} = ?',
+    'A rectangle has area {area} and width {width}. Length = ?': 'Un rectángulo tiene un área de {area} y un ancho de {width}. Largo = ?',
+    'A rectangle has perimeter {perimeter} and width {width}. Length = ?': 'Un rectángulo tiene un perímetro de {perimeter} y un ancho de {width}. Largo = ?',
+    'Perimeter = 4 × side = {step}': 'Perímetro = 4 × lado = {step}',
+    'Perimeter = {step}': 'Perímetro = {step}',
+    'Area = side × side = {step}': 'Área = lado × lado = {step}',
+    'Area = ½ × base × height = {step}': 'Área = ½ × base × altura = {step}',
+    'Area = length × width = {step}': 'Área = largo × ancho = {step}',
+    'Area = {step}': 'Área = {step}',
+    'Length = area ÷ width = {step}': 'Largo = área ÷ ancho = {step}',
+    'Length = (perimeter - 2 × width) ÷ 2 = {step}': 'Largo = (perímetro - 2 × ancho) ÷ 2 = {step}',
+
+    // Word problems
+    ...wordProblemTemplates,
+    'This is {operation} problem': 'Es un problema de {operation}',
+    'Work out {step}': 'Calcula {step}',
+    '{count} pages': '{count} páginas',
+    '{count} page': '{count} página'
+  }
+};
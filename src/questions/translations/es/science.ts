@@ -0,0 +1,424 @@
+/**
+ * Spanish - Science questions, diagrams and processes
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+const QUESTIONS: Record<string, string> = {
+  // Biology
+  'What do plants need to make food?': '¿Qué necesitan las plantas para fabricar su alimento?',
+  'Plants use sunlight for photosynthesis to make their food': 'Las plantas usan la luz del sol en la fotosíntesis para fabricar su alimento',
+  'What is the largest organ in the human body?': '¿Cuál es el órgano más grande del cuerpo humano?',
+  'How many legs does a spider have?': '¿Cuántas patas tiene una araña?',
+  'What gas do humans breathe out?': '¿Qué gas expulsamos al respirar?',
+  'What is a baby frog called?': '¿Cómo se llama la cría de la rana?',
+  'What is the fastest land animal?': '¿Cuál es el animal terrestre más rápido?',
+  'What do bees make?': '¿Qué fabrican las abejas?',
+  'How many bones are in the human body?': '¿Cuántos huesos tiene el cuerpo humano?',
+  'What is the powerhouse of the cell?': '¿Cuál es la central de energía de la célula?',
+  'What type of blood cells fight infection?': '¿Qué células de la sangre combaten las infecciones?',
+  'What process do plants use to make oxygen?': '¿Qué proceso usan las plantas para producir oxígeno?',
+  'What is the largest mammal?': '¿Cuál es el mamífero más grande?',
+  'What carries oxygen in our blood?': '¿Qué transporta el oxígeno en nuestra sangre?',
+  'What is the study of plants called?': '¿Cómo se llama el estudio de las plantas?',
+  'What is the basic unit of heredity?': '¿Cuál es la unidad básica de la herencia?',
+  'What molecule carries genetic information?': '¿Qué molécula transporta la información genética?',
+  'What is the study of ecosystems called?': '¿Cómo se llama el estudio de los ecosistemas?',
+  'What organelle contains genetic material?': '¿Qué orgánulo contiene el material genético?',
+
+  // Chemistry
+  'What is H2O commonly known as?': '¿Con qué nombre se conoce comúnmente el H2O?',
+  'What gas do we need to breathe?': '¿Qué gas necesitamos para respirar?',
+  'What are the three states of matter?': '¿Cuáles son los tres estados de la materia?',
+  'What happens to water when it freezes?': '¿Qué le pasa al agua cuando se congela?',
+  'What is table salt made of?': '¿De qué está hecha la sal de mesa?',
+  'What is the chemical symbol for gold?': '¿Cuál es el símbolo químico del oro?',
+  'What is the chemical symbol for iron?': '¿Cuál es el símbolo químico del hierro?',
+  'How many elements are in the periodic table?': '¿Cuántos elementos hay en la tabla periódica?',
+  'What is the most abundant gas in Earth\'s atmosphere?': '¿Cuál es el gas más abundante en la atmósfera de la Tierra?',
+  'What is the chemical formula for carbon dioxide?': '¿Cuál es la fórmula química del dióxido de carbono?',
+  'What pH level is neutral?': '¿Qué nivel de pH es neutro?',
+  'What subatomic particle has a negative charge?': '¿Qué partícula subatómica tiene carga negativa?',
+  'What is the atomic number of carbon?': '¿Cuál es el número atómico del carbono?',
+  'What type of bond shares electrons?': '¿Qué tipo de enlace comparte electrones?',
+
+  // Physics
+  'What force keeps us on the ground?': '¿Qué fuerza nos mantiene en el suelo?',
+  'What is the speed of light measured in?': '¿En qué se mide la velocidad de la luz?',
+  'What type of energy is stored in food?': '¿Qué tipo de energía se almacena en los alimentos?',
+  'What do we call the force that opposes motion?': '¿Cómo se llama la fuerza que se opone al movimiento?',
+  'What color is formed when all colors of light combine?': '¿Qué color se forma al combinar todos los colores de la luz?',
+  'What travels faster: light or sound?': '¿Qué viaja más rápido: la luz o el sonido?',
+  'What unit is used to measure force?': '¿Qué unidad se usa para medir la fuerza?',
+  'What unit is used to measure electrical power?': '¿Qué unidad se usa para medir la potencia eléctrica?',
+  'What is the formula for speed?': '¿Cuál es la fórmula de la velocidad?',
+  'What type of wave is sound?': '¿Qué tipo de onda es el sonido?',
+  'What is absolute zero in Celsius?': '¿Cuánto es el cero absoluto en grados Celsius?',
+  'What is Newton\'s first law also known as?': '¿Con qué otro nombre se conoce la primera ley de Newton?',
+  'What is E=mc² known as?': '¿Cómo se conoce E=mc²?',
+  'What particle carries the electromagnetic force?': '¿Qué partícula transmite la fuerza electromagnética?',
+
+  // Astronomy
+  'What is the closest star to Earth?': '¿Cuál es la estrella más cercana a la Tierra?',
+  'How many planets are in our solar system?': '¿Cuántos planetas hay en nuestro sistema solar?',
+  'What is the largest planet in our solar system?': '¿Cuál es el planeta más grande de nuestro sistema solar?',
+  'What planet is known as the Red Planet?': '¿Qué planeta se conoce como el planeta rojo?',
+  'What is Earth\'s only natural satellite?': '¿Cuál es el único satélite natural de la Tierra?',
+  'What galaxy do we live in?': '¿En qué galaxia vivimos?',
+  'What planet has the famous rings?': '¿Qué planeta tiene los famosos anillos?',
+  'What is the hottest planet in our solar system?': '¿Cuál es el planeta más caliente de nuestro sistema solar?',
+  'What is a group of stars that forms a pattern called?': '¿Cómo se llama un grupo de estrellas que forma una figura?',
+  'How long does it take Earth to orbit the Sun?': '¿Cuánto tarda la Tierra en dar la vuelta al Sol?',
+  'What causes a solar eclipse?': '¿Qué causa un eclipse solar?',
+  'What is a shooting star actually made of?': '¿Qué es en realidad una estrella fugaz?',
+  'Which planet rotates on its side?': '¿Qué planeta gira tumbado de lado?',
+  'What is a supermassive object at the center of galaxies?': '¿Qué objeto supermasivo hay en el centro de las galaxias?',
+  'What is the approximate age of the universe?': '¿Cuál es la edad aproximada del universo?',
+  'What causes the seasons on Earth?': '¿Qué causa las estaciones en la Tierra?',
+
+  // Earth science
+  'What causes rain?': '¿Qué causa la lluvia?',
+  'What is the outer layer of Earth called?': '¿Cómo se llama la capa exterior de la Tierra?',
+  'What type of rock is formed from cooled lava?': '¿Qué tipo de roca se forma con la lava enfriada?',
+  'What causes earthquakes?': '¿Qué causa los terremotos?',
+  'What layer of the atmosphere do we live in?': '¿En qué capa de la atmósfera vivimos?',
+  'What is the water cycle?': '¿Qué es el ciclo del agua?',
+  'What scale measures earthquake strength?': '¿Qué escala mide la fuerza de los terremotos?',
+  'What is the hardest natural mineral?': '¿Cuál es el mineral natural más duro?',
+  'What causes tides in the ocean?': '¿Qué causa las mareas del océano?',
+  'What is the ozone layer made of?': '¿De qué está hecha la capa de ozono?',
+  'What percentage of Earth\'s surface is covered by water?': '¿Qué porcentaje de la superficie de la Tierra está cubierto de agua?',
+  'What is the study of weather called?': '¿Cómo se llama el estudio del tiempo atmosférico?',
+  'What type of plate boundary causes mountains?': '¿Qué tipo de límite entre placas forma montañas?',
+  'What is Earth\'s inner core made of?': '¿De qué está hecho el núcleo interno de la Tierra?'
+};
+
+const ANSWERS: Record<string, string> = {
+  // Biology
+  'Sunlight': 'Luz del sol',
+  'Darkness': 'Oscuridad',
+  'Music': 'Música',
+  'Wind': 'Viento',
+  'Skin': 'Piel',
+  'Heart': 'Corazón',
+  'Liver': 'Hígado',
+  'Brain': 'Cerebro',
+  'Carbon dioxide': 'Dióxido de carbono',
+  'Oxygen': 'Oxígeno',
+  'Nitrogen': 'Nitrógeno',
+  'Helium': 'Helio',
+  'Tadpole': 'Renacuajo',
+  'Cub': 'Cachorro',
+  'Kitten': 'Gatito',
+  'Chick': 'Pollito',
+  'Cheetah': 'Guepardo',
+  'Lion': 'León',
+  'Horse': 'Caballo',
+  'Tiger': 'Tigre',
+  'Honey': 'Miel',
+  'Milk': 'Leche',
+  'Sugar': 'Azúcar',
+  'Syrup': 'Sirope',
+  'Mitochondria': 'Mitocondrias',
+  'Nucleus': 'Núcleo',
+  'Ribosome': 'Ribosoma',
+  'Cytoplasm': 'Citoplasma',
+  'White blood cells': 'Glóbulos blancos',
+  'Red blood cells': 'Glóbulos rojos',
+  'Platelets': 'Plaquetas',
+  'Plasma': 'Plasma',
+  'Photosynthesis': 'Fotosíntesis',
+  'Respiration': 'Respiración',
+  'Digestion': 'Digestión',
+  'Fermentation': 'Fermentación',
+  'Blue whale': 'Ballena azul',
+  'Elephant': 'Elefante',
+  'Giraffe': 'Jirafa',
+  'Hippopotamus': 'Hipopótamo',
+  'Hemoglobin': 'Hemoglobina',
+  'Antibodies': 'Anticuerpos',
+  'Botany': 'Botánica',
+  'Zoology': 'Zoología',
+  'Geology': 'Geología',
+  'Astronomy': 'Astronomía',
+  'Gene': 'Gen',
+  'Cell': 'Célula',
+  'Atom': 'Átomo',
+  'Protein': 'Proteína',
+  'DNA': 'ADN',
+  'RNA': 'ARN',
+  'Lipid': 'Lípido',
+  'Ecology': 'Ecología',
+  'Biology': 'Biología',
+  'Golgi body': 'Aparato de Golgi',
+
+  // Chemistry
+  'Water': 'Agua',
+  'Hydrogen': 'Hidrógeno',
+  'Solid, liquid, gas': 'Sólido, líquido, gaseoso',
+  'Hot, cold, warm': 'Caliente, frío, templado',
+  'Big, small, medium': 'Grande, pequeño, mediano',
+  'Fast, slow, still': 'Rápido, lento, quieto',
+  'It becomes ice': 'Se convierte en hielo',
+  'It disappears': 'Desaparece',
+  'It becomes steam': 'Se convierte en vapor',
+  'It becomes air': 'Se convierte en aire',
+  'Sodium and chlorine': 'Sodio y cloro',
+  'Iron and oxygen': 'Hierro y oxígeno',
+  'Carbon and hydrogen': 'Carbono e hidrógeno',
+  'Gold and silver': 'Oro y plata',
+  'Electron': 'Electrón',
+  'Proton': 'Protón',
+  'Neutron': 'Neutrón',
+  'Covalent bond': 'Enlace covalente',
+  'Ionic bond': 'Enlace iónico',
+  'Metallic bond': 'Enlace metálico',
+  'Hydrogen bond': 'Puente de hidrógeno',
+
+  // Physics
+  'Gravity': 'Gravedad',
+  'Magnetism': 'Magnetismo',
+  'Friction': 'Rozamiento',
+  'Meters per second': 'Metros por segundo',
+  'Miles per hour': 'Millas por hora',
+  'Feet per minute': 'Pies por minuto',
+  'Inches per day': 'Pulgadas por día',
+  'Chemical energy': 'Energía química',
+  'Heat energy': 'Energía térmica',
+  'Light energy': 'Energía luminosa',
+  'Sound energy': 'Energía sonora',
+  'Inertia': 'Inercia',
+  'White': 'Blanco',
+  'Black': 'Negro',
+  'Gray': 'Gris',
+  'Brown': 'Marrón',
+  'Light': 'La luz',
+  'Sound': 'El sonido',
+  'They are equal': 'Son iguales',
+  'Neither travels': 'Ninguno viaja',
+  'Newton': 'Newton',
+  'Watt': 'Vatio',
+  'Joule': 'Julio',
+  'Volt': 'Voltio',
+  'Ampere': 'Amperio',
+  'Ohm': 'Ohmio',
+  'Distance / Time': 'Distancia / Tiempo',
+  'Mass x Acceleration': 'Masa x Aceleración',
+  'Force x Distance': 'Fuerza x Distancia',
+  'Time x Mass': 'Tiempo x Masa',
+  'Longitudinal wave': 'Onda longitudinal',
+  'Transverse wave': 'Onda transversal',
+  'Electromagnetic wave': 'Onda electromagnética',
+  'Standing wave': 'Onda estacionaria',
+  'Law of Inertia': 'Ley de la inercia',
+  'Law of Motion': 'Ley del movimiento',
+  'Law of Energy': 'Ley de la energía',
+  'Law of Force': 'Ley de la fuerza',
+  'Mass-energy equivalence': 'Equivalencia entre masa y energía',
+  'Theory of Relativity': 'Teoría de la relatividad',
+  'Quantum Theory': 'Teoría cuántica',
+  'String Theory': 'Teoría de cuerdas',
+  'Photon': 'Fotón',
+  'Gluon': 'Gluon',
+  'Graviton': 'Gravitón',
+
+  // Astronomy
+  'The Sun': 'El Sol',
+  'The Moon': 'La Luna',
+  'Mars': 'Marte',
+  'Polaris': 'Estrella Polar',
+  'Jupiter': 'Júpiter',
+  'Saturn': 'Saturno',
+  'Neptune': 'Neptuno',
+  'Earth': 'Tierra',
+  'Venus': 'Venus',
+  'Mercury': 'Mercurio',
+  'Uranus': 'Urano',
+  'Milky Way': 'Vía Láctea',
+  'Andromeda': 'Andrómeda',
+  'Triangulum': 'Triángulo',
+  'Sombrero': 'Sombrero',
+  'Constellation': 'Constelación',
+  'Galaxy': 'Galaxia',
+  'Nebula': 'Nebulosa',
+  'Solar system': 'Sistema solar',
+  '365 days': '365 días',
+  '30 days': '30 días',
+  '24 hours': '24 horas',
+  '12 months': '12 meses',
+  'Moon blocking the Sun': 'La Luna tapa el Sol',
+  'Earth blocking the Sun': 'La Tierra tapa el Sol',
+  'Sun blocking the Moon': 'El Sol tapa la Luna',
+  'Clouds blocking the Sun': 'Las nubes tapan el Sol',
+  'Meteor': 'Meteoro',
+  'Star': 'Estrella',
+  'Comet': 'Cometa',
+  'Asteroid': 'Asteroide',
+  'Black hole': 'Agujero negro',
+  'Neutron star': 'Estrella de neutrones',
+  'Pulsar': 'Púlsar',
+  'Quasar': 'Cuásar',
+  '13.8 billion years': '13.8 mil millones de años',
+  '4.6 billion years': '4.6 mil millones de años',
+  '1 billion years': 'mil millones de años',
+  '100 million years': '100 millones de años',
+  'Earth\'s tilted axis': 'La inclinación del eje de la Tierra',
+  'Distance from Sun': 'La distancia al Sol',
+  'Moon\'s orbit': 'La órbita de la Luna',
+  'Solar flares': 'Las erupciones solares',
+
+  // Earth science
+  'Water evaporation and condensation': 'La evaporación y condensación del agua',
+  'Wind blowing': 'El soplo del viento',
+  'Sun heating': 'El calor del sol',
+  'Earth spinning': 'El giro de la Tierra',
+  'Crust': 'Corteza',
+  'Core': 'Núcleo',
+  'Mantle': 'Manto',
+  'Atmosphere': 'Atmósfera',
+  'Igneous rock': 'Roca ígnea',
+  'Sedimentary rock': 'Roca sedimentaria',
+  'Metamorphic rock': 'Roca metamórfica',
+  'Limestone': 'Caliza',
+  'Moving tectonic plates': 'El movimiento de las placas tectónicas',
+  'Strong winds': 'Los vientos fuertes',
+  'Heavy rain': 'Las lluvias intensas',
+  'Volcanic eruptions': 'Las erupciones volcánicas',
+  'Troposphere': 'Troposfera',
+  'Stratosphere': 'Estratosfera',
+  'Mesosphere': 'Mesosfera',
+  'Thermosphere': 'Termosfera',
+  'Evaporation, condensation, precipitation': 'Evaporación, condensación, precipitación',
+  'Freezing, melting, boiling': 'Congelación, fusión, ebullición',
+  'Sunrise, noon, sunset': 'Amanecer, mediodía, atardecer',
+  'Spring, summer, fall, winter': 'Primavera, verano, otoño, invierno',
+  'Richter scale': 'Escala de Richter',
+  'Kelvin scale': 'Escala Kelvin',
+  'Decibel scale': 'Escala de decibelios',
+  'pH scale': 'Escala de pH',
+  'Diamond': 'Diamante',
+  'Gold': 'Oro',
+  'Iron': 'Hierro',
+  'Quartz': 'Cuarzo',
+  'Moon\'s gravity': 'La gravedad de la Luna',
+  'Earth\'s rotation': 'La rotación de la Tierra',
+  'Sun\'s heat': 'El calor del Sol',
+  'O3 molecules': 'Moléculas de O3',
+  'CO2 molecules': 'Moléculas de CO2',
+  'H2O molecules': 'Moléculas de H2O',
+  'N2 molecules': 'Moléculas de N2',
+  'Meteorology': 'Meteorología',
+  'Oceanography': 'Oceanografía',
+  'Convergent boundary': 'Límite convergente',
+  'Divergent boundary': 'Límite divergente',
+  'Transform boundary': 'Límite transformante',
+  'Subduction zone': 'Zona de subducción',
+  'Iron and nickel': 'Hierro y níquel',
+  'Rock and magma': 'Roca y magma',
+  'Water and ice': 'Agua y hielo'
+};
+
+// Diagram subjects ("Earth" is with the answers) and their labeled parts
+const DIAGRAMS: Record<string, string> = {
+  'the plant': 'la planta',
+  'the water cycle': 'el ciclo del agua',
+  'the animal cell': 'la célula animal',
+  'the eye': 'el ojo',
+  'Flower': 'Flor',
+  'Leaf': 'Hoja',
+  'Stem': 'Tallo',
+  'Roots': 'Raíces',
+  'Outer core': 'Núcleo externo',
+  'Inner core': 'Núcleo interno',
+  'Evaporation': 'Evaporación',
+  'Condensation': 'Condensación',
+  'Precipitation': 'Precipitación',
+  'Collection': 'Acumulación',
+  'Cell membrane': 'Membrana celular',
+  'Mitochondrion': 'Mitocondria',
+  'Cornea': 'Córnea',
+  'Lens': 'Cristalino',
+  'Retina': 'Retina',
+  'Optic nerve': 'Nervio óptico'
+};
+
+// Process names and their steps
+const PROCESSES: Record<string, string> = {
+  'a butterfly\'s life cycle': 'el ciclo de vida de una mariposa',
+  'a frog\'s life cycle': 'el ciclo de vida de una rana',
+  'a plant growing': 'el crecimiento de una planta',
+  'the water cycle, starting from the sea': 'el ciclo del agua, empezando por el mar',
+  'the scientific method': 'el método científico',
+  'food passing through the body': 'el recorrido de la comida por el cuerpo',
+  'the life of a star like the Sun': 'la vida de una estrella como el Sol',
+  'mitosis': 'la mitosis',
+  'blood flowing through the heart from the body': 'la sangre que llega del cuerpo y pasa por el corazón',
+
+  'Egg': 'Huevo',
+  'Caterpillar': 'Oruga',
+  'Chrysalis': 'Crisálida',
+  'Butterfly': 'Mariposa',
+  'Froglet': 'Ranita',
+  'Adult frog': 'Rana adulta',
+  'Seed': 'Semilla',
+  'Sprout': 'Brote',
+  'Seedling': 'Plántula',
+  'Flowering plant': 'Planta con flor',
+  'Fruit': 'Fruto',
+  'Ask a question': 'Hacer una pregunta',
+  'Make a hypothesis': 'Formular una hipótesis',
+  'Run an experiment': 'Hacer un experimento',
+  'Analyze the data': 'Analizar los datos',
+  'Draw a conclusion': 'Sacar una conclusión',
+  'Mouth': 'Boca',
+  'Esophagus': 'Esófago',
+  'Stomach': 'Estómago',
+  'Small intestine': 'Intestino delgado',
+  'Large intestine': 'Intestino grueso',
+  'Protostar': 'Protoestrella',
+  'Main sequence star': 'Estrella de secuencia principal',
+  'Red giant': 'Gigante roja',
+  'White dwarf': 'Enana blanca',
+  'Interphase': 'Interfase',
+  'Prophase': 'Profase',
+  'Metaphase': 'Metafase',
+  'Anaphase': 'Anafase',
+  'Telophase': 'Telofase',
+  'Right atrium': 'Aurícula derecha',
+  'Right ventricle': 'Ventrículo derecho',
+  'Lungs': 'Pulmones',
+  'Left atrium': 'Aurícula izquierda',
+  'Left ventricle': 'Ventrículo izquierdo'
+};
+
+export const ES_SCIENCE: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Biology': 'Biología',
+    'Living things, animals, plants, and the human body': 'Los seres vivos, los animales, las plantas y el cuerpo humano',
+    'Chemistry': 'Química',
+    'Elements, compounds, and chemical reactions': 'Elementos, compuestos y reacciones químicas',
+    'Physics': 'Física',
+    'Forces, energy, motion, and how things work': 'Fuerzas, energía, movimiento y cómo funcionan las cosas',
+    'Astronomy': 'Astronomía',
+    'Planets, stars, and the universe': 'Los planetas, las estrellas y el universo',
+    'Earth Science': 'Ciencias de la Tierra',
+    'Weather, geology, and our planet': 'El tiempo, la geología y nuestro planeta',
+    'Diagrams': 'Diagramas',
+    'Name the labeled parts of plants, cells and more': 'Nombra las partes marcadas de plantas, células y más',
+    'Processes': 'Procesos',
+    'Put the steps of life cycles and natural processes in order': 'Ordena los pasos de ciclos de vida y procesos naturales',
+
+    ...QUESTIONS,
+    ...ANSWERS,
+    ...DIAGRAMS,
+    ...PROCESSES
+  },
+  templates: {
+    'What part of {diagram} is labeled {letter}?': '{diagram}: ¿qué parte está marcada con la {letter}?',
+    'Label {letter} marks the {part}': 'La etiqueta {letter} señala: {part}',
+    'Put the steps in order: {process}': 'Ordena los pasos: {process}',
+    'It starts with {step}': 'Empieza con: {step}',
+    '{step} comes second': '{step} va en segundo lugar'
+  }
+};
@@ -0,0 +1,46 @@
+/**
+ * Spanish - Spelling prompts and hints (the English words and definitions stay English)
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+export const ES_SPELLING: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Correct Spelling': 'Ortografía correcta',
+    'Choose the correctly spelled word': 'Elige la palabra bien escrita',
+    'Missing Letter': 'Letra que falta',
+    'Fill in the missing letter': 'Completa la letra que falta',
+    'Definitions': 'Definiciones',
+    'Match words to their meanings': 'Relaciona palabras con su significado',
+    'Synonyms': 'Sinónimos',
+    'Find words with similar meanings': 'Busca palabras de significado parecido',
+    'Antonyms': 'Antónimos',
+    'Find words with opposite meanings': 'Busca palabras de significado contrario',
+    'Listen & Spell': 'Escucha y escribe',
+    'Hear the word, then spell it': 'Escucha la palabra y luego escríbela',
+
+    // Prompts and hints
+    'Which word is spelled correctly?': '¿Qué palabra está bien escrita?',
+    'Listen and spell the word': 'Escucha y escribe la palabra',
+    '(A word with similar meaning)': '(Una palabra de significado parecido)',
+    '(A word with opposite meaning)': '(Una palabra de significado contrario)',
+    'The missing letter is a vowel': 'La letra que falta es una vocal',
+    'The missing letter is a consonant': 'La letra que falta es una consonante',
+    'It comes before N in the alphabet': 'Va antes de la N en el abecedario',
+    'It comes after M in the alphabet': 'Va después de la M en el abecedario'
+  },
+  templates: {
+    'Fill in the missing letter: {word}': 'Completa la letra que falta: {word}',
+    'Which word means: "{definition}"?': '¿Qué palabra significa: "{definition}"?',
+    'Which word is a synonym for "{word}"?': '¿Qué palabra es sinónimo de "{word}"?',
+    'Which word is an antonym for "{word}"?': '¿Qué palabra es antónimo de "{word}"?',
+    'The correct spelling is "{word}"': 'La forma correcta es "{word}"',
+    'The word was "{word}": {definition}': 'La palabra era "{word}": {definition}',
+    'The complete word is "{word}"': 'La palabra completa es "{word}"',
+    '"{word}" means the same as "{other}"': '"{word}" significa lo mismo que "{other}"',
+    '"{word}" is the opposite of "{other}"': '"{word}" es lo contrario de "{other}"',
+    '"{word}" means {definition}': '"{word}" significa {definition}',
+    'It has {count} letters': 'Tiene {count} letras'
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Spanish - Typing prompts, fingers and shortcut actions (exact-copy text is never translated)
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+const FINGERS: Record<string, string> = {
+  'Left pinky': 'Meñique izquierdo',
+  'Left ring': 'Anular izquierdo',
+  'Left middle': 'Corazón izquierdo',
+  'Left index': 'Índice izquierdo',
+  'Right index': 'Índice derecho',
+  'Right middle': 'Corazón derecho',
+  'Right ring': 'Anular derecho',
+  'Right pinky': 'Meñique derecho'
+};
+
+// Shortcut actions and their distractors
+const ACTIONS: Record<string, string> = {
+  'Copy': 'Copiar',
+  'Cut': 'Cortar',
+  'Close': 'Cerrar',
+  'Paste': 'Pegar',
+  'View': 'Ver',
+  'Save': 'Guardar',
+  'Undo': 'Deshacer',
+  'Redo': 'Rehacer',
+  'Zoom': 'Ampliar',
+  'Delete': 'Eliminar',
+  'Search': 'Buscar',
+  'Select all': 'Seleccionar todo',
+  'Send': 'Enviar',
+  'Exit': 'Salir',
+  'Add': 'Añadir',
+  'Align': 'Alinear',
+  'Save as': 'Guardar como',
+  'Print': 'Imprimir',
+  'Preview': 'Vista previa',
+  'Pause': 'Pausar',
+  'Find': 'Buscar en la página',
+  'Format': 'Formato',
+  'Forward': 'Avanzar',
+  'File': 'Archivo',
+  'Yes': 'Sí',
+  'Bold': 'Negrita',
+  'Back': 'Atrás',
+  'Bullet list': 'Lista con viñetas',
+  'Border': 'Borde',
+  'New tab': 'Nueva pestaña',
+  'Type': 'Escribir',
+  'Text size': 'Tamaño del texto',
+  'Close tab': 'Cerrar pestaña',
+  'Switch windows': 'Cambiar de ventana',
+  'Indent text': 'Sangrar el texto',
+  'Close window': 'Cerrar ventana',
+  'Reopen closed tab': 'Reabrir la pestaña cerrada',
+  'Close all tabs': 'Cerrar todas las pestañas',
+  'Open settings': 'Abrir la configuración',
+  'Go to top': 'Ir al principio',
+  'Go home page': 'Ir a la página de inicio',
+  'Select line': 'Seleccionar la línea',
+  'Go to end': 'Ir al final',
+  'Delete word': 'Borrar la palabra',
+  'Delete line': 'Borrar la línea',
+  'Go back': 'Volver atrás',
+  'Select to line end': 'Seleccionar hasta el final de la línea',
+  'Close file': 'Cerrar el archivo'
+};
+
+export const ES_TYPING: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Finger Placement': 'Posición de los dedos',
+    'Which finger types each key': 'Qué dedo pulsa cada tecla',
+    'Key Locations': 'Ubicación de las teclas',
+    'Find keys without looking': 'Encuentra las teclas sin mirar',
+    'Exact Copy': 'Copia exacta',
+    'Spot the text typed with no mistakes': 'Encuentra el texto escrito sin errores',
+    'Shortcuts': 'Atajos',
+    'Common keyboard shortcuts': 'Atajos de teclado habituales',
+
+    // Prompts and hints
+    '(Touch typing, hands on the home row)': '(Mecanografía, con las manos en la fila guía)',
+    '(QWERTY keyboard)': '(Teclado QWERTY)',
+    'Which one matches exactly?': '¿Cuál coincide exactamente?',
+    'Compare each choice letter by letter, including capitals': 'Compara cada opción letra por letra, incluidas las mayúsculas',
+    '(Windows / Chromebook)': '(Windows / Chromebook)',
+
+    ...FINGERS,
+    ...ACTIONS
+  },
+  templates: {
+    'Which finger types the {key} key?': '¿Qué dedo pulsa la tecla {key}?',
+    '{key} is typed with the {finger} finger': 'La {key} se pulsa con el {finger}',
+    'Which key is just above {key}?': '¿Qué tecla está justo encima de la {key}?',
+    'Which key is just below {key}?': '¿Qué tecla está justo debajo de la {key}?',
+    'Which key is between {left} and {right}?': '¿Qué tecla está entre la {left} y la {right}?',
+    'It should be typed exactly as "{text}"': 'Debe escribirse exactamente como "{text}"',
+    'What does {keys} do?': '¿Qué hace {keys}?',
+    '{keys} is the shortcut for {action}': '{keys} es el atajo para {action}'
+  }
+};
@@ -0,0 +1,59 @@
+/**
+ * Spanish - Vocabulary prompts and analogy relationships (the English words and meanings stay English)
+ */
+
+import type { QuestionTranslations } from '../../QuestionTranslator';
+
+const RELATIONSHIPS: Record<string, string> = {
+  'opposites': 'opuestos',
+  'animal and its home': 'un animal y su hogar',
+  'animal and its baby': 'un animal y su cría',
+  'body part and what covers it': 'una parte del cuerpo y lo que la cubre',
+  'time and what lights it': 'un momento del día y lo que lo ilumina',
+  'tool and its use': 'una herramienta y su uso',
+  'creator and creation': 'un creador y su obra',
+  'part and whole': 'la parte y el todo',
+  'need and what satisfies it': 'una necesidad y lo que la satisface',
+  'shortage and what is lacking': 'una escasez y lo que falta',
+  'instrument and what it measures': 'un instrumento y lo que mide',
+  'scientist and subject': 'un científico y lo que estudia',
+  'mild and intense': 'lo leve y lo intenso',
+  'worker and tool': 'un trabajador y su herramienta',
+  'excess of something': 'el exceso de algo',
+  'quality and what it lacks': 'una cualidad y lo que le falta',
+  'opening and the work it opens': 'una introducción y la obra que abre',
+  'condition and what is lost': 'un trastorno y lo que se pierde'
+};
+
+export const ES_VOCABULARY: QuestionTranslations = {
+  phrases: {
+    // Categories
+    'Context Clues': 'Pistas de contexto',
+    'Use the sentence to find the right word': 'Usa la oración para encontrar la palabra correcta',
+    'Word Parts': 'Partes de la palabra',
+    'Prefixes, suffixes, and roots': 'Prefijos, sufijos y raíces',
+    'Analogies': 'Analogías',
+    'Complete the word relationship': 'Completa la relación entre palabras',
+    'Idioms': 'Expresiones',
+    'What common sayings really mean': 'Lo que significan de verdad los dichos comunes',
+
+    // Prompts
+    'Which word best completes the sentence?': '¿Qué palabra completa mejor la oración?',
+    '(Complete the analogy)': '(Completa la analogía)',
+
+    ...RELATIONSHIPS
+  },
+  templates: {
+    'What does the prefix "{part}" mean?': '¿Qué significa el prefijo "{part}"?',
+    'What does the suffix "{part}" mean?': '¿Qué significa el sufijo "{part}"?',
+    'What does the root "{part}" mean?': '¿Qué significa la raíz "{part}"?',
+    '(as in "{example}")': '(como en "{example}")',
+    'The prefix "{part}" means "{meaning}", as in "{example}"': 'El prefijo "{part}" significa "{meaning}", como en "{example}"',
+    'The suffix "{part}" means "{meaning}", as in "{example}"': 'El sufijo "{part}" significa "{meaning}", como en "{example}"',
+    'The root "{part}" means "{meaning}", as in "{example}"': 'La raíz "{part}" significa "{meaning}", como en "{example}"',
+    '{a} is to {b} as {c} is to ___': '{a} es a {b} como {c} es a ___',
+    'Both pairs show {relationship}: {a}/{b} and {c}/{d}': 'Ambos pares muestran {relationship}: {a}/{b} y {c}/{d}',
+    'What does "{idiom}" mean?': '¿Qué significa "{idiom}"?',
+    '"{word}" means {definition}': '"{word}" significa {definition}'
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Question catalogs by locale
+ *
+ * English is the language providers write in, so it has no catalog.
+ */
+
+import type { Locale } from '../../i18n/Locale';
+import type { SubjectType } from '../QuestionProvider';
+import type { QuestionTranslations } from '../QuestionTranslator';
+import { ES_QUESTION_TRANSLATIONS } from './es';
+
+const QUESTION_TRANSLATIONS: Partial<Record<Locale, Record<SubjectType, QuestionTranslations>>> = {
+  es: ES_QUESTION_TRANSLATIONS
+};
+
+/**
+ * The catalog for a subject in a locale, or undefined when questions are already in that language
+ */
+export function getQuestionTranslations(subject: SubjectType, locale: Locale): QuestionTranslations | undefined {
+  return QUESTION_TRANSLATIONS[locale]?.[subject];
+}
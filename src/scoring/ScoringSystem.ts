@@ -4,19 +4,26 @@
  * Scoring Formula:
  * - Base points per correct answer
  * - Difficulty multiplier (Beginner 1x, Moderate 2x, Hard 3x)
+ * - Format multiplier (true/false is easy to guess, select-all is worth more)
+ * - Partial credit (a sequence with the right start earns that share of the base points)
+ * - Hint penalty (each hint used takes a share off the base points)
  * - Speed bonus (answer quickly for bonus)
  * - Streak multiplier (consecutive correct answers)
  * - Perfect game bonus
  */
 
 import type { Difficulty } from '../types';
+import type { QuestionFormat } from '../questions/QuestionProvider';
 
 export interface ScoreBreakdown {
   basePoints: number;
   difficultyMultiplier: number;
+  formatMultiplier: number;
+  hintMultiplier: number;
   speedBonus: number;
   streakMultiplier: number;
   totalPoints: number;
+  credit?: number;  // Share of a partly right answer, 0-1 (partial answers only)
   bonusType?: 'speed' | 'streak' | 'perfect' | 'combo';
 }
 
@@ -37,6 +44,9 @@ export interface GameScoreSummary {
 export interface ScoringConfig {
   basePointsPerCorrect: number;
   difficultyMultipliers: Record<Difficulty, number>;
+  formatMultipliers: Record<QuestionFormat, number>;
+  hintPenalty: number;
+  minHintMultiplier: number;
   speedBonusThresholds: { seconds: number; multiplier: number }[];
   streakBonuses: { streak: number; multiplier: number }[];
   perfectGameBonus: number;
@@ -53,6 +63,18 @@ const DEFAULT_CONFIG: ScoringConfig = {
     hard: 3.0
   },
 
+  // Base points scale with how hard the question shape is to guess
+  formatMultipliers: {
+    'multiple-choice': 1.0,
+    'true-false': 0.5,    // 50% chance by guessing
+    'multi-select': 1.5,  // Several blocks to hit in one fall
+    'sequence': 1.5       // One block per row, in the right order
+  },
+
+  // Each hint takes 25% off the base points, down to a floor
+  hintPenalty: 0.25,
+  minHintMultiplier: 0.25,
+
   // Speed bonuses - faster answers earn more
   speedBonusThresholds: [
     { seconds: 1.5, multiplier: 2.0 },   // Lightning fast
@@ -135,7 +157,12 @@ export class ScoringSystem {
   /**
    * Calculate and record score for a correct answer
    */
-  public recordCorrectAnswer(playerId: string, difficulty: Difficulty): ScoreBreakdown {
+  public recordCorrectAnswer(
+    playerId: string,
+    difficulty: Difficulty,
+    format: QuestionFormat = 'multiple-choice',
+    hintsUsed: number = 0
+  ): ScoreBreakdown {
     const session = this._playerSessions.get(playerId);
     if (!session) {
       console.warn(`[ScoringSystem] No session found for player ${playerId}`);
@@ -152,7 +179,7 @@ export class ScoringSystem {
     session.correctAnswers++;
 
     // Calculate score breakdown
-    const breakdown = this._calculateScore(difficulty, responseTime, session.currentStreak);
+    const breakdown = this._calculateScore(difficulty, format, hintsUsed, responseTime, session.currentStreak);
 
     // Update totals
     session.totalScore += breakdown.totalPoints;
@@ -181,6 +208,45 @@ export class ScoringSystem {
     console.log(`[ScoringSystem] Player ${playerId} wrong answer - streak reset`);
   }
 
+  /**
+   * Record a partly right answer: it resets the streak like a wrong answer,
+   * but earns its share of the base points (no speed or streak bonus)
+   */
+  public recordPartialAnswer(
+    playerId: string,
+    difficulty: Difficulty,
+    credit: number,
+    format: QuestionFormat = 'multiple-choice',
+    hintsUsed: number = 0
+  ): ScoreBreakdown {
+    this.recordWrongAnswer(playerId);
+
+    const session = this._playerSessions.get(playerId);
+    if (!session) return this._createEmptyBreakdown();
+
+    const formatMultiplier = this._config.formatMultipliers[format];
+    const hintMultiplier = this.getHintMultiplier(hintsUsed);
+    const basePoints = Math.round(this._config.basePointsPerCorrect * formatMultiplier * hintMultiplier * credit);
+    const difficultyMultiplier = this._config.difficultyMultipliers[difficulty];
+    const breakdown: ScoreBreakdown = {
+      basePoints,
+      difficultyMultiplier,
+      formatMultiplier,
+      hintMultiplier,
+      speedBonus: 1,
+      streakMultiplier: 1,
+      totalPoints: Math.round(basePoints * difficultyMultiplier),
+      credit
+    };
+
+    session.totalScore += breakdown.totalPoints;
+    session.scoreHistory.push(breakdown);
+
+    console.log(`[ScoringSystem] Player ${playerId} partly correct (${Math.round(credit * 100)}%): +${breakdown.totalPoints} pts`);
+
+    return breakdown;
+  }
+
   /**
    * End a game session and return summary
    */
@@ -268,10 +334,14 @@ export class ScoringSystem {
    */
   private _calculateScore(
     difficulty: Difficulty,
+    format: QuestionFormat,
+    hintsUsed: number,
     responseTime: number,
     streak: number
   ): ScoreBreakdown {
-    const basePoints = this._config.basePointsPerCorrect;
+    const formatMultiplier = this._config.formatMultipliers[format];
+    const hintMultiplier = this.getHintMultiplier(hintsUsed);
+    const basePoints = Math.round(this._config.basePointsPerCorrect * formatMultiplier * hintMultiplier);
     const difficultyMultiplier = this._config.difficultyMultipliers[difficulty];
 
     // Speed bonus
@@ -310,6 +380,8 @@ export class ScoringSystem {
     return {
       basePoints,
       difficultyMultiplier,
+      formatMultiplier,
+      hintMultiplier,
       speedBonus,
       streakMultiplier,
       totalPoints,
@@ -317,6 +389,13 @@ export class ScoringSystem {
     };
   }
 
+  /**
+   * Share of the base points left after using hints
+   */
+  public getHintMultiplier(hintsUsed: number): number {
+    return Math.max(this._config.minHintMultiplier, 1 - hintsUsed * this._config.hintPenalty);
+  }
+
   /**
    * Calculate letter grade based on performance
    */
@@ -344,6 +423,8 @@ export class ScoringSystem {
     return {
       basePoints: 0,
       difficultyMultiplier: 1,
+      formatMultiplier: 1,
+      hintMultiplier: 1,
       speedBonus: 1,
       streakMultiplier: 1,
       totalPoints: 0
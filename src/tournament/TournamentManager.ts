@@ -3,8 +3,12 @@
  *
  * Features:
  * - Create/join tournaments
- * - Quick match matchmaking
+ * - Quick match matchmaking (rating window widens while waiting)
+ * - Per-subject skill ratings (Elo) for every competitive match
  * - Bracket tournament progression
+ * - Double-elimination brackets (losers bracket, grand final reset)
+ * - Swiss-system rounds paired by record
+ * - Round-robin leagues played across sessions
  * - Persistent tournament storage
  * - Official vs community tournaments
  */
@@ -22,10 +26,21 @@ import type {
   QuickMatchState,
   DirectChallenge,
   PersistedTournament,
-  TournamentLobbyInfo
+  TournamentLobbyInfo,
+  MatchQuestionEvent,
+  MatchAnswerResult,
+  MatchEndEvent,
+  MatchPlayerResult,
+  MatchBracket,
+  LeagueStanding
 } from './TournamentTypes';
 import type { SubjectType, QuestionDifficulty, Question } from '../questions/QuestionProvider';
-import { QuestionProviderRegistry } from '../questions/QuestionProvider';
+import { QuestionProviderRegistry, getAnswerChoices, getQuestionFormat } from '../questions/QuestionProvider';
+import type { RandomSource } from '../questions/SeededRandom';
+import { createSeededRandom, createRandomSeed } from '../questions/SeededRandom';
+import { PersistenceManager } from '../persistence/PersistenceManager';
+import { LeaderboardManager } from '../persistence/LeaderboardManager';
+import { ScoringSystem } from '../scoring/ScoringSystem';
 
 // ============ Constants ============
 
@@ -34,6 +49,30 @@ const MATCH_START_COUNTDOWN = 5; // 5 second countdown
 const QUESTION_TIME_LIMIT = 15000; // 15 seconds per question (default)
 const BRACKET_ROUND_DELAY = 10000; // 10 seconds between rounds
 const CHALLENGE_EXPIRY = 300000; // 5 minutes to accept challenge
+const BETWEEN_QUESTIONS_DELAY = 2000; // 2 seconds between match questions
+const LEAGUE_MATCH_DELAY = 10000; // 10 seconds before scheduling the next league matches
+const LEAGUE_POINTS_WIN = 3;
+const LEAGUE_POINTS_DRAW = 1;
+const TOURNAMENT_STORAGE_KEY = 'edufall-tournaments';
+const MAX_BRACKET_SIZE = 32;
+const MAX_SUDDEN_DEATH_QUESTIONS = 3; // After this, the higher seed advances
+const MIN_SWISS_PARTICIPANTS = 4;
+const SWISS_PAIRING_ATTEMPTS = 5000; // Backtracking budget before accepting a rematch
+const DOUBLE_ELIMINATION_LOSSES = 2;
+const RATING_K_FACTOR = 32;
+const RATING_PROVISIONAL_K_FACTOR = 48; // Ratings move faster while they settle
+const RATING_PROVISIONAL_MATCHES = 10;
+const MATCHMAKING_BASE_WINDOW = 100; // Initial rating gap allowed between queued players
+const MATCHMAKING_WINDOW_GROWTH = 50; // Extra gap allowed per widening step
+const MATCHMAKING_WIDEN_INTERVAL = 10000; // Widen the window every 10 seconds
+
+// Question currently open in a match (keyed by match ID)
+interface ActiveMatchQuestion {
+  question: Question;
+  questionNumber: number;
+  answered: Set<string>;
+  close: () => void;
+}
 
 // ============ TournamentManager ============
 
@@ -48,6 +87,9 @@ export class TournamentManager {
   // Quick match queues (by subject+difficulty+playerCount)
   private _quickMatchQueues: Map<string, Set<string>> = new Map();
 
+  // When each queued player joined (drives the matchmaking rating window)
+  private _queueJoinTimes: Map<string, number> = new Map();
+
   // Active quick matches
   private _quickMatches: Map<string, QuickMatchState> = new Map();
 
@@ -58,9 +100,30 @@ export class TournamentManager {
   // Pending challenges
   private _pendingChallenges: Map<string, DirectChallenge> = new Map();
 
+  // Open question per match (quick match ID or tournament match ID)
+  private _matchQuestions: Map<string, ActiveMatchQuestion> = new Map();
+
+  // Seeded question randomness per match (quick match ID or tournament match ID)
+  private _matchRandoms: Map<string, RandomSource> = new Map();
+
+  // League matches counting down to start (players are already committed)
+  private _scheduledLeagueMatches: Set<string> = new Set();
+
+  // Response times per tournament match (matchId -> playerId -> seconds), used for tiebreaks
+  private _matchResponseTimes: Map<string, Map<string, number[]>> = new Map();
+
+  // Usernames of queued players (for quick match participants)
+  private _playerUsernames: Map<string, string> = new Map();
+
+  // Saves wait for the previous session's tournaments to load, so they can't overwrite them
+  private _restoreFinished: boolean = false;
+  private _persistPending: boolean = false;
+
   // Callbacks
   private _onTournamentUpdate: ((tournament: Tournament) => void)[] = [];
   private _onQuickMatchUpdate: ((match: QuickMatchState) => void)[] = [];
+  private _onMatchQuestion: ((event: MatchQuestionEvent) => void)[] = [];
+  private _onMatchEnd: ((event: MatchEndEvent) => void)[] = [];
 
   private constructor() {
     this._questionRegistry = QuestionProviderRegistry.getInstance();
@@ -116,11 +179,18 @@ export class TournamentManager {
       tournament.config.inviteCode = this._generateInviteCode();
     }
 
+    // Every tournament gets a question seed so its matches can be replayed
+    if (!config.seed) {
+      tournament.config.seed = createRandomSeed();
+    }
+
     this._tournaments.set(tournament.id, tournament);
     this._playerTournaments.set(creator.id, tournament.id);
 
     console.log(`[TournamentManager] Created ${config.type} tournament: ${tournament.id} by ${creator.username}`);
 
+    this._persistTournaments();
+
     return tournament;
   }
 
@@ -169,6 +239,7 @@ export class TournamentManager {
     this._checkAutoStart(tournament);
 
     this._notifyTournamentUpdate(tournament);
+    this._persistTournaments();
     return true;
   }
 
@@ -203,17 +274,46 @@ export class TournamentManager {
       this._cancelTournament(tournament, 'All participants left');
     } else {
       this._notifyTournamentUpdate(tournament);
+      this._persistTournaments();
     }
 
     return true;
   }
 
+  /**
+   * Reattach a returning player to any ongoing tournament (leagues span sessions)
+   */
+  public handlePlayerReconnect(player: Player): void {
+    for (const tournament of this._tournaments.values()) {
+      if (tournament.status !== 'waiting' && tournament.status !== 'in-progress') continue;
+
+      const participant = tournament.participants.get(player.id);
+      if (!participant) continue;
+
+      participant.isConnected = true;
+      participant.lastActiveAt = Date.now();
+      participant.username = player.username;
+      this._playerTournaments.set(player.id, tournament.id);
+
+      console.log(`[TournamentManager] ${player.username} reconnected to tournament ${tournament.id}`);
+
+      if (tournament.config.type === 'league' && tournament.status === 'in-progress') {
+        this._startAvailableLeagueMatches(tournament);
+      }
+    }
+  }
+
   // ============ Quick Match ============
 
   /**
    * Join quick match queue
    */
   public joinQuickMatchQueue(player: Player, config: QuickMatchConfig): boolean {
+    if (!this._offersCategory(config.subject, config.category)) {
+      console.warn(`[TournamentManager] ${config.subject} has no category ${config.category}`);
+      return false;
+    }
+
     // Check if already in queue or match
     if (this._playerQuickMatches.has(player.id)) {
       console.warn(`[TournamentManager] Player ${player.username} already in a quick match`);
@@ -230,12 +330,14 @@ export class TournamentManager {
     }
 
     queue.add(player.id);
+    this._queueJoinTimes.set(player.id, Date.now());
+    this._playerUsernames.set(player.id, player.username);
     console.log(`[TournamentManager] ${player.username} joined quick match queue (${queueKey}), queue size: ${queue.size}`);
 
-    // Check if we have enough players
-    if (queue.size >= config.playerCount) {
-      this._startQuickMatch(queueKey, config);
-    } else {
+    // Match with similarly rated players, widening the window until someone fits
+    if (!this._tryStartQuickMatch(queueKey, config)) {
+      this._scheduleMatchmakingRetry(player.id, queueKey, config);
+
       // Set timeout for matchmaking
       setTimeout(() => {
         this._checkQuickMatchTimeout(player.id, queueKey);
@@ -249,10 +351,19 @@ export class TournamentManager {
    * Leave quick match queue
    */
   public leaveQuickMatchQueue(player: Player): boolean {
+    // Mark as disconnected if already playing a quick match
+    const match = this.getPlayerQuickMatch(player.id);
+    const participant = match?.players.find(p => p.playerId === player.id);
+    if (participant) {
+      participant.isConnected = false;
+      participant.lastActiveAt = Date.now();
+    }
+
     // Remove from all queues
     for (const [key, queue] of this._quickMatchQueues) {
       if (queue.has(player.id)) {
         queue.delete(player.id);
+        this._queueJoinTimes.delete(player.id);
         console.log(`[TournamentManager] ${player.username} left quick match queue (${key})`);
         return true;
       }
@@ -260,52 +371,100 @@ export class TournamentManager {
     return false;
   }
 
+  /**
+   * Submit answer for whichever match (quick match or tournament) the player is in
+   */
+  public submitAnswer(player: Player, answer: string): MatchAnswerResult | null {
+    if (this._playerQuickMatches.has(player.id)) {
+      return this.submitQuickMatchAnswer(player, answer);
+    }
+    return this.submitMatchAnswer(player, answer);
+  }
+
   /**
    * Submit answer in quick match
    */
-  public submitQuickMatchAnswer(player: Player, answer: string): boolean {
+  public submitQuickMatchAnswer(player: Player, answer: string): MatchAnswerResult | null {
     const matchId = this._playerQuickMatches.get(player.id);
-    if (!matchId) return false;
+    if (!matchId) return null;
 
     const match = this._quickMatches.get(matchId);
-    if (!match || match.status !== 'playing') return false;
+    if (!match || match.status !== 'playing') return null;
 
     // Find participant
     const participant = match.players.find(p => p.playerId === player.id);
-    if (!participant) return false;
+    if (!participant) return null;
 
-    // Get current question
-    const question = this._getCurrentQuickMatchQuestion(match);
-    if (!question) return false;
+    // Only one answer per player per question
+    const active = this._matchQuestions.get(matchId);
+    if (!active || active.answered.has(player.id)) return null;
+    active.answered.add(player.id);
 
     // Calculate response time
     const responseTime = match.questionStartTime
       ? (Date.now() - match.questionStartTime) / 1000
       : 0;
 
-    // Validate answer
-    const isCorrect = this._questionRegistry.validateAnswer(question, answer);
+    const result = this._scoreAnswer(matchId, participant, active.question, answer, responseTime);
 
-    if (isCorrect) {
-      participant.correctAnswers++;
-      participant.currentScore += this._calculateQuickMatchPoints(responseTime);
-      participant.streak++;
-      if (participant.streak > participant.bestStreak) {
-        participant.bestStreak = participant.streak;
-      }
+    this._notifyQuickMatchUpdate(match);
+
+    // Move on as soon as every connected player has answered
+    if (match.players.every(p => !p.isConnected || active.answered.has(p.playerId))) {
+      active.close();
+    }
+
+    return result;
+  }
+
+  /**
+   * Submit answer in a tournament (bracket/challenge) match
+   */
+  public submitMatchAnswer(player: Player, answer: string): MatchAnswerResult | null {
+    const tournament = this.getPlayerTournament(player.id);
+    if (!tournament || tournament.status !== 'in-progress') return null;
+
+    const match = this._findActiveMatch(tournament, player.id);
+    if (!match) return null;
+
+    const participant = tournament.participants.get(player.id);
+    if (!participant) return null;
+
+    // Only one answer per player per question
+    const active = this._matchQuestions.get(match.id);
+    if (!active || active.answered.has(player.id)) return null;
+    active.answered.add(player.id);
+
+    const responseTime = match.questionStartTime
+      ? (Date.now() - match.questionStartTime) / 1000
+      : 0;
+
+    const result = this._scoreAnswer(match.id, participant, active.question, answer, responseTime);
+
+    // Track response time for tiebreaks
+    const responseTimes = this._matchResponseTimes.get(match.id) || new Map<string, number[]>();
+    responseTimes.set(player.id, [...(responseTimes.get(player.id) || []), responseTime]);
+    this._matchResponseTimes.set(match.id, responseTimes);
+
+    // Feed points into the match score
+    if (match.participant1Id === player.id) {
+      match.participant1Score += result.pointsEarned;
     } else {
-      participant.wrongAnswers++;
-      participant.streak = 0;
+      match.participant2Score += result.pointsEarned;
     }
 
-    // Update average response time
-    const totalAnswers = participant.correctAnswers + participant.wrongAnswers;
-    participant.averageResponseTime =
-      ((participant.averageResponseTime * (totalAnswers - 1)) + responseTime) / totalAnswers;
+    this._notifyTournamentUpdate(tournament);
 
-    this._notifyQuickMatchUpdate(match);
+    // Move on as soon as both connected players have answered
+    const playerIds = this._getMatchPlayerIds(match);
+    const allAnswered = playerIds.every(id =>
+      active.answered.has(id) || !tournament.participants.get(id)?.isConnected
+    );
+    if (allAnswered) {
+      active.close();
+    }
 
-    return isCorrect;
+    return result;
   }
 
   // ============ Direct Challenges ============
@@ -317,7 +476,7 @@ export class TournamentManager {
     challenger: Player,
     challengedId: string,
     challengedUsername: string,
-    config: { subject: SubjectType; difficulty: QuestionDifficulty; questionsPerMatch: number }
+    config: { subject: SubjectType; difficulty: QuestionDifficulty; questionsPerMatch: number; seed?: string }
   ): DirectChallenge | null {
     // Check if challenger is available
     if (this._playerTournaments.has(challenger.id) || this._playerQuickMatches.has(challenger.id)) {
@@ -375,7 +534,8 @@ export class TournamentManager {
       subject: challenge.config.subject,
       difficulty: challenge.config.difficulty,
       playerCount: 2,
-      questionsPerRound: challenge.config.questionsPerMatch
+      questionsPerRound: challenge.config.questionsPerMatch,
+      seed: challenge.config.seed
     };
 
     // Start the match directly
@@ -455,6 +615,15 @@ export class TournamentManager {
     return this._quickMatches.get(matchId);
   }
 
+  /**
+   * Get current league or Swiss standings (best first)
+   */
+  public getStandings(tournamentId: string): LeagueStanding[] {
+    const tournament = this._tournaments.get(tournamentId);
+    if (!tournament || !this._usesStandings(tournament)) return [];
+    return this._calculateStandings(tournament);
+  }
+
   /**
    * Get pending challenges for a player
    */
@@ -478,6 +647,14 @@ export class TournamentManager {
     this._onQuickMatchUpdate.push(callback);
   }
 
+  public onMatchQuestion(callback: (event: MatchQuestionEvent) => void): void {
+    this._onMatchQuestion.push(callback);
+  }
+
+  public onMatchEnd(callback: (event: MatchEndEvent) => void): void {
+    this._onMatchEnd.push(callback);
+  }
+
   // ============ Private Methods ============
 
   private _validateTournamentConfig(config: TournamentConfig): boolean {
@@ -488,6 +665,7 @@ export class TournamentManager {
     if (config.minParticipants < 2) return false;
     if (config.maxParticipants < config.minParticipants) return false;
     if (config.questionsPerMatch < 1) return false;
+    if (!this._offersCategory(config.subject, config.category)) return false;
 
     // Validate participant counts by type
     switch (config.type) {
@@ -495,9 +673,14 @@ export class TournamentManager {
         if (config.maxParticipants > 4) return false;
         break;
       case 'bracket':
-        // Bracket tournaments should have power-of-2 participants
-        const validSizes = [4, 8, 16, 32];
-        if (!validSizes.includes(config.maxParticipants)) return false;
+      case 'double-elimination':
+        // Any field size works - byes fill the bracket up to the next power of two
+        if (config.maxParticipants > MAX_BRACKET_SIZE) return false;
+        break;
+      case 'swiss':
+        if (config.maxParticipants < MIN_SWISS_PARTICIPANTS) return false;
+        if (config.maxParticipants > MAX_BRACKET_SIZE) return false;
+        if (config.swissRounds !== undefined && config.swissRounds < 1) return false;
         break;
       case 'league':
         if (config.maxParticipants < 4) return false;
@@ -516,6 +699,13 @@ export class TournamentManager {
     return true;
   }
 
+  /**
+   * Only categories the subject currently offers (e.g. Listen & Spell needs recordings); no category is always fine
+   */
+  private _offersCategory(subject: SubjectType, category?: string): boolean {
+    return !category || this._questionRegistry.getCategories(subject).some(c => c.id === category);
+  }
+
   private _addParticipant(tournament: Tournament, player: Player): void {
     const participant: TournamentParticipant = {
       playerId: player.id,
@@ -574,6 +764,12 @@ export class TournamentManager {
       case 'bracket':
         this._setupBracketTournament(tournament);
         break;
+      case 'double-elimination':
+        this._setupDoubleEliminationTournament(tournament);
+        break;
+      case 'swiss':
+        this._setupSwissTournament(tournament);
+        break;
       case 'league':
         this._setupLeagueTournament(tournament);
         break;
@@ -584,6 +780,7 @@ export class TournamentManager {
 
     tournament.status = 'in-progress';
     this._notifyTournamentUpdate(tournament);
+    this._persistTournaments();
   }
 
   private _setupQuickMatchTournament(tournament: Tournament): void {
@@ -612,83 +809,591 @@ export class TournamentManager {
   }
 
   private _setupBracketTournament(tournament: Tournament): void {
-    const participants = this._shuffleArray(Array.from(tournament.participants.keys()));
-    const totalRounds = Math.log2(participants.length);
+    const seeded = this._seedParticipants(tournament);
+    this._assignSeeds(tournament, seeded);
 
-    // Create first round matches
-    const firstRound: TournamentRound = {
-      roundNumber: 1,
-      matches: [],
-      status: 'pending'
-    };
+    // Pad the field to the next power of two - the missing seeds are byes for the top seeds
+    const bracketSize = Math.max(2, Math.pow(2, Math.ceil(Math.log2(seeded.length))));
+    const totalRounds = Math.log2(bracketSize);
+    const seedOrder = this._getBracketSeedOrder(bracketSize);
 
-    for (let i = 0; i < participants.length; i += 2) {
-      const match: TournamentMatch = {
-        id: this._generateId(),
-        tournamentId: tournament.id,
-        roundNumber: 1,
-        matchNumber: Math.floor(i / 2) + 1,
-        participant1Id: participants[i],
-        participant2Id: participants[i + 1] || null,
-        status: 'pending',
-        winnerId: null,
-        participant1Score: 0,
-        participant2Score: 0,
-        currentQuestionIndex: 0,
-        totalQuestions: tournament.config.questionsPerMatch
+    // Create every round up front so winners have a slot to advance into
+    tournament.rounds = [];
+    for (let r = 1; r <= totalRounds; r++) {
+      const round: TournamentRound = {
+        roundNumber: r,
+        matches: [],
+        status: 'pending'
       };
 
-      // Handle bye (odd participant)
-      if (!match.participant2Id) {
+      const matchesInRound = bracketSize / Math.pow(2, r);
+      for (let m = 0; m < matchesInRound; m++) {
+        round.matches.push(this._createMatch(tournament, r, m + 1, null, null));
+      }
+
+      tournament.rounds.push(round);
+    }
+
+    // Place seeds into the first round (1 vs 16, 8 vs 9, ...)
+    const firstRound = tournament.rounds[0];
+    firstRound.matches.forEach((match, i) => {
+      match.participant1Id = seeded[seedOrder[i * 2] - 1] || null;
+      match.participant2Id = seeded[seedOrder[i * 2 + 1] - 1] || null;
+    });
+
+    tournament.currentRound = 1;
+
+    // Handle byes - the seeded player advances without playing
+    for (const match of firstRound.matches) {
+      if (!match.participant1Id || !match.participant2Id) {
         match.status = 'completed';
-        match.winnerId = match.participant1Id;
+        match.winnerId = match.participant1Id || match.participant2Id;
+        this._advanceWinner(tournament, match);
       }
+    }
+
+    console.log(`[TournamentManager] Bracket ${tournament.id}: ${seeded.length} players, ${bracketSize - seeded.length} byes`);
+
+    // Start first round
+    this._startRound(tournament, firstRound);
+  }
 
-      firstRound.matches.push(match);
+  /**
+   * Order participants best-first for bracket seeding
+   */
+  private _seedParticipants(tournament: Tournament): string[] {
+    const participants = Array.from(tournament.participants.values());
+    const seeding = tournament.config.seeding || 'leaderboard';
+
+    if (seeding === 'random') {
+      return this._shuffleArray(participants.map(p => p.playerId));
     }
 
+    const leaderboard = LeaderboardManager.getInstance();
+    const persistence = PersistenceManager.getInstance();
+    const subject = tournament.config.subject;
+
+    const seedValue = (playerId: string): number => {
+      if (seeding === 'accuracy') {
+        return persistence.getPlayerData(playerId)?.subjectStats[subject]?.accuracy ?? 0;
+      }
+      // Leaderboard rank: lower is better, unranked players seeded last
+      return -(leaderboard.getPlayerRank('all-time', playerId) ?? Number.MAX_SAFE_INTEGER);
+    };
+
+    // Equal seed values fall back to join order
+    return participants
+      .sort((a, b) => seedValue(b.playerId) - seedValue(a.playerId) || a.joinedAt - b.joinedAt)
+      .map(p => p.playerId);
+  }
+
+  private _assignSeeds(tournament: Tournament, seeded: string[]): void {
+    seeded.forEach((playerId, index) => {
+      const participant = tournament.participants.get(playerId);
+      if (participant) participant.seed = index + 1;
+    });
+  }
+
+  /**
+   * Standard bracket seed order, e.g. size 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+   */
+  private _getBracketSeedOrder(size: number): number[] {
+    let order = [1];
+    while (order.length < size) {
+      const total = order.length * 2 + 1;
+      order = order.flatMap(seed => [seed, total - seed]);
+    }
+    return order;
+  }
+
+  /**
+   * Move a bracket match winner into their slot in the next round
+   */
+  private _advanceWinner(tournament: Tournament, match: TournamentMatch): void {
+    const nextRound = tournament.rounds[match.roundNumber]; // roundNumber is 1-based
+    if (!nextRound || !match.winnerId) return;
+
+    const nextMatch = nextRound.matches[Math.floor((match.matchNumber - 1) / 2)];
+    if (!nextMatch) return;
+
+    if ((match.matchNumber - 1) % 2 === 0) {
+      nextMatch.participant1Id = match.winnerId;
+    } else {
+      nextMatch.participant2Id = match.winnerId;
+    }
+  }
+
+  private _createMatch(
+    tournament: Tournament,
+    roundNumber: number,
+    matchNumber: number,
+    participant1Id: string | null,
+    participant2Id: string | null
+  ): TournamentMatch {
+    return {
+      id: this._generateId(),
+      tournamentId: tournament.id,
+      roundNumber,
+      matchNumber,
+      participant1Id,
+      participant2Id,
+      status: 'pending',
+      winnerId: null,
+      participant1Score: 0,
+      participant2Score: 0,
+      currentQuestionIndex: 0,
+      totalQuestions: tournament.config.questionsPerMatch
+    };
+  }
+
+  private _setupDoubleEliminationTournament(tournament: Tournament): void {
+    this._assignSeeds(tournament, this._seedParticipants(tournament));
+
+    // Rounds are generated one at a time from the winners and losers pools
+    tournament.rounds = [];
+    tournament.currentRound = 1;
+
+    const firstRound = this._buildDoubleEliminationRound(tournament, 1);
+    if (!firstRound) {
+      this._completeTournament(tournament);
+      return;
+    }
     tournament.rounds.push(firstRound);
+
+    console.log(`[TournamentManager] Double-elimination ${tournament.id}: ${tournament.participants.size} players`);
+
+    this._startRound(tournament, firstRound);
+  }
+
+  /**
+   * Pair the next double-elimination round. Unbeaten players meet in the winners bracket,
+   * one-loss players in the losers bracket; the last two meet in the grand final, which is
+   * replayed once if the losers-bracket champion wins it. Returns null when a champion remains.
+   */
+  private _buildDoubleEliminationRound(tournament: Tournament, roundNumber: number): TournamentRound | null {
+    const losses = this._countLosses(tournament);
+    const active = Array.from(tournament.participants.values())
+      .filter(p => !p.eliminated)
+      .sort((a, b) => (a.seed ?? Infinity) - (b.seed ?? Infinity))
+      .map(p => p.playerId);
+    if (active.length < 2) return null;
+
+    const winnersPool = active.filter(id => !losses.get(id));
+    const losersPool = active.filter(id => losses.get(id) === 1);
+
+    const round: TournamentRound = {
+      roundNumber,
+      matches: [],
+      status: 'pending'
+    };
+
+    const addMatch = (participant1Id: string, participant2Id: string, bracket: MatchBracket) => {
+      const match = this._createMatch(tournament, roundNumber, round.matches.length + 1, participant1Id, participant2Id);
+      match.bracket = bracket;
+      round.matches.push(match);
+    };
+
+    if (winnersPool.length === 1 && losersPool.length === 1) {
+      addMatch(winnersPool[0], losersPool[0], 'grand-final');
+    } else if (winnersPool.length === 0 && losersPool.length === 2) {
+      // Winners-bracket champion lost the grand final - both have one loss, play again
+      const grandFinal = tournament.rounds
+        .flatMap(r => r.matches)
+        .find(m => m.bracket === 'grand-final');
+      const [first, second] = grandFinal?.participant1Id && grandFinal.participant2Id
+        ? [grandFinal.participant1Id, grandFinal.participant2Id]
+        : losersPool;
+      addMatch(first, second, 'grand-final-reset');
+    } else {
+      for (const [pool, bracket] of [[winnersPool, 'winners'], [losersPool, 'losers']] as [string[], MatchBracket][]) {
+        // Top seed takes the bye on an odd pool, then top plays bottom
+        const pairable = pool.length % 2 === 1 ? pool.slice(1) : pool;
+        for (let i = 0; i < pairable.length / 2; i++) {
+          addMatch(pairable[i], pairable[pairable.length - 1 - i], bracket);
+        }
+      }
+    }
+
+    return round;
+  }
+
+  /**
+   * Losses per player across all completed head-to-head matches
+   */
+  private _countLosses(tournament: Tournament): Map<string, number> {
+    const losses = new Map<string, number>();
+    for (const match of tournament.rounds.flatMap(round => round.matches)) {
+      if (match.status !== 'completed' || !match.winnerId) continue;
+      if (!match.participant1Id || !match.participant2Id) continue;
+
+      const loserId = match.winnerId === match.participant1Id ? match.participant2Id : match.participant1Id;
+      losses.set(loserId, (losses.get(loserId) || 0) + 1);
+    }
+    return losses;
+  }
+
+  /**
+   * After a double-elimination round: place knocked-out players, then pair the next round
+   */
+  private _advanceDoubleElimination(tournament: Tournament): void {
+    const participants = Array.from(tournament.participants.values());
+    const remaining = participants.filter(p => !p.eliminated).length;
+
+    // Everyone knocked out in the same round shares a placement
+    for (const participant of participants) {
+      if (participant.eliminated && participant.finalPlacement === undefined) {
+        participant.finalPlacement = remaining + 1;
+      }
+    }
+
+    const nextRound = this._buildDoubleEliminationRound(tournament, tournament.currentRound + 1);
+    if (!nextRound) {
+      this._completeTournament(tournament);
+      return;
+    }
+
+    tournament.rounds.push(nextRound);
+    tournament.currentRound = nextRound.roundNumber;
+
+    setTimeout(() => {
+      this._startRound(tournament, nextRound);
+    }, BRACKET_ROUND_DELAY);
+  }
+
+  private _setupSwissTournament(tournament: Tournament): void {
+    this._assignSeeds(tournament, this._seedParticipants(tournament));
+
+    tournament.rounds = [];
     tournament.currentRound = 1;
 
-    // Create placeholder rounds
-    let matchesInRound = firstRound.matches.length / 2;
-    for (let r = 2; r <= totalRounds; r++) {
+    const firstRound = this._buildSwissRound(tournament, 1);
+    tournament.rounds.push(firstRound);
+
+    console.log(`[TournamentManager] Swiss ${tournament.id}: ${tournament.participants.size} players, ${this._getSwissRoundCount(tournament)} rounds`);
+
+    this._startRound(tournament, firstRound);
+  }
+
+  private _getSwissRoundCount(tournament: Tournament): number {
+    const players = tournament.participants.size;
+    const requested = tournament.config.swissRounds ?? Math.ceil(Math.log2(players));
+    return Math.max(1, Math.min(requested, players - 1));
+  }
+
+  /**
+   * Pair the next Swiss round: players on similar points meet, avoiding rematches.
+   * On an odd field the lowest-ranked player without a bye sits out and scores a win.
+   */
+  private _buildSwissRound(tournament: Tournament, roundNumber: number): TournamentRound {
+    const points = new Map(this._calculateStandings(tournament).map(s => [s.playerId, s.points]));
+    const ranked = Array.from(tournament.participants.values())
+      .sort((a, b) =>
+        (points.get(b.playerId) || 0) - (points.get(a.playerId) || 0) ||
+        (a.seed ?? Infinity) - (b.seed ?? Infinity)
+      )
+      .map(p => p.playerId);
+
+    const opponents = new Map<string, Set<string>>();
+    const hadBye = new Set<string>();
+    for (const match of tournament.rounds.flatMap(round => round.matches)) {
+      if (match.participant1Id && match.participant2Id) {
+        if (!opponents.has(match.participant1Id)) opponents.set(match.participant1Id, new Set());
+        if (!opponents.has(match.participant2Id)) opponents.set(match.participant2Id, new Set());
+        opponents.get(match.participant1Id)!.add(match.participant2Id);
+        opponents.get(match.participant2Id)!.add(match.participant1Id);
+      } else if (match.participant1Id) {
+        hadBye.add(match.participant1Id);
+      }
+    }
+
+    const round: TournamentRound = {
+      roundNumber,
+      matches: [],
+      status: 'pending'
+    };
+
+    let byeId: string | null = null;
+    if (ranked.length % 2 === 1) {
+      byeId = [...ranked].reverse().find(id => !hadBye.has(id)) ?? ranked[ranked.length - 1];
+      ranked.splice(ranked.indexOf(byeId), 1);
+    }
+
+    let pairs = this._pairSwiss(ranked, opponents, { remaining: SWISS_PAIRING_ATTEMPTS });
+    if (!pairs) {
+      console.warn(`[TournamentManager] Swiss ${tournament.id} round ${roundNumber}: no rematch-free pairing, pairing by rank`);
+      pairs = [];
+      for (let i = 0; i + 1 < ranked.length; i += 2) {
+        pairs.push([ranked[i], ranked[i + 1]]);
+      }
+    }
+
+    for (const [participant1Id, participant2Id] of pairs) {
+      round.matches.push(this._createMatch(tournament, roundNumber, round.matches.length + 1, participant1Id, participant2Id));
+    }
+
+    if (byeId) {
+      const bye = this._createMatch(tournament, roundNumber, round.matches.length + 1, byeId, null);
+      bye.status = 'completed';
+      bye.winnerId = byeId;
+      bye.completedAt = Date.now();
+      round.matches.push(bye);
+    }
+
+    return round;
+  }
+
+  /**
+   * Pair players in rank order, backtracking to avoid rematches (null if impossible within budget)
+   */
+  private _pairSwiss(
+    pool: string[],
+    opponents: Map<string, Set<string>>,
+    budget: { remaining: number }
+  ): [string, string][] | null {
+    if (pool.length === 0) return [];
+    if (--budget.remaining < 0) return null;
+
+    const [first, ...rest] = pool;
+    for (let i = 0; i < rest.length; i++) {
+      if (opponents.get(first)?.has(rest[i])) continue;
+
+      const pairs = this._pairSwiss(rest.filter((_, j) => j !== i), opponents, budget);
+      if (pairs) return [[first, rest[i]], ...pairs];
+    }
+
+    return null;
+  }
+
+  /**
+   * After a Swiss round: pair the next round or finish on standings
+   */
+  private _advanceSwiss(tournament: Tournament): void {
+    if (tournament.currentRound >= this._getSwissRoundCount(tournament)) {
+      this._completeTournament(tournament);
+      return;
+    }
+
+    const nextRound = this._buildSwissRound(tournament, tournament.currentRound + 1);
+    tournament.rounds.push(nextRound);
+    tournament.currentRound = nextRound.roundNumber;
+
+    setTimeout(() => {
+      this._startRound(tournament, nextRound);
+    }, BRACKET_ROUND_DELAY);
+  }
+
+  private _setupLeagueTournament(tournament: Tournament): void {
+    // League: everyone plays everyone once (circle-method round-robin)
+    const players: (string | null)[] = Array.from(tournament.participants.keys());
+    if (players.length % 2 === 1) {
+      players.push(null); // Bye slot - whoever is paired with it sits the round out
+    }
+
+    const totalRounds = players.length - 1;
+    const matchesPerRound = players.length / 2;
+    tournament.rounds = [];
+
+    for (let r = 1; r <= totalRounds; r++) {
       const round: TournamentRound = {
         roundNumber: r,
         matches: [],
         status: 'pending'
       };
 
-      for (let m = 0; m < matchesInRound; m++) {
-        round.matches.push({
-          id: this._generateId(),
-          tournamentId: tournament.id,
-          roundNumber: r,
-          matchNumber: m + 1,
-          participant1Id: null,
-          participant2Id: null,
-          status: 'pending',
-          winnerId: null,
-          participant1Score: 0,
-          participant2Score: 0,
-          currentQuestionIndex: 0,
-          totalQuestions: tournament.config.questionsPerMatch
-        });
+      for (let i = 0; i < matchesPerRound; i++) {
+        const home = players[i];
+        const away = players[players.length - 1 - i];
+        if (!home || !away) continue;
+
+        round.matches.push(this._createMatch(tournament, r, round.matches.length + 1, home, away));
       }
 
       tournament.rounds.push(round);
-      matchesInRound = Math.ceil(matchesInRound / 2);
+
+      // Rotate everyone except the first player
+      players.splice(1, 0, players.pop()!);
     }
 
-    // Start first round
-    this._startRound(tournament, firstRound);
+    tournament.currentRound = 1;
+
+    console.log(`[TournamentManager] League ${tournament.id} scheduled: ${totalRounds} rounds`);
+
+    this._startAvailableLeagueMatches(tournament);
   }
 
-  private _setupLeagueTournament(tournament: Tournament): void {
-    // League: everyone plays everyone
-    // Implementation simplified - just track standings
-    tournament.rounds = [];
-    tournament.currentRound = 1;
+  /**
+   * Start every scheduled league match whose two players are online and not already playing.
+   * Matches with absent players stay pending until both are back (possibly in a later session).
+   */
+  private _startAvailableLeagueMatches(tournament: Tournament): void {
+    if (tournament.status === 'completed' || tournament.status === 'cancelled') return;
+
+    const allMatches = tournament.rounds.flatMap(round => round.matches);
+    const busy = new Set<string>();
+    for (const match of allMatches) {
+      if (match.status === 'in-progress' || this._scheduledLeagueMatches.has(match.id)) {
+        this._getMatchPlayerIds(match).forEach(id => busy.add(id));
+      }
+    }
+
+    for (const round of tournament.rounds) {
+      for (const match of round.matches) {
+        if (match.status !== 'pending' || this._scheduledLeagueMatches.has(match.id)) continue;
+
+        const playerIds = this._getMatchPlayerIds(match);
+        const ready = playerIds.length === 2 && playerIds.every(id =>
+          !busy.has(id) &&
+          !this._playerQuickMatches.has(id) &&
+          tournament.participants.get(id)?.isConnected
+        );
+        if (!ready) continue;
+
+        playerIds.forEach(id => busy.add(id));
+        this._scheduledLeagueMatches.add(match.id);
+
+        if (round.status === 'pending') {
+          round.status = 'in-progress';
+          round.startedAt = Date.now();
+        }
+
+        setTimeout(() => {
+          this._scheduledLeagueMatches.delete(match.id);
+          this._startMatch(tournament, match);
+        }, MATCH_START_COUNTDOWN * 1000);
+      }
+    }
+  }
+
+  /**
+   * After a league match: close finished rounds, then schedule more matches or finish the league
+   */
+  private _advanceLeague(tournament: Tournament): void {
+    for (const round of tournament.rounds) {
+      if (round.status !== 'completed' && round.matches.every(m => m.status === 'completed')) {
+        round.status = 'completed';
+        round.completedAt = Date.now();
+      }
+    }
+
+    const nextRound = tournament.rounds.find(round => round.status !== 'completed');
+    if (!nextRound) {
+      this._completeTournament(tournament);
+      return;
+    }
+
+    tournament.currentRound = nextRound.roundNumber;
+
+    setTimeout(() => {
+      this._startAvailableLeagueMatches(tournament);
+    }, LEAGUE_MATCH_DELAY);
+  }
+
+  /**
+   * League and Swiss formats rank players on a points table, so matches can be drawn
+   */
+  private _usesStandings(tournament: Tournament): boolean {
+    return tournament.config.type === 'league' || tournament.config.type === 'swiss';
+  }
+
+  private _calculateStandings(tournament: Tournament): LeagueStanding[] {
+    const standings = new Map<string, LeagueStanding>();
+    const totalScores = new Map<string, number>();
+
+    for (const participant of tournament.participants.values()) {
+      standings.set(participant.playerId, {
+        playerId: participant.playerId,
+        username: participant.username,
+        points: 0,
+        matchesPlayed: 0,
+        matchesWon: 0,
+        matchesDrawn: 0,
+        totalCorrect: participant.correctAnswers,
+        totalWrong: participant.wrongAnswers,
+        averageScore: 0,
+        rank: 0
+      });
+      totalScores.set(participant.playerId, 0);
+    }
+
+    for (const round of tournament.rounds) {
+      for (const match of round.matches) {
+        if (match.status !== 'completed') continue;
+
+        // Swiss bye - scores a win without playing
+        if (!match.participant2Id) {
+          const standing = match.participant1Id ? standings.get(match.participant1Id) : undefined;
+          if (standing) {
+            standing.matchesWon++;
+            standing.points += LEAGUE_POINTS_WIN;
+          }
+          continue;
+        }
+
+        const sides: [string | null, number][] = [
+          [match.participant1Id, match.participant1Score],
+          [match.participant2Id, match.participant2Score]
+        ];
+
+        for (const [playerId, score] of sides) {
+          const standing = playerId ? standings.get(playerId) : undefined;
+          if (!playerId || !standing) continue;
+
+          standing.matchesPlayed++;
+          totalScores.set(playerId, (totalScores.get(playerId) || 0) + score);
+
+          if (match.winnerId === playerId) {
+            standing.matchesWon++;
+            standing.points += LEAGUE_POINTS_WIN;
+          } else if (match.winnerId === null) {
+            standing.matchesDrawn++;
+            standing.points += LEAGUE_POINTS_DRAW;
+          }
+        }
+      }
+    }
+
+    const accuracy = (s: LeagueStanding) => {
+      const answered = s.totalCorrect + s.totalWrong;
+      return answered > 0 ? s.totalCorrect / answered : 0;
+    };
+
+    const sorted = Array.from(standings.values());
+    sorted.forEach(s => {
+      s.averageScore = s.matchesPlayed > 0 ? (totalScores.get(s.playerId) || 0) / s.matchesPlayed : 0;
+    });
+
+    // Swiss: Buchholz (opponents' combined points) rewards a tougher draw
+    const isSwiss = tournament.config.type === 'swiss';
+    if (isSwiss) {
+      sorted.forEach(s => {
+        s.buchholz = 0;
+      });
+      for (const match of tournament.rounds.flatMap(round => round.matches)) {
+        if (match.status !== 'completed' || !match.participant1Id || !match.participant2Id) continue;
+
+        const standing1 = standings.get(match.participant1Id);
+        const standing2 = standings.get(match.participant2Id);
+        if (!standing1 || !standing2) continue;
+
+        standing1.buchholz! += standing2.points;
+        standing2.buchholz! += standing1.points;
+      }
+    }
+
+    // Tiebreakers: points, Buchholz (Swiss), wins, average match score, accuracy, then name for a stable order
+    sorted.sort((a, b) =>
+      b.points - a.points ||
+      (isSwiss ? (b.buchholz || 0) - (a.buchholz || 0) : 0) ||
+      b.matchesWon - a.matchesWon ||
+      b.averageScore - a.averageScore ||
+      accuracy(b) - accuracy(a) ||
+      a.username.localeCompare(b.username)
+    );
+    sorted.forEach((s, index) => {
+      s.rank = index + 1;
+    });
+
+    return sorted;
   }
 
   private _setupChallengeTournament(tournament: Tournament): void {
@@ -718,7 +1423,11 @@ export class TournamentManager {
     match.status = 'in-progress';
     match.startedAt = Date.now();
 
-    console.log(`[TournamentManager] Starting match ${match.id}`);
+    // Derive from the tournament seed and bracket position, so the match replays regardless of its ID
+    const seed = `${tournament.config.seed || tournament.id}:${match.bracket || 'main'}:${match.roundNumber}:${match.matchNumber}`;
+    this._matchRandoms.set(match.id, createSeededRandom(seed));
+
+    console.log(`[TournamentManager] Starting match ${match.id} (seed ${seed})`);
 
     // Start first question
     this._startMatchQuestion(tournament, match);
@@ -726,31 +1435,56 @@ export class TournamentManager {
 
   private _startMatchQuestion(tournament: Tournament, match: TournamentMatch): void {
     // Generate question
-    const question = this._questionRegistry.generateQuestion(
-      tournament.config.subject,
-      tournament.config.difficulty,
-      tournament.config.category
-    );
+    const random = this._matchRandoms.get(match.id) || Math.random;
+    const question = this._questionRegistry.generateQuestion(tournament.config.subject, tournament.config.difficulty, {
+      category: tournament.config.category,
+      random,
+      filter: { gradeLevel: tournament.config.gradeLevel, standard: tournament.config.standard }
+    });
 
     if (!question) {
       console.error('[TournamentManager] Failed to generate question');
       return;
     }
 
-    // Store question for validation (simplified - in real impl would store per-match)
-    (match as any)._currentQuestion = question;
+    const questionNumber = match.currentQuestionIndex + 1;
+    const timeLimit = (tournament.config.timePerQuestion || 15) * 1000;
+    match.questionStartTime = Date.now();
+
+    // Store question for validation
+    this._matchQuestions.set(match.id, {
+      question,
+      questionNumber,
+      answered: new Set(),
+      close: () => this._endMatchQuestion(tournament, match, questionNumber)
+    });
 
     // Notify participants
     this._notifyTournamentUpdate(tournament);
+    this._notifyMatchQuestion({
+      matchId: match.id,
+      tournamentId: tournament.id,
+      playerIds: this._getMatchPlayerIds(match),
+      question,
+      answerOrder: this._shuffleArray(getAnswerChoices(question), random),
+      questionNumber,
+      totalQuestions: match.totalQuestions,
+      timeLimitMs: timeLimit,
+      isSuddenDeath: questionNumber > tournament.config.questionsPerMatch
+    });
 
     // Set time limit
-    const timeLimit = (tournament.config.timePerQuestion || 15) * 1000;
     setTimeout(() => {
-      this._endMatchQuestion(tournament, match);
+      this._endMatchQuestion(tournament, match, questionNumber);
     }, timeLimit);
   }
 
-  private _endMatchQuestion(tournament: Tournament, match: TournamentMatch): void {
+  private _endMatchQuestion(tournament: Tournament, match: TournamentMatch, questionNumber: number): void {
+    // Ignore if this question was already closed (everyone answered before the time limit)
+    const active = this._matchQuestions.get(match.id);
+    if (!active || active.questionNumber !== questionNumber) return;
+    this._matchQuestions.delete(match.id);
+
     match.currentQuestionIndex++;
 
     if (match.currentQuestionIndex >= match.totalQuestions) {
@@ -759,25 +1493,38 @@ export class TournamentManager {
       // Next question
       setTimeout(() => {
         this._startMatchQuestion(tournament, match);
-      }, 2000); // 2 second delay between questions
+      }, BETWEEN_QUESTIONS_DELAY);
     }
   }
 
   private _endMatch(tournament: Tournament, match: TournamentMatch): void {
+    // Level on points and response time - play another question
+    if (this._needsSuddenDeath(tournament, match)) {
+      this._startSuddenDeath(tournament, match);
+      return;
+    }
+
     match.status = 'completed';
     match.completedAt = Date.now();
 
     // Determine winner
-    if (match.participant1Score > match.participant2Score) {
-      match.winnerId = match.participant1Id;
-    } else if (match.participant2Score > match.participant1Score) {
-      match.winnerId = match.participant2Id;
-    } else {
-      // Tie - random or use response time
-      match.winnerId = Math.random() > 0.5 ? match.participant1Id : match.participant2Id;
+    match.winnerId = this._determineMatchWinner(tournament, match);
+    this._matchResponseTimes.delete(match.id);
+    this._matchRandoms.delete(match.id);
+
+    // Bracket winners move straight into their next-round slot
+    if (tournament.config.type === 'bracket') {
+      this._advanceWinner(tournament, match);
     }
 
     // Update participant stats
+    for (const id of this._getMatchPlayerIds(match)) {
+      const participant = tournament.participants.get(id);
+      if (participant) {
+        participant.matchesPlayed++;
+      }
+    }
+
     if (match.winnerId) {
       const winner = tournament.participants.get(match.winnerId);
       if (winner) {
@@ -787,18 +1534,109 @@ export class TournamentManager {
 
     // Update loser
     const loserId = match.winnerId === match.participant1Id ? match.participant2Id : match.participant1Id;
-    if (loserId) {
+    if (match.winnerId && loserId) {
       const loser = tournament.participants.get(loserId);
       if (loser && tournament.config.type === 'bracket') {
         loser.eliminated = true;
+      } else if (loser && tournament.config.type === 'double-elimination') {
+        loser.eliminated = (this._countLosses(tournament).get(loserId) || 0) >= DOUBLE_ELIMINATION_LOSSES;
       }
     }
 
     console.log(`[TournamentManager] Match ${match.id} completed. Winner: ${match.winnerId}`);
 
-    // Check round/tournament completion
-    this._checkRoundCompletion(tournament);
+    // Rate on the match result (tiebreak winners count as wins, draws as draws)
+    if (match.participant1Id && match.participant2Id) {
+      this._updateRatings(tournament.config.subject, [match.participant1Id, match.participant2Id].map(id => ({
+        playerId: id,
+        username: tournament.participants.get(id)?.username || 'Unknown',
+        score: match.winnerId === id ? 1 : 0
+      })));
+    }
+
+    const results: MatchPlayerResult[] = [
+      { id: match.participant1Id, score: match.participant1Score },
+      { id: match.participant2Id, score: match.participant2Score }
+    ]
+      .filter((entry): entry is { id: string; score: number } => entry.id !== null)
+      .map(entry => ({
+        playerId: entry.id,
+        username: tournament.participants.get(entry.id)?.username || 'Unknown',
+        score: entry.score
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    this._notifyMatchEnd({
+      matchId: match.id,
+      tournamentId: tournament.id,
+      playerIds: this._getMatchPlayerIds(match),
+      winnerId: match.winnerId,
+      results
+    });
+
+    // Check round/tournament completion (single-match tournaments have no rounds)
+    if (tournament.config.type === 'league') {
+      this._advanceLeague(tournament);
+    } else if (tournament.rounds.length === 0) {
+      this._completeTournament(tournament);
+    } else {
+      this._checkRoundCompletion(tournament);
+    }
     this._notifyTournamentUpdate(tournament);
+    this._persistTournaments();
+  }
+
+  /**
+   * Winner by score, then faster average response time, then higher seed.
+   * League and Swiss matches level on points are draws.
+   */
+  private _determineMatchWinner(tournament: Tournament, match: TournamentMatch): string | null {
+    if (match.participant1Score > match.participant2Score) return match.participant1Id;
+    if (match.participant2Score > match.participant1Score) return match.participant2Id;
+    if (this._usesStandings(tournament)) return null;
+
+    const time1 = this._getAverageMatchResponseTime(match.id, match.participant1Id);
+    const time2 = this._getAverageMatchResponseTime(match.id, match.participant2Id);
+    if (time1 < time2) return match.participant1Id;
+    if (time2 < time1) return match.participant2Id;
+
+    // Still level after sudden death - higher seed (lower number) advances
+    const seed1 = match.participant1Id ? tournament.participants.get(match.participant1Id)?.seed : undefined;
+    const seed2 = match.participant2Id ? tournament.participants.get(match.participant2Id)?.seed : undefined;
+    if (seed2 !== undefined && (seed1 === undefined || seed2 < seed1)) return match.participant2Id;
+    return match.participant1Id;
+  }
+
+  private _needsSuddenDeath(tournament: Tournament, match: TournamentMatch): boolean {
+    if (this._usesStandings(tournament)) return false;
+    if (match.participant1Score !== match.participant2Score) return false;
+
+    const suddenDeathPlayed = match.totalQuestions - tournament.config.questionsPerMatch;
+    if (suddenDeathPlayed >= MAX_SUDDEN_DEATH_QUESTIONS) return false;
+
+    return this._getAverageMatchResponseTime(match.id, match.participant1Id) ===
+      this._getAverageMatchResponseTime(match.id, match.participant2Id);
+  }
+
+  private _startSuddenDeath(tournament: Tournament, match: TournamentMatch): void {
+    match.totalQuestions++;
+
+    console.log(`[TournamentManager] Match ${match.id} tied - sudden-death question`);
+
+    this._notifyTournamentUpdate(tournament);
+
+    setTimeout(() => {
+      this._startMatchQuestion(tournament, match);
+    }, BETWEEN_QUESTIONS_DELAY);
+  }
+
+  /**
+   * Average response time in a match (Infinity if the player never answered)
+   */
+  private _getAverageMatchResponseTime(matchId: string, playerId: string | null): number {
+    const times = playerId ? this._matchResponseTimes.get(matchId)?.get(playerId) : undefined;
+    if (!times || times.length === 0) return Infinity;
+    return times.reduce((a, b) => a + b, 0) / times.length;
   }
 
   private _checkRoundCompletion(tournament: Tournament): void {
@@ -813,24 +1651,25 @@ export class TournamentManager {
 
     console.log(`[TournamentManager] Round ${currentRound.roundNumber} completed`);
 
+    // Swiss and double-elimination pair each round from the results so far
+    if (tournament.config.type === 'swiss') {
+      this._advanceSwiss(tournament);
+      return;
+    }
+    if (tournament.config.type === 'double-elimination') {
+      this._advanceDoubleElimination(tournament);
+      return;
+    }
+
     // Check if tournament is complete
     if (tournament.currentRound >= tournament.rounds.length) {
       this._completeTournament(tournament);
       return;
     }
 
-    // Advance winners to next round
+    // Winners were placed into the next round as each match finished
     const nextRound = tournament.rounds[tournament.currentRound];
     if (nextRound) {
-      // Populate next round with winners
-      const winners = currentRound.matches.map(m => m.winnerId).filter(Boolean);
-
-      for (let i = 0; i < nextRound.matches.length; i++) {
-        const match = nextRound.matches[i];
-        match.participant1Id = winners[i * 2] || null;
-        match.participant2Id = winners[i * 2 + 1] || null;
-      }
-
       tournament.currentRound++;
 
       // Start next round after delay
@@ -844,27 +1683,48 @@ export class TournamentManager {
     tournament.status = 'completed';
     tournament.completedAt = Date.now();
 
-    // Determine final winner
-    const lastRound = tournament.rounds[tournament.rounds.length - 1];
-    const finalMatch = lastRound?.matches[0];
+    if (this._usesStandings(tournament)) {
+      // League and Swiss placements come straight from the final standings
+      const standings = this._calculateStandings(tournament);
+      tournament.winnerId = standings[0]?.playerId;
+      tournament.finalPlacements = new Map(standings.map(s => [s.playerId, s.rank]));
+    } else if (tournament.config.type === 'double-elimination') {
+      // Last player standing wins; everyone else was placed as they were knocked out
+      const champion = Array.from(tournament.participants.values()).find(p => !p.eliminated);
+      if (champion) {
+        champion.finalPlacement = 1;
+        tournament.winnerId = champion.playerId;
+      }
 
-    if (finalMatch?.winnerId) {
-      tournament.winnerId = finalMatch.winnerId;
-    }
+      tournament.finalPlacements = new Map();
+      for (const participant of tournament.participants.values()) {
+        if (participant.finalPlacement !== undefined) {
+          tournament.finalPlacements.set(participant.playerId, participant.finalPlacement);
+        }
+      }
+    } else {
+      // Determine final winner
+      const lastRound = tournament.rounds[tournament.rounds.length - 1];
+      const finalMatch = lastRound?.matches[0] ?? tournament.currentMatch;
 
-    // Calculate placements
-    tournament.finalPlacements = new Map();
-    if (tournament.winnerId) {
-      tournament.finalPlacements.set(tournament.winnerId, 1);
-    }
+      if (finalMatch?.winnerId) {
+        tournament.winnerId = finalMatch.winnerId;
+      }
+
+      // Calculate placements
+      tournament.finalPlacements = new Map();
+      if (tournament.winnerId) {
+        tournament.finalPlacements.set(tournament.winnerId, 1);
+      }
 
-    // Award second place to final loser
-    if (finalMatch) {
-      const secondPlace = finalMatch.winnerId === finalMatch.participant1Id
-        ? finalMatch.participant2Id
-        : finalMatch.participant1Id;
-      if (secondPlace) {
-        tournament.finalPlacements.set(secondPlace, 2);
+      // Award second place to final loser
+      if (finalMatch) {
+        const secondPlace = finalMatch.winnerId === finalMatch.participant1Id
+          ? finalMatch.participant2Id
+          : finalMatch.participant1Id;
+        if (secondPlace) {
+          tournament.finalPlacements.set(secondPlace, 2);
+        }
       }
     }
 
@@ -894,6 +1754,7 @@ export class TournamentManager {
 
     this._notifyTournamentUpdate(tournament);
     this._tournaments.delete(tournament.id);
+    this._persistTournaments();
   }
 
   private _distributeRewards(tournament: Tournament): void {
@@ -915,21 +1776,72 @@ export class TournamentManager {
     return `${config.subject}_${config.difficulty}_${config.playerCount}`;
   }
 
-  private _startQuickMatch(queueKey: string, config: QuickMatchConfig): void {
+  /**
+   * Start a quick match if enough queued players fall within each other's rating window
+   */
+  private _tryStartQuickMatch(queueKey: string, config: QuickMatchConfig): boolean {
     const queue = this._quickMatchQueues.get(queueKey);
-    if (!queue || queue.size < config.playerCount) return;
+    if (!queue || queue.size < config.playerCount) return false;
 
-    // Get players from queue
-    const playerIds = Array.from(queue).slice(0, config.playerCount);
+    const persistence = PersistenceManager.getInstance();
+    const now = Date.now();
+    const queued = Array.from(queue).map(id => {
+      const joinedAt = this._queueJoinTimes.get(id) ?? now;
+      return {
+        id,
+        joinedAt,
+        rating: persistence.getRating(id, config.subject),
+        window: MATCHMAKING_BASE_WINDOW + Math.floor((now - joinedAt) / MATCHMAKING_WIDEN_INTERVAL) * MATCHMAKING_WINDOW_GROWTH
+      };
+    });
+
+    // Longest-waiting players get first pick of opponents
+    queued.sort((a, b) => a.joinedAt - b.joinedAt);
+
+    for (const anchor of queued) {
+      const opponents = queued
+        .filter(other => other !== anchor)
+        .filter(other => Math.abs(other.rating - anchor.rating) <= Math.max(anchor.window, other.window))
+        .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+
+      if (opponents.length >= config.playerCount - 1) {
+        const playerIds = [anchor, ...opponents.slice(0, config.playerCount - 1)].map(p => p.id);
+        this._startQuickMatch(queueKey, config, playerIds);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Re-run matchmaking for a waiting player each time their rating window widens
+   */
+  private _scheduleMatchmakingRetry(playerId: string, queueKey: string, config: QuickMatchConfig): void {
+    setTimeout(() => {
+      if (!this._quickMatchQueues.get(queueKey)?.has(playerId)) return;
+
+      if (!this._tryStartQuickMatch(queueKey, config)) {
+        this._scheduleMatchmakingRetry(playerId, queueKey, config);
+      }
+    }, MATCHMAKING_WIDEN_INTERVAL);
+  }
+
+  private _startQuickMatch(queueKey: string, config: QuickMatchConfig, playerIds: string[]): void {
+    const queue = this._quickMatchQueues.get(queueKey);
+    if (!queue) return;
 
     // Remove from queue
-    playerIds.forEach(id => queue.delete(id));
+    playerIds.forEach(id => {
+      queue.delete(id);
+      this._queueJoinTimes.delete(id);
+    });
 
     // Create match
     const matchId = this._generateId();
     const players: TournamentParticipant[] = playerIds.map(id => ({
       playerId: id,
-      username: `Player_${id.substring(0, 6)}`, // TODO: Get actual username
+      username: this._playerUsernames.get(id) || `Player_${id.substring(0, 6)}`,
       joinedAt: Date.now(),
       currentScore: 0,
       correctAnswers: 0,
@@ -946,6 +1858,7 @@ export class TournamentManager {
 
     const match: QuickMatchState = {
       matchId,
+      seed: config.seed || createRandomSeed(),
       players,
       currentQuestion: 0,
       totalQuestions: config.questionsPerRound,
@@ -954,11 +1867,12 @@ export class TournamentManager {
     };
 
     this._quickMatches.set(matchId, match);
+    this._matchRandoms.set(matchId, createSeededRandom(match.seed));
 
     // Map players to match
     playerIds.forEach(id => this._playerQuickMatches.set(id, matchId));
 
-    console.log(`[TournamentManager] Quick match ${matchId} starting with ${playerIds.length} players`);
+    console.log(`[TournamentManager] Quick match ${matchId} starting with ${playerIds.length} players (seed ${match.seed})`);
 
     // Start countdown
     this._runQuickMatchCountdown(match, config);
@@ -984,11 +1898,11 @@ export class TournamentManager {
     match.questionStartTime = Date.now();
 
     // Generate question
-    const question = this._questionRegistry.generateQuestion(
-      config.subject,
-      config.difficulty,
-      config.category
-    );
+    const random = this._matchRandoms.get(match.matchId) || Math.random;
+    const question = this._questionRegistry.generateQuestion(config.subject, config.difficulty, {
+      category: config.category,
+      random
+    });
 
     if (!question) {
       console.error('[TournamentManager] Failed to generate quick match question');
@@ -996,60 +1910,168 @@ export class TournamentManager {
     }
 
     // Store for validation
-    (match as any)._currentQuestion = question;
+    const questionNumber = match.currentQuestion;
+    this._matchQuestions.set(match.matchId, {
+      question,
+      questionNumber,
+      answered: new Set(),
+      close: () => this._endQuickMatchQuestion(match, config, questionNumber)
+    });
 
     this._notifyQuickMatchUpdate(match);
+    this._notifyMatchQuestion({
+      matchId: match.matchId,
+      playerIds: match.players.filter(p => p.isConnected).map(p => p.playerId),
+      question,
+      answerOrder: this._shuffleArray(getAnswerChoices(question), random),
+      questionNumber,
+      totalQuestions: match.totalQuestions,
+      timeLimitMs: QUESTION_TIME_LIMIT
+    });
 
     // Set time limit
     setTimeout(() => {
-      this._endQuickMatchQuestion(match, config);
+      this._endQuickMatchQuestion(match, config, questionNumber);
     }, QUESTION_TIME_LIMIT);
   }
 
-  private _endQuickMatchQuestion(match: QuickMatchState, config: QuickMatchConfig): void {
+  private _endQuickMatchQuestion(match: QuickMatchState, config: QuickMatchConfig, questionNumber: number): void {
+    // Ignore if this question was already closed (everyone answered before the time limit)
+    const active = this._matchQuestions.get(match.matchId);
+    if (!active || active.questionNumber !== questionNumber) return;
+    this._matchQuestions.delete(match.matchId);
+
     if (match.currentQuestion >= match.totalQuestions) {
-      this._endQuickMatch(match);
+      this._endQuickMatch(match, config);
     } else {
       setTimeout(() => {
         this._startQuickMatchQuestion(match, config);
-      }, 2000);
+      }, BETWEEN_QUESTIONS_DELAY);
     }
   }
 
-  private _endQuickMatch(match: QuickMatchState): void {
+  private _endQuickMatch(match: QuickMatchState, config: QuickMatchConfig): void {
     match.status = 'results';
 
-    // Determine winner
+    // Determine winner (ties have no winner)
     match.players.sort((a, b) => b.currentScore - a.currentScore);
+    const [first, second] = match.players;
+    const winnerId = first && (!second || first.currentScore > second.currentScore) ? first.playerId : null;
+
+    match.players.forEach(p => {
+      p.matchesPlayed++;
+      if (p.playerId === winnerId) p.matchesWon++;
+    });
+
+    this._updateRatings(
+      config.subject,
+      match.players.map(p => ({ playerId: p.playerId, username: p.username, score: p.currentScore }))
+    );
 
     console.log(`[TournamentManager] Quick match ${match.matchId} completed`);
 
     this._notifyQuickMatchUpdate(match);
+    this._notifyMatchEnd({
+      matchId: match.matchId,
+      playerIds: match.players.map(p => p.playerId),
+      winnerId,
+      results: match.players.map(p => ({
+        playerId: p.playerId,
+        username: p.username,
+        score: p.currentScore
+      }))
+    });
 
     // Cleanup after delay
     setTimeout(() => {
-      match.players.forEach(p => this._playerQuickMatches.delete(p.playerId));
+      match.players.forEach(p => {
+        this._playerQuickMatches.delete(p.playerId);
+        this._playerUsernames.delete(p.playerId);
+      });
       this._quickMatches.delete(match.matchId);
+      this._matchRandoms.delete(match.matchId);
     }, 10000);
   }
 
-  private _getCurrentQuickMatchQuestion(match: QuickMatchState): Question | null {
-    return (match as any)._currentQuestion || null;
+  /**
+   * Validate an answer and apply it to a participant's stats
+   */
+  private _scoreAnswer(
+    matchId: string,
+    participant: TournamentParticipant,
+    question: Question,
+    answer: string,
+    responseTime: number
+  ): MatchAnswerResult {
+    const credit = this._questionRegistry.gradeAnswer(question, answer);
+    const isCorrect = credit === 1;
+    let pointsEarned = 0;
+
+    if (isCorrect) {
+      pointsEarned = this._calculateQuickMatchPoints(responseTime, question);
+      participant.correctAnswers++;
+      participant.currentScore += pointsEarned;
+      participant.streak++;
+      if (participant.streak > participant.bestStreak) {
+        participant.bestStreak = participant.streak;
+      }
+    } else {
+      // A sequence with the right start still earns its share, without the streak
+      pointsEarned = Math.round(this._calculateQuickMatchPoints(responseTime, question) * credit);
+      participant.currentScore += pointsEarned;
+      participant.wrongAnswers++;
+      participant.streak = 0;
+    }
+
+    // Update average response time
+    const totalAnswers = participant.correctAnswers + participant.wrongAnswers;
+    participant.averageResponseTime =
+      ((participant.averageResponseTime * (totalAnswers - 1)) + responseTime) / totalAnswers;
+    participant.lastActiveAt = Date.now();
+
+    return {
+      matchId,
+      isCorrect,
+      pointsEarned,
+      responseTime,
+      correctAnswer: question.correctAnswer
+    };
+  }
+
+  /**
+   * Find the in-progress match a player is competing in
+   */
+  private _findActiveMatch(tournament: Tournament, playerId: string): TournamentMatch | null {
+    // League matches from any round may be in play, so search every round
+    const candidates = [
+      ...(tournament.currentMatch ? [tournament.currentMatch] : []),
+      ...tournament.rounds.flatMap(round => round.matches)
+    ];
+
+    return candidates.find(m =>
+      m.status === 'in-progress' &&
+      (m.participant1Id === playerId || m.participant2Id === playerId)
+    ) || null;
   }
 
-  private _calculateQuickMatchPoints(responseTime: number): number {
-    // Base 100 points, bonus for speed
+  private _getMatchPlayerIds(match: TournamentMatch): string[] {
+    return [match.participant1Id, match.participant2Id].filter((id): id is string => id !== null);
+  }
+
+  private _calculateQuickMatchPoints(responseTime: number, question: Question): number {
+    // Base 100 points, bonus for speed, scaled by how easy the format is to guess
     let points = 100;
     if (responseTime < 2) points += 50;
     else if (responseTime < 5) points += 25;
     else if (responseTime < 8) points += 10;
-    return points;
+    return Math.round(points * ScoringSystem.getInstance().getConfig().formatMultipliers[getQuestionFormat(question)]);
   }
 
   private _checkQuickMatchTimeout(playerId: string, queueKey: string): void {
     const queue = this._quickMatchQueues.get(queueKey);
     if (queue?.has(playerId)) {
       queue.delete(playerId);
+      this._queueJoinTimes.delete(playerId);
       console.log(`[TournamentManager] Player ${playerId} quick match queue timeout`);
     }
   }
@@ -1096,6 +2118,7 @@ export class TournamentManager {
 
     const match: QuickMatchState = {
       matchId,
+      seed: config.seed || createRandomSeed(),
       players,
       currentQuestion: 0,
       totalQuestions: config.questionsPerRound,
@@ -1104,6 +2127,7 @@ export class TournamentManager {
     };
 
     this._quickMatches.set(matchId, match);
+    this._matchRandoms.set(matchId, createSeededRandom(match.seed));
     this._playerQuickMatches.set(challenge.challengerId, matchId);
     this._playerQuickMatches.set(challenge.challengedId, matchId);
 
@@ -1119,6 +2143,51 @@ export class TournamentManager {
     }
   }
 
+  // ============ Ratings ============
+
+  /**
+   * Update Elo ratings after a match. Every pair of players counts as one game decided
+   * by score (equal scores draw); with more than two players K is shared across opponents.
+   */
+  private _updateRatings(
+    subject: SubjectType,
+    results: { playerId: string; username: string; score: number }[]
+  ): void {
+    if (results.length < 2) return;
+
+    const persistence = PersistenceManager.getInstance();
+    const leaderboard = LeaderboardManager.getInstance();
+    const ratings = new Map(results.map(r => [r.playerId, persistence.getRating(r.playerId, subject)]));
+
+    for (const result of results) {
+      const rating = ratings.get(result.playerId)!;
+      let delta = 0;
+
+      for (const opponent of results) {
+        if (opponent === result) continue;
+
+        const expected = 1 / (1 + Math.pow(10, (ratings.get(opponent.playerId)! - rating) / 400));
+        const actual = result.score > opponent.score ? 1 : result.score < opponent.score ? 0 : 0.5;
+        delta += actual - expected;
+      }
+
+      const kFactor = persistence.getRatedMatches(result.playerId, subject) < RATING_PROVISIONAL_MATCHES
+        ? RATING_PROVISIONAL_K_FACTOR
+        : RATING_K_FACTOR;
+      const newRating = Math.round(rating + (kFactor / (results.length - 1)) * delta);
+
+      if (!persistence.getPlayerData(result.playerId)) continue; // Left the server - rating unchanged
+      persistence.updateRating(result.playerId, subject, newRating);
+
+      const best = persistence.getBestRating(result.playerId);
+      if (best) {
+        leaderboard.submitRating(result.playerId, result.username, best.rating, best.subject);
+      }
+
+      console.log(`[TournamentManager] ${result.username} ${subject} rating ${rating} -> ${newRating}`);
+    }
+  }
+
   // ============ Utilities ============
 
   private _generateId(): string {
@@ -1134,10 +2203,10 @@ export class TournamentManager {
     return code;
   }
 
-  private _shuffleArray<T>(array: T[]): T[] {
+  private _shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
     const result = [...array];
     for (let i = result.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [result[i], result[j]] = [result[j], result[i]];
     }
     return result;
@@ -1151,6 +2220,14 @@ export class TournamentManager {
     this._onQuickMatchUpdate.forEach(cb => cb(match));
   }
 
+  private _notifyMatchQuestion(event: MatchQuestionEvent): void {
+    this._onMatchQuestion.forEach(cb => cb(event));
+  }
+
+  private _notifyMatchEnd(event: MatchEndEvent): void {
+    this._onMatchEnd.forEach(cb => cb(event));
+  }
+
   // ============ Persistence ============
 
   /**
@@ -1212,11 +2289,33 @@ export class TournamentManager {
    */
   public loadPersistedTournaments(data: PersistedTournament[]): void {
     for (const tournamentData of data) {
-      // Only load ongoing tournaments
+      // Only ongoing leagues can be resumed (reconnecting restarts them); other formats end with the session
+      if (tournamentData.config.type !== 'league') continue;
       if (tournamentData.status === 'waiting' || tournamentData.status === 'in-progress') {
+        if (this._tournaments.has(tournamentData.id)) continue;
+
         const tournament = this.deserializeTournament(tournamentData);
         this._tournaments.set(tournament.id, tournament);
 
+        // Nobody is connected right after a restart - players reattach as they rejoin
+        for (const participant of tournament.participants.values()) {
+          participant.isConnected = false;
+        }
+
+        // Matches interrupted mid-play are replayed from the start
+        for (const round of tournament.rounds) {
+          for (const match of round.matches) {
+            if (match.status === 'in-progress') {
+              match.status = 'pending';
+              match.participant1Score = 0;
+              match.participant2Score = 0;
+              match.currentQuestionIndex = 0;
+              match.startedAt = undefined;
+              match.questionStartTime = undefined;
+            }
+          }
+        }
+
         // Re-map participants
         for (const [playerId] of tournament.participants) {
           this._playerTournaments.set(playerId, tournament.id);
@@ -1233,4 +2332,42 @@ export class TournamentManager {
   public getAllTournamentsForPersistence(): PersistedTournament[] {
     return Array.from(this._tournaments.values()).map(t => this.serializeTournament(t));
   }
+
+  /**
+   * Restore ongoing leagues saved by a previous server session
+   */
+  public async restorePersistedTournaments(): Promise<void> {
+    try {
+      const saved = await PersistenceManager.getInstance()
+        .loadGlobalData<{ tournaments: PersistedTournament[] }>(TOURNAMENT_STORAGE_KEY);
+
+      if (saved?.tournaments?.length) {
+        this.loadPersistedTournaments(saved.tournaments);
+      }
+    } catch (error) {
+      console.error('[TournamentManager] Error restoring saved tournaments:', error);
+    } finally {
+      // Write out anything created or updated while loading, now merged with the restored ones
+      this._restoreFinished = true;
+      if (this._persistPending) {
+        this._persistPending = false;
+        this._persistTournaments();
+      }
+    }
+  }
+
+  /**
+   * Save ongoing leagues so they survive server restarts
+   */
+  private _persistTournaments(): void {
+    if (!this._restoreFinished) {
+      this._persistPending = true;
+      return;
+    }
+
+    const ongoing = this.getAllTournamentsForPersistence()
+      .filter(t => t.config.type === 'league' && (t.status === 'waiting' || t.status === 'in-progress'));
+
+    PersistenceManager.getInstance().saveGlobalData(TOURNAMENT_STORAGE_KEY, { tournaments: ongoing });
+  }
 }
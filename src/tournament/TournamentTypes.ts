@@ -3,19 +3,23 @@
  *
  * Supports:
  * - Quick Match (2-4 players, instant)
- * - Bracket Tournaments (8-32 players)
+ * - Bracket Tournaments (up to 32 players, byes fill uneven fields)
+ * - Double-Elimination (losers bracket, grand final with reset)
+ * - Swiss (fixed rounds paired by record, no rematches)
  * - Leagues (ongoing competitions)
  * - Challenges (1v1 direct challenges)
  */
 
 import type { Player } from 'hytopia';
-import type { SubjectType, QuestionDifficulty } from '../questions/QuestionProvider';
+import type { SubjectType, QuestionDifficulty, Question } from '../questions/QuestionProvider';
 
 // ============ Tournament Type Enums ============
 
-export type TournamentType = 'quick-match' | 'bracket' | 'league' | 'challenge';
+export type TournamentType = 'quick-match' | 'bracket' | 'double-elimination' | 'swiss' | 'league' | 'challenge';
 export type TournamentStatus = 'waiting' | 'starting' | 'in-progress' | 'completed' | 'cancelled';
 export type TournamentVisibility = 'public' | 'private';
+export type BracketSeeding = 'leaderboard' | 'accuracy' | 'random';
+export type MatchBracket = 'winners' | 'losers' | 'grand-final' | 'grand-final-reset';
 
 // ============ Participant Types ============
 
@@ -37,6 +41,7 @@ export interface TournamentParticipant {
   matchesWon: number;
   eliminated: boolean;
   finalPlacement?: number;
+  seed?: number; // Bracket seed (1 = top seed)
 
   // Connection state
   isConnected: boolean;
@@ -50,6 +55,7 @@ export interface TournamentMatch {
   tournamentId: string;
   roundNumber: number;
   matchNumber: number;
+  bracket?: MatchBracket; // Double-elimination only
 
   // Participants
   participant1Id: string | null;
@@ -70,6 +76,7 @@ export interface TournamentMatch {
   // Timing
   startedAt?: number;
   completedAt?: number;
+  questionStartTime?: number;
 }
 
 // ============ Round Types ============
@@ -95,14 +102,19 @@ export interface TournamentConfig {
   subject: SubjectType;
   difficulty: QuestionDifficulty;
   category?: string; // Optional specific category
+  gradeLevel?: number; // Class grade (K=0, 1-12) - keeps questions to its band
+  standard?: string; // Only questions tagged with this standard code (or under this prefix)
 
   // Match settings
   questionsPerMatch: number;
   timePerQuestion?: number; // Seconds, optional time limit
+  seed?: string; // Question seed - every match's questions can be replayed from it (generated if omitted)
 
   // Participant settings
   minParticipants: number;
   maxParticipants: number;
+  seeding?: BracketSeeding; // Bracket seeding source (defaults to all-time leaderboard rank)
+  swissRounds?: number; // Swiss round count (defaults to log2 of the field)
 
   // Timing
   startDelay?: number; // Seconds to wait after min participants join
@@ -170,10 +182,12 @@ export interface QuickMatchConfig {
   category?: string;
   playerCount: 2 | 3 | 4;
   questionsPerRound: number;
+  seed?: string; // Question seed (generated per match if omitted)
 }
 
 export interface QuickMatchState {
   matchId: string;
+  seed: string; // Replays this match's questions and answer order
   players: TournamentParticipant[];
   currentQuestion: number;
   totalQuestions: number;
@@ -196,12 +210,14 @@ export interface LeagueSeason {
 export interface LeagueStanding {
   playerId: string;
   username: string;
-  points: number;
+  points: number; // 3 per win, 1 per draw
   matchesPlayed: number;
   matchesWon: number;
+  matchesDrawn: number;
   totalCorrect: number;
   totalWrong: number;
   averageScore: number;
+  buchholz?: number; // Swiss: sum of opponents' points
   rank: number;
 }
 
@@ -218,6 +234,7 @@ export interface DirectChallenge {
     subject: SubjectType;
     difficulty: QuestionDifficulty;
     questionsPerMatch: number;
+    seed?: string;
   };
 
   status: 'pending' | 'accepted' | 'declined' | 'in-progress' | 'completed' | 'expired';
@@ -256,6 +273,51 @@ export interface PersistedTournament {
   }>;
 }
 
+// ============ Gameplay Types ============
+
+/**
+ * Emitted when a match question opens - every listed player gets the same question
+ */
+export interface MatchQuestionEvent {
+  matchId: string;
+  tournamentId?: string; // Undefined for quick matches and challenges
+  playerIds: string[];
+  question: Question;
+  answerOrder: string[]; // Same block order for everyone in the match
+  questionNumber: number; // 1-based
+  totalQuestions: number;
+  timeLimitMs: number;
+  isSuddenDeath?: boolean; // Tiebreak question after regulation ended level
+}
+
+/**
+ * Result of a single answer submitted during a match
+ */
+export interface MatchAnswerResult {
+  matchId: string;
+  isCorrect: boolean;
+  pointsEarned: number;
+  responseTime: number; // Seconds
+  correctAnswer: string;
+}
+
+export interface MatchPlayerResult {
+  playerId: string;
+  username: string;
+  score: number;
+}
+
+/**
+ * Emitted when a match finishes (results sorted by score, highest first)
+ */
+export interface MatchEndEvent {
+  matchId: string;
+  tournamentId?: string;
+  playerIds: string[];
+  winnerId: string | null;
+  results: MatchPlayerResult[];
+}
+
 // ============ Event Types ============
 
 export type TournamentEventType =